@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "oauth_states" (
+    "id" SERIAL NOT NULL,
+    "stateHash" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "codeVerifier" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER,
+
+    CONSTRAINT "oauth_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_states_stateHash_key" ON "oauth_states"("stateHash");
+
+-- CreateIndex
+CREATE INDEX "oauth_states_userId_idx" ON "oauth_states"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_provider_providerId_key" ON "users"("provider", "providerId");
+
+-- AddForeignKey
+ALTER TABLE "oauth_states" ADD CONSTRAINT "oauth_states_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
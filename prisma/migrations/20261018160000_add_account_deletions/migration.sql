@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "account_deletions" (
+    "id" SERIAL NOT NULL,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "writeOffDebts" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "account_deletions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_deletions_userId_key" ON "account_deletions"("userId");
+
+-- CreateIndex
+CREATE INDEX "account_deletions_scheduledFor_idx" ON "account_deletions"("scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "account_deletions" ADD CONSTRAINT "account_deletions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
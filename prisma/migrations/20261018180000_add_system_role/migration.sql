@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "SystemRole" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" "SystemRole" NOT NULL DEFAULT 'USER';
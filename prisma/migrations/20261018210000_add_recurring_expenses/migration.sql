@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "recurringExpenseId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "recurring_expenses" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT,
+    "schedule" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "maxOccurrences" INTEGER,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3),
+    "isPaused" BOOLEAN NOT NULL DEFAULT false,
+    "splitType" "SplitType",
+    "splitParticipants" JSONB,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "groupId" INTEGER,
+    "categoryId" INTEGER,
+
+    CONSTRAINT "recurring_expenses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recurring_expenses_userId_idx" ON "recurring_expenses"("userId");
+
+-- CreateIndex
+CREATE INDEX "recurring_expenses_nextRunAt_idx" ON "recurring_expenses"("nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expenses_recurringExpenseId_occurrenceDate_key" ON "expenses"("recurringExpenseId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_recurringExpenseId_fkey" FOREIGN KEY ("recurringExpenseId") REFERENCES "recurring_expenses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_expenses" ADD CONSTRAINT "recurring_expenses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_expenses" ADD CONSTRAINT "recurring_expenses_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_expenses" ADD CONSTRAINT "recurring_expenses_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
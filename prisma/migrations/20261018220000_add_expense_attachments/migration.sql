@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "expense_attachments" (
+    "id" SERIAL NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expenseId" INTEGER NOT NULL,
+    "uploadedById" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_attachments_storageKey_key" ON "expense_attachments"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "expense_attachments_expenseId_idx" ON "expense_attachments"("expenseId");
+
+-- AddForeignKey
+ALTER TABLE "expense_attachments" ADD CONSTRAINT "expense_attachments_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_attachments" ADD CONSTRAINT "expense_attachments_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
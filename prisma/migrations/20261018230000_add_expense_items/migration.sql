@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "ExpenseAdjustmentType" AS ENUM ('TAX', 'TIP', 'SERVICE_CHARGE', 'DISCOUNT');
+
+-- AlterEnum
+ALTER TYPE "SplitType" ADD VALUE 'ITEMIZED';
+
+-- CreateTable
+CREATE TABLE "expense_items" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expenseId" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_item_assignees" (
+    "itemId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_item_assignees_pkey" PRIMARY KEY ("itemId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "expense_adjustments" (
+    "id" SERIAL NOT NULL,
+    "type" "ExpenseAdjustmentType" NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "description" TEXT,
+    "expenseId" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expense_items_expenseId_idx" ON "expense_items"("expenseId");
+
+-- CreateIndex
+CREATE INDEX "expense_adjustments_expenseId_idx" ON "expense_adjustments"("expenseId");
+
+-- AddForeignKey
+ALTER TABLE "expense_items" ADD CONSTRAINT "expense_items_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_item_assignees" ADD CONSTRAINT "expense_item_assignees_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "expense_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_item_assignees" ADD CONSTRAINT "expense_item_assignees_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_adjustments" ADD CONSTRAINT "expense_adjustments_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
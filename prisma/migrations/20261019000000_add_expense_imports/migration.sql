@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "ImportAmountSign" AS ENUM ('NEGATIVE', 'POSITIVE');
+
+-- CreateEnum
+CREATE TYPE "ImportBatchStatus" AS ENUM ('PENDING', 'COMMITTED', 'UNDONE');
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "importBatchId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "import_profiles" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "hasHeader" BOOLEAN NOT NULL DEFAULT true,
+    "dateColumn" TEXT NOT NULL,
+    "descriptionColumn" TEXT NOT NULL,
+    "amountColumn" TEXT,
+    "debitColumn" TEXT,
+    "creditColumn" TEXT,
+    "amountSign" "ImportAmountSign" NOT NULL DEFAULT 'NEGATIVE',
+    "dateFormat" TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    "decimalSeparator" TEXT NOT NULL DEFAULT '.',
+    "currency" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "import_batches" (
+    "id" SERIAL NOT NULL,
+    "status" "ImportBatchStatus" NOT NULL DEFAULT 'PENDING',
+    "fileName" TEXT NOT NULL,
+    "currency" TEXT,
+    "rows" JSONB NOT NULL,
+    "expenseCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedAt" TIMESTAMP(3),
+    "undoneAt" TIMESTAMP(3),
+    "userId" INTEGER NOT NULL,
+    "groupId" INTEGER,
+    "profileId" INTEGER,
+
+    CONSTRAINT "import_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_profiles_userId_name_key" ON "import_profiles"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "import_batches_userId_idx" ON "import_batches"("userId");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_profiles" ADD CONSTRAINT "import_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "import_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
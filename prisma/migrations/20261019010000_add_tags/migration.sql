@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER,
+    "groupId" INTEGER,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id"),
+    -- A tag is either personal or shared with a group
+    CONSTRAINT "tags_owner_check" CHECK (("userId" IS NULL) <> ("groupId" IS NULL))
+);
+
+-- CreateTable
+CREATE TABLE "expense_tags" (
+    "expenseId" INTEGER NOT NULL,
+    "tagId" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_tags_pkey" PRIMARY KEY ("expenseId","tagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_userId_name_key" ON "tags"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_groupId_name_key" ON "tags"("groupId", "name");
+
+-- CreateIndex
+CREATE INDEX "expense_tags_tagId_idx" ON "expense_tags"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "tags" ADD CONSTRAINT "tags_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tags" ADD CONSTRAINT "tags_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_tags" ADD CONSTRAINT "expense_tags_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_tags" ADD CONSTRAINT "expense_tags_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
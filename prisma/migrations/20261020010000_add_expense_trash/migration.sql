@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "expenses_deletedAt_idx" ON "expenses"("deletedAt");
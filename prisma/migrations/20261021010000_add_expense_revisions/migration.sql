@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "ExpenseRevisionAction" AS ENUM ('CREATED', 'UPDATED', 'SPLITS_UPDATED', 'DELETED', 'RESTORED', 'REVERTED');
+
+-- CreateTable
+CREATE TABLE "expense_revisions" (
+    "id" SERIAL NOT NULL,
+    "action" "ExpenseRevisionAction" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "revertedToId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expenseId" INTEGER NOT NULL,
+    "actorId" INTEGER,
+
+    CONSTRAINT "expense_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expense_revisions_expenseId_id_idx" ON "expense_revisions"("expenseId", "id");
+
+-- AddForeignKey
+ALTER TABLE "expense_revisions" ADD CONSTRAINT "expense_revisions_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_revisions" ADD CONSTRAINT "expense_revisions_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start the history of existing expenses with their current state
+INSERT INTO "expense_revisions" ("action", "changes", "snapshot", "createdAt", "expenseId", "actorId")
+SELECT
+    'CREATED',
+    '[]'::jsonb,
+    jsonb_build_object(
+        'title', e."title",
+        'description', e."description",
+        'amount', trim_scale(e."amount")::text,
+        'currency', e."currency",
+        'paidAt', to_char(e."paidAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'categoryId', e."categoryId",
+        'deletedAt', to_char(e."deletedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'tagIds', COALESCE(
+            (SELECT jsonb_agg(t."tagId" ORDER BY t."tagId") FROM "expense_tags" t WHERE t."expenseId" = e."id"),
+            '[]'::jsonb
+        ),
+        'payers', COALESCE(
+            (SELECT jsonb_agg(
+                jsonb_build_object('userId', p."userId", 'amount', trim_scale(p."amount")::text)
+                ORDER BY p."userId"
+            ) FROM "expense_payers" p WHERE p."expenseId" = e."id"),
+            '[]'::jsonb
+        ),
+        'splits', COALESCE(
+            (SELECT jsonb_agg(
+                jsonb_build_object(
+                    'userId', s."userId",
+                    'amount', trim_scale(s."amount")::text,
+                    'splitType', s."splitType",
+                    'percentage', s."percentage",
+                    'isPaid', s."isPaid"
+                )
+                ORDER BY s."userId"
+            ) FROM "expense_splits" s WHERE s."expenseId" = e."id"),
+            '[]'::jsonb
+        )
+    ),
+    CURRENT_TIMESTAMP,
+    e."id",
+    e."userId"
+FROM "expenses" e
+ORDER BY e."id";
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "expense_comments" (
+    "id" SERIAL NOT NULL,
+    "body" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expenseId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_comment_mentions" (
+    "commentId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "expense_comment_mentions_pkey" PRIMARY KEY ("commentId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "expense_comments_expenseId_createdAt_idx" ON "expense_comments"("expenseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "expense_comment_mentions_userId_idx" ON "expense_comment_mentions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "expense_comments" ADD CONSTRAINT "expense_comments_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_comments" ADD CONSTRAINT "expense_comments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_comment_mentions" ADD CONSTRAINT "expense_comment_mentions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "expense_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_comment_mentions" ADD CONSTRAINT "expense_comment_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "createdById" INTEGER;
+
+-- Until now every expense was recorded by the user who paid it
+UPDATE "expenses" SET "createdById" = "userId";
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
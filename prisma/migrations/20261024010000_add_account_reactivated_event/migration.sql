@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SecurityEventType" ADD VALUE 'ACCOUNT_REACTIVATED';
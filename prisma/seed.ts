@@ -137,6 +137,19 @@ async function main() {
 
   console.log('✅ Demo user created/updated')
 
+  // Grant the ADMIN system role to an existing account (there is no other way to get the first admin)
+  if (process.env.ADMIN_EMAIL) {
+    const promoted = await prisma.user.updateMany({
+      where: { email: process.env.ADMIN_EMAIL },
+      data: { role: 'ADMIN' },
+    })
+    console.log(
+      promoted.count > 0
+        ? `✅ Granted admin role to ${process.env.ADMIN_EMAIL}`
+        : `⚠️ No user found with email ${process.env.ADMIN_EMAIL}, admin role not granted`
+    )
+  }
+
   // Create some sample expenses with categories
   console.log('💰 Creating sample expenses...')
   
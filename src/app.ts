@@ -3,14 +3,32 @@ import { PrismaClient } from '@prisma/client';
 import fastifySwagger from '@fastify/swagger';
 import fastifySwaggerUI from '@fastify/swagger-ui';
 import fastifySensible from '@fastify/sensible';
+import fastifyMultipart from '@fastify/multipart';
 import healthRoute from './routes/health.js';
 import expensesRoute from './routes/expenses.js';
 import expenseSplitsRoute from './routes/expenseSplits.js';
+import expenseItemsRoute from './routes/expenseItems.js';
+import expenseExportsRoute from './routes/expenseExports.js';
+import expenseHistoryRoute from './routes/expenseHistory.js';
+import expenseCommentsRoute from './routes/expenseComments.js';
+import expenseBulkRoute from './routes/expenseBulk.js';
+import attachmentsRoute from './routes/attachments.js';
+import importsRoute from './routes/imports.js';
 import settlementsRoute from './routes/settlements.js';
 import usersRoute from './routes/users.js';
+import oauthRoute from './routes/oauth.js';
+import mfaRoute from './routes/mfa.js';
+import apiTokensRoute from './routes/apiTokens.js';
+import dataExportsRoute from './routes/dataExports.js';
+import accountRoute from './routes/account.js';
+import securityEventsRoute from './routes/securityEvents.js';
 import groupsRoute from './routes/groups.js';
 import friendsRoute from './routes/friends.js';
 import categoriesRoute from './routes/categories.js';
+import tagsRoute from './routes/tags.js';
+import recurringExpensesRoute from './routes/recurringExpenses.js';
+import adminRoute from './routes/admin.js';
+import { ATTACHMENT_MAX_BYTES } from './utils/attachments.js';
 
 // Initialize Prisma client
 export const prisma = new PrismaClient();
@@ -41,11 +59,16 @@ async function createApp() {
         { name: 'users', description: 'User management endpoints' },
         { name: 'expenses', description: 'Expense management endpoints' },
         { name: 'expense-splits', description: 'Expense splitting endpoints' },
+        { name: 'attachments', description: 'Expense receipt and document endpoints' },
+        { name: 'imports', description: 'Bank statement import endpoints' },
+        { name: 'recurring-expenses', description: 'Scheduled recurring expense endpoints' },
         { name: 'settlements', description: 'Settlement tracking endpoints' },
         { name: 'groups', description: 'Group management endpoints' },
         { name: 'friends', description: 'Friend system endpoints' },
         { name: 'categories', description: 'Expense category management endpoints' },
+        { name: 'tags', description: 'Expense tag endpoints' },
         { name: 'analytics', description: 'Analytics and reporting endpoints' },
+        { name: 'admin', description: 'Platform administration endpoints (ADMIN role only)' },
       ],
     },
   });
@@ -60,15 +83,36 @@ async function createApp() {
 
   await app.register(fastifySensible);
 
+  // File uploads (expense attachments, statement imports), one file per request
+  await app.register(fastifyMultipart, {
+    limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1 },
+  });
+
   // Register routes
   await app.register(healthRoute);
   await app.register(usersRoute, { prefix: '/api/v1' });
+  await app.register(oauthRoute, { prefix: '/api/v1' });
+  await app.register(mfaRoute, { prefix: '/api/v1' });
+  await app.register(apiTokensRoute, { prefix: '/api/v1' });
+  await app.register(dataExportsRoute, { prefix: '/api/v1' });
+  await app.register(accountRoute, { prefix: '/api/v1' });
+  await app.register(securityEventsRoute, { prefix: '/api/v1' });
   await app.register(expensesRoute, { prefix: '/api/v1' });
   await app.register(expenseSplitsRoute, { prefix: '/api/v1' });
+  await app.register(expenseItemsRoute, { prefix: '/api/v1' });
+  await app.register(expenseExportsRoute, { prefix: '/api/v1' });
+  await app.register(expenseHistoryRoute, { prefix: '/api/v1' });
+  await app.register(expenseCommentsRoute, { prefix: '/api/v1' });
+  await app.register(expenseBulkRoute, { prefix: '/api/v1' });
+  await app.register(attachmentsRoute, { prefix: '/api/v1' });
+  await app.register(importsRoute, { prefix: '/api/v1' });
+  await app.register(recurringExpensesRoute, { prefix: '/api/v1' });
   await app.register(settlementsRoute, { prefix: '/api/v1' });
   await app.register(groupsRoute, { prefix: '/api/v1' });
   await app.register(friendsRoute, { prefix: '/api/v1' });
   await app.register(categoriesRoute, { prefix: '/api/v1' });
+  await app.register(tagsRoute, { prefix: '/api/v1' });
+  await app.register(adminRoute, { prefix: '/api/v1/admin' });
 
   // Graceful shutdown
   const gracefulShutdown = async () => {
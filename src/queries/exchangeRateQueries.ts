@@ -0,0 +1,37 @@
+// src/queries/exchangeRateQueries.ts
+// Exchange rate lookups shared by the rate admin and balance conversion
+
+import { PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const prisma = new PrismaClient();
+
+/**
+ * Get the rate converting one unit of `from` into `to`, as of the given date
+ * Uses the latest rate effective on or before that date, falling back to the inverse pair
+ */
+export async function getExchangeRateQuery(
+  from: string,
+  to: string,
+  asOf: Date = new Date()
+): Promise<Decimal | null> {
+  if (from === to) {
+    return new Decimal(1);
+  }
+
+  const direct = await prisma.exchangeRate.findFirst({
+    where: { baseCurrency: from, quoteCurrency: to, effectiveDate: { lte: asOf } },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  if (direct) {
+    return direct.rate;
+  }
+
+  const inverse = await prisma.exchangeRate.findFirst({
+    where: { baseCurrency: to, quoteCurrency: from, effectiveDate: { lte: asOf } },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  return inverse ? new Decimal(1).dividedBy(inverse.rate) : null;
+}
@@ -0,0 +1,193 @@
+// src/queries/expenseRevisionQueries.ts
+// Expense history recording shared by every repository that changes an expense or its splits
+
+import {
+  ExpenseRevision,
+  ExpenseRevisionAction,
+  Prisma,
+  PrismaClient,
+  SplitType,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const prisma = new PrismaClient();
+
+/** State of an expense as stored on each revision; amounts are decimal strings */
+export interface ExpenseSnapshot {
+  title: string;
+  description: string | null;
+  amount: string;
+  currency: string;
+  paidAt: string;
+  groupId?: number | null; // Missing on revisions recorded before the group was tracked
+  categoryId: number | null;
+  deletedAt: string | null;
+  tagIds: number[];
+  payers: Array<{ userId: number; amount: string }>;
+  splits: Array<{
+    userId: number;
+    amount: string;
+    splitType: SplitType;
+    percentage: number | null;
+    isPaid: boolean;
+  }>;
+}
+
+/** One changed field; payers and splits are compared per user as payers.<userId> and splits.<userId> */
+export interface ExpenseRevisionChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+const SNAPSHOT_FIELDS = [
+  'title',
+  'description',
+  'amount',
+  'currency',
+  'paidAt',
+  'groupId',
+  'categoryId',
+  'deletedAt',
+  'tagIds',
+] as const;
+
+function toAmount(amount: Decimal): string {
+  return amount.toFixed();
+}
+
+/** Compare JSON values regardless of key order, which stored snapshots don't keep */
+function sameJson(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): string => {
+    if (Array.isArray(value)) {
+      return `[${value.map(canonical).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value).sort(([left], [right]) => left.localeCompare(right));
+      return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonical(entry)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  };
+
+  return canonical(a) === canonical(b);
+}
+
+/** Load an expense's current state, including while it is in the trash */
+export async function getExpenseSnapshotQuery(
+  expenseId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<ExpenseSnapshot> {
+  const expense = await client.expense.findUnique({
+    where: { id: expenseId },
+    include: {
+      tags: { select: { tagId: true }, orderBy: { tagId: 'asc' } },
+      payers: { select: { userId: true, amount: true }, orderBy: { userId: 'asc' } },
+      splits: { orderBy: { userId: 'asc' } },
+    },
+  });
+
+  if (!expense) {
+    throw new Error('Expense not found');
+  }
+
+  return {
+    title: expense.title,
+    description: expense.description,
+    amount: toAmount(expense.amount),
+    currency: expense.currency,
+    paidAt: expense.paidAt.toISOString(),
+    groupId: expense.groupId,
+    categoryId: expense.categoryId,
+    deletedAt: expense.deletedAt ? expense.deletedAt.toISOString() : null,
+    tagIds: expense.tags.map(tag => tag.tagId),
+    payers: expense.payers.map(payer => ({ userId: payer.userId, amount: toAmount(payer.amount) })),
+    splits: expense.splits.map(split => ({
+      userId: split.userId,
+      amount: toAmount(split.amount),
+      splitType: split.splitType,
+      percentage: split.percentage,
+      isPaid: split.isPaid,
+    })),
+  };
+}
+
+/** Per-user changes between two lists of payers or splits */
+function diffByUser<T extends { userId: number }>(
+  field: string,
+  before: T[],
+  after: T[]
+): ExpenseRevisionChange[] {
+  const userIds = [...new Set([...before, ...after].map(entry => entry.userId))].sort(
+    (a, b) => a - b
+  );
+
+  return userIds.flatMap(userId => {
+    const from = before.find(entry => entry.userId === userId) ?? null;
+    const to = after.find(entry => entry.userId === userId) ?? null;
+    return sameJson(from, to) ? [] : [{ field: `${field}.${userId}`, from, to }];
+  });
+}
+
+/**
+ * Field-level differences between two snapshots of the same expense
+ * A field missing from an older snapshot is unknown there, so it isn't reported as changed
+ */
+export function diffExpenseSnapshots(
+  before: ExpenseSnapshot,
+  after: ExpenseSnapshot
+): ExpenseRevisionChange[] {
+  const fieldChanges = SNAPSHOT_FIELDS.filter(
+    field =>
+      before[field] !== undefined &&
+      after[field] !== undefined &&
+      !sameJson(before[field], after[field])
+  ).map(field => ({ field, from: before[field], to: after[field] }));
+
+  return [
+    ...fieldChanges,
+    ...diffByUser('payers', before.payers, after.payers),
+    ...diffByUser('splits', before.splits, after.splits),
+  ];
+}
+
+/**
+ * Record a revision holding the expense's current state and what changed since the last one
+ * Run it in the transaction that made the change. Updates that changed nothing are not recorded.
+ */
+export async function recordExpenseRevisionQuery(
+  client: Prisma.TransactionClient,
+  expenseId: number,
+  action: ExpenseRevisionAction,
+  actorId: number | null,
+  revertedToId?: number
+): Promise<ExpenseRevision | null> {
+  const snapshot = await getExpenseSnapshotQuery(expenseId, client);
+  const previous = await client.expenseRevision.findFirst({
+    where: { expenseId },
+    orderBy: { id: 'desc' },
+    select: { snapshot: true },
+  });
+
+  const changes = previous
+    ? diffExpenseSnapshots(previous.snapshot as unknown as ExpenseSnapshot, snapshot)
+    : [];
+
+  const onlyIfChanged: ExpenseRevisionAction[] = [
+    ExpenseRevisionAction.UPDATED,
+    ExpenseRevisionAction.SPLITS_UPDATED,
+  ];
+  if (previous && changes.length === 0 && onlyIfChanged.includes(action)) {
+    return null;
+  }
+
+  return client.expenseRevision.create({
+    data: {
+      expenseId,
+      action,
+      actorId,
+      revertedToId,
+      changes: changes as unknown as Prisma.InputJsonValue,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
@@ -1,7 +1,7 @@
 // src/queries/userQueries.ts
 // Complex SQL queries for user operations separated from business logic
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, SystemRole } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -21,10 +21,13 @@ export async function getUserProfileQuery(userId: number) {
       phoneNumber: true,
       provider: true,
       isEmailVerified: true,
+      role: true,
+      defaultCurrency: true,
       createdAt: true,
       updatedAt: true,
       lastLoginAt: true,
       expenses: {
+        where: { deletedAt: null },
         select: {
           id: true,
           title: true,
@@ -38,12 +41,45 @@ export async function getUserProfileQuery(userId: number) {
   });
 }
 
+export interface UserListFilters {
+  search?: string; // Matches email, name or username
+  role?: SystemRole;
+  isActive?: boolean;
+}
+
+function buildUserListWhere(filters: UserListFilters): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = {};
+
+  if (filters.search) {
+    where.OR = [
+      { email: { contains: filters.search, mode: 'insensitive' } },
+      { name: { contains: filters.search, mode: 'insensitive' } },
+      { username: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  if (filters.role) {
+    where.role = filters.role;
+  }
+
+  if (filters.isActive !== undefined) {
+    where.isActive = filters.isActive;
+  }
+
+  return where;
+}
+
 /**
  * List users with pagination and admin-level information
  * This query is used for admin operations and includes specific field selection
  */
-export async function listUsersQuery(skip: number = 0, take: number = 20) {
+export async function listUsersQuery(
+  skip: number = 0,
+  take: number = 20,
+  filters: UserListFilters = {}
+) {
   return prisma.user.findMany({
+    where: buildUserListWhere(filters),
     skip,
     take,
     select: {
@@ -54,6 +90,7 @@ export async function listUsersQuery(skip: number = 0, take: number = 20) {
       provider: true,
       isEmailVerified: true,
       isActive: true,
+      role: true,
       createdAt: true,
       lastLoginAt: true,
     },
@@ -61,6 +98,15 @@ export async function listUsersQuery(skip: number = 0, take: number = 20) {
   });
 }
 
+/**
+ * Count users matching the admin list filters
+ */
+export async function countUsersQuery(filters: UserListFilters = {}) {
+  return prisma.user.count({
+    where: buildUserListWhere(filters),
+  });
+}
+
 /**
  * Get user by ID with recent expenses included
  * This query includes a complex relationship with ordering and limiting
@@ -70,6 +116,7 @@ export async function getUserWithExpensesQuery(userId: number) {
     where: { id: userId },
     include: {
       expenses: {
+        where: { deletedAt: null },
         orderBy: { paidAt: 'desc' },
         take: 10, // Include last 10 expenses
       },
@@ -89,3 +136,62 @@ export async function getUserByProviderQuery(provider: string, providerId: strin
     },
   });
 }
+
+/**
+ * Get everything tied to a user for a full account data export
+ * Related users are limited to id and name so the export does not leak their contact details
+ */
+export async function getUserExportDataQuery(userId: number) {
+  const relatedUser = { select: { id: true, name: true } };
+
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      username: true,
+      avatar: true,
+      phoneNumber: true,
+      provider: true,
+      isEmailVerified: true,
+      isActive: true,
+      defaultCurrency: true,
+      createdAt: true,
+      updatedAt: true,
+      lastLoginAt: true,
+      expenses: {
+        include: {
+          group: { select: { id: true, name: true } },
+          category: { select: { id: true, name: true } },
+          splits: { include: { user: relatedUser }, orderBy: { id: 'asc' } },
+        },
+        orderBy: { paidAt: 'asc' },
+      },
+      expenseSplits: {
+        include: {
+          expense: {
+            select: {
+              id: true,
+              title: true,
+              amount: true,
+              currency: true,
+              paidAt: true,
+              groupId: true,
+              user: relatedUser,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      createdGroups: { orderBy: { createdAt: 'asc' } },
+      groupMembers: { include: { group: true }, orderBy: { joinedAt: 'asc' } },
+      sentFriendRequests: { include: { receiver: relatedUser }, orderBy: { createdAt: 'asc' } },
+      receivedFriendRequests: { include: { sender: relatedUser }, orderBy: { createdAt: 'asc' } },
+      friendships1: { include: { user2: relatedUser }, orderBy: { createdAt: 'asc' } },
+      friendships2: { include: { user1: relatedUser }, orderBy: { createdAt: 'asc' } },
+      categories: { orderBy: { createdAt: 'asc' } },
+      recurringExpenses: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+}
@@ -0,0 +1,259 @@
+import {
+  AccountDeletion,
+  ExpenseRevisionAction,
+  GroupMemberRole,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+import { AttachmentFiles, removeAttachmentFiles } from '../utils/attachments.js';
+import { recordExpenseRevisionQuery } from '../queries/expenseRevisionQueries.js';
+
+const prisma = new PrismaClient();
+
+// Time a user has to change their mind before the account is anonymized
+const ACCOUNT_DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
+
+// ===== Type Definitions =====
+
+export interface ScheduleAccountDeletionData {
+  writeOffDebts?: boolean;
+}
+
+// ===== Helper Functions =====
+
+/** Unpaid splits between the user and anyone else, in either direction */
+function outstandingSplitsWhere(userId: number): Prisma.ExpenseSplitWhereInput {
+  // Expenses without payer contributions were paid in full by their creator
+  const paidBySomeoneElse: Prisma.ExpenseWhereInput = {
+    OR: [
+      { userId: { not: userId }, payers: { none: {} } },
+      { payers: { some: { userId: { not: userId } } } },
+    ],
+  };
+  const paidByUser: Prisma.ExpenseWhereInput = {
+    OR: [{ userId, payers: { none: {} } }, { payers: { some: { userId } } }],
+  };
+
+  return {
+    isPaid: false,
+    expense: { deletedAt: null },
+    OR: [
+      { userId, expense: paidBySomeoneElse }, // User owes the payers
+      { userId: { not: userId }, expense: paidByUser }, // Others owe the user
+    ],
+  };
+}
+
+// ===== Deletion Operations =====
+
+/** Check whether a user still owes or is owed money */
+export async function hasOutstandingDebts(userId: number): Promise<boolean> {
+  const count = await prisma.expenseSplit.count({
+    where: outstandingSplitsWhere(userId),
+  });
+  return count > 0;
+}
+
+/** Deactivate the account and schedule it for deletion after the grace period */
+export async function scheduleAccountDeletion(
+  userId: number,
+  data: ScheduleAccountDeletionData = {}
+): Promise<AccountDeletion> {
+  const scheduledFor = new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  const writeOffDebts = data.writeOffDebts ?? false;
+
+  const [deletion] = await prisma.$transaction([
+    prisma.accountDeletion.upsert({
+      where: { userId },
+      create: { userId, scheduledFor, writeOffDebts },
+      update: { requestedAt: new Date(), scheduledFor, writeOffDebts, completedAt: null },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { isActive: false, updatedAt: new Date() },
+    }),
+  ]);
+
+  return deletion;
+}
+
+/** Cancel a pending deletion; returns false if none was scheduled */
+export async function cancelAccountDeletion(userId: number): Promise<boolean> {
+  const result = await prisma.accountDeletion.deleteMany({
+    where: { userId, completedAt: null },
+  });
+  return result.count > 0;
+}
+
+/** Get a user's pending (not yet carried out) deletion */
+export async function getPendingAccountDeletion(userId: number): Promise<AccountDeletion | null> {
+  return prisma.accountDeletion.findFirst({
+    where: { userId, completedAt: null },
+  });
+}
+
+/**
+ * Permanently delete a user's personal data.
+ * Expenses and splits shared with other users are kept so their balances stay correct;
+ * they remain attached to the user row, which is anonymized instead of removed.
+ */
+export async function deleteAccount(userId: number, writeOffDebts: boolean): Promise<void> {
+  let attachmentFiles: AttachmentFiles[] = [];
+
+  await prisma.$transaction(async tx => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (writeOffDebts) {
+      const writtenOff = await tx.expenseSplit.findMany({
+        where: outstandingSplitsWhere(userId),
+        select: { expenseId: true },
+      });
+      await tx.expenseSplit.updateMany({
+        where: outstandingSplitsWhere(userId),
+        data: { isPaid: true },
+      });
+      for (const { expenseId } of writtenOff) {
+        await recordExpenseRevisionQuery(
+          tx,
+          expenseId,
+          ExpenseRevisionAction.SPLITS_UPDATED,
+          userId
+        );
+      }
+    } else if ((await tx.expenseSplit.count({ where: outstandingSplitsWhere(userId) })) > 0) {
+      throw new Error('Account has outstanding debts');
+    }
+
+    // Stop creating expenses for the user (expenses already created are handled below)
+    await tx.recurringExpense.deleteMany({ where: { userId } });
+
+    // Expenses nobody else is part of go away entirely (splits and attachments cascade)
+    const privateExpenses: Prisma.ExpenseWhereInput = {
+      userId,
+      splits: { none: { userId: { not: userId } } },
+      payers: { none: { userId: { not: userId } } },
+      OR: [{ groupId: null }, { group: { members: { none: { userId: { not: userId } } } } }],
+    };
+    attachmentFiles = await tx.expenseAttachment.findMany({
+      where: { expense: privateExpenses },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+    await tx.expense.deleteMany({ where: privateExpenses });
+
+    // Don't leave groups without an admin: promote the longest-standing remaining member
+    const adminMemberships = await tx.groupMember.findMany({
+      where: { userId, role: GroupMemberRole.ADMIN },
+      select: { groupId: true },
+    });
+
+    for (const { groupId } of adminMemberships) {
+      const otherAdmins = await tx.groupMember.count({
+        where: { groupId, role: GroupMemberRole.ADMIN, userId: { not: userId } },
+      });
+
+      if (otherAdmins === 0) {
+        const successor = await tx.groupMember.findFirst({
+          where: { groupId, userId: { not: userId } },
+          orderBy: { joinedAt: 'asc' },
+        });
+
+        if (successor) {
+          await tx.groupMember.update({
+            where: { id: successor.id },
+            data: { role: GroupMemberRole.ADMIN },
+          });
+        }
+      }
+    }
+
+    await tx.groupMember.deleteMany({ where: { userId } });
+
+    // Groups the user created that are now empty
+    await tx.group.deleteMany({
+      where: { createdBy: userId, members: { none: {} }, expenses: { none: {} } },
+    });
+
+    await tx.friendRequest.deleteMany({
+      where: { OR: [{ senderId: userId }, { receiverId: userId }] },
+    });
+    await tx.friendship.deleteMany({
+      where: { OR: [{ user1Id: userId }, { user2Id: userId }] },
+    });
+    await tx.category.deleteMany({ where: { userId } });
+    await tx.tag.deleteMany({ where: { userId } });
+
+    // Credentials, sessions and everything else that only matters to the user
+    await tx.userSession.deleteMany({ where: { userId } });
+    await tx.userToken.deleteMany({ where: { userId } });
+    await tx.oAuthState.deleteMany({ where: { userId } });
+    await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+    await tx.userMfa.deleteMany({ where: { userId } });
+    await tx.apiToken.deleteMany({ where: { userId } });
+    await tx.dataExport.deleteMany({ where: { userId } });
+    await tx.importBatch.deleteMany({ where: { userId } });
+    await tx.importProfile.deleteMany({ where: { userId } });
+    await tx.securityEvent.deleteMany({ where: { userId } });
+    await tx.emailOutbox.deleteMany({ where: { to: user.email } });
+    await tx.loginThrottle.deleteMany({ where: { key: `account:${user.email}` } }); // see accountThrottleKey
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-user-${userId}@deleted.invalid`,
+        name: 'Deleted user',
+        username: null,
+        password: null,
+        avatar: null,
+        phoneNumber: null,
+        provider: 'deleted',
+        providerId: null,
+        isEmailVerified: false,
+        isActive: false,
+        lastLoginAt: null,
+        updatedAt: new Date(),
+      },
+    });
+
+    const completedAt = new Date();
+    await tx.accountDeletion.upsert({
+      where: { userId },
+      create: { userId, scheduledFor: completedAt, writeOffDebts, completedAt },
+      update: { completedAt },
+    });
+  });
+
+  // Stored files can only go once their records are gone; a file left behind doesn't undo the deletion
+  await removeAttachmentFiles(attachmentFiles).catch(() => undefined);
+}
+
+/**
+ * Carry out deletions whose grace period has ended.
+ * Deletions blocked by debts incurred during the grace period are retried on the next run.
+ */
+export async function processDueAccountDeletions(): Promise<number> {
+  const due = await prisma.accountDeletion.findMany({
+    where: { completedAt: null, scheduledFor: { lte: new Date() } },
+    select: { userId: true, writeOffDebts: true },
+  });
+
+  let deleted = 0;
+  for (const deletion of due) {
+    try {
+      await deleteAccount(deletion.userId, deletion.writeOffDebts);
+      deleted++;
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('outstanding debts'))) {
+        throw error;
+      }
+    }
+  }
+
+  return deleted;
+}
@@ -0,0 +1,100 @@
+import { PrismaClient, SystemRole } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Window used for the "new users" counter
+const RECENT_ACTIVITY_DAYS = 30;
+
+// ===== Type Definitions =====
+
+export interface PlatformStats {
+  users: {
+    total: number;
+    active: number;
+    deactivated: number;
+    verified: number;
+    admins: number;
+    pendingDeletion: number;
+    newLast30Days: number;
+  };
+  groups: {
+    total: number;
+    active: number;
+  };
+  expenses: {
+    total: number;
+    unpaidSplits: number;
+  };
+  categories: {
+    default: number;
+    custom: number;
+  };
+  friendships: number;
+  activeSessions: number;
+}
+
+// ===== Platform Statistics =====
+
+/** Platform-wide counts for the admin dashboard */
+export async function getPlatformStats(): Promise<PlatformStats> {
+  const now = new Date();
+  const since = new Date(now.getTime() - RECENT_ACTIVITY_DAYS * 24 * 60 * 60 * 1000);
+
+  const [
+    totalUsers,
+    activeUsers,
+    verifiedUsers,
+    admins,
+    pendingDeletion,
+    newUsers,
+    totalGroups,
+    activeGroups,
+    totalExpenses,
+    unpaidSplits,
+    defaultCategories,
+    customCategories,
+    friendships,
+    activeSessions,
+  ] = await prisma.$transaction([
+    prisma.user.count(),
+    prisma.user.count({ where: { isActive: true } }),
+    prisma.user.count({ where: { isEmailVerified: true } }),
+    prisma.user.count({ where: { role: SystemRole.ADMIN } }),
+    prisma.accountDeletion.count({ where: { completedAt: null } }),
+    prisma.user.count({ where: { createdAt: { gte: since } } }),
+    prisma.group.count(),
+    prisma.group.count({ where: { isActive: true } }),
+    prisma.expense.count({ where: { deletedAt: null } }),
+    prisma.expenseSplit.count({ where: { isPaid: false, expense: { deletedAt: null } } }),
+    prisma.category.count({ where: { isDefault: true } }),
+    prisma.category.count({ where: { isDefault: false } }),
+    prisma.friendship.count(),
+    prisma.userSession.count({ where: { revokedAt: null, expiresAt: { gt: now } } }),
+  ]);
+
+  return {
+    users: {
+      total: totalUsers,
+      active: activeUsers,
+      deactivated: totalUsers - activeUsers,
+      verified: verifiedUsers,
+      admins,
+      pendingDeletion,
+      newLast30Days: newUsers,
+    },
+    groups: {
+      total: totalGroups,
+      active: activeGroups,
+    },
+    expenses: {
+      total: totalExpenses,
+      unpaidSplits,
+    },
+    categories: {
+      default: defaultCategories,
+      custom: customCategories,
+    },
+    friendships,
+    activeSessions,
+  };
+}
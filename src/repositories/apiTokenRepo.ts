@@ -0,0 +1,113 @@
+import { PrismaClient } from '@prisma/client';
+import { ApiTokenScope, generateApiToken, hashToken } from '../utils/auth.js';
+
+const prisma = new PrismaClient();
+
+// Characters of the raw token kept for display (covers the "pat_" prefix plus a few more)
+const TOKEN_DISPLAY_PREFIX_LENGTH = 10;
+
+// ===== Type Definitions =====
+
+export interface CreateApiTokenData {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date;
+}
+
+export interface ApiTokenSummary {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedApiToken {
+  token: string; // Raw token, only ever shown to the user once
+  apiToken: ApiTokenSummary;
+}
+
+export interface AuthenticatedApiToken {
+  id: number;
+  userId: number;
+  scopes: string[];
+}
+
+const summarySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+// ===== Token Operations =====
+
+/** Create a personal API token for a user */
+export async function createApiToken(
+  userId: number,
+  data: CreateApiTokenData
+): Promise<CreatedApiToken> {
+  const token = generateApiToken();
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: data.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, TOKEN_DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(data.scopes)],
+      expiresAt: data.expiresAt,
+    },
+    select: summarySelect,
+  });
+
+  return { token, apiToken };
+}
+
+/** List a user's active (not revoked) API tokens */
+export async function listApiTokens(userId: number): Promise<ApiTokenSummary[]> {
+  return prisma.apiToken.findMany({
+    where: { userId, revokedAt: null },
+    select: summarySelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/** Revoke one of a user's API tokens */
+export async function revokeApiToken(userId: number, tokenId: number): Promise<void> {
+  const result = await prisma.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new Error('API token not found');
+  }
+}
+
+/** Look up a presented API token, recording its use; null if invalid, revoked or expired */
+export async function authenticateApiToken(
+  token: string,
+  ipAddress?: string
+): Promise<AuthenticatedApiToken | null> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, userId: true, scopes: true, expiresAt: true, revokedAt: true },
+  });
+
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt < new Date())) {
+    return null;
+  }
+
+  await prisma.apiToken.update({
+    where: { id: apiToken.id },
+    data: { lastUsedAt: new Date(), lastUsedIp: ipAddress },
+  });
+
+  return { id: apiToken.id, userId: apiToken.userId, scopes: apiToken.scopes };
+}
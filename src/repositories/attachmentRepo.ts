@@ -0,0 +1,58 @@
+import { Expense, ExpenseAttachment, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface CreateAttachmentData {
+  expenseId: number;
+  uploadedById: number;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  storageKey: string;
+  thumbnailKey: string | null;
+}
+
+export type AttachmentWithExpense = ExpenseAttachment & {
+  expense: Pick<Expense, 'id' | 'userId' | 'createdById' | 'groupId'>;
+};
+
+// ===== Attachment Operations =====
+
+/** Record a file that has been written to storage */
+export async function createAttachment(data: CreateAttachmentData): Promise<ExpenseAttachment> {
+  return prisma.expenseAttachment.create({
+    data,
+  });
+}
+
+/**
+ * Get an attachment with the expense fields needed for access checks
+ * Attachments of expenses in the trash are not found
+ */
+export async function getAttachmentById(id: number): Promise<AttachmentWithExpense | null> {
+  return prisma.expenseAttachment.findFirst({
+    where: { id, expense: { deletedAt: null } },
+    include: {
+      expense: {
+        select: { id: true, userId: true, createdById: true, groupId: true },
+      },
+    },
+  });
+}
+
+/** List an expense's attachments, oldest first */
+export async function getExpenseAttachments(expenseId: number): Promise<ExpenseAttachment[]> {
+  return prisma.expenseAttachment.findMany({
+    where: { expenseId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/** Delete an attachment record; the stored files are removed by the caller */
+export async function deleteAttachment(id: number): Promise<ExpenseAttachment> {
+  return prisma.expenseAttachment.delete({
+    where: { id },
+  });
+}
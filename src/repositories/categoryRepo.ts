@@ -50,10 +50,11 @@ export interface CategorySpendingSummary {
   categoryName: string;
   categoryIcon: string;
   categoryColor: string;
+  currency: string; // Amounts are never added up across currencies
   totalAmount: Decimal;
   expenseCount: number;
   averageAmount: Decimal;
-  percentage: number; // Percentage of total spending
+  percentage: number; // Percentage of total spending in the same currency
   lastExpenseDate?: Date | null;
 }
 
@@ -66,6 +67,15 @@ export async function createCategory(data: CreateCategoryData): Promise<Category
   });
 }
 
+/** Create a default category, available to every user */
+export async function createDefaultCategory(
+  data: Omit<CreateCategoryData, 'userId'>
+): Promise<Category> {
+  return prisma.category.create({
+    data: { ...data, isDefault: true, userId: null },
+  });
+}
+
 /** Get category by ID */
 export async function getCategoryById(id: number): Promise<Category | null> {
   return prisma.category.findUnique({
@@ -83,11 +93,9 @@ export async function getCategoryWithStats(
     include: {
       _count: {
         select: {
-          expenses: userId
-            ? {
-                where: { userId },
-              }
-            : true,
+          expenses: {
+            where: { deletedAt: null, ...(userId && { userId }) },
+          },
         },
       },
     },
@@ -101,6 +109,7 @@ export async function getCategoryWithStats(
   const expenseStats = await prisma.expense.aggregate({
     where: {
       categoryId: id,
+      deletedAt: null,
       ...(userId && { userId }),
     },
     _sum: { amount: true },
@@ -175,7 +184,7 @@ export async function getUserCategories(
         _count: {
           select: {
             expenses: {
-              where: { userId },
+              where: { userId, deletedAt: null },
             },
           },
         },
@@ -196,7 +205,7 @@ export async function getUserCategories(
       _count: {
         select: {
           expenses: {
-            where: { userId },
+            where: { userId, deletedAt: null },
           },
         },
       },
@@ -212,6 +221,7 @@ export async function getUserCategories(
         where: {
           categoryId: category.id,
           userId,
+          deletedAt: null,
         },
         _sum: { amount: true },
         _avg: { amount: true },
@@ -231,12 +241,12 @@ export async function getUserCategories(
   return sortCategoriesWithStats(categoriesWithStats, orderBy, orderDirection);
 }
 
-/** Get default categories only */
-export async function getDefaultCategories(): Promise<Category[]> {
+/** Get default categories only (admins also see deactivated ones) */
+export async function getDefaultCategories(includeInactive = false): Promise<Category[]> {
   return prisma.category.findMany({
     where: {
       isDefault: true,
-      isActive: true,
+      ...(!includeInactive && { isActive: true }),
     },
     orderBy: { name: 'asc' },
   });
@@ -284,7 +294,7 @@ export async function searchCategories(
 
 // ===== Analytics and Reporting =====
 
-/** Get category spending summary for a user */
+/** Get category spending summary for a user, one entry per category and currency */
 export async function getCategorySpendingSummary(
   userId: number,
   options: {
@@ -295,7 +305,7 @@ export async function getCategorySpendingSummary(
 ): Promise<CategorySpendingSummary[]> {
   const { fromDate, toDate, limit = 20 } = options;
 
-  const whereClause: any = { userId };
+  const whereClause: any = { userId, deletedAt: null };
 
   if (fromDate || toDate) {
     whereClause.paidAt = {};
@@ -307,13 +317,16 @@ export async function getCategorySpendingSummary(
     }
   }
 
-  // Get total spending for percentage calculation
-  const totalSpending = await prisma.expense.aggregate({
+  // Get total spending per currency for percentage calculation
+  const totalSpending = await prisma.expense.groupBy({
+    by: ['currency'],
     where: whereClause,
     _sum: { amount: true },
   });
 
-  const totalAmount = totalSpending._sum.amount || new Decimal(0);
+  const totalAmounts = new Map(
+    totalSpending.map(total => [total.currency, total._sum.amount || new Decimal(0)])
+  );
 
   // Get all expenses grouped by category
   const expenses = await prisma.expense.findMany({
@@ -328,10 +341,12 @@ export async function getCategorySpendingSummary(
     },
   });
 
-  // Group expenses by category manually
+  // Group expenses by category and currency manually
   const categoryGroups = new Map<
-    number,
+    string,
     {
+      categoryId: number;
+      currency: string;
       category: { name: string; icon: string; color: string };
       expenses: Array<{ amount: Decimal; paidAt: Date }>;
     }
@@ -339,13 +354,16 @@ export async function getCategorySpendingSummary(
 
   expenses.forEach(expense => {
     if (expense.categoryId && expense.category) {
-      if (!categoryGroups.has(expense.categoryId)) {
-        categoryGroups.set(expense.categoryId, {
+      const key = `${expense.categoryId}:${expense.currency}`;
+      if (!categoryGroups.has(key)) {
+        categoryGroups.set(key, {
+          categoryId: expense.categoryId,
+          currency: expense.currency,
           category: expense.category,
           expenses: [],
         });
       }
-      categoryGroups.get(expense.categoryId)!.expenses.push({
+      categoryGroups.get(key)!.expenses.push({
         amount: expense.amount,
         paidAt: expense.paidAt,
       });
@@ -355,12 +373,13 @@ export async function getCategorySpendingSummary(
   // Calculate summaries
   const summaries: CategorySpendingSummary[] = [];
 
-  categoryGroups.forEach((group, categoryId) => {
+  categoryGroups.forEach(group => {
     const totalCategoryAmount = group.expenses.reduce(
       (sum, exp) => sum.add(exp.amount),
       new Decimal(0)
     );
     const averageAmount = totalCategoryAmount.div(group.expenses.length);
+    const totalAmount = totalAmounts.get(group.currency) ?? new Decimal(0);
     const percentage = totalAmount.gt(0)
       ? totalCategoryAmount.div(totalAmount).mul(100).toNumber()
       : 0;
@@ -371,10 +390,11 @@ export async function getCategorySpendingSummary(
     );
 
     summaries.push({
-      categoryId,
+      categoryId: group.categoryId,
       categoryName: group.category.name,
       categoryIcon: group.category.icon,
       categoryColor: group.category.color,
+      currency: group.currency,
       totalAmount: totalCategoryAmount,
       expenseCount: group.expenses.length,
       averageAmount,
@@ -383,8 +403,20 @@ export async function getCategorySpendingSummary(
     });
   });
 
-  // Sort by total amount descending and limit
-  return summaries.sort((a, b) => b.totalAmount.comparedTo(a.totalAmount)).slice(0, limit);
+  // Sort by currency, then total amount descending, and limit each currency
+  const countPerCurrency = new Map<string, number>();
+
+  return summaries
+    .sort((a, b) =>
+      a.currency === b.currency
+        ? b.totalAmount.comparedTo(a.totalAmount)
+        : a.currency.localeCompare(b.currency)
+    )
+    .filter(summary => {
+      const count = (countPerCurrency.get(summary.currency) ?? 0) + 1;
+      countPerCurrency.set(summary.currency, count);
+      return count <= limit;
+    });
 }
 
 /** Get top spending categories for a user */
@@ -0,0 +1,409 @@
+import { DataExportStatus, PrismaClient } from '@prisma/client';
+import { getUserExportDataQuery } from '../queries/userQueries.js';
+
+const prisma = new PrismaClient();
+
+/** Version of the archive layout documented in docs/DATA_EXPORT.md, bumped on breaking changes */
+export const DATA_EXPORT_SCHEMA_VERSION = 1;
+
+// How long a finished archive stays downloadable
+const DATA_EXPORT_TTL_HOURS = parseInt(process.env.DATA_EXPORT_TTL_HOURS || '72', 10);
+
+// Jobs still unfinished after this long were lost (e.g. the server restarted mid-export)
+const STALE_EXPORT_MINUTES = 60;
+
+// ===== Type Definitions =====
+
+export interface DataExportSummary {
+  id: number;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+export interface RequestedDataExport {
+  dataExport: DataExportSummary;
+  created: boolean; // False when an export that is still running was returned instead
+}
+
+// Reference to a related record (user, group or category) by id and name
+export interface ExportedRef {
+  id: number;
+  name: string;
+}
+
+// Archive layout; amounts are decimal strings and dates ISO 8601 strings
+export interface AccountExport {
+  schemaVersion: number;
+  exportedAt: string;
+  profile: {
+    id: number;
+    email: string;
+    name: string;
+    username: string | null;
+    avatar: string | null;
+    phoneNumber: string | null;
+    provider: string;
+    isEmailVerified: boolean;
+    isActive: boolean;
+    defaultCurrency: string;
+    createdAt: string;
+    updatedAt: string;
+    lastLoginAt: string | null;
+  };
+  expenses: {
+    id: number;
+    title: string;
+    description: string | null;
+    amount: string;
+    currency: string;
+    paidAt: string;
+    group: ExportedRef | null;
+    category: ExportedRef | null;
+    splits: {
+      id: number;
+      user: ExportedRef;
+      amount: string;
+      splitType: string;
+      percentage: number | null;
+      isPaid: boolean;
+    }[];
+  }[];
+  splits: {
+    id: number;
+    amount: string;
+    splitType: string;
+    percentage: number | null;
+    isPaid: boolean;
+    createdAt: string;
+    expense: {
+      id: number;
+      title: string;
+      amount: string;
+      currency: string;
+      paidAt: string;
+      groupId: number | null;
+      paidBy: ExportedRef;
+    };
+  }[];
+  groups: {
+    id: number;
+    name: string;
+    description: string | null;
+    avatar: string | null;
+    defaultCurrency: string;
+    isActive: boolean;
+    createdBy: number;
+    createdAt: string;
+  }[];
+  memberships: {
+    groupId: number;
+    role: string;
+    joinedAt: string;
+  }[];
+  friendRequests: {
+    id: number;
+    direction: 'sent' | 'received';
+    otherUser: ExportedRef;
+    status: string;
+    message: string | null;
+    createdAt: string;
+    respondedAt: string | null;
+  }[];
+  friendships: {
+    id: number;
+    friend: ExportedRef;
+    createdAt: string;
+  }[];
+  categories: {
+    id: number;
+    name: string;
+    description: string | null;
+    icon: string;
+    color: string;
+    isActive: boolean;
+    createdAt: string;
+  }[];
+  recurringExpenses: {
+    id: number;
+    title: string;
+    description: string | null;
+    amount: string;
+    currency: string | null;
+    schedule: string;
+    startDate: string;
+    endDate: string | null;
+    maxOccurrences: number | null;
+    occurrenceCount: number;
+    nextRunAt: string | null;
+    isPaused: boolean;
+    groupId: number | null;
+    categoryId: number | null;
+    createdAt: string;
+  }[];
+}
+
+const summarySelect = {
+  id: true,
+  status: true,
+  sizeBytes: true,
+  error: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+  expiresAt: true,
+} as const;
+
+// ===== Archive Generation =====
+
+type ExportData = NonNullable<Awaited<ReturnType<typeof getUserExportDataQuery>>>;
+
+function toIso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/** Map the raw query result onto the documented archive layout */
+export function serializeAccountExport(data: ExportData, exportedAt = new Date()): AccountExport {
+  const groups = new Map<number, AccountExport['groups'][number]>();
+  for (const group of [...data.createdGroups, ...data.groupMembers.map(m => m.group)]) {
+    groups.set(group.id, {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      avatar: group.avatar,
+      defaultCurrency: group.defaultCurrency,
+      isActive: group.isActive,
+      createdBy: group.createdBy,
+      createdAt: group.createdAt.toISOString(),
+    });
+  }
+
+  return {
+    schemaVersion: DATA_EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    profile: {
+      id: data.id,
+      email: data.email,
+      name: data.name,
+      username: data.username,
+      avatar: data.avatar,
+      phoneNumber: data.phoneNumber,
+      provider: data.provider,
+      isEmailVerified: data.isEmailVerified,
+      isActive: data.isActive,
+      defaultCurrency: data.defaultCurrency,
+      createdAt: data.createdAt.toISOString(),
+      updatedAt: data.updatedAt.toISOString(),
+      lastLoginAt: toIso(data.lastLoginAt),
+    },
+    expenses: data.expenses.map(expense => ({
+      id: expense.id,
+      title: expense.title,
+      description: expense.description,
+      amount: expense.amount.toString(),
+      currency: expense.currency,
+      paidAt: expense.paidAt.toISOString(),
+      deletedAt: toIso(expense.deletedAt),
+      group: expense.group,
+      category: expense.category,
+      splits: expense.splits.map(split => ({
+        id: split.id,
+        user: split.user,
+        amount: split.amount.toString(),
+        splitType: split.splitType,
+        percentage: split.percentage,
+        isPaid: split.isPaid,
+      })),
+    })),
+    splits: data.expenseSplits.map(split => ({
+      id: split.id,
+      amount: split.amount.toString(),
+      splitType: split.splitType,
+      percentage: split.percentage,
+      isPaid: split.isPaid,
+      createdAt: split.createdAt.toISOString(),
+      expense: {
+        id: split.expense.id,
+        title: split.expense.title,
+        amount: split.expense.amount.toString(),
+        currency: split.expense.currency,
+        paidAt: split.expense.paidAt.toISOString(),
+        groupId: split.expense.groupId,
+        paidBy: split.expense.user,
+      },
+    })),
+    groups: [...groups.values()].sort((a, b) => a.id - b.id),
+    memberships: data.groupMembers.map(member => ({
+      groupId: member.groupId,
+      role: member.role,
+      joinedAt: member.joinedAt.toISOString(),
+    })),
+    friendRequests: [
+      ...data.sentFriendRequests.map(request => ({
+        id: request.id,
+        direction: 'sent' as const,
+        otherUser: request.receiver,
+        status: request.status,
+        message: request.message,
+        createdAt: request.createdAt.toISOString(),
+        respondedAt: toIso(request.respondedAt),
+      })),
+      ...data.receivedFriendRequests.map(request => ({
+        id: request.id,
+        direction: 'received' as const,
+        otherUser: request.sender,
+        status: request.status,
+        message: request.message,
+        createdAt: request.createdAt.toISOString(),
+        respondedAt: toIso(request.respondedAt),
+      })),
+    ].sort((a, b) => a.id - b.id),
+    friendships: [
+      ...data.friendships1.map(f => ({ id: f.id, friend: f.user2, createdAt: f.createdAt })),
+      ...data.friendships2.map(f => ({ id: f.id, friend: f.user1, createdAt: f.createdAt })),
+    ]
+      .sort((a, b) => a.id - b.id)
+      .map(friendship => ({ ...friendship, createdAt: friendship.createdAt.toISOString() })),
+    categories: data.categories.map(category => ({
+      id: category.id,
+      name: category.name,
+      description: category.description,
+      icon: category.icon,
+      color: category.color,
+      isActive: category.isActive,
+      createdAt: category.createdAt.toISOString(),
+    })),
+    recurringExpenses: data.recurringExpenses.map(recurringExpense => ({
+      id: recurringExpense.id,
+      title: recurringExpense.title,
+      description: recurringExpense.description,
+      amount: recurringExpense.amount.toString(),
+      currency: recurringExpense.currency,
+      schedule: recurringExpense.schedule,
+      startDate: recurringExpense.startDate.toISOString(),
+      endDate: toIso(recurringExpense.endDate),
+      maxOccurrences: recurringExpense.maxOccurrences,
+      occurrenceCount: recurringExpense.occurrenceCount,
+      nextRunAt: toIso(recurringExpense.nextRunAt),
+      isPaused: recurringExpense.isPaused,
+      groupId: recurringExpense.groupId,
+      categoryId: recurringExpense.categoryId,
+      createdAt: recurringExpense.createdAt.toISOString(),
+    })),
+  };
+}
+
+// ===== Export Jobs =====
+
+/** Queue a new export, or return the user's export that is still running */
+export async function requestDataExport(userId: number): Promise<RequestedDataExport> {
+  // Jobs lost to a restart would otherwise block new exports forever
+  await prisma.dataExport.updateMany({
+    where: {
+      userId,
+      status: { in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+      createdAt: { lt: new Date(Date.now() - STALE_EXPORT_MINUTES * 60 * 1000) },
+    },
+    data: { status: DataExportStatus.FAILED, error: 'Export timed out' },
+  });
+
+  const running = await prisma.dataExport.findFirst({
+    where: { userId, status: { in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] } },
+    select: summarySelect,
+  });
+
+  if (running) {
+    return { dataExport: running, created: false };
+  }
+
+  const dataExport = await prisma.dataExport.create({
+    data: { userId },
+    select: summarySelect,
+  });
+
+  return { dataExport, created: true };
+}
+
+/** Get one of a user's exports */
+export async function getDataExport(
+  userId: number,
+  exportId: number
+): Promise<DataExportSummary | null> {
+  return prisma.dataExport.findFirst({
+    where: { id: exportId, userId },
+    select: summarySelect,
+  });
+}
+
+/** Get the archive of a completed, unexpired export */
+export async function getDataExportArchive(userId: number, exportId: number): Promise<string> {
+  const dataExport = await prisma.dataExport.findFirst({
+    where: { id: exportId, userId },
+    select: { status: true, archive: true, expiresAt: true },
+  });
+
+  if (!dataExport) {
+    throw new Error('Data export not found');
+  }
+
+  if (dataExport.status !== DataExportStatus.COMPLETED || !dataExport.archive) {
+    throw new Error('Data export is not ready');
+  }
+
+  if (dataExport.expiresAt && dataExport.expiresAt < new Date()) {
+    throw new Error('Data export has expired');
+  }
+
+  return dataExport.archive;
+}
+
+/** Generate the archive for a queued export; failures are recorded on the job */
+export async function processDataExport(exportId: number): Promise<void> {
+  const claimed = await prisma.dataExport.updateMany({
+    where: { id: exportId, status: DataExportStatus.PENDING },
+    data: { status: DataExportStatus.PROCESSING, startedAt: new Date() },
+  });
+
+  if (claimed.count === 0) {
+    return; // Already picked up by another worker
+  }
+
+  try {
+    const { userId } = await prisma.dataExport.findUniqueOrThrow({
+      where: { id: exportId },
+      select: { userId: true },
+    });
+
+    const data = await getUserExportDataQuery(userId);
+    if (!data) {
+      throw new Error('User not found');
+    }
+
+    const archive = JSON.stringify(serializeAccountExport(data), null, 2);
+    const completedAt = new Date();
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: DataExportStatus.COMPLETED,
+        archive,
+        sizeBytes: Buffer.byteLength(archive),
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+  } catch (error) {
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: DataExportStatus.FAILED,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date(),
+      },
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { PrismaClient, EmailOutbox } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface CreateOutboxEmailData {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/** Record an outgoing email in the outbox */
+export async function createOutboxEmail(data: CreateOutboxEmailData): Promise<EmailOutbox> {
+  return prisma.emailOutbox.create({
+    data,
+  });
+}
+
+/** Get emails sent to an address, newest first */
+export async function getOutboxEmailsFor(to: string, take: number = 20): Promise<EmailOutbox[]> {
+  return prisma.emailOutbox.findMany({
+    where: { to },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
+
+/** Mark an outbox email as handed off to the real delivery system */
+export async function markOutboxEmailSent(id: number): Promise<EmailOutbox> {
+  return prisma.emailOutbox.update({
+    where: { id },
+    data: { sentAt: new Date() },
+  });
+}
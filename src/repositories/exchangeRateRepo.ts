@@ -0,0 +1,51 @@
+import { ExchangeRate, PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number | string;
+  effectiveDate: Date;
+}
+
+export interface ExchangeRateFilters {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+}
+
+// ===== Exchange Rate Operations =====
+
+/** Import rates, replacing any existing rate for the same pair and effective date */
+export async function importExchangeRates(rates: ExchangeRateInput[]): Promise<number> {
+  const results = await prisma.$transaction(
+    rates.map(({ baseCurrency, quoteCurrency, rate, effectiveDate }) =>
+      prisma.exchangeRate.upsert({
+        where: {
+          baseCurrency_quoteCurrency_effectiveDate: { baseCurrency, quoteCurrency, effectiveDate },
+        },
+        create: { baseCurrency, quoteCurrency, rate: new Decimal(rate), effectiveDate },
+        update: { rate: new Decimal(rate), updatedAt: new Date() },
+      })
+    )
+  );
+
+  return results.length;
+}
+
+/** List rates, newest effective date first */
+export async function listExchangeRates(
+  filters: ExchangeRateFilters = {},
+  skip: number = 0,
+  take: number = 50
+): Promise<ExchangeRate[]> {
+  return prisma.exchangeRate.findMany({
+    where: filters,
+    orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+    skip,
+    take,
+  });
+}
@@ -0,0 +1,190 @@
+// src/repositories/expenseCommentRepo.ts
+import { ExpenseComment, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface CreateExpenseCommentData {
+  expenseId: number;
+  userId: number;
+  body: string;
+}
+
+export interface ExpenseCommentWithDetails extends ExpenseComment {
+  user: {
+    id: number;
+    name: string;
+    username: string | null;
+    avatar: string | null;
+  };
+  mentions: Array<{
+    user: {
+      id: number;
+      name: string;
+      username: string | null;
+    };
+  }>;
+}
+
+export interface ExpenseCommentPage {
+  comments: ExpenseCommentWithDetails[];
+  total: number;
+}
+
+// ===== Helper Functions =====
+
+const commentInclude = {
+  user: { select: { id: true, name: true, username: true, avatar: true } },
+  mentions: {
+    select: { user: { select: { id: true, name: true, username: true } } },
+    orderBy: { userId: 'asc' },
+  },
+} as const;
+
+// Same characters as usernames; an @ right after a letter or digit (an email address) is no mention
+const MENTION_PATTERN = /(?<![\w@])@([a-zA-Z0-9_-]{3,20})(?![\w-])/g;
+
+/** Usernames mentioned in a comment body, without duplicates */
+export function parseMentions(body: string): string[] {
+  const usernames = [...body.matchAll(MENTION_PATTERN)].map(match => match[1].toLowerCase());
+  return [...new Set(usernames)];
+}
+
+/** Users who take part in an expense: its owner, payers, split participants and group members */
+function participantWhere(expense: {
+  id: number;
+  userId: number;
+  groupId: number | null;
+}): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { id: expense.userId },
+      { expensePayments: { some: { expenseId: expense.id } } },
+      { expenseSplits: { some: { expenseId: expense.id } } },
+      ...(expense.groupId ? [{ groupMembers: { some: { groupId: expense.groupId } } }] : []),
+    ],
+  };
+}
+
+/** Resolve the @username mentions of a body to participants; others can't see the thread */
+async function resolveMentions(
+  client: Prisma.TransactionClient,
+  expenseId: number,
+  body: string
+): Promise<number[]> {
+  const usernames = parseMentions(body);
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  const expense = await client.expense.findUnique({
+    where: { id: expenseId },
+    select: { id: true, userId: true, groupId: true },
+  });
+  if (!expense) {
+    throw new Error('Expense not found');
+  }
+
+  const users = await client.user.findMany({
+    where: {
+      AND: [{ username: { in: usernames, mode: 'insensitive' } }, participantWhere(expense)],
+    },
+    select: { id: true },
+  });
+  return users.map(user => user.id);
+}
+
+// ===== Access =====
+
+/** Check if a user may read and join an expense's discussion */
+export async function canAccessExpenseComments(
+  expense: { id: number; userId: number; groupId: number | null },
+  userId: number
+): Promise<boolean> {
+  const count = await prisma.user.count({
+    where: { AND: [{ id: userId }, participantWhere(expense)] },
+  });
+  return count > 0;
+}
+
+// ===== Comment Operations =====
+
+/** Add a comment to an expense, resolving its @username mentions */
+export async function createExpenseComment(
+  data: CreateExpenseCommentData
+): Promise<ExpenseCommentWithDetails> {
+  return prisma.$transaction(async tx => {
+    const mentionedIds = await resolveMentions(tx, data.expenseId, data.body);
+
+    return tx.expenseComment.create({
+      data: {
+        ...data,
+        mentions: { create: mentionedIds.map(userId => ({ userId })) },
+      },
+      include: commentInclude,
+    });
+  });
+}
+
+/** Get a comment by ID */
+export async function getExpenseCommentById(id: number): Promise<ExpenseComment | null> {
+  return prisma.expenseComment.findUnique({
+    where: { id },
+  });
+}
+
+/** List an expense's comments, oldest first */
+export async function getExpenseComments(
+  expenseId: number,
+  limit: number = 50,
+  offset: number = 0
+): Promise<ExpenseCommentPage> {
+  const [comments, total] = await Promise.all([
+    prisma.expenseComment.findMany({
+      where: { expenseId },
+      include: commentInclude,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+      skip: offset,
+    }),
+    prisma.expenseComment.count({ where: { expenseId } }),
+  ]);
+
+  return { comments, total };
+}
+
+/** Change a comment's body; its mentions are resolved again */
+export async function updateExpenseComment(
+  id: number,
+  body: string
+): Promise<ExpenseCommentWithDetails> {
+  return prisma.$transaction(async tx => {
+    const comment = await tx.expenseComment.findUnique({ where: { id } });
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    const mentionedIds = await resolveMentions(tx, comment.expenseId, body);
+
+    return tx.expenseComment.update({
+      where: { id },
+      data: {
+        body,
+        editedAt: new Date(),
+        mentions: {
+          deleteMany: {},
+          create: mentionedIds.map(userId => ({ userId })),
+        },
+      },
+      include: commentInclude,
+    });
+  });
+}
+
+/** Delete a comment */
+export async function deleteExpenseComment(id: number): Promise<ExpenseComment> {
+  return prisma.expenseComment.delete({
+    where: { id },
+  });
+}
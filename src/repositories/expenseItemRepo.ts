@@ -0,0 +1,159 @@
+import {
+  ExpenseAdjustment,
+  ExpenseItem,
+  ExpenseRevisionAction,
+  ExpenseSplit,
+  PrismaClient,
+  SplitType,
+} from '@prisma/client';
+import {
+  calculateItemizedShares,
+  ItemizationAdjustment,
+  ItemizationItem,
+} from '../utils/itemization.js';
+import { recordExpenseRevisionQuery } from '../queries/expenseRevisionQueries.js';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface ExpenseItemWithAssignees extends ExpenseItem {
+  assigneeIds: number[];
+}
+
+export interface ExpenseItemization {
+  items: ExpenseItemWithAssignees[];
+  adjustments: ExpenseAdjustment[];
+}
+
+export interface SetExpenseItemsData {
+  items: ItemizationItem[];
+  adjustments?: ItemizationAdjustment[];
+}
+
+export interface ItemizedExpense extends ExpenseItemization {
+  splits: ExpenseSplit[];
+}
+
+// ===== Helper Functions =====
+
+const itemInclude = {
+  assignees: { select: { userId: true }, orderBy: { userId: 'asc' } },
+} as const;
+
+function toItemWithAssignees(
+  item: ExpenseItem & { assignees: { userId: number }[] }
+): ExpenseItemWithAssignees {
+  const { assignees, ...rest } = item;
+  return { ...rest, assigneeIds: assignees.map(assignee => assignee.userId) };
+}
+
+// ===== Itemization Operations =====
+
+/** Get an expense's line items and adjustments */
+export async function getExpenseItemization(expenseId: number): Promise<ExpenseItemization> {
+  const [items, adjustments] = await Promise.all([
+    prisma.expenseItem.findMany({
+      where: { expenseId },
+      include: itemInclude,
+      orderBy: { id: 'asc' },
+    }),
+    prisma.expenseAdjustment.findMany({
+      where: { expenseId },
+      orderBy: { id: 'asc' },
+    }),
+  ]);
+
+  return { items: items.map(toItemWithAssignees), adjustments };
+}
+
+/**
+ * Replace an expense's line items and adjustments and regenerate its splits from them
+ * Existing splits are replaced, so this is refused once any of them has been paid
+ */
+export async function setExpenseItems(
+  expenseId: number,
+  data: SetExpenseItemsData,
+  actorId: number
+): Promise<ItemizedExpense> {
+  const { items, adjustments = [] } = data;
+
+  return prisma.$transaction(async tx => {
+    const expense = await tx.expense.findUnique({ where: { id: expenseId } });
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+
+    if ((await tx.expenseSplit.count({ where: { expenseId, isPaid: true } })) > 0) {
+      throw new Error('Expense has paid splits, its items can no longer be changed');
+    }
+
+    const shares = calculateItemizedShares(expense.amount, items, adjustments);
+
+    await tx.expenseItem.deleteMany({ where: { expenseId } });
+    await tx.expenseAdjustment.deleteMany({ where: { expenseId } });
+    await tx.expenseSplit.deleteMany({ where: { expenseId } });
+
+    for (const item of items) {
+      await tx.expenseItem.create({
+        data: {
+          expenseId,
+          name: item.name,
+          amount: item.amount,
+          assignees: { create: item.assigneeIds.map(userId => ({ userId })) },
+        },
+      });
+    }
+
+    await tx.expenseAdjustment.createMany({
+      data: adjustments.map(adjustment => ({
+        expenseId,
+        type: adjustment.type,
+        amount: adjustment.amount,
+        description: adjustment.description,
+      })),
+    });
+
+    await tx.expenseSplit.createMany({
+      data: shares.map(share => ({
+        expenseId,
+        userId: share.userId,
+        amount: share.amount,
+        splitType: SplitType.ITEMIZED,
+      })),
+    });
+
+    await recordExpenseRevisionQuery(tx, expenseId, ExpenseRevisionAction.SPLITS_UPDATED, actorId);
+
+    const [savedItems, savedAdjustments, splits] = await Promise.all([
+      tx.expenseItem.findMany({
+        where: { expenseId },
+        include: itemInclude,
+        orderBy: { id: 'asc' },
+      }),
+      tx.expenseAdjustment.findMany({ where: { expenseId }, orderBy: { id: 'asc' } }),
+      tx.expenseSplit.findMany({ where: { expenseId }, orderBy: { id: 'asc' } }),
+    ]);
+
+    return {
+      items: savedItems.map(toItemWithAssignees),
+      adjustments: savedAdjustments,
+      splits,
+    };
+  });
+}
+
+/** Remove an expense's itemization together with the splits generated from it */
+export async function clearExpenseItems(expenseId: number, actorId: number): Promise<void> {
+  await prisma.$transaction(async tx => {
+    const itemizedSplits = { expenseId, splitType: SplitType.ITEMIZED };
+    if ((await tx.expenseSplit.count({ where: { ...itemizedSplits, isPaid: true } })) > 0) {
+      throw new Error('Expense has paid splits, its items can no longer be changed');
+    }
+
+    await tx.expenseItem.deleteMany({ where: { expenseId } });
+    await tx.expenseAdjustment.deleteMany({ where: { expenseId } });
+    await tx.expenseSplit.deleteMany({ where: itemizedSplits });
+    await recordExpenseRevisionQuery(tx, expenseId, ExpenseRevisionAction.SPLITS_UPDATED, actorId);
+  });
+}
@@ -1,27 +1,59 @@
 // src/repositories/expenseRepo.ts
-import { PrismaClient, Expense, SplitType } from '@prisma/client';
+import { Prisma, PrismaClient, Expense, ExpenseRevisionAction, SplitType } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { AttachmentFiles, removeAttachmentFiles } from '../utils/attachments.js';
+import { recordExpenseRevisionQuery } from '../queries/expenseRevisionQueries.js';
+import { recalculateSplits, SplitParticipant } from '../utils/splitCalculation.js';
 
 const prisma = new PrismaClient();
 
+// Days a deleted expense stays in the trash, where it can be restored, before it is purged
+const EXPENSE_TRASH_RETENTION_DAYS = parseInt(process.env.EXPENSE_TRASH_RETENTION_DAYS || '30', 10);
+
+// Most operations accepted in one bulk request
+export const BULK_MAX_OPERATIONS = 100;
+
+// An atomic bulk request runs every operation in one transaction, which for a full request takes
+// longer than Prisma's 5 second default: allow time for each operation instead
+const BULK_TRANSACTION_MS_PER_OPERATION = 100;
+const BULK_TRANSACTION_MAX_WAIT_MS = 10_000;
+
 // ===== Type Definitions =====
 
+export interface PayerContribution {
+  userId: number;
+  amount: number | Decimal;
+}
+
 export interface CreateExpenseData {
   title: string;
   description?: string;
   amount: number | Decimal;
-  userId: number;
+  currency?: string; // Defaults to the group's, or for personal expenses the user's, default currency
+  userId: number; // Who paid
+  createdById?: number; // Who recorded it, when not the payer
   groupId?: number;
   categoryId?: number;
   paidAt?: Date;
+  payers?: PayerContribution[]; // Omit when userId paid the whole amount
+  recurringExpenseId?: number; // Set with occurrenceDate when created from a recurring expense
+  occurrenceDate?: Date;
+  importBatchId?: number; // Set when created by a statement import
+  tagIds?: number[];
 }
 
 export interface UpdateExpenseData {
   title?: string;
   description?: string;
   amount?: number | Decimal;
-  categoryId?: number;
+  currency?: string;
+  categoryId?: number | null; // null removes the category
+  groupId?: number | null; // Moves the expense to another group; null makes it personal
   paidAt?: Date;
+  payers?: PayerContribution[]; // Replaces the existing contributions; [] means userId paid it all
+  tagIds?: number[]; // Replaces the existing tags
+  splitAmounts?: SplitParticipant[]; // New AMOUNT splits when the amount changes
+  forceSplitChanges?: boolean; // Let an amount change alter splits already marked paid
 }
 
 export interface ExpenseWithDetails extends Expense {
@@ -45,6 +77,16 @@ export interface ExpenseWithDetails extends Expense {
     icon: string;
     color: string;
   } | null;
+  payers: Array<{
+    id: number;
+    userId: number;
+    amount: Decimal;
+    user: {
+      id: number;
+      name: string;
+      email: string;
+    };
+  }>;
   splits: Array<{
     id: number;
     userId: number;
@@ -58,15 +100,36 @@ export interface ExpenseWithDetails extends Expense {
       email: string;
     };
   }>;
+  tags?: Array<{
+    tag: {
+      id: number;
+      name: string;
+      color: string | null;
+    };
+  }>;
   _count: {
     splits: number;
+    comments: number;
   };
 }
 
+export type BulkExpenseOperation =
+  | { action: 'create'; data: CreateExpenseData }
+  | { action: 'update'; id: number; data: UpdateExpenseData }
+  | { action: 'delete'; id: number };
+
+export interface BulkExpenseResult {
+  status: 'succeeded' | 'failed' | 'skipped'; // skipped: rolled back or not run after a failure
+  id?: number; // Expense created or changed
+  error?: unknown;
+}
+
 export interface ExpenseFilters {
-  userId?: number;
+  userId?: number; // Paid or recorded by this user
+  withSplits?: boolean; // With userId, also expenses the user has a split in
   groupId?: number;
   categoryId?: number;
+  tagIds?: number[]; // Has all of these tags
   title?: string; // Search in title
   description?: string; // Search in description
   minAmount?: number;
@@ -84,10 +147,52 @@ export interface ExpenseListOptions {
   includeDetails?: boolean;
 }
 
+export interface ExpensePageOptions {
+  limit?: number;
+  orderBy?: 'paidAt' | 'amount' | 'title';
+  orderDirection?: 'asc' | 'desc';
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface ExpensePage {
+  expenses: ExpenseWithDetails[];
+  nextCursor: string | null;
+}
+
+export interface DeletedExpense extends Expense {
+  deletedAt: Date;
+  purgeAt: Date; // When the expense is permanently deleted unless restored
+  user: { id: number; name: string };
+  group: { id: number; name: string } | null;
+  category: { id: number; name: string } | null;
+  _count: { splits: number };
+}
+
+export interface ExpenseExportRecord extends Expense {
+  user: { id: number; name: string };
+  category: { id: number; name: string } | null;
+  group: { id: number; name: string } | null;
+  payers: Array<{ userId: number; amount: Decimal; user: { name: string } }>;
+  splits: Array<{ userId: number; amount: Decimal; isPaid: boolean; user: { name: string } }>;
+  tags: Array<{ tag: { name: string } }>;
+}
+
+// Position after the last expense of a page, encoded as an opaque string for clients
+interface ExpenseCursor {
+  orderBy: NonNullable<ExpensePageOptions['orderBy']>;
+  orderDirection: NonNullable<ExpensePageOptions['orderDirection']>;
+  value: string; // Sort field value: ISO date, decimal string or title
+  id: number;
+}
+
 // Type for dynamic where clause in search
 interface ExpenseWhereClause {
-  userId?: number;
+  deletedAt: null;
+  OR?: Array<
+    { userId: number } | { createdById: number } | { splits: { some: { userId: number } } }
+  >;
   groupId?: number | null;
+  categoryId?: number;
   title?: {
     contains: string;
     mode: 'insensitive';
@@ -109,19 +214,268 @@ interface ExpenseWhereClause {
       isPaid: boolean;
     };
   };
+  AND?: Array<{
+    tags: {
+      some: {
+        tagId: number;
+      };
+    };
+  }>;
+}
+
+// ===== Helper Functions =====
+
+/** Build the where clause for searchExpenses and the expense export from search filters */
+function buildSearchWhereClause(filters: ExpenseFilters): ExpenseWhereClause {
+  const whereClause: ExpenseWhereClause = { deletedAt: null }; // Never search the trash
+
+  if (filters.userId) {
+    whereClause.OR = [{ userId: filters.userId }, { createdById: filters.userId }];
+    if (filters.withSplits) {
+      whereClause.OR.push({ splits: { some: { userId: filters.userId } } });
+    }
+  }
+
+  if (filters.groupId !== undefined) {
+    whereClause.groupId = filters.groupId;
+  }
+
+  if (filters.categoryId !== undefined) {
+    whereClause.categoryId = filters.categoryId;
+  }
+
+  if (filters.tagIds?.length) {
+    whereClause.AND = filters.tagIds.map(tagId => ({ tags: { some: { tagId } } }));
+  }
+
+  if (filters.title) {
+    whereClause.title = {
+      contains: filters.title,
+      mode: 'insensitive',
+    };
+  }
+
+  if (filters.description) {
+    whereClause.description = {
+      contains: filters.description,
+      mode: 'insensitive',
+    };
+  }
+
+  if (
+    (filters.minAmount !== null && filters.minAmount !== undefined) ||
+    (filters.maxAmount !== null && filters.maxAmount !== undefined)
+  ) {
+    whereClause.amount = {};
+    if (filters.minAmount !== null && filters.minAmount !== undefined) {
+      whereClause.amount.gte = new Decimal(filters.minAmount);
+    }
+    if (filters.maxAmount !== null && filters.maxAmount !== undefined) {
+      whereClause.amount.lte = new Decimal(filters.maxAmount);
+    }
+  }
+
+  if (filters.fromDate || filters.toDate) {
+    whereClause.paidAt = {};
+    if (filters.fromDate) {
+      whereClause.paidAt.gte = filters.fromDate;
+    }
+    if (filters.toDate) {
+      whereClause.paidAt.lte = filters.toDate;
+    }
+  }
+
+  // Filter by split payment status
+  if (filters.isPaid !== undefined) {
+    whereClause.splits = {
+      some: {
+        isPaid: filters.isPaid,
+      },
+    };
+  }
+
+  return whereClause;
+}
+
+function encodeExpenseCursor(cursor: ExpenseCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/** Read a cursor made for the same sort order; throws 'Invalid cursor' otherwise */
+function decodeExpenseCursor(
+  cursor: string,
+  orderBy: ExpenseCursor['orderBy'],
+  orderDirection: ExpenseCursor['orderDirection']
+): { value: Date | Decimal | string; id: number } {
+  let decoded: Partial<ExpenseCursor>;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (
+    decoded?.orderBy !== orderBy ||
+    decoded.orderDirection !== orderDirection ||
+    typeof decoded.value !== 'string' ||
+    typeof decoded.id !== 'number' ||
+    !Number.isInteger(decoded.id)
+  ) {
+    throw new Error('Invalid cursor');
+  }
+
+  if (orderBy === 'title') {
+    return { value: decoded.value, id: decoded.id };
+  }
+
+  if (orderBy === 'amount') {
+    if (!/^-?\d+(\.\d+)?$/.test(decoded.value)) {
+      throw new Error('Invalid cursor');
+    }
+    return { value: new Decimal(decoded.value), id: decoded.id };
+  }
+
+  const date = new Date(decoded.value);
+  if (isNaN(date.getTime())) {
+    throw new Error('Invalid cursor');
+  }
+  return { value: date, id: decoded.id };
+}
+
+/** Default currency for a new expense: the group's for group expenses, otherwise the user's */
+async function getDefaultExpenseCurrency(
+  userId: number,
+  groupId?: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<string | undefined> {
+  if (groupId) {
+    const group = await client.group.findUnique({
+      where: { id: groupId },
+      select: { defaultCurrency: true },
+    });
+    return group?.defaultCurrency;
+  }
+
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: { defaultCurrency: true },
+  });
+  return user?.defaultCurrency;
+}
+
+/** Check that payer contributions are positive, unique and add up to the expense amount */
+async function validatePayerContributions(
+  amount: Decimal,
+  payers: PayerContribution[],
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const userIds = payers.map(payer => payer.userId);
+
+  if (new Set(userIds).size !== userIds.length) {
+    throw new Error('Payers can only be listed once');
+  }
+
+  if (payers.some(payer => new Decimal(payer.amount).lessThanOrEqualTo(0))) {
+    throw new Error('Payer contributions must be positive');
+  }
+
+  const total = payers.reduce((sum, payer) => sum.plus(payer.amount), new Decimal(0));
+  if (!total.equals(amount)) {
+    throw new Error(
+      `Payer contributions total ${total.toString()} but the expense amount is ${amount.toString()}`
+    );
+  }
+
+  const existingUsers = await client.user.count({ where: { id: { in: userIds } } });
+  if (existingUsers !== userIds.length) {
+    throw new Error('Payer not found');
+  }
+}
+
+/**
+ * Bring an expense's splits in line with a new amount. Splits already marked paid
+ * are only changed when forced, and keep their paid flag.
+ */
+async function resizeExpenseSplits(
+  client: Prisma.TransactionClient,
+  expenseId: number,
+  amount: Decimal,
+  splitAmounts: SplitParticipant[] | undefined,
+  force: boolean
+): Promise<void> {
+  const splits = await client.expenseSplit.findMany({
+    where: { expenseId },
+    orderBy: { userId: 'asc' },
+  });
+  if (splits.length === 0) {
+    return;
+  }
+
+  const current = new Map(splits.map(split => [split.userId, split]));
+  const changed = recalculateSplits(amount, splits, splitAmounts).filter(
+    entry => !current.get(entry.userId)?.amount.equals(entry.amount)
+  );
+
+  if (!force && changed.some(entry => current.get(entry.userId)?.isPaid)) {
+    throw new Error('The new amount would change paid splits, force the update to change them');
+  }
+
+  for (const entry of changed) {
+    await client.expenseSplit.update({
+      where: { expenseId_userId: { expenseId, userId: entry.userId } },
+      data: { amount: entry.amount },
+    });
+  }
+}
+
+// ===== Access =====
+
+/** The payer and whoever recorded the expense for them can both manage it */
+export function canManageExpense(
+  expense: { userId: number; createdById: number | null },
+  userId: number
+): boolean {
+  return expense.userId === userId || expense.createdById === userId;
 }
 
 // ===== Core CRUD Operations =====
 
-/** Create a new expense */
-export async function createExpense(data: CreateExpenseData): Promise<ExpenseWithDetails> {
+/** Create a new expense, optionally as part of a caller's transaction; its history starts here */
+export async function createExpense(
+  data: CreateExpenseData,
+  client?: Prisma.TransactionClient
+): Promise<ExpenseWithDetails> {
+  if (!client) {
+    return prisma.$transaction(tx => createExpense(data, tx));
+  }
+
+  const { payers, tagIds, ...rest } = data;
   const expenseData = {
-    ...data,
+    ...rest,
     amount: typeof data.amount === 'number' ? new Decimal(data.amount) : data.amount,
+    currency: data.currency ?? (await getDefaultExpenseCurrency(data.userId, data.groupId, client)),
+    createdById: data.createdById ?? data.userId,
   };
 
-  return prisma.expense.create({
-    data: expenseData,
+  if (payers?.length) {
+    await validatePayerContributions(expenseData.amount, payers, client);
+  }
+
+  const expense = await client.expense.create({
+    data: {
+      ...expenseData,
+      ...(payers?.length && {
+        payers: {
+          create: payers.map(payer => ({
+            userId: payer.userId,
+            amount: new Decimal(payer.amount),
+          })),
+        },
+      }),
+      ...(tagIds?.length && {
+        tags: { create: [...new Set(tagIds)].map(tagId => ({ tagId })) },
+      }),
+    },
     include: {
       user: {
         select: {
@@ -149,6 +503,22 @@ export async function createExpense(data: CreateExpenseData): Promise<ExpenseWit
           color: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
+      tags: {
+        select: { tag: { select: { id: true, name: true, color: true } } },
+        orderBy: { tag: { name: 'asc' } },
+      },
       splits: {
         include: {
           user: {
@@ -164,16 +534,26 @@ export async function createExpense(data: CreateExpenseData): Promise<ExpenseWit
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
   });
+
+  await recordExpenseRevisionQuery(
+    client,
+    expense.id,
+    ExpenseRevisionAction.CREATED,
+    expenseData.createdById
+  );
+
+  return expense;
 }
 
-/** Get expense by ID with full details */
+/** Get expense by ID with full details; expenses in the trash are not found */
 export async function getExpenseById(id: number): Promise<ExpenseWithDetails | null> {
-  return prisma.expense.findUnique({
-    where: { id },
+  return prisma.expense.findFirst({
+    where: { id, deletedAt: null },
     include: {
       user: {
         select: {
@@ -201,6 +581,22 @@ export async function getExpenseById(id: number): Promise<ExpenseWithDetails | n
           color: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
+      tags: {
+        select: { tag: { select: { id: true, name: true, color: true } } },
+        orderBy: { tag: { name: 'asc' } },
+      },
       splits: {
         include: {
           user: {
@@ -216,6 +612,7 @@ export async function getExpenseById(id: number): Promise<ExpenseWithDetails | n
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
@@ -224,18 +621,30 @@ export async function getExpenseById(id: number): Promise<ExpenseWithDetails | n
 
 /** Get basic expense by ID (minimal data) */
 export async function getExpense(id: number): Promise<Expense | null> {
-  return prisma.expense.findUnique({
-    where: { id },
+  return prisma.expense.findFirst({
+    where: { id, deletedAt: null },
   });
 }
 
-/** Update an expense */
+/** Update an expense, optionally in a caller's transaction, recording the change in its history */
 export async function updateExpense(
   id: number,
-  data: UpdateExpenseData
+  data: UpdateExpenseData,
+  actorId: number,
+  client?: Prisma.TransactionClient
 ): Promise<ExpenseWithDetails> {
+  if (!client) {
+    return prisma.$transaction(tx => updateExpense(id, data, actorId, tx));
+  }
+
+  const { payers, tagIds, splitAmounts, forceSplitChanges } = data;
   const updateData = {
-    ...data,
+    title: data.title,
+    description: data.description,
+    currency: data.currency,
+    categoryId: data.categoryId,
+    groupId: data.groupId,
+    paidAt: data.paidAt,
     amount: data.amount
       ? typeof data.amount === 'number'
         ? new Decimal(data.amount)
@@ -243,9 +652,47 @@ export async function updateExpense(
       : undefined,
   };
 
-  return prisma.expense.update({
+  // Contributions and splits have to keep matching the amount, whichever changes
+  const existing =
+    payers !== undefined || updateData.amount
+      ? await client.expense.findUnique({
+          where: { id },
+          select: { amount: true, payers: { select: { userId: true, amount: true } } },
+        })
+      : null;
+
+  const contributions = payers ?? existing?.payers ?? [];
+  if (existing && contributions.length > 0) {
+    await validatePayerContributions(updateData.amount ?? existing.amount, contributions, client);
+  }
+
+  if (existing && updateData.amount && !updateData.amount.equals(existing.amount)) {
+    await resizeExpenseSplits(
+      client,
+      id,
+      updateData.amount,
+      splitAmounts,
+      forceSplitChanges ?? false
+    );
+  }
+
+  const expense = await client.expense.update({
     where: { id },
-    data: updateData,
+    data: {
+      ...updateData,
+      ...(payers && {
+        payers: {
+          deleteMany: {},
+          create: payers.map(payer => ({
+            userId: payer.userId,
+            amount: new Decimal(payer.amount),
+          })),
+        },
+      }),
+      ...(tagIds && {
+        tags: { deleteMany: {}, create: [...new Set(tagIds)].map(tagId => ({ tagId })) },
+      }),
+    },
     include: {
       user: {
         select: {
@@ -273,6 +720,22 @@ export async function updateExpense(
           color: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
+      tags: {
+        select: { tag: { select: { id: true, name: true, color: true } } },
+        orderBy: { tag: { name: 'asc' } },
+      },
       splits: {
         include: {
           user: {
@@ -288,44 +751,216 @@ export async function updateExpense(
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
   });
+
+  await recordExpenseRevisionQuery(client, id, ExpenseRevisionAction.UPDATED, actorId);
+
+  return expense;
 }
 
 /** Update user's expense (ensures user ownership) */
 export async function updateUserExpense(
   expenseId: number,
   userId: number,
-  data: UpdateExpenseData
+  data: Omit<UpdateExpenseData, 'payers'>
 ) {
-  const updateResult = await prisma.expense.updateMany({
-    where: {
-      id: expenseId,
-      userId: userId,
-    },
-    data,
+  return prisma.$transaction(async tx => {
+    const updateResult = await tx.expense.updateMany({
+      where: {
+        id: expenseId,
+        userId: userId,
+        deletedAt: null,
+      },
+      data,
+    });
+
+    if (updateResult.count === 0) {
+      return null; // Expense not found or doesn't belong to user
+    }
+
+    await recordExpenseRevisionQuery(tx, expenseId, ExpenseRevisionAction.UPDATED, userId);
+
+    // Fetch and return the updated expense
+    return tx.expense.findFirst({
+      where: { id: expenseId, userId, deletedAt: null },
+    });
   });
+}
 
-  if (updateResult.count === 0) {
-    return null; // Expense not found or doesn't belong to user
+/**
+ * Move an expense to the trash. It drops out of every list, balance and report
+ * but keeps its splits and attachments until it is restored or purged.
+ * Runs as part of the caller's transaction when one is given.
+ */
+export async function deleteExpense(
+  id: number,
+  actorId: number,
+  client?: Prisma.TransactionClient
+): Promise<Expense> {
+  if (!client) {
+    return prisma.$transaction(tx => deleteExpense(id, actorId, tx));
   }
 
-  // Fetch and return the updated expense
+  const expense = await client.expense.update({
+    where: { id },
+    data: { deletedAt: new Date() },
+  });
+  await recordExpenseRevisionQuery(client, id, ExpenseRevisionAction.DELETED, actorId);
+
+  return expense;
+}
+
+// ===== Trash =====
+
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + EXPENSE_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** List a user's or a group's expenses in the trash, most recently deleted first */
+export async function getDeletedExpenses(filters: {
+  userId?: number;
+  groupId?: number;
+}): Promise<DeletedExpense[]> {
+  const expenses = await prisma.expense.findMany({
+    where: { ...filters, deletedAt: { not: null } },
+    orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+    include: {
+      user: { select: { id: true, name: true } },
+      group: { select: { id: true, name: true } },
+      category: { select: { id: true, name: true } },
+      _count: { select: { splits: true } },
+    },
+  });
+
+  return expenses.map(expense => ({
+    ...expense,
+    deletedAt: expense.deletedAt!,
+    purgeAt: purgeDate(expense.deletedAt!),
+  }));
+}
+
+/** Get an expense in the trash by ID */
+export async function getDeletedExpense(id: number): Promise<Expense | null> {
   return prisma.expense.findFirst({
-    where: { id: expenseId, userId },
+    where: { id, deletedAt: { not: null } },
   });
 }
 
-/** Delete an expense */
-export async function deleteExpense(id: number): Promise<Expense> {
-  // Note: Splits will be automatically deleted due to cascade delete in schema
-  return prisma.expense.delete({
-    where: { id },
+/** Take an expense out of the trash; its splits count towards balances again */
+export async function restoreExpense(id: number, actorId: number): Promise<Expense> {
+  return prisma.$transaction(async tx => {
+    const expense = await tx.expense.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+    await recordExpenseRevisionQuery(tx, id, ExpenseRevisionAction.RESTORED, actorId);
+
+    return expense;
   });
 }
 
+/**
+ * Permanently delete expenses that have been in the trash for longer than the retention
+ * period, with their splits and attachment files. Returns how many were purged.
+ */
+export async function purgeDeletedExpenses(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - EXPENSE_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired: Prisma.ExpenseWhereInput = { deletedAt: { lte: cutoff } };
+
+  let attachmentFiles: AttachmentFiles[] = [];
+  const purged = await prisma.$transaction(async tx => {
+    attachmentFiles = await tx.expenseAttachment.findMany({
+      where: { expense: expired },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+    // Splits, payers, items and attachment records cascade with the expense
+    return tx.expense.deleteMany({ where: expired });
+  });
+
+  // Stored files can only go once their records are gone; a file left behind doesn't undo the purge
+  await removeAttachmentFiles(attachmentFiles).catch(() => undefined);
+
+  return purged.count;
+}
+
+// ===== Bulk Operations =====
+
+/** Apply one bulk operation; returns the ID of the expense it created or changed */
+async function applyBulkExpenseOperation(
+  operation: BulkExpenseOperation,
+  actorId: number,
+  client?: Prisma.TransactionClient
+): Promise<number> {
+  switch (operation.action) {
+    case 'create':
+      return (await createExpense(operation.data, client)).id;
+    case 'update':
+      return (await updateExpense(operation.id, operation.data, actorId, client)).id;
+    case 'delete':
+      return (await deleteExpense(operation.id, actorId, client)).id;
+  }
+}
+
+/**
+ * Apply many expense operations in order. Atomic runs share one transaction: after a failure
+ * the operations before it are rolled back and the rest don't run. Otherwise every operation
+ * is applied on its own and failures don't stop the others.
+ */
+export async function applyBulkExpenseOperations(
+  operations: BulkExpenseOperation[],
+  actorId: number,
+  atomic: boolean
+): Promise<BulkExpenseResult[]> {
+  const results: BulkExpenseResult[] = operations.map(() => ({ status: 'skipped' }));
+
+  if (!atomic) {
+    for (const [index, operation] of operations.entries()) {
+      try {
+        results[index] = {
+          status: 'succeeded',
+          id: await applyBulkExpenseOperation(operation, actorId),
+        };
+      } catch (error) {
+        results[index] = { status: 'failed', error };
+      }
+    }
+    return results;
+  }
+
+  try {
+    await prisma.$transaction(
+      async tx => {
+        for (const [index, operation] of operations.entries()) {
+          try {
+            results[index] = {
+              status: 'succeeded',
+              id: await applyBulkExpenseOperation(operation, actorId, tx),
+            };
+          } catch (error) {
+            results[index] = { status: 'failed', error };
+            throw error;
+          }
+        }
+      },
+      {
+        maxWait: BULK_TRANSACTION_MAX_WAIT_MS,
+        timeout: BULK_MAX_OPERATIONS * BULK_TRANSACTION_MS_PER_OPERATION,
+      }
+    );
+  } catch (error) {
+    if (!results.some(result => result.status === 'failed')) {
+      throw error; // The commit itself failed
+    }
+    return results.map(result => (result.status === 'succeeded' ? { status: 'skipped' } : result));
+  }
+
+  return results;
+}
+
 // ===== User-specific Queries =====
 
 /** Get all expenses for a user */
@@ -346,7 +981,7 @@ export async function getUserExpenses(
   if (!includeDetails) {
     // Return simple expense list for performance with empty splits array
     return prisma.expense.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       orderBy: orderConfig,
       take: limit,
       skip: offset,
@@ -380,9 +1015,22 @@ export async function getUserExpenses(
           },
           take: 0, // Don't actually fetch splits for performance
         },
+        payers: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+          take: 0,
+        },
         _count: {
           select: {
             splits: true,
+            comments: true,
           },
         },
       },
@@ -390,7 +1038,7 @@ export async function getUserExpenses(
   }
 
   return prisma.expense.findMany({
-    where: { userId },
+    where: { userId, deletedAt: null },
     orderBy: orderConfig,
     take: limit,
     skip: offset,
@@ -412,6 +1060,18 @@ export async function getUserExpenses(
           avatar: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
       splits: {
         include: {
           user: {
@@ -427,6 +1087,7 @@ export async function getUserExpenses(
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
@@ -444,6 +1105,7 @@ export async function getUserPersonalExpenses(
     where: {
       userId,
       groupId: null, // Personal expenses only
+      deletedAt: null,
     },
     orderBy: { [orderBy]: orderDirection },
     take: limit,
@@ -459,6 +1121,18 @@ export async function getUserPersonalExpenses(
         },
       },
       group: false, // No group for personal expenses
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
       splits: {
         include: {
           user: {
@@ -474,6 +1148,7 @@ export async function getUserPersonalExpenses(
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
@@ -490,7 +1165,7 @@ export async function getGroupExpenses(
   const { limit = 50, offset = 0, orderBy = 'paidAt', orderDirection = 'desc' } = options;
 
   return prisma.expense.findMany({
-    where: { groupId },
+    where: { groupId, deletedAt: null },
     orderBy: { [orderBy]: orderDirection },
     take: limit,
     skip: offset,
@@ -512,6 +1187,18 @@ export async function getGroupExpenses(
           avatar: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
       splits: {
         include: {
           user: {
@@ -527,6 +1214,7 @@ export async function getGroupExpenses(
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
@@ -539,7 +1227,7 @@ export async function getRecentGroupExpenses(
   limit: number = 10
 ): Promise<ExpenseWithDetails[]> {
   return prisma.expense.findMany({
-    where: { groupId },
+    where: { groupId, deletedAt: null },
     orderBy: { paidAt: 'desc' },
     take: limit,
     include: {
@@ -560,6 +1248,18 @@ export async function getRecentGroupExpenses(
           avatar: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
       splits: {
         include: {
           user: {
@@ -575,6 +1275,7 @@ export async function getRecentGroupExpenses(
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
@@ -593,6 +1294,7 @@ export async function getUserGroupExpenses(
     where: {
       userId,
       groupId,
+      deletedAt: null,
     },
     orderBy: { [orderBy]: orderDirection },
     take: limit,
@@ -615,6 +1317,18 @@ export async function getUserGroupExpenses(
           avatar: true,
         },
       },
+      payers: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
       splits: {
         include: {
           user: {
@@ -630,6 +1344,7 @@ export async function getUserGroupExpenses(
       _count: {
         select: {
           splits: true,
+          comments: true,
         },
       },
     },
@@ -638,6 +1353,61 @@ export async function getUserGroupExpenses(
 
 // ===== Advanced Search and Filtering =====
 
+// Relations loaded with search results
+const searchInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      username: true,
+      avatar: true,
+    },
+  },
+  group: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      avatar: true,
+    },
+  },
+  payers: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+    orderBy: { id: 'asc' },
+  },
+  tags: {
+    select: { tag: { select: { id: true, name: true, color: true } } },
+    orderBy: { tag: { name: 'asc' } },
+  },
+  splits: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  _count: {
+    select: {
+      splits: true,
+      comments: true,
+    },
+  },
+} as const;
+
 /** Search expenses with advanced filters */
 export async function searchExpenses(
   filters: ExpenseFilters,
@@ -645,102 +1415,98 @@ export async function searchExpenses(
 ): Promise<ExpenseWithDetails[]> {
   const { limit = 50, offset = 0, orderBy = 'paidAt', orderDirection = 'desc' } = options;
 
-  // Build where clause dynamically
-  const whereClause: ExpenseWhereClause = {};
-
-  if (filters.userId) {
-    whereClause.userId = filters.userId;
-  }
+  return prisma.expense.findMany({
+    where: buildSearchWhereClause(filters),
+    orderBy: { [orderBy]: orderDirection },
+    take: limit,
+    skip: offset,
+    include: searchInclude,
+  });
+}
 
-  if (filters.groupId !== undefined) {
-    whereClause.groupId = filters.groupId;
-  }
+/**
+ * Search expenses a page at a time, ordered by the sort field then ID
+ * Pass the previous page's nextCursor to get the next page; it is null on the last page
+ */
+export async function searchExpensePage(
+  filters: ExpenseFilters,
+  options: ExpensePageOptions = {}
+): Promise<ExpensePage> {
+  const { limit = 50, orderBy = 'paidAt', orderDirection = 'desc', cursor } = options;
 
-  if (filters.title) {
-    whereClause.title = {
-      contains: filters.title,
-      mode: 'insensitive',
-    };
-  }
+  let where: Prisma.ExpenseWhereInput = buildSearchWhereClause(filters);
 
-  if (filters.description) {
-    whereClause.description = {
-      contains: filters.description,
-      mode: 'insensitive',
+  // Continue strictly after the last expense of the previous page
+  if (cursor) {
+    const after = decodeExpenseCursor(cursor, orderBy, orderDirection);
+    const beyond = orderDirection === 'desc' ? 'lt' : 'gt';
+    where = {
+      AND: [
+        where,
+        {
+          OR: [
+            { [orderBy]: { [beyond]: after.value } },
+            { [orderBy]: after.value, id: { [beyond]: after.id } },
+          ],
+        },
+      ],
     };
   }
 
-  if (
-    (filters.minAmount !== null && filters.minAmount !== undefined) ||
-    (filters.maxAmount !== null && filters.maxAmount !== undefined)
-  ) {
-    whereClause.amount = {};
-    if (filters.minAmount !== null && filters.minAmount !== undefined) {
-      whereClause.amount.gte = new Decimal(filters.minAmount);
-    }
-    if (filters.maxAmount !== null && filters.maxAmount !== undefined) {
-      whereClause.amount.lte = new Decimal(filters.maxAmount);
-    }
-  }
+  // Fetch one extra row to know whether there is a next page
+  const expenses = await prisma.expense.findMany({
+    where,
+    orderBy: [{ [orderBy]: orderDirection }, { id: orderDirection }],
+    take: limit + 1,
+    include: searchInclude,
+  });
 
-  if (filters.fromDate || filters.toDate) {
-    whereClause.paidAt = {};
-    if (filters.fromDate) {
-      whereClause.paidAt.gte = filters.fromDate;
-    }
-    if (filters.toDate) {
-      whereClause.paidAt.lte = filters.toDate;
-    }
+  if (expenses.length <= limit) {
+    return { expenses, nextCursor: null };
   }
 
-  // Filter by split payment status
-  if (filters.isPaid !== undefined) {
-    whereClause.splits = {
-      some: {
-        isPaid: filters.isPaid,
-      },
-    };
-  }
+  const page = expenses.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    expenses: page,
+    nextCursor: encodeExpenseCursor({
+      orderBy,
+      orderDirection,
+      value: orderBy === 'paidAt' ? last.paidAt.toISOString() : last[orderBy].toString(),
+      id: last.id,
+    }),
+  };
+}
 
+/**
+ * Get one page of expenses matching search filters for an export, oldest first
+ * Pass the last ID of the previous page as `afterId` to get the next one
+ */
+export async function getExpenseExportPage(
+  filters: ExpenseFilters,
+  afterId?: number,
+  take: number = 500
+): Promise<ExpenseExportRecord[]> {
   return prisma.expense.findMany({
-    where: whereClause,
-    orderBy: { [orderBy]: orderDirection },
-    take: limit,
-    skip: offset,
+    where: buildSearchWhereClause(filters),
+    orderBy: [{ paidAt: 'asc' }, { id: 'asc' }],
+    ...(afterId !== undefined && { cursor: { id: afterId }, skip: 1 }),
+    take,
     include: {
-      user: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          username: true,
-          avatar: true,
-        },
-      },
-      group: {
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          avatar: true,
-        },
+      user: { select: { id: true, name: true } },
+      category: { select: { id: true, name: true } },
+      group: { select: { id: true, name: true } },
+      payers: {
+        select: { userId: true, amount: true, user: { select: { name: true } } },
+        orderBy: { id: 'asc' },
       },
       splits: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-        },
+        select: { userId: true, amount: true, isPaid: true, user: { select: { name: true } } },
         orderBy: { createdAt: 'asc' },
       },
-      _count: {
-        select: {
-          splits: true,
-        },
+      tags: {
+        select: { tag: { select: { name: true } } },
+        orderBy: { tag: { name: 'asc' } },
       },
     },
   });
@@ -763,21 +1529,22 @@ export async function getUserExpenseStats(userId: number): Promise<{
 
   const [totalStats, personalCount, groupCount, thisMonthStats] = await Promise.all([
     prisma.expense.aggregate({
-      where: { userId },
+      where: { userId, deletedAt: null },
       _count: true,
       _sum: { amount: true },
       _avg: { amount: true },
     }),
     prisma.expense.count({
-      where: { userId, groupId: null },
+      where: { userId, groupId: null, deletedAt: null },
     }),
     prisma.expense.count({
-      where: { userId, groupId: { not: null } },
+      where: { userId, groupId: { not: null }, deletedAt: null },
     }),
     prisma.expense.aggregate({
       where: {
         userId,
         paidAt: { gte: firstDayOfMonth },
+        deletedAt: null,
       },
       _count: true,
       _sum: { amount: true },
@@ -809,7 +1576,7 @@ export async function getGroupExpenseStats(groupId: number): Promise<{
 
   const [totalStats, thisMonthStats, topSpenderData] = await Promise.all([
     prisma.expense.aggregate({
-      where: { groupId },
+      where: { groupId, deletedAt: null },
       _count: true,
       _sum: { amount: true },
       _avg: { amount: true },
@@ -818,13 +1585,14 @@ export async function getGroupExpenseStats(groupId: number): Promise<{
       where: {
         groupId,
         paidAt: { gte: firstDayOfMonth },
+        deletedAt: null,
       },
       _count: true,
       _sum: { amount: true },
     }),
     prisma.expense.groupBy({
       by: ['userId'],
-      where: { groupId },
+      where: { groupId, deletedAt: null },
       _sum: { amount: true },
       orderBy: { _sum: { amount: 'desc' } },
       take: 1,
@@ -863,6 +1631,7 @@ export async function getGroupExpenseStats(groupId: number): Promise<{
 /** List all expenses (for backward compatibility) */
 export async function listExpenses(): Promise<Expense[]> {
   return prisma.expense.findMany({
+    where: { deletedAt: null },
     orderBy: { id: 'desc' },
   });
 }
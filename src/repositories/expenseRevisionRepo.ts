@@ -0,0 +1,171 @@
+// src/repositories/expenseRevisionRepo.ts
+import { ExpenseRevision, ExpenseRevisionAction, PrismaClient, SplitType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  diffExpenseSnapshots,
+  ExpenseSnapshot,
+  getExpenseSnapshotQuery,
+  recordExpenseRevisionQuery,
+} from '../queries/expenseRevisionQueries.js';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface ExpenseRevisionWithActor extends ExpenseRevision {
+  actor: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+const actorInclude = {
+  actor: { select: { id: true, name: true } },
+} as const;
+
+// ===== History Operations =====
+
+/** List an expense's revisions, newest first */
+export async function getExpenseRevisions(expenseId: number): Promise<ExpenseRevisionWithActor[]> {
+  return prisma.expenseRevision.findMany({
+    where: { expenseId },
+    include: actorInclude,
+    orderBy: { id: 'desc' },
+  });
+}
+
+/** Get one of an expense's revisions */
+export async function getExpenseRevision(
+  expenseId: number,
+  revisionId: number
+): Promise<ExpenseRevision | null> {
+  return prisma.expenseRevision.findFirst({
+    where: { id: revisionId, expenseId },
+  });
+}
+
+/**
+ * Return an expense to the state recorded on one of its revisions, rebuilding its splits from it
+ * The revert is recorded as a new revision. Splits are only replaced while none of them are paid,
+ * and itemized expenses are refused since their splits follow their items. The group is restored
+ * too when the revision recorded it, provided everyone on the expense is still in that group.
+ */
+export async function revertExpenseToRevision(
+  expenseId: number,
+  revisionId: number,
+  actorId: number
+): Promise<ExpenseRevisionWithActor> {
+  return prisma.$transaction(async tx => {
+    const revision = await tx.expenseRevision.findFirst({
+      where: { id: revisionId, expenseId },
+    });
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const target = revision.snapshot as unknown as ExpenseSnapshot;
+    const current = await getExpenseSnapshotQuery(expenseId, tx);
+
+    const itemized = [...current.splits, ...target.splits].some(
+      split => split.splitType === SplitType.ITEMIZED
+    );
+    if (itemized || (await tx.expenseItem.count({ where: { expenseId } })) > 0) {
+      throw new Error('Itemized expenses cannot be reverted, change their items instead');
+    }
+
+    const splitsChanged = diffExpenseSnapshots(current, target).some(change =>
+      change.field.startsWith('splits.')
+    );
+    if (splitsChanged && current.splits.some(split => split.isPaid)) {
+      throw new Error('Expense has paid splits, it can no longer be reverted to different splits');
+    }
+
+    // Moving the expense back to another group or out of one follows the rules for moving it
+    const groupChanged = target.groupId !== undefined && target.groupId !== current.groupId;
+    if (groupChanged) {
+      const expense = await tx.expense.findUniqueOrThrow({
+        where: { id: expenseId },
+        select: { userId: true },
+      });
+
+      if (!target.groupId) {
+        if (expense.userId !== actorId) {
+          throw new Error('Only the payer can revert a group expense to a personal one');
+        }
+      } else {
+        const people = new Set([
+          actorId,
+          expense.userId,
+          ...target.payers.map(payer => payer.userId),
+          ...target.splits.map(split => split.userId),
+        ]);
+        const members = await tx.groupMember.count({
+          where: { groupId: target.groupId, userId: { in: [...people] } },
+        });
+        if (members !== people.size) {
+          throw new Error(
+            'Not everyone on the revision is still in its group, ' +
+              'so the expense can no longer be reverted to it'
+          );
+        }
+      }
+    }
+
+    // Categories and tags may have been deleted since; the expense goes without them
+    const category = target.categoryId
+      ? await tx.category.findUnique({ where: { id: target.categoryId }, select: { id: true } })
+      : null;
+    const tags = await tx.tag.findMany({
+      where: { id: { in: target.tagIds } },
+      select: { id: true },
+    });
+
+    await tx.expense.update({
+      where: { id: expenseId },
+      data: {
+        title: target.title,
+        description: target.description,
+        amount: new Decimal(target.amount),
+        currency: target.currency,
+        paidAt: new Date(target.paidAt),
+        ...(groupChanged && { groupId: target.groupId }),
+        categoryId: category?.id ?? null,
+        payers: {
+          deleteMany: {},
+          create: target.payers.map(payer => ({
+            userId: payer.userId,
+            amount: new Decimal(payer.amount),
+          })),
+        },
+        tags: { deleteMany: {}, create: tags.map(tag => ({ tagId: tag.id })) },
+      },
+    });
+
+    if (splitsChanged) {
+      await tx.expenseSplit.deleteMany({ where: { expenseId } });
+      await tx.expenseSplit.createMany({
+        data: target.splits.map(split => ({
+          expenseId,
+          userId: split.userId,
+          amount: new Decimal(split.amount),
+          splitType: split.splitType,
+          percentage: split.percentage,
+          isPaid: split.isPaid,
+        })),
+      });
+    }
+
+    const reverted = await recordExpenseRevisionQuery(
+      tx,
+      expenseId,
+      ExpenseRevisionAction.REVERTED,
+      actorId,
+      revisionId
+    );
+
+    return tx.expenseRevision.findUniqueOrThrow({
+      where: { id: reverted!.id },
+      include: actorInclude,
+    });
+  });
+}
@@ -1,5 +1,14 @@
-import { PrismaClient, SplitType, ExpenseSplit } from '@prisma/client';
+import {
+  Prisma,
+  PrismaClient,
+  SplitType,
+  ExpenseRevisionAction,
+  ExpenseSplit,
+} from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { getExchangeRateQuery } from '../queries/exchangeRateQueries.js';
+import { recordExpenseRevisionQuery } from '../queries/expenseRevisionQueries.js';
+import { calculateSplitAmounts, SplitParticipant } from '../utils/splitCalculation.js';
 
 const prisma = new PrismaClient();
 
@@ -32,12 +41,6 @@ export interface CreateSplitData {
   percentage?: number;
 }
 
-export interface SplitParticipant {
-  userId: number;
-  amount?: number; // For AMOUNT splits
-  percentage?: number; // For PERCENTAGE splits
-}
-
 export interface CreateSplitsRequest {
   expenseId: number;
   splitType: SplitType;
@@ -46,9 +49,11 @@ export interface CreateSplitsRequest {
 
 /**
  * Create expense splits for an expense
+ * actorId is who made the change, recorded in the expense's history
  */
 export async function createExpenseSplits(
-  data: CreateSplitsRequest
+  data: CreateSplitsRequest,
+  actorId: number | null = null
 ): Promise<ExpenseSplitWithUser[]> {
   const { expenseId, splitType, participants } = data;
 
@@ -62,143 +67,32 @@ export async function createExpenseSplits(
   }
 
   // Validate and calculate split amounts
-  const splitData = await calculateSplitAmounts(expense.amount, splitType, participants);
+  const splitData = calculateSplitAmounts(expense.amount, splitType, participants);
 
   // Create all splits
-  const splits = await Promise.all(
-    splitData.map(split =>
-      prisma.expenseSplit.create({
-        data: {
-          expenseId,
-          userId: split.userId,
-          amount: split.amount,
-          splitType,
-          percentage: split.percentage,
-        },
-        include: {
-          user: {
-            select: { id: true, name: true, email: true },
+  return prisma.$transaction(async tx => {
+    const splits = await Promise.all(
+      splitData.map(split =>
+        tx.expenseSplit.create({
+          data: {
+            expenseId,
+            userId: split.userId,
+            amount: split.amount,
+            splitType,
+            percentage: split.percentage,
           },
-        },
-      })
-    )
-  );
-
-  return splits;
-}
-
-/**
- * Calculate split amounts based on split type
- */
-async function calculateSplitAmounts(
-  totalAmount: Decimal,
-  splitType: SplitType,
-  participants: SplitParticipant[]
-): Promise<Array<{ userId: number; amount: Decimal; percentage?: number }>> {
-  const total = new Decimal(totalAmount.toString());
-
-  switch (splitType) {
-    case SplitType.EQUAL:
-      return calculateEqualSplit(total, participants);
-
-    case SplitType.AMOUNT:
-      return calculateAmountSplit(total, participants);
-
-    case SplitType.PERCENTAGE:
-      return calculatePercentageSplit(total, participants);
-
-    default:
-      throw new Error(`Unsupported split type: ${splitType}`);
-  }
-}
-
-/**
- * Calculate equal split among participants
- */
-function calculateEqualSplit(
-  totalAmount: Decimal,
-  participants: SplitParticipant[]
-): Array<{ userId: number; amount: Decimal; percentage?: number }> {
-  if (participants.length === 0) {
-    throw new Error('At least one participant is required');
-  }
-
-  const equalAmount = totalAmount.dividedBy(participants.length);
-
-  return participants.map(participant => ({
-    userId: participant.userId,
-    amount: equalAmount,
-  }));
-}
-
-/**
- * Calculate split based on specific amounts
- */
-function calculateAmountSplit(
-  totalAmount: Decimal,
-  participants: SplitParticipant[]
-): Array<{ userId: number; amount: Decimal; percentage?: number }> {
-  // Validate all participants have amounts
-  for (const participant of participants) {
-    if (participant.amount === undefined || participant.amount <= 0) {
-      throw new Error('All participants must have positive amounts for AMOUNT split');
-    }
-  }
-
-  // Calculate total of specified amounts
-  const specifiedTotal = participants.reduce(
-    (sum, participant) => sum.plus(participant.amount!),
-    new Decimal(0)
-  );
-
-  // Validate total matches expense amount
-  if (!specifiedTotal.equals(totalAmount)) {
-    throw new Error(
-      `Split amounts total (${specifiedTotal}) must equal expense amount (${totalAmount})`
+          include: {
+            user: {
+              select: { id: true, name: true, email: true },
+            },
+          },
+        })
+      )
     );
-  }
-
-  return participants.map(participant => ({
-    userId: participant.userId,
-    amount: new Decimal(participant.amount!),
-  }));
-}
 
-/**
- * Calculate split based on percentages
- */
-function calculatePercentageSplit(
-  totalAmount: Decimal,
-  participants: SplitParticipant[]
-): Array<{ userId: number; amount: Decimal; percentage: number }> {
-  // Validate all participants have percentages
-  for (const participant of participants) {
-    if (participant.percentage === undefined || participant.percentage <= 0) {
-      throw new Error('All participants must have positive percentages for PERCENTAGE split');
-    }
-  }
-
-  // Calculate total percentage
-  const totalPercentage = participants.reduce(
-    (sum, participant) => sum + participant.percentage!,
-    0
-  );
-
-  // Validate total percentage is 100%
-  if (Math.abs(totalPercentage - 100) > 0.01) {
-    // Allow small floating point differences
-    throw new Error(`Split percentages must total 100%, got ${totalPercentage}%`);
-  }
+    await recordExpenseRevisionQuery(tx, expenseId, ExpenseRevisionAction.SPLITS_UPDATED, actorId);
 
-  return participants.map(participant => {
-    const percentage = participant.percentage!;
-    const amount = totalAmount.times(percentage).dividedBy(100);
-
-    return {
-      userId: participant.userId,
-      amount,
-      percentage,
-    };
+    return splits;
   });
 }
 
@@ -222,7 +116,7 @@ export async function getExpenseSplits(expenseId: number): Promise<ExpenseSplitW
  */
 export async function getUserSplits(userId: number): Promise<ExpenseSplitWithExpense[]> {
   return prisma.expenseSplit.findMany({
-    where: { userId },
+    where: { userId, expense: { deletedAt: null } },
     include: {
       expense: {
         select: {
@@ -243,21 +137,162 @@ export async function getUserSplits(userId: number): Promise<ExpenseSplitWithExp
  */
 export async function markSplitAsPaid(
   expenseId: number,
-  userId: number
+  userId: number,
+  actorId: number
 ): Promise<ExpenseSplitWithUser> {
-  return prisma.expenseSplit.update({
-    where: {
-      expenseId_userId: { expenseId, userId },
-    },
-    data: { isPaid: true },
-    include: {
-      user: {
-        select: { id: true, name: true, email: true },
+  return prisma.$transaction(async tx => {
+    const split = await tx.expenseSplit.update({
+      where: {
+        expenseId_userId: { expenseId, userId },
       },
-    },
+      data: { isPaid: true },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+    });
+
+    await recordExpenseRevisionQuery(tx, expenseId, ExpenseRevisionAction.SPLITS_UPDATED, actorId);
+
+    return split;
+  });
+}
+
+/**
+ * Mark a split as paid as part of a settlement and record it in the expense's history
+ */
+async function settleSplit(
+  split: { id: number; expenseId: number },
+  actorId: number
+): Promise<void> {
+  await prisma.$transaction(async tx => {
+    await tx.expenseSplit.update({
+      where: { id: split.id },
+      data: { isPaid: true },
+    });
+    await recordExpenseRevisionQuery(
+      tx,
+      split.expenseId,
+      ExpenseRevisionAction.SPLITS_UPDATED,
+      actorId
+    );
+  });
+}
+
+/**
+ * Options for balance calculations
+ */
+export interface BalanceOptions {
+  currency?: string; // Convert every balance into this currency instead of reporting per currency
+}
+
+/**
+ * Rates converting each of the given currencies into the target currency
+ */
+async function getConversionRates(
+  currencies: string[],
+  target: string
+): Promise<Map<string, Decimal>> {
+  const rates = new Map<string, Decimal>();
+
+  for (const currency of new Set(currencies)) {
+    const rate = await getExchangeRateQuery(currency, target);
+
+    if (!rate) {
+      throw new Error(`No exchange rate from ${currency} to ${target}`);
+    }
+
+    rates.set(currency, rate);
+  }
+
+  return rates;
+}
+
+/**
+ * Express an amount in the reporting currency (unchanged when not converting)
+ */
+function toReportingAmount(
+  amount: Decimal,
+  currency: string,
+  rates: Map<string, Decimal> | null
+): Decimal {
+  return rates ? amount.times(rates.get(currency)!).toDecimalPlaces(2) : amount;
+}
+
+/**
+ * Expense fields needed to work out who a split is owed to
+ */
+const expensePaymentSelect = {
+  userId: true,
+  amount: true,
+  currency: true,
+  payers: { select: { userId: true, amount: true } },
+} as const;
+
+interface ExpensePayments {
+  userId: number;
+  amount: Decimal;
+  payers: Array<{ userId: number; amount: Decimal }>;
+}
+
+/**
+ * Expenses the user paid for, alone or together with others
+ * Expenses without payer contributions were paid in full by their creator
+ */
+function paidByWhere(userId: number): Prisma.ExpenseWhereInput {
+  return {
+    deletedAt: null,
+    OR: [{ userId, payers: { none: {} } }, { payers: { some: { userId } } }],
+  };
+}
+
+/**
+ * Divide a participant's share between the people who paid, in proportion to their contributions
+ * Whatever the participant paid themselves covers part of their own share
+ */
+function allocateSplit(
+  split: { userId: number; amount: Decimal },
+  expense: ExpensePayments
+): Array<{ payerId: number; amount: Decimal }> {
+  const payers =
+    expense.payers.length > 0
+      ? expense.payers
+      : [{ userId: expense.userId, amount: expense.amount }];
+  const creditors = payers.filter(payer => payer.userId !== split.userId);
+
+  if (creditors.length === 0 || expense.amount.isZero()) {
+    return [];
+  }
+
+  const paidByOthers = creditors.reduce((sum, payer) => sum.plus(payer.amount), new Decimal(0));
+  let remaining = split.amount.times(paidByOthers).dividedBy(expense.amount).toDecimalPlaces(2);
+
+  // Round each share to cents and give the last payer the remainder
+  return creditors.map((payer, index) => {
+    const amount =
+      index === creditors.length - 1
+        ? remaining
+        : split.amount.times(payer.amount).dividedBy(expense.amount).toDecimalPlaces(2);
+    remaining = remaining.minus(amount);
+    return { payerId: payer.userId, amount };
   });
 }
 
+/**
+ * What a split owes the payee, if the payee is the only person it is owed to
+ * A split owed to several payers can only be marked paid as a whole (see markSplitAsPaid)
+ */
+function amountOwedOnlyTo(
+  split: { userId: number; amount: Decimal; expense: ExpensePayments },
+  payeeId: number
+): Decimal | null {
+  const allocations = allocateSplit(split, split.expense);
+  return allocations.length === 1 && allocations[0].payerId === payeeId
+    ? allocations[0].amount
+    : null;
+}
+
 /**
  * Settlement between two users
  */
@@ -265,6 +300,7 @@ export interface UserSettlement {
   userId: number;
   name: string;
   email: string;
+  currency: string;
   netAmount: Decimal; // Positive means they owe you, negative means you owe them
   owedByYou: Decimal; // Amount you owe them
   owedToYou: Decimal; // Amount they owe you
@@ -272,15 +308,19 @@ export interface UserSettlement {
 
 /**
  * Calculate settlements for a user (who they owe and who owes them)
+ * Returns one entry per person and currency, or one per person when converting
  */
-export async function getUserSettlements(userId: number): Promise<UserSettlement[]> {
+export async function getUserSettlements(
+  userId: number,
+  options: BalanceOptions = {}
+): Promise<UserSettlement[]> {
   // Get all unpaid splits involving this user
   const userSplits = await prisma.expenseSplit.findMany({
     where: {
       OR: [
-        { userId: userId, isPaid: false }, // Splits where user owes money
+        { userId: userId, isPaid: false, expense: { deletedAt: null } }, // Splits where user owes money
         {
-          expense: { userId: userId }, // Expenses paid by user
+          expense: paidByWhere(userId), // Expenses paid by user
           isPaid: false,
           userId: { not: userId }, // But split belongs to someone else
         },
@@ -288,64 +328,71 @@ export async function getUserSettlements(userId: number): Promise<UserSettlement
     },
     include: {
       user: { select: { id: true, name: true, email: true } },
-      expense: { select: { userId: true } },
+      expense: { select: expensePaymentSelect },
     },
   });
 
-  // Group splits by the other user involved
+  const rates = options.currency
+    ? await getConversionRates(
+        userSplits.map(split => split.expense.currency),
+        options.currency
+      )
+    : null;
+
+  // Group splits by the other user involved and the currency
   const settlementMap = new Map<
-    number,
+    string,
     {
-      user: { id: number; name: string; email: string };
+      otherUserId: number;
+      currency: string;
       owedByUser: Decimal; // Amount user owes to this person
       owedToUser: Decimal; // Amount this person owes to user
     }
   >();
+  const userDetails = new Map<number, { id: number; name: string; email: string }>();
 
   for (const split of userSplits) {
-    let otherUserId: number;
-    let isUserOwing: boolean;
+    const isUserOwing = split.userId === userId;
 
-    if (split.userId === userId) {
-      // User owes money for this split
-      otherUserId = split.expense.userId;
-      isUserOwing = true;
-    } else {
-      // Someone else owes money to user for this split
-      otherUserId = split.userId;
-      isUserOwing = false;
+    if (!isUserOwing) {
+      userDetails.set(split.userId, split.user);
     }
 
-    // Skip if no other user (shouldn't happen but safety check)
-    if (!otherUserId || otherUserId === userId) {
-      continue;
-    }
+    for (const allocation of allocateSplit(split, split.expense)) {
+      // User owes each payer of their split; others only owe the user's part of theirs
+      if (!isUserOwing && allocation.payerId !== userId) {
+        continue;
+      }
 
-    // Initialize settlement for this user if not exists
-    if (!settlementMap.has(otherUserId)) {
-      settlementMap.set(otherUserId, {
-        user:
-          split.userId === userId
-            ? { id: otherUserId, name: '', email: '' } // We'll get this from another query
-            : split.user,
-        owedByUser: new Decimal(0),
-        owedToUser: new Decimal(0),
-      });
-    }
+      const otherUserId = isUserOwing ? allocation.payerId : split.userId;
+      const currency = options.currency ?? split.expense.currency;
+      const key = `${otherUserId}:${currency}`;
+
+      // Initialize settlement for this user and currency if not exists
+      if (!settlementMap.has(key)) {
+        settlementMap.set(key, {
+          otherUserId,
+          currency,
+          owedByUser: new Decimal(0),
+          owedToUser: new Decimal(0),
+        });
+      }
 
-    const settlement = settlementMap.get(otherUserId)!;
+      const settlement = settlementMap.get(key)!;
+      const amount = toReportingAmount(allocation.amount, split.expense.currency, rates);
 
-    if (isUserOwing) {
-      settlement.owedByUser = settlement.owedByUser.plus(split.amount);
-    } else {
-      settlement.owedToUser = settlement.owedToUser.plus(split.amount);
+      if (isUserOwing) {
+        settlement.owedByUser = settlement.owedByUser.plus(amount);
+      } else {
+        settlement.owedToUser = settlement.owedToUser.plus(amount);
+      }
     }
   }
 
   // Get user details for any missing user info
-  const userIds = Array.from(settlementMap.keys()).filter(
-    id => settlementMap.get(id)!.user.name === ''
-  );
+  const userIds = Array.from(
+    new Set(Array.from(settlementMap.values()).map(settlement => settlement.otherUserId))
+  ).filter(id => !userDetails.has(id));
 
   if (userIds.length > 0) {
     const users = await prisma.user.findMany({
@@ -354,19 +401,17 @@ export async function getUserSettlements(userId: number): Promise<UserSettlement
     });
 
     for (const user of users) {
-      const settlement = settlementMap.get(user.id);
-      if (settlement) {
-        settlement.user = user;
-      }
+      userDetails.set(user.id, user);
     }
   }
 
   // Convert to UserSettlement array with net calculations
-  const settlements: UserSettlement[] = Array.from(settlementMap.entries())
-    .map(([otherUserId, settlement]) => ({
-      userId: otherUserId,
-      name: settlement.user.name,
-      email: settlement.user.email,
+  const settlements: UserSettlement[] = Array.from(settlementMap.values())
+    .map(settlement => ({
+      userId: settlement.otherUserId,
+      name: userDetails.get(settlement.otherUserId)?.name ?? '',
+      email: userDetails.get(settlement.otherUserId)?.email ?? '',
+      currency: settlement.currency,
       owedByYou: settlement.owedByUser,
       owedToYou: settlement.owedToUser,
       netAmount: settlement.owedToUser.minus(settlement.owedByUser),
@@ -377,15 +422,28 @@ export async function getUserSettlements(userId: number): Promise<UserSettlement
         !settlement.owedByYou.equals(0) || !settlement.owedToYou.equals(0)
     )
     .sort((a, b) =>
-      // Sort by net amount descending (people who owe you most first)
-      b.netAmount.minus(a.netAmount).toNumber()
+      // Sort by currency, then net amount descending (people who owe you most first)
+      a.currency === b.currency
+        ? b.netAmount.minus(a.netAmount).toNumber()
+        : a.currency.localeCompare(b.currency)
     );
 
   return settlements;
 }
 
+/**
+ * What two users owe each other in one currency
+ */
+export interface PairCurrencyBalance {
+  currency: string;
+  user1OwesUser2: Decimal;
+  user2OwesUser1: Decimal;
+  netAmount: Decimal; // Positive means user2 owes user1, negative means user1 owes user2
+}
+
 /**
  * Get detailed settlement between two specific users
+ * Totals are kept per currency, like getUserSettlements
  */
 export async function getSettlementBetweenUsers(
   user1Id: number,
@@ -393,16 +451,15 @@ export async function getSettlementBetweenUsers(
 ): Promise<{
   user1: { id: number; name: string; email: string };
   user2: { id: number; name: string; email: string };
-  user1OwesUser2: Decimal;
-  user2OwesUser1: Decimal;
-  netAmount: Decimal; // Positive means user2 owes user1, negative means user1 owes user2
+  balances: PairCurrencyBalance[]; // One per currency, sorted by currency
   splits: Array<{
     expenseId: number;
     expenseTitle: string;
     amount: Decimal;
+    currency: string;
     splitType: SplitType;
     percentage: number | null;
-    paidBy: number; // Who paid for the expense
+    paidBy: number; // Who the money is owed to
     owedBy: number; // Who owes the money
   }>;
 }> {
@@ -428,36 +485,52 @@ export async function getSettlementBetweenUsers(
       isPaid: false,
       OR: [
         // User1 owes money on expenses paid by User2
-        { userId: user1Id, expense: { userId: user2Id } },
+        { userId: user1Id, expense: paidByWhere(user2Id) },
         // User2 owes money on expenses paid by User1
-        { userId: user2Id, expense: { userId: user1Id } },
+        { userId: user2Id, expense: paidByWhere(user1Id) },
       ],
     },
     include: {
       expense: {
-        select: { id: true, title: true, userId: true },
+        select: { id: true, title: true, ...expensePaymentSelect },
       },
     },
     orderBy: { createdAt: 'desc' },
   });
 
-  let user1OwesUser2 = new Decimal(0);
-  let user2OwesUser1 = new Decimal(0);
+  const balances = new Map<string, PairCurrencyBalance>();
 
   const splitDetails = splits.map(split => {
-    const paidBy = split.expense.userId;
     const owedBy = split.userId;
+    const paidBy = owedBy === user1Id ? user2Id : user1Id;
+    // Only the part of the split owed to the other user
+    const amount =
+      allocateSplit(split, split.expense).find(allocation => allocation.payerId === paidBy)
+        ?.amount ?? new Decimal(0);
+
+    const currency = split.expense.currency;
+    if (!balances.has(currency)) {
+      balances.set(currency, {
+        currency,
+        user1OwesUser2: new Decimal(0),
+        user2OwesUser1: new Decimal(0),
+        netAmount: new Decimal(0),
+      });
+    }
 
+    const balance = balances.get(currency)!;
     if (owedBy === user1Id) {
-      user1OwesUser2 = user1OwesUser2.plus(split.amount);
+      balance.user1OwesUser2 = balance.user1OwesUser2.plus(amount);
     } else {
-      user2OwesUser1 = user2OwesUser1.plus(split.amount);
+      balance.user2OwesUser1 = balance.user2OwesUser1.plus(amount);
     }
+    balance.netAmount = balance.user2OwesUser1.minus(balance.user1OwesUser2);
 
     return {
       expenseId: split.expense.id,
       expenseTitle: split.expense.title,
-      amount: split.amount,
+      amount,
+      currency: split.expense.currency,
       splitType: split.splitType,
       percentage: split.percentage,
       paidBy,
@@ -468,41 +541,49 @@ export async function getSettlementBetweenUsers(
   return {
     user1,
     user2,
-    user1OwesUser2,
-    user2OwesUser1,
-    netAmount: user2OwesUser1.minus(user1OwesUser2),
+    balances: Array.from(balances.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
     splits: splitDetails,
   };
 }
 
 /**
  * Settle debt between two users (mark specific splits as paid)
+ * An amount only makes sense in one currency: without one it is in the currency of the debts,
+ * which must then all be in the same currency
  */
 export async function settleDebtBetweenUsers(
   payerId: number,
   payeeId: number,
-  amount?: Decimal // If not provided, settle all debts
+  amount?: Decimal, // If not provided, settle all debts
+  currency?: string // Only settle debts in this currency
 ): Promise<{
   settledAmount: Decimal;
   settledSplits: number; // Count of splits marked as paid
+  skippedSplits: number; // Splits also owed to other payers, left for markSplitAsPaid
 }> {
   // Get all unpaid splits where payer owes money to payee
   const unpaidSplits = await prisma.expenseSplit.findMany({
     where: {
       userId: payerId,
-      expense: { userId: payeeId },
+      expense: { ...paidByWhere(payeeId), ...(currency && { currency }) },
       isPaid: false,
     },
+    include: { expense: { select: expensePaymentSelect } },
     orderBy: { createdAt: 'asc' }, // Settle oldest debts first
   });
 
+  if (amount && !currency && new Set(unpaidSplits.map(split => split.expense.currency)).size > 1) {
+    throw new Error('Currency is required when settling an amount of debts in several currencies');
+  }
+
   if (unpaidSplits.length === 0) {
-    return { settledAmount: new Decimal(0), settledSplits: 0 };
+    return { settledAmount: new Decimal(0), settledSplits: 0, skippedSplits: 0 };
   }
 
   let remainingAmount = amount || new Decimal(Number.MAX_SAFE_INTEGER);
   let settledAmount = new Decimal(0);
   let settledSplits = 0;
+  let skippedSplits = 0;
 
   // Mark splits as paid until we reach the settlement amount
   for (const split of unpaidSplits) {
@@ -510,31 +591,31 @@ export async function settleDebtBetweenUsers(
       break;
     }
 
-    if (split.amount.lessThanOrEqualTo(remainingAmount)) {
+    const owed = amountOwedOnlyTo(split, payeeId);
+    if (!owed) {
+      skippedSplits++; // Also owed to other payers
+      continue;
+    }
+
+    if (owed.lessThanOrEqualTo(remainingAmount)) {
       // Settle this split completely
-      await prisma.expenseSplit.update({
-        where: { id: split.id },
-        data: { isPaid: true },
-      });
+      await settleSplit(split, payerId);
 
-      settledAmount = settledAmount.plus(split.amount);
-      remainingAmount = remainingAmount.minus(split.amount);
+      settledAmount = settledAmount.plus(owed);
+      remainingAmount = remainingAmount.minus(owed);
       settledSplits++;
     } else if (!amount) {
       // If no specific amount provided, settle all remaining
-      await prisma.expenseSplit.update({
-        where: { id: split.id },
-        data: { isPaid: true },
-      });
+      await settleSplit(split, payerId);
 
-      settledAmount = settledAmount.plus(split.amount);
+      settledAmount = settledAmount.plus(owed);
       settledSplits++;
     }
     // If specific amount provided and split is larger, we can't partially settle
     // (this would require more complex partial payment tracking)
   }
 
-  return { settledAmount, settledSplits };
+  return { settledAmount, settledSplits, skippedSplits };
 }
 
 /**
@@ -543,6 +624,14 @@ export async function settleDebtBetweenUsers(
 export interface GroupSettlement {
   groupId: number;
   groupName: string;
+  balances: GroupCurrencySettlement[]; // One per currency, or a single converted entry
+}
+
+/**
+ * Balances and settlement plan for one currency within a group
+ */
+export interface GroupCurrencySettlement {
+  currency: string;
   members: Array<{
     userId: number;
     name: string;
@@ -561,12 +650,16 @@ export interface GroupSettlement {
 
 /**
  * Calculate optimized group settlements
+ * Debts are settled within each currency; the group's default currency is always reported
  */
-export async function getGroupSettlements(groupId: number): Promise<GroupSettlement> {
+export async function getGroupSettlements(
+  groupId: number,
+  options: BalanceOptions = {}
+): Promise<GroupSettlement> {
   // Get group details
   const group = await prisma.group.findUnique({
     where: { id: groupId },
-    select: { id: true, name: true },
+    select: { id: true, name: true, defaultCurrency: true },
   });
 
   if (!group) {
@@ -589,67 +682,92 @@ export async function getGroupSettlements(groupId: number): Promise<GroupSettlem
   const groupSplits = await prisma.expenseSplit.findMany({
     where: {
       isPaid: false,
-      expense: { groupId },
+      expense: { groupId, deletedAt: null },
     },
     include: {
       user: { select: { id: true, name: true, email: true } },
-      expense: {
-        select: { userId: true, user: { select: { name: true } } },
-      },
+      expense: { select: expensePaymentSelect },
     },
   });
 
-  // Calculate net balance for each member
-  const memberBalances = new Map<number, { user: any; netBalance: Decimal }>();
+  const rates = options.currency
+    ? await getConversionRates(
+        groupSplits.map(split => split.expense.currency),
+        options.currency
+      )
+    : null;
+
+  // Calculate net balance for each member, per reporting currency
+  const currencyBalances = new Map<string, Map<number, { user: any; netBalance: Decimal }>>();
+
+  const getMemberBalances = (currency: string) => {
+    if (!currencyBalances.has(currency)) {
+      // Initialize all members with zero balance
+      const memberBalances = new Map<number, { user: any; netBalance: Decimal }>();
+      for (const member of members) {
+        memberBalances.set(member.userId, {
+          user: member.user,
+          netBalance: new Decimal(0),
+        });
+      }
+      currencyBalances.set(currency, memberBalances);
+    }
+    return currencyBalances.get(currency)!;
+  };
 
-  // Initialize all members with zero balance
-  for (const member of members) {
-    memberBalances.set(member.userId, {
-      user: member.user,
-      netBalance: new Decimal(0),
-    });
-  }
+  getMemberBalances(options.currency ?? group.defaultCurrency);
 
   // Process splits to calculate net balances
   for (const split of groupSplits) {
-    const payerId = split.expense.userId; // Who paid the expense
     const owerId = split.userId; // Who owes the money
+    const memberBalances = getMemberBalances(options.currency ?? split.expense.currency);
 
-    // Skip if payer is not in the group (shouldn't happen)
-    if (!memberBalances.has(payerId)) {
-      continue;
-    }
+    for (const { payerId, amount: owed } of allocateSplit(split, split.expense)) {
+      const amount = toReportingAmount(owed, split.expense.currency, rates);
+
+      // Skip if payer is not in the group (shouldn't happen)
+      if (!memberBalances.has(payerId)) {
+        continue;
+      }
 
-    // Add to payer's balance (they should receive this)
-    const payerBalance = memberBalances.get(payerId)!;
-    payerBalance.netBalance = payerBalance.netBalance.plus(split.amount);
+      // Add to payer's balance (they should receive this)
+      const payerBalance = memberBalances.get(payerId)!;
+      payerBalance.netBalance = payerBalance.netBalance.plus(amount);
 
-    // Subtract from ower's balance (they should pay this)
-    if (memberBalances.has(owerId)) {
-      const owerBalance = memberBalances.get(owerId)!;
-      owerBalance.netBalance = owerBalance.netBalance.minus(split.amount);
+      // Subtract from ower's balance (they should pay this)
+      if (memberBalances.has(owerId)) {
+        const owerBalance = memberBalances.get(owerId)!;
+        owerBalance.netBalance = owerBalance.netBalance.minus(amount);
+      }
     }
   }
 
-  // Calculate optimized transactions using debt simplification algorithm
-  const optimizedTransactions = calculateOptimalTransactions(memberBalances);
+  const balances = Array.from(currencyBalances.entries()).map(([currency, memberBalances]) => {
+    // Calculate optimized transactions using debt simplification algorithm
+    const optimizedTransactions = calculateOptimalTransactions(memberBalances);
 
-  // Calculate total debt in the group
-  const totalDebt = Array.from(memberBalances.values())
-    .filter(member => member.netBalance.lessThan(0))
-    .reduce((sum, member) => sum.plus(member.netBalance.abs()), new Decimal(0));
+    // Calculate total debt in the group
+    const totalDebt = Array.from(memberBalances.values())
+      .filter(member => member.netBalance.lessThan(0))
+      .reduce((sum, member) => sum.plus(member.netBalance.abs()), new Decimal(0));
+
+    return {
+      currency,
+      members: Array.from(memberBalances.entries()).map(([userId, { user, netBalance }]) => ({
+        userId,
+        name: user.name,
+        email: user.email,
+        netBalance,
+      })),
+      optimizedTransactions,
+      totalDebt,
+    };
+  });
 
   return {
     groupId,
     groupName: group.name,
-    members: Array.from(memberBalances.entries()).map(([userId, { user, netBalance }]) => ({
-      userId,
-      name: user.name,
-      email: user.email,
-      netBalance,
-    })),
-    optimizedTransactions,
-    totalDebt,
+    balances,
   };
 }
 
@@ -728,6 +846,7 @@ function calculateOptimalTransactions(
 
 /**
  * Execute optimized group settlement (mark specific splits as paid)
+ * Settlement amounts are in the given currency, so only splits in that currency are settled
  */
 export async function executeGroupSettlement(
   groupId: number,
@@ -735,14 +854,18 @@ export async function executeGroupSettlement(
     fromUserId: number;
     toUserId: number;
     amount: Decimal;
-  }>
+  }>,
+  actorId: number, // Admin executing the settlement, recorded in expense history
+  currency: string // Currency of the amounts; only debts in this currency are settled
 ): Promise<{
   settledAmount: Decimal;
   settledSplits: number;
+  skippedSplits: number; // Splits also owed to other payers, left for markSplitAsPaid
   transactions: number;
 }> {
   let totalSettledAmount = new Decimal(0);
   let totalSettledSplits = 0;
+  let totalSkippedSplits = 0;
 
   // For each settlement transaction
   for (const settlement of settlements) {
@@ -751,11 +874,13 @@ export async function executeGroupSettlement(
       where: {
         userId: settlement.fromUserId,
         expense: {
-          userId: settlement.toUserId,
+          ...paidByWhere(settlement.toUserId),
           groupId,
+          currency,
         },
         isPaid: false,
       },
+      include: { expense: { select: expensePaymentSelect } },
       orderBy: { createdAt: 'asc' }, // Settle oldest first
     });
 
@@ -767,15 +892,18 @@ export async function executeGroupSettlement(
         break;
       }
 
-      if (split.amount.lessThanOrEqualTo(remainingAmount)) {
+      const owed = amountOwedOnlyTo(split, settlement.toUserId);
+      if (!owed) {
+        totalSkippedSplits++; // Also owed to other payers
+        continue;
+      }
+
+      if (owed.lessThanOrEqualTo(remainingAmount)) {
         // Settle this split completely
-        await prisma.expenseSplit.update({
-          where: { id: split.id },
-          data: { isPaid: true },
-        });
+        await settleSplit(split, actorId);
 
-        totalSettledAmount = totalSettledAmount.plus(split.amount);
-        remainingAmount = remainingAmount.minus(split.amount);
+        totalSettledAmount = totalSettledAmount.plus(owed);
+        remainingAmount = remainingAmount.minus(owed);
         totalSettledSplits++;
       }
       // Note: We don't handle partial settlements here for simplicity
@@ -786,22 +914,34 @@ export async function executeGroupSettlement(
   return {
     settledAmount: totalSettledAmount,
     settledSplits: totalSettledSplits,
+    skippedSplits: totalSkippedSplits,
     transactions: settlements.length,
   };
 }
 
+/**
+ * What one group member owes and is owed in one currency
+ */
+export interface GroupMemberDebt {
+  member: { id: number; name: string; email: string };
+  currency: string;
+  totalOwes: Decimal;
+  totalOwed: Decimal;
+  netBalance: Decimal;
+}
+
 /**
  * Get simplified group member debt summary using individual settlement logic
+ * Every member is listed once per currency (the group's default currency always), or once in
+ * the reporting currency when converting
  */
-export async function getGroupMemberDebts(groupId: number): Promise<{
+export async function getGroupMemberDebts(
+  groupId: number,
+  options: BalanceOptions = {}
+): Promise<{
   groupId: number;
   groupName: string;
-  memberDebts: Array<{
-    member: { id: number; name: string; email: string };
-    totalOwes: Decimal;
-    totalOwed: Decimal;
-    netBalance: Decimal;
-  }>;
+  memberDebts: GroupMemberDebt[];
 }> {
   // Get group details
   const group = await prisma.group.findUnique({
@@ -817,109 +957,180 @@ export async function getGroupMemberDebts(groupId: number): Promise<{
     throw new Error('Group not found');
   }
 
-  const memberDebts: Array<{
-    member: { id: number; name: string; email: string };
-    totalOwes: Decimal;
-    totalOwed: Decimal;
-    netBalance: Decimal;
-  }> = [];
+  // Get all unpaid splits for group expenses
+  const groupSplits = await prisma.expenseSplit.findMany({
+    where: {
+      isPaid: false,
+      expense: { groupId, deletedAt: null },
+    },
+    include: { expense: { select: expensePaymentSelect } },
+  });
 
-  // For each member, calculate their group-specific balances
-  for (const member of group.members) {
-    const userId = member.userId;
+  const rates = options.currency
+    ? await getConversionRates(
+        groupSplits.map(split => split.expense.currency),
+        options.currency
+      )
+    : null;
+
+  // Debts per reporting currency, with every member starting at zero
+  const currencyDebts = new Map<string, Map<number, GroupMemberDebt>>();
+
+  const getMemberDebts = (currency: string) => {
+    if (!currencyDebts.has(currency)) {
+      const memberDebts = new Map<number, GroupMemberDebt>();
+      for (const member of group.members) {
+        memberDebts.set(member.userId, {
+          member: member.user,
+          currency,
+          totalOwes: new Decimal(0),
+          totalOwed: new Decimal(0),
+          netBalance: new Decimal(0),
+        });
+      }
+      currencyDebts.set(currency, memberDebts);
+    }
+    return currencyDebts.get(currency)!;
+  };
 
-    // Get splits where this user owes money (on expenses they didn't pay)
-    const owedSplits = await prisma.expenseSplit.findMany({
-      where: {
-        userId,
-        isPaid: false,
-        expense: {
-          groupId,
-          userId: { not: userId }, // Only expenses NOT paid by this user
-        },
-      },
-    });
+  getMemberDebts(options.currency ?? group.defaultCurrency);
 
-    // Get splits where others owe this user money (on expenses this user paid)
-    const owingSplits = await prisma.expenseSplit.findMany({
-      where: {
-        isPaid: false,
-        expense: {
-          userId, // Expenses paid by this user
-          groupId,
-        },
-        userId: { not: userId }, // But split with others (not their own split)
-      },
-    });
+  for (const split of groupSplits) {
+    const memberDebts = getMemberDebts(options.currency ?? split.expense.currency);
 
-    let totalOwes = new Decimal(0);
-    let totalOwed = new Decimal(0);
+    // The member owes each payer their part; each payer is owed it
+    for (const allocation of allocateSplit(split, split.expense)) {
+      const amount = toReportingAmount(allocation.amount, split.expense.currency, rates);
 
-    // Calculate what this user owes
-    for (const split of owedSplits) {
-      totalOwes = totalOwes.plus(split.amount);
-    }
+      const ower = memberDebts.get(split.userId);
+      if (ower) {
+        ower.totalOwes = ower.totalOwes.plus(amount);
+      }
 
-    // Calculate what others owe this user
-    for (const split of owingSplits) {
-      totalOwed = totalOwed.plus(split.amount);
+      const payer = memberDebts.get(allocation.payerId);
+      if (payer) {
+        payer.totalOwed = payer.totalOwed.plus(amount);
+      }
     }
-
-    memberDebts.push({
-      member: member.user,
-      totalOwes,
-      totalOwed,
-      netBalance: totalOwed.minus(totalOwes),
-    });
   }
 
+  const memberDebts = Array.from(currencyDebts.values())
+    .flatMap(debts => Array.from(debts.values()))
+    .map(debt => ({ ...debt, netBalance: debt.totalOwed.minus(debt.totalOwes) }));
+
   return {
     groupId,
     groupName: group.name,
-    memberDebts: memberDebts.sort((a, b) => b.netBalance.minus(a.netBalance).toNumber()),
+    // Sort by currency, then net balance descending
+    memberDebts: memberDebts.sort((a, b) =>
+      a.currency === b.currency
+        ? b.netBalance.minus(a.netBalance).toNumber()
+        : a.currency.localeCompare(b.currency)
+    ),
   };
 }
 
+/**
+ * Balance in a single currency
+ */
+export interface CurrencyBalance {
+  currency: string;
+  owes: Decimal;
+  owed: Decimal;
+  netBalance: Decimal;
+}
+
 /**
  * Get balance summary for a user (what they owe and are owed)
+ * Returns one entry per outstanding currency, or a single entry when converting
  */
-export async function getUserBalanceSummary(userId: number) {
-  // Amount user owes to others (their splits on expenses they didn't pay)
-  const userOwes = await prisma.expenseSplit.aggregate({
+export async function getUserBalanceSummary(
+  userId: number,
+  options: BalanceOptions = {}
+): Promise<CurrencyBalance[]> {
+  // Splits user owes to others (the part of their splits paid by someone else)
+  const userSplits = await prisma.expenseSplit.findMany({
     where: {
       userId,
       isPaid: false,
-      expense: {
-        userId: { not: userId }, // Only splits on expenses paid by others
-      },
+      expense: { deletedAt: null },
     },
-    _sum: { amount: true },
+    select: { userId: true, amount: true, expense: { select: expensePaymentSelect } },
   });
 
-  // Amount others owe to user (other people's splits on expenses paid by this user)
-  const othersOwe = await prisma.expenseSplit.aggregate({
+  // Splits others owe to user (other people's splits on expenses paid by this user)
+  const othersSplits = await prisma.expenseSplit.findMany({
     where: {
-      expense: { userId }, // Expenses paid by this user
+      expense: paidByWhere(userId), // Expenses paid by this user
       userId: { not: userId }, // But split with others
       isPaid: false,
     },
-    _sum: { amount: true },
+    select: { userId: true, amount: true, expense: { select: expensePaymentSelect } },
   });
 
-  return {
-    owes: userOwes._sum.amount || new Decimal(0),
-    owed: othersOwe._sum.amount || new Decimal(0),
-    netBalance: (othersOwe._sum.amount || new Decimal(0)).minus(
-      userOwes._sum.amount || new Decimal(0)
-    ),
+  const userOwes = userSplits
+    .map(split => ({
+      currency: split.expense.currency,
+      amount: allocateSplit(split, split.expense).reduce(
+        (sum, allocation) => sum.plus(allocation.amount),
+        new Decimal(0)
+      ),
+    }))
+    .filter(owed => !owed.amount.isZero());
+  const othersOwe = othersSplits.map(split => ({
+    currency: split.expense.currency,
+    amount:
+      allocateSplit(split, split.expense).find(allocation => allocation.payerId === userId)
+        ?.amount ?? new Decimal(0),
+  }));
+
+  const rates = options.currency
+    ? await getConversionRates(
+        [...userOwes, ...othersOwe].map(owed => owed.currency),
+        options.currency
+      )
+    : null;
+
+  const balances = new Map<string, CurrencyBalance>();
+  const getBalance = (currency: string) => {
+    if (!balances.has(currency)) {
+      balances.set(currency, {
+        currency,
+        owes: new Decimal(0),
+        owed: new Decimal(0),
+        netBalance: new Decimal(0),
+      });
+    }
+    return balances.get(currency)!;
   };
+
+  if (options.currency) {
+    getBalance(options.currency);
+  }
+
+  for (const owed of userOwes) {
+    const balance = getBalance(options.currency ?? owed.currency);
+    balance.owes = balance.owes.plus(toReportingAmount(owed.amount, owed.currency, rates));
+  }
+
+  for (const owed of othersOwe) {
+    const balance = getBalance(options.currency ?? owed.currency);
+    balance.owed = balance.owed.plus(toReportingAmount(owed.amount, owed.currency, rates));
+  }
+
+  return Array.from(balances.values())
+    .map(balance => ({ ...balance, netBalance: balance.owed.minus(balance.owes) }))
+    .sort((a, b) => a.currency.localeCompare(b.currency));
 }
 
 /**
  * Delete all splits for an expense
  */
-export async function deleteExpenseSplits(expenseId: number): Promise<void> {
-  await prisma.expenseSplit.deleteMany({
-    where: { expenseId },
+export async function deleteExpenseSplits(expenseId: number, actorId: number): Promise<void> {
+  await prisma.$transaction(async tx => {
+    await tx.expenseSplit.deleteMany({
+      where: { expenseId },
+    });
+    await recordExpenseRevisionQuery(tx, expenseId, ExpenseRevisionAction.SPLITS_UPDATED, actorId);
   });
 }
@@ -6,6 +6,7 @@ export interface CreateGroupData {
   name: string;
   description?: string;
   avatar?: string;
+  defaultCurrency?: string; // Defaults to the creator's default currency
   createdBy: number;
 }
 
@@ -13,6 +14,7 @@ export interface UpdateGroupData {
   name?: string;
   description?: string;
   avatar?: string;
+  defaultCurrency?: string;
 }
 
 export interface AddMemberData {
@@ -32,12 +34,20 @@ export interface UpdateMemberRoleData {
 /** Create a new group */
 export async function createGroup(data: CreateGroupData): Promise<Group> {
   return prisma.$transaction(async tx => {
+    const creator = data.defaultCurrency
+      ? null
+      : await tx.user.findUnique({
+          where: { id: data.createdBy },
+          select: { defaultCurrency: true },
+        });
+
     // Create the group
     const group = await tx.group.create({
       data: {
         name: data.name,
         description: data.description,
         avatar: data.avatar,
+        defaultCurrency: data.defaultCurrency ?? creator?.defaultCurrency,
         createdBy: data.createdBy,
       },
     });
@@ -84,6 +94,7 @@ export async function getGroupById(id: number) {
         orderBy: { joinedAt: 'asc' },
       },
       expenses: {
+        where: { deletedAt: null },
         include: {
           user: {
             select: {
@@ -99,7 +110,7 @@ export async function getGroupById(id: number) {
       _count: {
         select: {
           members: true,
-          expenses: true,
+          expenses: { where: { deletedAt: null } },
         },
       },
     },
@@ -135,7 +146,7 @@ export async function getUserGroups(userId: number) {
       _count: {
         select: {
           members: true,
-          expenses: true,
+          expenses: { where: { deletedAt: null } },
         },
       },
     },
@@ -241,6 +252,15 @@ export async function isGroupMember(groupId: number, userId: number): Promise<bo
   return !!member;
 }
 
+/** Check if all of the given users are group members */
+export async function areGroupMembers(groupId: number, userIds: number[]): Promise<boolean> {
+  const uniqueIds = [...new Set(userIds)];
+  const count = await prisma.groupMember.count({
+    where: { groupId, userId: { in: uniqueIds } },
+  });
+  return count === uniqueIds.length;
+}
+
 /** Check if user is group admin */
 export async function isGroupAdmin(groupId: number, userId: number): Promise<boolean> {
   const member = await prisma.groupMember.findUnique({
@@ -287,10 +307,11 @@ export async function getGroupStats(groupId: number) {
       _count: {
         select: {
           members: true,
-          expenses: true,
+          expenses: { where: { deletedAt: null } },
         },
       },
       expenses: {
+        where: { deletedAt: null },
         select: {
           amount: true,
         },
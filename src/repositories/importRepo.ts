@@ -0,0 +1,238 @@
+import {
+  ImportAmountSign,
+  ImportBatch,
+  ImportBatchStatus,
+  ImportProfile,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { AttachmentFiles, removeAttachmentFiles } from '../utils/attachments.js';
+
+const prisma = new PrismaClient();
+
+// Largest statement accepted in one import
+export const IMPORT_MAX_ROWS = 5000;
+
+// Committing creates the expenses one by one in a single transaction, which for a full statement
+// takes far longer than Prisma's 5 second default: allow time for each row instead
+const IMPORT_COMMIT_MS_PER_ROW = 20;
+const IMPORT_COMMIT_MAX_WAIT_MS = 10_000;
+
+// ===== Type Definitions =====
+
+export interface ImportProfileData {
+  name: string;
+  delimiter?: string;
+  hasHeader?: boolean;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn?: string | null;
+  debitColumn?: string | null;
+  creditColumn?: string | null;
+  amountSign?: ImportAmountSign;
+  dateFormat?: string;
+  decimalSeparator?: string;
+  currency?: string | null;
+}
+
+export interface CreateImportBatchData {
+  userId: number;
+  groupId?: number;
+  profileId: number;
+  fileName: string;
+  currency?: string;
+  rows: Prisma.InputJsonValue;
+}
+
+export interface ExistingExpense {
+  id: number;
+  title: string;
+  amount: Decimal;
+  paidAt: Date;
+}
+
+export interface CategorizedExpense {
+  title: string;
+  categoryId: number;
+}
+
+// ===== Import Profiles =====
+
+/** Save a column mapping profile */
+export async function createImportProfile(
+  userId: number,
+  data: ImportProfileData
+): Promise<ImportProfile> {
+  return prisma.importProfile.create({
+    data: { ...data, userId },
+  });
+}
+
+/** Get an import profile by ID */
+export async function getImportProfileById(id: number): Promise<ImportProfile | null> {
+  return prisma.importProfile.findUnique({
+    where: { id },
+  });
+}
+
+/** List a user's import profiles by name */
+export async function getUserImportProfiles(userId: number): Promise<ImportProfile[]> {
+  return prisma.importProfile.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/** Update an import profile */
+export async function updateImportProfile(
+  id: number,
+  data: Partial<ImportProfileData>
+): Promise<ImportProfile> {
+  return prisma.importProfile.update({
+    where: { id },
+    data,
+  });
+}
+
+/** Delete an import profile; batches imported with it are kept */
+export async function deleteImportProfile(id: number): Promise<ImportProfile> {
+  return prisma.importProfile.delete({
+    where: { id },
+  });
+}
+
+// ===== Import Batches =====
+
+/** Store a previewed statement until it is committed */
+export async function createImportBatch(data: CreateImportBatchData): Promise<ImportBatch> {
+  return prisma.importBatch.create({
+    data,
+  });
+}
+
+/** Get an import batch by ID */
+export async function getImportBatchById(id: number): Promise<ImportBatch | null> {
+  return prisma.importBatch.findUnique({
+    where: { id },
+  });
+}
+
+/** List a user's imports, newest first, without their rows */
+export async function getUserImportBatches(userId: number): Promise<Omit<ImportBatch, 'rows'>[]> {
+  return prisma.importBatch.findMany({
+    where: { userId },
+    omit: { rows: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Commit a previewed import: `createExpenses` creates its expenses in the same transaction
+ * and returns how many it created. Only a pending import can be committed, and only once.
+ */
+export async function commitImportBatch(
+  id: number,
+  // eslint-disable-next-line no-unused-vars
+  createExpenses: (tx: Prisma.TransactionClient) => Promise<number>
+): Promise<ImportBatch> {
+  return prisma.$transaction(
+    async tx => {
+      const claimed = await tx.importBatch.updateMany({
+        where: { id, status: ImportBatchStatus.PENDING },
+        data: { status: ImportBatchStatus.COMMITTED, committedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Import has already been committed or undone');
+      }
+
+      const expenseCount = await createExpenses(tx);
+
+      return tx.importBatch.update({
+        where: { id },
+        data: { expenseCount },
+      });
+    },
+    {
+      maxWait: IMPORT_COMMIT_MAX_WAIT_MS,
+      timeout: IMPORT_MAX_ROWS * IMPORT_COMMIT_MS_PER_ROW,
+    }
+  );
+}
+
+/**
+ * Undo a committed import by deleting the expenses it created
+ * Refused once any of their splits has been paid
+ */
+export async function undoImportBatch(id: number): Promise<ImportBatch> {
+  let attachmentFiles: AttachmentFiles[] = [];
+
+  const batch = await prisma.$transaction(async tx => {
+    const existing = await tx.importBatch.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Import not found');
+    }
+
+    if (existing.status !== ImportBatchStatus.COMMITTED) {
+      throw new Error('Only committed imports can be undone');
+    }
+
+    const paidSplits = await tx.expenseSplit.count({
+      where: { isPaid: true, expense: { importBatchId: id } },
+    });
+    if (paidSplits > 0) {
+      throw new Error('Import has expenses with paid splits and can no longer be undone');
+    }
+
+    attachmentFiles = await tx.expenseAttachment.findMany({
+      where: { expense: { importBatchId: id } },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+    await tx.expense.deleteMany({ where: { importBatchId: id } });
+
+    return tx.importBatch.update({
+      where: { id },
+      data: { status: ImportBatchStatus.UNDONE, undoneAt: new Date() },
+    });
+  });
+
+  // Stored files can only go once their records are gone; a file left behind doesn't undo the undo
+  await removeAttachmentFiles(attachmentFiles).catch(() => undefined);
+
+  return batch;
+}
+
+// ===== Preview Support =====
+
+/** A user's expenses paid in a date range, to check imported rows against */
+export async function getExpensesInRange(
+  userId: number,
+  from: Date,
+  to: Date
+): Promise<ExistingExpense[]> {
+  return prisma.expense.findMany({
+    where: { userId, paidAt: { gte: from, lte: to }, deletedAt: null },
+    select: { id: true, title: true, amount: true, paidAt: true },
+  });
+}
+
+/** A user's most recent categorized expenses, used to suggest categories */
+export async function getCategorizedExpenses(
+  userId: number,
+  take: number = 500
+): Promise<CategorizedExpense[]> {
+  const expenses = await prisma.expense.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      categoryId: { not: null },
+      category: { isActive: true },
+    },
+    select: { title: true, categoryId: true },
+    orderBy: { paidAt: 'desc' },
+    take,
+  });
+
+  return expenses.map(expense => ({ title: expense.title, categoryId: expense.categoryId! }));
+}
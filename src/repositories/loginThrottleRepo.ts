@@ -0,0 +1,121 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Failed attempts on one account before it is locked
+const LOGIN_MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '10', 10);
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+
+// Failures allowed before each further attempt has to wait 1s, 2s, 4s, ...
+const FREE_ATTEMPTS = 3;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+
+// Failures older than this no longer count
+const FAILED_ATTEMPT_WINDOW_MINUTES = 60;
+
+// One IP may try several accounts, so it gets proportionally more attempts
+const IP_LIMIT_MULTIPLIER = 5;
+
+// ===== Type Definitions =====
+
+export interface LoginThrottleStatus {
+  blocked: boolean;
+  locked: boolean; // True for a lockout, false for a backoff delay
+  retryAfterSeconds: number;
+}
+
+// ===== Helper Functions =====
+
+/** Throttle key for failed logins against one account */
+export function accountThrottleKey(email: string): string {
+  return `account:${email}`;
+}
+
+/** Throttle key for failed logins from one client address */
+export function ipThrottleKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+function limitsFor(key: string): { freeAttempts: number; maxAttempts: number } {
+  const multiplier = key.startsWith('ip:') ? IP_LIMIT_MULTIPLIER : 1;
+  return {
+    freeAttempts: FREE_ATTEMPTS * multiplier,
+    maxAttempts: LOGIN_MAX_FAILED_ATTEMPTS * multiplier,
+  };
+}
+
+/** Exponential delay required after the given number of failures */
+export function getBackoffSeconds(failedCount: number, freeAttempts = FREE_ATTEMPTS): number {
+  if (failedCount < freeAttempts) {
+    return 0;
+  }
+  return Math.min(2 ** (failedCount - freeAttempts), MAX_BACKOFF_SECONDS);
+}
+
+// ===== Throttle Operations =====
+
+/** Check whether login attempts for any of the keys must currently be rejected */
+export async function getLoginThrottle(keys: string[]): Promise<LoginThrottleStatus> {
+  const throttles = await prisma.loginThrottle.findMany({
+    where: { key: { in: keys } },
+  });
+
+  const now = Date.now();
+  const windowStart = now - FAILED_ATTEMPT_WINDOW_MINUTES * 60 * 1000;
+  let retryAt = 0;
+  let locked = false;
+
+  for (const throttle of throttles) {
+    if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+      retryAt = Math.max(retryAt, throttle.lockedUntil.getTime());
+      locked = true;
+    } else if (throttle.lastFailedAt && throttle.lastFailedAt.getTime() > windowStart) {
+      const backoff = getBackoffSeconds(throttle.failedCount, limitsFor(throttle.key).freeAttempts);
+      retryAt = Math.max(retryAt, throttle.lastFailedAt.getTime() + backoff * 1000);
+    }
+  }
+
+  const retryAfterSeconds = retryAt > now ? Math.ceil((retryAt - now) / 1000) : 0;
+  return { blocked: retryAfterSeconds > 0, locked, retryAfterSeconds };
+}
+
+/** Count a failed attempt against each key; returns the keys that got locked by it */
+export async function recordFailedLogin(keys: string[]): Promise<string[]> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - FAILED_ATTEMPT_WINDOW_MINUTES * 60 * 1000);
+  const lockedKeys: string[] = [];
+
+  for (const key of keys) {
+    // Start counting again once earlier failures are outside the window
+    await prisma.loginThrottle.updateMany({
+      where: { key, lastFailedAt: { lt: windowStart } },
+      data: { failedCount: 0 },
+    });
+
+    const throttle = await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, failedCount: 1, lastFailedAt: now },
+      update: { failedCount: { increment: 1 }, lastFailedAt: now },
+    });
+
+    if (throttle.failedCount >= limitsFor(key).maxAttempts) {
+      await prisma.loginThrottle.update({
+        where: { key },
+        data: {
+          failedCount: 0,
+          lockedUntil: new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60 * 1000),
+        },
+      });
+      lockedKeys.push(key);
+    }
+  }
+
+  return lockedKeys;
+}
+
+/** Forget failed attempts, e.g. after a successful login or password reset */
+export async function clearFailedLogins(key: string): Promise<void> {
+  await prisma.loginThrottle.deleteMany({
+    where: { key },
+  });
+}
@@ -0,0 +1,178 @@
+import { PrismaClient, UserMfa } from '@prisma/client';
+import { hashToken } from '../utils/auth.js';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../utils/totp.js';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export type MfaVerificationMethod = 'totp' | 'recovery_code';
+
+// ===== Helper Functions =====
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(normalizeRecoveryCode(code));
+}
+
+// ===== MFA Operations =====
+
+/** Get a user's MFA settings (including pending enrollments) */
+export async function getUserMfa(userId: number): Promise<UserMfa | null> {
+  return prisma.userMfa.findUnique({
+    where: { userId },
+  });
+}
+
+/** Check whether a user has confirmed MFA enrollment */
+export async function isMfaEnabled(userId: number): Promise<boolean> {
+  const mfa = await getUserMfa(userId);
+  return !!mfa?.enabledAt;
+}
+
+/** Get MFA status for display */
+export async function getMfaStatus(userId: number): Promise<MfaStatus> {
+  const [mfa, recoveryCodesRemaining] = await Promise.all([
+    getUserMfa(userId),
+    prisma.mfaRecoveryCode.count({
+      where: { userId, usedAt: null },
+    }),
+  ]);
+
+  return {
+    enabled: !!mfa?.enabledAt,
+    enabledAt: mfa?.enabledAt ?? null,
+    recoveryCodesRemaining: mfa?.enabledAt ? recoveryCodesRemaining : 0,
+  };
+}
+
+/** Start (or restart) enrollment with a new secret; it is inactive until confirmed */
+export async function startMfaEnrollment(userId: number): Promise<string> {
+  const existing = await getUserMfa(userId);
+  if (existing?.enabledAt) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+
+  await prisma.userMfa.upsert({
+    where: { userId },
+    create: { userId, secret },
+    update: { secret, lastUsedStep: null },
+  });
+
+  return secret;
+}
+
+/** Confirm enrollment with a code from the authenticator; returns the recovery codes */
+export async function confirmMfaEnrollment(userId: number, code: string): Promise<string[]> {
+  const mfa = await getUserMfa(userId);
+  if (!mfa) {
+    throw new Error('Two-factor authentication enrollment not started');
+  }
+
+  if (mfa.enabledAt) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const step = verifyTotp(mfa.secret, code);
+  if (step === null) {
+    throw new Error('Invalid verification code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.userMfa.update({
+      where: { userId },
+      data: { enabledAt: new Date(), lastUsedStep: step },
+    }),
+    prisma.mfaRecoveryCode.deleteMany({
+      where: { userId },
+    }),
+    prisma.mfaRecoveryCode.createMany({
+      data: recoveryCodes.map(recoveryCode => ({
+        userId,
+        codeHash: hashRecoveryCode(recoveryCode),
+      })),
+    }),
+  ]);
+
+  return recoveryCodes;
+}
+
+/**
+ * Verify a second-factor code: a current TOTP code or an unused recovery code.
+ * Both are single-use. Returns the method that matched, or null.
+ */
+export async function verifyMfaCode(
+  userId: number,
+  code: string
+): Promise<MfaVerificationMethod | null> {
+  const mfa = await getUserMfa(userId);
+  if (!mfa?.enabledAt) {
+    return null;
+  }
+
+  const step = verifyTotp(mfa.secret, code);
+  if (step !== null) {
+    // Only accept a step newer than the last one used, also under concurrency
+    const accepted = await prisma.userMfa.updateMany({
+      where: {
+        userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+
+    return accepted.count > 0 ? 'totp' : null;
+  }
+
+  const consumed = await prisma.mfaRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return consumed.count > 0 ? 'recovery_code' : null;
+}
+
+/** Replace all recovery codes with a fresh set */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.mfaRecoveryCode.deleteMany({
+      where: { userId },
+    }),
+    prisma.mfaRecoveryCode.createMany({
+      data: recoveryCodes.map(recoveryCode => ({
+        userId,
+        codeHash: hashRecoveryCode(recoveryCode),
+      })),
+    }),
+  ]);
+
+  return recoveryCodes;
+}
+
+/** Turn MFA off and forget the secret and recovery codes */
+export async function disableMfa(userId: number): Promise<void> {
+  await prisma.$transaction([
+    prisma.mfaRecoveryCode.deleteMany({
+      where: { userId },
+    }),
+    prisma.userMfa.deleteMany({
+      where: { userId },
+    }),
+  ]);
+}
@@ -0,0 +1,71 @@
+import { PrismaClient, OAuthState } from '@prisma/client';
+import { hashToken } from '../utils/auth.js';
+import { generateRandomValue } from '../utils/oidc.js';
+
+const prisma = new PrismaClient();
+
+// Time the user has to complete the sign-in at the provider
+const OAUTH_STATE_TTL_MINUTES = parseInt(process.env.OAUTH_STATE_TTL_MINUTES || '10', 10);
+
+// ===== Type Definitions =====
+
+export interface CreateOAuthStateData {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  userId?: number; // Set when linking the provider to an existing account
+}
+
+export interface IssuedOAuthState {
+  state: string; // Raw state, only ever sent to the provider
+  expiresAt: Date;
+}
+
+// ===== State Operations =====
+
+/** Store a pending authorization request and return its state parameter */
+export async function createOAuthState(data: CreateOAuthStateData): Promise<IssuedOAuthState> {
+  const state = generateRandomValue();
+  const expiresAt = new Date(Date.now() + OAUTH_STATE_TTL_MINUTES * 60 * 1000);
+
+  await prisma.$transaction([
+    // Abandoned sign-ins are never consumed, clean them up as we go
+    prisma.oAuthState.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    }),
+    prisma.oAuthState.create({
+      data: {
+        stateHash: hashToken(state),
+        provider: data.provider,
+        codeVerifier: data.codeVerifier,
+        nonce: data.nonce,
+        userId: data.userId,
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return { state, expiresAt };
+}
+
+/** Consume the pending authorization request for a state returned by the provider */
+export async function consumeOAuthState(state: string, provider: string): Promise<OAuthState> {
+  const existing = await prisma.oAuthState.findUnique({
+    where: { stateHash: hashToken(state) },
+  });
+
+  if (!existing || existing.provider !== provider || existing.expiresAt < new Date()) {
+    throw new Error('Invalid or expired OAuth state');
+  }
+
+  // Deleting guards against the same callback being processed twice concurrently
+  const deleted = await prisma.oAuthState.deleteMany({
+    where: { id: existing.id },
+  });
+
+  if (deleted.count === 0) {
+    throw new Error('Invalid or expired OAuth state');
+  }
+
+  return existing;
+}
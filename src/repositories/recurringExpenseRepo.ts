@@ -0,0 +1,369 @@
+import { Prisma, PrismaClient, RecurringExpense, SplitType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { getNextOccurrence, validateSchedule } from '../utils/recurrence.js';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface RecurringSplitParticipant {
+  userId: number;
+  amount?: number; // For AMOUNT splits
+  percentage?: number; // For PERCENTAGE splits
+}
+
+export interface RecurringSplitTemplate {
+  splitType: SplitType;
+  participants: RecurringSplitParticipant[];
+}
+
+export interface CreateRecurringExpenseData {
+  title: string;
+  description?: string;
+  amount: number | Decimal;
+  currency?: string; // Omit to use the group's or user's default when each expense is created
+  userId: number;
+  groupId?: number;
+  categoryId?: number;
+  schedule: string;
+  startDate: Date;
+  endDate?: Date;
+  maxOccurrences?: number;
+  split?: RecurringSplitTemplate;
+}
+
+// Changes apply to occurrences created from now on; existing expenses are left alone
+export interface UpdateRecurringExpenseData {
+  title?: string;
+  description?: string;
+  amount?: number | Decimal;
+  currency?: string;
+  categoryId?: number;
+  schedule?: string;
+  startDate?: Date;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+  split?: RecurringSplitTemplate | null; // null stops splitting new occurrences
+}
+
+export interface OccurrenceExpense {
+  id: number;
+  splitCount: number;
+}
+
+type ScheduleFields = Pick<
+  RecurringExpense,
+  'schedule' | 'startDate' | 'endDate' | 'maxOccurrences'
+>;
+
+// ===== Helper Functions =====
+
+/**
+ * The occurrence after `after`, given how many occurrences have been used up
+ * Null once the end date or occurrence limit is reached
+ */
+function nextRunAfter(
+  recurringExpense: ScheduleFields,
+  occurrenceCount: number,
+  after: Date
+): Date | null {
+  const { schedule, startDate, endDate, maxOccurrences } = recurringExpense;
+
+  if (maxOccurrences !== null && occurrenceCount >= maxOccurrences) {
+    return null;
+  }
+
+  const next = getNextOccurrence(schedule, startDate, after);
+  return next && (!endDate || next <= endDate) ? next : null;
+}
+
+/** Check a split template up front so occurrences don't fail later */
+function validateSplitTemplate(amount: Decimal, split: RecurringSplitTemplate): void {
+  const { splitType, participants } = split;
+
+  if (participants.length === 0) {
+    throw new Error('At least one participant is required');
+  }
+
+  if (new Set(participants.map(participant => participant.userId)).size !== participants.length) {
+    throw new Error('Split participants can only be listed once');
+  }
+
+  if (splitType === SplitType.AMOUNT) {
+    if (participants.some(p => p.amount === undefined || p.amount <= 0)) {
+      throw new Error('All participants must have positive amounts for AMOUNT split');
+    }
+
+    const total = participants.reduce((sum, p) => sum.plus(p.amount!), new Decimal(0));
+    if (!total.equals(amount)) {
+      throw new Error(`Split amounts total (${total}) must equal expense amount (${amount})`);
+    }
+  }
+
+  if (splitType === SplitType.PERCENTAGE) {
+    if (participants.some(p => p.percentage === undefined || p.percentage <= 0)) {
+      throw new Error('All participants must have positive percentages for PERCENTAGE split');
+    }
+
+    const total = participants.reduce((sum, p) => sum + p.percentage!, 0);
+    if (Math.abs(total - 100) > 0.01) {
+      throw new Error(`Split percentages must total 100%, got ${total}%`);
+    }
+  }
+}
+
+/** The split template stored on a recurring expense, if it has one */
+export function getRecurringSplitTemplate(
+  recurringExpense: RecurringExpense
+): RecurringSplitTemplate | null {
+  const { splitType, splitParticipants } = recurringExpense;
+  return splitType && Array.isArray(splitParticipants)
+    ? {
+        splitType,
+        participants: splitParticipants as unknown as RecurringSplitParticipant[],
+      }
+    : null;
+}
+
+// ===== Recurring Expense Operations =====
+
+/** Create a recurring expense; its first occurrence is the first one on or after startDate */
+export async function createRecurringExpense(
+  data: CreateRecurringExpenseData
+): Promise<RecurringExpense> {
+  const { split, ...rest } = data;
+  const amount = new Decimal(data.amount);
+
+  validateSchedule(data.schedule);
+  if (split) {
+    validateSplitTemplate(amount, split);
+  }
+
+  const nextRunAt = nextRunAfter(
+    {
+      schedule: data.schedule,
+      startDate: data.startDate,
+      endDate: data.endDate ?? null,
+      maxOccurrences: data.maxOccurrences ?? null,
+    },
+    0,
+    new Date(data.startDate.getTime() - 1)
+  );
+
+  if (!nextRunAt) {
+    throw new Error('Schedule has no occurrences before the end date');
+  }
+
+  return prisma.recurringExpense.create({
+    data: {
+      ...rest,
+      amount,
+      nextRunAt,
+      ...(split && {
+        splitType: split.splitType,
+        splitParticipants: split.participants as unknown as Prisma.InputJsonValue,
+      }),
+    },
+  });
+}
+
+/** Get a recurring expense by ID */
+export async function getRecurringExpenseById(id: number): Promise<RecurringExpense | null> {
+  return prisma.recurringExpense.findUnique({
+    where: { id },
+  });
+}
+
+/** List a user's recurring expenses, soonest next occurrence first */
+export async function getUserRecurringExpenses(
+  userId: number,
+  groupId?: number
+): Promise<RecurringExpense[]> {
+  return prisma.recurringExpense.findMany({
+    where: { userId, ...(groupId && { groupId }) },
+    orderBy: [{ nextRunAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+  });
+}
+
+/**
+ * Edit a recurring expense for all future occurrences
+ * Schedule changes take effect from now; occurrences already created are not touched
+ */
+export async function updateRecurringExpense(
+  id: number,
+  data: UpdateRecurringExpenseData
+): Promise<RecurringExpense> {
+  const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+  if (!existing) {
+    throw new Error('Recurring expense not found');
+  }
+
+  const { split, ...rest } = data;
+  const amount = data.amount !== undefined ? new Decimal(data.amount) : existing.amount;
+  const scheduleFields: ScheduleFields = {
+    schedule: data.schedule ?? existing.schedule,
+    startDate: data.startDate ?? existing.startDate,
+    endDate: data.endDate !== undefined ? data.endDate : existing.endDate,
+    maxOccurrences:
+      data.maxOccurrences !== undefined ? data.maxOccurrences : existing.maxOccurrences,
+  };
+
+  if (data.schedule !== undefined) {
+    validateSchedule(data.schedule);
+  }
+
+  const template = split !== undefined ? split : getRecurringSplitTemplate(existing);
+  if (template && (split || data.amount !== undefined)) {
+    validateSplitTemplate(amount, template);
+  }
+
+  const scheduleChanged = data.schedule !== undefined || data.startDate !== undefined;
+  const limitsChanged = data.endDate !== undefined || data.maxOccurrences !== undefined;
+
+  let nextRunAt = existing.nextRunAt;
+  if (scheduleChanged || limitsChanged) {
+    // A new pattern starts from now; new limits still allow a pending occurrence to be created
+    const after =
+      scheduleChanged || !existing.nextRunAt
+        ? new Date()
+        : new Date(existing.nextRunAt.getTime() - 1);
+    nextRunAt = nextRunAfter(scheduleFields, existing.occurrenceCount, after);
+  }
+
+  return prisma.recurringExpense.update({
+    where: { id },
+    data: {
+      ...rest,
+      amount,
+      nextRunAt,
+      lastError: null,
+      ...(split !== undefined && {
+        splitType: split?.splitType ?? null,
+        splitParticipants: split
+          ? (split.participants as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+      }),
+      updatedAt: new Date(),
+    },
+  });
+}
+
+/** Delete a recurring expense; expenses it already created are kept */
+export async function deleteRecurringExpense(id: number): Promise<RecurringExpense> {
+  return prisma.recurringExpense.delete({
+    where: { id },
+  });
+}
+
+/** Stop creating occurrences until resumed */
+export async function pauseRecurringExpense(id: number): Promise<RecurringExpense> {
+  return prisma.recurringExpense.update({
+    where: { id },
+    data: { isPaused: true, updatedAt: new Date() },
+  });
+}
+
+/** Resume a paused recurring expense; occurrences that fell due while paused are not created */
+export async function resumeRecurringExpense(id: number): Promise<RecurringExpense> {
+  const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+  if (!existing) {
+    throw new Error('Recurring expense not found');
+  }
+
+  const now = new Date();
+  const nextRunAt =
+    existing.nextRunAt && existing.nextRunAt < now
+      ? nextRunAfter(existing, existing.occurrenceCount, now)
+      : existing.nextRunAt;
+
+  return prisma.recurringExpense.update({
+    where: { id },
+    data: { isPaused: false, nextRunAt, updatedAt: new Date() },
+  });
+}
+
+/** Skip the next occurrence without creating an expense; it counts towards maxOccurrences */
+export async function skipNextOccurrence(id: number): Promise<RecurringExpense> {
+  const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+  if (!existing) {
+    throw new Error('Recurring expense not found');
+  }
+
+  if (!existing.nextRunAt) {
+    throw new Error('Recurring expense has no upcoming occurrence');
+  }
+
+  const occurrenceCount = existing.occurrenceCount + 1;
+
+  return prisma.recurringExpense.update({
+    where: { id },
+    data: {
+      occurrenceCount,
+      nextRunAt: nextRunAfter(existing, occurrenceCount, existing.nextRunAt),
+      updatedAt: new Date(),
+    },
+  });
+}
+
+// ===== Scheduler Support =====
+
+/** Recurring expenses of active users with an occurrence due, most overdue first */
+export async function getDueRecurringExpenses(
+  now: Date = new Date(),
+  take: number = 100
+): Promise<RecurringExpense[]> {
+  return prisma.recurringExpense.findMany({
+    where: { isPaused: false, nextRunAt: { lte: now }, user: { isActive: true } },
+    orderBy: { nextRunAt: 'asc' },
+    take,
+  });
+}
+
+/** The expense already created for an occurrence, if any */
+export async function getOccurrenceExpense(
+  recurringExpenseId: number,
+  occurrenceDate: Date
+): Promise<OccurrenceExpense | null> {
+  const expense = await prisma.expense.findUnique({
+    where: { recurringExpenseId_occurrenceDate: { recurringExpenseId, occurrenceDate } },
+    select: { id: true, _count: { select: { splits: true } } },
+  });
+
+  return expense && { id: expense.id, splitCount: expense._count.splits };
+}
+
+/**
+ * Move past an occurrence once its expense exists
+ * Returns null if the occurrence was already handled (e.g. skipped or edited meanwhile)
+ */
+export async function completeOccurrence(
+  id: number,
+  occurrenceDate: Date
+): Promise<RecurringExpense | null> {
+  const existing = await prisma.recurringExpense.findUnique({ where: { id } });
+  if (!existing || existing.nextRunAt?.getTime() !== occurrenceDate.getTime()) {
+    return null;
+  }
+
+  const occurrenceCount = existing.occurrenceCount + 1;
+
+  // Only advance from the occurrence we handled, in case it changed since it was read
+  const result = await prisma.recurringExpense.updateMany({
+    where: { id, nextRunAt: occurrenceDate },
+    data: {
+      occurrenceCount,
+      nextRunAt: nextRunAfter(existing, occurrenceCount, occurrenceDate),
+      lastError: null,
+    },
+  });
+
+  return result.count > 0 ? prisma.recurringExpense.findUnique({ where: { id } }) : null;
+}
+
+/** Record why an occurrence could not be created; it is retried on the next run */
+export async function recordRecurringExpenseFailure(id: number, error: string): Promise<void> {
+  await prisma.recurringExpense.update({
+    where: { id },
+    data: { lastError: error },
+  });
+}
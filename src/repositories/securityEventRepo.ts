@@ -0,0 +1,54 @@
+import { PrismaClient, SecurityEvent, SecurityEventType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface SecurityEventData {
+  detail?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SecurityEventPage {
+  events: SecurityEvent[];
+  total: number;
+}
+
+// ===== Event Operations =====
+
+/** Append an entry to a user's security event log */
+export async function recordSecurityEvent(
+  userId: number,
+  type: SecurityEventType,
+  data: SecurityEventData = {}
+): Promise<SecurityEvent> {
+  return prisma.securityEvent.create({
+    data: {
+      userId,
+      type,
+      detail: data.detail,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+    },
+  });
+}
+
+/** List a user's security events, newest first */
+export async function listSecurityEvents(
+  userId: number,
+  limit: number = 50,
+  offset: number = 0
+): Promise<SecurityEventPage> {
+  const [events, total] = await Promise.all([
+    prisma.securityEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.securityEvent.count({ where: { userId } }),
+  ]);
+
+  return { events, total };
+}
@@ -0,0 +1,188 @@
+import { PrismaClient, UserSession } from '@prisma/client';
+import {
+  AuthSession,
+  generateRefreshToken,
+  hashToken,
+  REFRESH_TOKEN_TTL_DAYS,
+} from '../utils/auth.js';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface RotatedSession extends AuthSession {
+  userId: number;
+}
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'token_reuse'
+  | 'password_change'
+  | 'account_deactivated'
+  | 'account_deleted';
+
+// ===== Helper Functions =====
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// ===== Session Operations =====
+
+/** Start a new session (refresh token family) for a user and record the login time */
+export async function createSession(
+  userId: number,
+  metadata: SessionMetadata = {}
+): Promise<AuthSession> {
+  const refreshToken = generateRefreshToken();
+  const expiresAt = refreshTokenExpiry();
+
+  // Every completed login (password, two-factor or OAuth) starts exactly one session
+  const [session] = await prisma.$transaction([
+    prisma.userSession.create({
+      data: {
+        userId,
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress,
+        expiresAt,
+        refreshTokens: {
+          create: {
+            tokenHash: hashToken(refreshToken),
+            expiresAt,
+          },
+        },
+      },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { lastLoginAt: new Date() },
+    }),
+  ]);
+
+  return { id: session.id, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one in the same session.
+ * Presenting an already rotated token is treated as theft: the whole family is revoked.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  metadata: SessionMetadata = {}
+): Promise<RotatedSession> {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: true },
+  });
+
+  if (!existing) {
+    throw new Error('Invalid refresh token');
+  }
+
+  if (existing.session.revokedAt) {
+    throw new Error('Session has been revoked');
+  }
+
+  if (existing.usedAt) {
+    await revokeSession(existing.sessionId, 'token_reuse');
+    throw new Error('Refresh token reuse detected');
+  }
+
+  if (existing.expiresAt < new Date() || existing.session.expiresAt < new Date()) {
+    throw new Error('Refresh token has expired');
+  }
+
+  const nextToken = generateRefreshToken();
+  const expiresAt = refreshTokenExpiry();
+
+  const rotated = await prisma.$transaction(async tx => {
+    // Only one concurrent request can consume the token
+    const consumed = await tx.refreshToken.updateMany({
+      where: { id: existing.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        sessionId: existing.sessionId,
+        tokenHash: hashToken(nextToken),
+        expiresAt,
+      },
+    });
+
+    await tx.userSession.update({
+      where: { id: existing.sessionId },
+      data: {
+        lastUsedAt: new Date(),
+        expiresAt,
+        userAgent: metadata.userAgent ?? existing.session.userAgent,
+        ipAddress: metadata.ipAddress ?? existing.session.ipAddress,
+      },
+    });
+
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSession(existing.sessionId, 'token_reuse');
+    throw new Error('Refresh token reuse detected');
+  }
+
+  return { id: existing.sessionId, refreshToken: nextToken, userId: existing.session.userId };
+}
+
+/** Get a session by ID */
+export async function getSessionById(sessionId: string): Promise<UserSession | null> {
+  return prisma.userSession.findUnique({
+    where: { id: sessionId },
+  });
+}
+
+/** Check that a session exists, is not revoked and has not expired */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+/** Revoke a single session and every refresh token in its family */
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevokeReason = 'logout'
+): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/** Revoke all of a user's sessions ("log out everywhere"), optionally keeping one */
+export async function revokeAllUserSessions(
+  userId: number,
+  reason: SessionRevokeReason = 'logout_all',
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count;
+}
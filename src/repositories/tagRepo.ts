@@ -0,0 +1,214 @@
+import { PrismaClient, Prisma, Tag } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+// Whose tags: a user's personal tags or a group's shared tags
+export type TagOwner = { userId: number } | { groupId: number };
+
+export interface CreateTagData {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagData {
+  name?: string;
+  color?: string | null;
+}
+
+export interface TagWithCount extends Tag {
+  _count: {
+    expenses: number;
+  };
+}
+
+export interface TagSpendingSummary {
+  tagId: number;
+  tagName: string;
+  tagColor: string | null;
+  currency: string; // Amounts are never added up across currencies
+  totalAmount: Decimal;
+  expenseCount: number;
+  averageAmount: Decimal;
+  percentage: number; // Of all spending in the currency and period; expenses can carry several tags
+  lastExpenseDate: Date | null;
+}
+
+// ===== Helper Functions =====
+
+// Tag names are case-insensitive: "Reimbursable" and "reimbursable" are the same tag
+function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function ownerWhere(owner: TagOwner): Prisma.TagWhereInput {
+  return 'groupId' in owner ? { groupId: owner.groupId } : { userId: owner.userId };
+}
+
+// ===== Tag Operations =====
+
+/** Create a personal or group tag */
+export async function createTag(owner: TagOwner, data: CreateTagData): Promise<Tag> {
+  return prisma.tag.create({
+    data: { ...data, ...owner, name: normalizeTagName(data.name) },
+  });
+}
+
+/** Get a tag by ID */
+export async function getTagById(id: number): Promise<Tag | null> {
+  return prisma.tag.findUnique({
+    where: { id },
+  });
+}
+
+/** List a user's personal tags or a group's tags by name, with how many expenses use each */
+export async function getTags(owner: TagOwner): Promise<TagWithCount[]> {
+  return prisma.tag.findMany({
+    where: ownerWhere(owner),
+    include: {
+      _count: { select: { expenses: { where: { expense: { deletedAt: null } } } } },
+    },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/** Rename or recolor a tag */
+export async function updateTag(id: number, data: UpdateTagData): Promise<Tag> {
+  return prisma.tag.update({
+    where: { id },
+    data: { ...data, name: data.name === undefined ? undefined : normalizeTagName(data.name) },
+  });
+}
+
+/** Delete a tag; it is removed from its expenses */
+export async function deleteTag(id: number): Promise<Tag> {
+  return prisma.tag.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Check that every tag can go on an expense: group expenses take the group's tags,
+ * personal expenses the user's own tags
+ */
+export async function canUseTags(tagIds: number[], owner: TagOwner): Promise<boolean> {
+  const uniqueIds = [...new Set(tagIds)];
+  if (uniqueIds.length === 0) {
+    return true;
+  }
+
+  const count = await prisma.tag.count({
+    where: { id: { in: uniqueIds }, ...ownerWhere(owner) },
+  });
+
+  return count === uniqueIds.length;
+}
+
+// ===== Analytics and Reporting =====
+
+/** Spending per tag and currency for a user's personal tags or a group's tags, highest first */
+export async function getTagSpendingSummary(
+  owner: TagOwner,
+  options: {
+    fromDate?: Date;
+    toDate?: Date;
+    limit?: number;
+  } = {}
+): Promise<TagSpendingSummary[]> {
+  const { fromDate, toDate, limit = 20 } = options;
+
+  const whereClause: Prisma.ExpenseWhereInput = { ...owner, deletedAt: null };
+
+  if (fromDate || toDate) {
+    whereClause.paidAt = {
+      ...(fromDate && { gte: fromDate }),
+      ...(toDate && { lte: toDate }),
+    };
+  }
+
+  // Get total spending per currency for percentage calculation
+  const totalSpending = await prisma.expense.groupBy({
+    by: ['currency'],
+    where: whereClause,
+    _sum: { amount: true },
+  });
+
+  const totalAmounts = new Map(
+    totalSpending.map(total => [total.currency, total._sum.amount || new Decimal(0)])
+  );
+
+  // Expenses carrying at least one of the owner's tags
+  const expenses = await prisma.expense.findMany({
+    where: { ...whereClause, tags: { some: { tag: ownerWhere(owner) } } },
+    select: {
+      amount: true,
+      currency: true,
+      paidAt: true,
+      tags: {
+        where: { tag: ownerWhere(owner) },
+        select: { tag: { select: { id: true, name: true, color: true } } },
+      },
+    },
+  });
+
+  // An expense counts towards each of its tags, in its own currency
+  const tagGroups = new Map<
+    string,
+    {
+      tag: { id: number; name: string; color: string | null };
+      currency: string;
+      expenses: Array<{ amount: Decimal; paidAt: Date }>;
+    }
+  >();
+
+  expenses.forEach(expense => {
+    expense.tags.forEach(({ tag }) => {
+      const key = `${tag.id}:${expense.currency}`;
+      if (!tagGroups.has(key)) {
+        tagGroups.set(key, { tag, currency: expense.currency, expenses: [] });
+      }
+      tagGroups.get(key)!.expenses.push({ amount: expense.amount, paidAt: expense.paidAt });
+    });
+  });
+
+  // Calculate summaries
+  const summaries: TagSpendingSummary[] = [];
+
+  tagGroups.forEach(group => {
+    const totalTagAmount = group.expenses.reduce((sum, exp) => sum.add(exp.amount), new Decimal(0));
+    const totalAmount = totalAmounts.get(group.currency) ?? new Decimal(0);
+    const lastExpenseDate = group.expenses.reduce(
+      (latest, exp) => (exp.paidAt > latest ? exp.paidAt : latest),
+      new Date(0)
+    );
+
+    summaries.push({
+      tagId: group.tag.id,
+      tagName: group.tag.name,
+      tagColor: group.tag.color,
+      currency: group.currency,
+      totalAmount: totalTagAmount,
+      expenseCount: group.expenses.length,
+      averageAmount: totalTagAmount.div(group.expenses.length),
+      percentage: totalAmount.gt(0) ? totalTagAmount.div(totalAmount).mul(100).toNumber() : 0,
+      lastExpenseDate: lastExpenseDate.getTime() > 0 ? lastExpenseDate : null,
+    });
+  });
+
+  // Sort by currency, then total amount descending, and limit each currency
+  const countPerCurrency = new Map<string, number>();
+
+  return summaries
+    .sort((a, b) =>
+      a.currency === b.currency
+        ? b.totalAmount.comparedTo(a.totalAmount)
+        : a.currency.localeCompare(b.currency)
+    )
+    .filter(summary => {
+      const count = (countPerCurrency.get(summary.currency) ?? 0) + 1;
+      countPerCurrency.set(summary.currency, count);
+      return count <= limit;
+    });
+}
@@ -1,8 +1,10 @@
-import { PrismaClient, User } from '@prisma/client';
+import { PrismaClient, SystemRole, User } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import {
   getUserProfileQuery,
   listUsersQuery,
+  countUsersQuery,
+  UserListFilters,
   getUserWithExpensesQuery,
   getUserByProviderQuery,
 } from '../queries/userQueries.js';
@@ -28,6 +30,16 @@ export interface UpdateUserData {
   avatar?: string;
   isEmailVerified?: boolean;
   lastLoginAt?: Date;
+  defaultCurrency?: string;
+}
+
+export interface OAuthProfile {
+  provider: string;
+  providerId: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  avatar?: string;
 }
 
 export interface LoginCredentials {
@@ -93,6 +105,88 @@ export async function getUserByProvider(
   return getUserByProviderQuery(provider, providerId);
 }
 
+/**
+ * Find the user for an OAuth identity.
+ * Falls back to linking an unlinked account with the same email, verified both by the provider
+ * and on the account, and finally creates a new account.
+ */
+export async function findOrCreateOAuthUser(profile: OAuthProfile): Promise<User> {
+  const existing = await getUserByProviderQuery(profile.provider, profile.providerId);
+  if (existing) {
+    return existing;
+  }
+
+  if (!profile.email) {
+    throw new Error('OAuth provider did not return an email address');
+  }
+
+  const byEmail = await getUserByEmail(profile.email);
+  if (byEmail) {
+    // Never take over an account on the strength of an unverified email claim
+    if (!profile.emailVerified) {
+      throw new Error('OAuth email address is not verified');
+    }
+
+    if (byEmail.providerId) {
+      throw new Error('Account is already linked to another provider');
+    }
+
+    // Whoever registered an unverified address may not own it, so its owner links explicitly
+    if (!byEmail.isEmailVerified) {
+      throw new Error(
+        'An account with this email already exists, sign in to it and link the provider instead'
+      );
+    }
+
+    return prisma.user.update({
+      where: { id: byEmail.id },
+      data: {
+        provider: profile.provider,
+        providerId: profile.providerId,
+        isEmailVerified: true,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  return createUser({
+    email: profile.email,
+    name: profile.name || profile.email.split('@')[0],
+    avatar: profile.avatar,
+    provider: profile.provider,
+    providerId: profile.providerId,
+    isEmailVerified: profile.emailVerified,
+  });
+}
+
+/** Link an OAuth provider identity to an existing account */
+export async function linkProvider(
+  id: number,
+  provider: string,
+  providerId: string
+): Promise<User> {
+  return prisma.user.update({
+    where: { id },
+    data: {
+      provider,
+      providerId,
+      updatedAt: new Date(),
+    },
+  });
+}
+
+/** Unlink the OAuth provider from an account, leaving password sign-in only */
+export async function unlinkProvider(id: number): Promise<User> {
+  return prisma.user.update({
+    where: { id },
+    data: {
+      provider: 'local',
+      providerId: null,
+      updatedAt: new Date(),
+    },
+  });
+}
+
 /** Update user data */
 export async function updateUser(id: number, data: UpdateUserData): Promise<User> {
   return prisma.user.update({
@@ -119,13 +213,33 @@ export async function verifyPassword(email: string, password: string): Promise<U
     return null;
   }
 
-  // Update last login time
-  await prisma.user.update({
-    where: { id: user.id },
-    data: { lastLoginAt: new Date() },
+  // lastLoginAt is set when a session is created, the password alone may not complete a login
+  return user;
+}
+
+/** Check a user's current password (for re-authentication) */
+export async function verifyCurrentPassword(id: number, password: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { password: true },
   });
 
-  return user;
+  if (!user || !user.password) {
+    return false;
+  }
+
+  return bcrypt.compare(password, user.password);
+}
+
+/** Set a new password for a user */
+export async function setPassword(id: number, password: string): Promise<User> {
+  return prisma.user.update({
+    where: { id },
+    data: {
+      password: await bcrypt.hash(password, 10),
+      updatedAt: new Date(),
+    },
+  });
 }
 
 /** Check if email is already taken */
@@ -152,16 +266,37 @@ export async function getUserProfile(id: number) {
 }
 
 /** List all users (for admin purposes) */
-export async function listUsers(skip: number = 0, take: number = 20) {
-  return listUsersQuery(skip, take);
+export async function listUsers(
+  skip: number = 0,
+  take: number = 20,
+  filters: UserListFilters = {}
+) {
+  return listUsersQuery(skip, take, filters);
+}
+
+/** Count users matching the admin list filters */
+export async function countUsers(filters: UserListFilters = {}): Promise<number> {
+  return countUsersQuery(filters);
+}
+
+/** Change a user's platform-wide role */
+export async function setUserRole(id: number, role: SystemRole): Promise<User> {
+  return prisma.user.update({
+    where: { id },
+    data: {
+      role,
+      updatedAt: new Date(),
+    },
+  });
 }
 
 /** Soft delete user (deactivate) */
-export async function deactivateUser(id: number): Promise<User> {
+export async function deactivateUser(id: number, byAdmin: boolean = false): Promise<User> {
   return prisma.user.update({
     where: { id },
     data: {
       isActive: false,
+      ...(byAdmin && { suspendedAt: new Date() }),
       updatedAt: new Date(),
     },
   });
@@ -173,6 +308,7 @@ export async function reactivateUser(id: number): Promise<User> {
     where: { id },
     data: {
       isActive: true,
+      suspendedAt: null,
       updatedAt: new Date(),
     },
   });
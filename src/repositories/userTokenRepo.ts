@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { PrismaClient, UserTokenType } from '@prisma/client';
+import { hashToken } from '../utils/auth.js';
+
+const prisma = new PrismaClient();
+
+// ===== Type Definitions =====
+
+export interface IssuedUserToken {
+  token: string; // Raw token, only ever sent to the user
+  expiresAt: Date;
+}
+
+// Default lifetime of each token type in minutes
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  [UserTokenType.EMAIL_VERIFICATION]: parseInt(
+    process.env.EMAIL_VERIFICATION_TTL_MINUTES || String(24 * 60),
+    10
+  ),
+  [UserTokenType.PASSWORD_RESET]: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+};
+
+// ===== Token Operations =====
+
+/**
+ * Issue a new single-use token for a user.
+ * Any previously issued, still unused tokens of the same type are invalidated.
+ */
+export async function issueUserToken(
+  userId: number,
+  type: UserTokenType
+): Promise<IssuedUserToken> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES[type] * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return { token, expiresAt };
+}
+
+/** Consume a token and return the ID of the user it was issued to */
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<number> {
+  const existing = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!existing || existing.type !== type || existing.usedAt || existing.expiresAt < new Date()) {
+    throw new Error('Invalid or expired token');
+  }
+
+  // Guard against the same token being consumed twice concurrently
+  const consumed = await prisma.userToken.updateMany({
+    where: { id: existing.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    throw new Error('Invalid or expired token');
+  }
+
+  return existing.userId;
+}
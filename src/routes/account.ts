@@ -0,0 +1,359 @@
+import { FastifyPluginAsync } from 'fastify';
+import { SecurityEventType } from '@prisma/client';
+import {
+  deactivateUser,
+  getUserByEmail,
+  getUserById,
+  reactivateUser,
+  verifyCurrentPassword,
+  verifyPassword,
+} from '../repositories/userRepo.js';
+import { revokeAllUserSessions } from '../repositories/sessionRepo.js';
+import {
+  cancelAccountDeletion,
+  hasOutstandingDebts,
+  scheduleAccountDeletion,
+} from '../repositories/accountDeletionRepo.js';
+import { getUserBalanceSummary } from '../repositories/expenseSplitRepo.js';
+import { accountThrottleKey, clearFailedLogins } from '../repositories/loginThrottleRepo.js';
+import { recordSecurityEvent } from '../repositories/securityEventRepo.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  getRequestMetadata,
+  requireUserSession,
+} from '../utils/middleware.js';
+import {
+  checkLoginThrottle,
+  createThrottledResponse,
+  registerFailedLogin,
+} from '../utils/loginProtection.js';
+
+interface PasswordConfirmationBody {
+  password?: string;
+}
+
+interface DeleteAccountBody {
+  password?: string;
+  writeOffDebts?: boolean;
+}
+
+interface ReactivateAccountBody {
+  email: string;
+  password: string;
+}
+
+const accountRoute: FastifyPluginAsync = async fastify => {
+  // POST /users/me/deactivate - Deactivate own account
+  fastify.post<{ Body: PasswordConfirmationBody }>(
+    '/users/me/deactivate',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Deactivate account',
+        description:
+          'Deactivate the account and sign out everywhere. Data is kept and the account can be ' +
+          'reactivated with POST /auth/reactivate. Requires the current password for accounts ' +
+          'that have one.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            password: { type: 'string', description: 'Current password' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Account deactivated',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Current password is incorrect',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.id;
+        const user = await getUserById(userId);
+
+        if (
+          user?.password &&
+          !(await verifyCurrentPassword(userId, request.body?.password || ''))
+        ) {
+          return reply.code(401).send({
+            message: 'Current password is incorrect',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        await deactivateUser(userId);
+        await revokeAllUserSessions(userId, 'account_deactivated');
+
+        return { message: 'Account deactivated' };
+      } catch (error) {
+        fastify.log.error('Error deactivating account:', error);
+        return reply.code(500).send({
+          message: 'Failed to deactivate account',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/reactivate - Reactivate a deactivated account
+  fastify.post<{ Body: ReactivateAccountBody }>(
+    '/auth/reactivate',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Reactivate account',
+        description:
+          'Reactivate a deactivated account with its email and password. This also cancels a ' +
+          'pending account deletion. Log in afterwards as usual. Failed attempts count towards ' +
+          'the same throttle and lockout as POST /auth/login (429). Accounts deactivated by an ' +
+          'administrator can only be reactivated by one.',
+        body: {
+          type: 'object',
+          properties: {
+            email: { type: 'string', format: 'email', description: 'User email address' },
+            password: { type: 'string', minLength: 1, description: 'User password' },
+          },
+          required: ['email', 'password'],
+        },
+        response: {
+          200: {
+            description: 'Account reactivated',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              deletionCancelled: { type: 'boolean' },
+            },
+          },
+          400: {
+            description: 'Account is already active',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          401: {
+            description: 'Invalid credentials',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Account was deactivated by an administrator',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          429: {
+            description: 'Too many failed attempts; retry after the given number of seconds',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+              retryAfter: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { email, password } = request.body;
+        const metadata = getRequestMetadata(request);
+
+        // Same throttle as logging in, so this can't be used to guess passwords instead
+        const throttle = await checkLoginThrottle(email, metadata);
+        if (throttle.blocked) {
+          return reply
+            .code(429)
+            .header('Retry-After', String(throttle.retryAfterSeconds))
+            .send(createThrottledResponse(throttle));
+        }
+
+        const user = await verifyPassword(email, password);
+        if (!user) {
+          const account = await getUserByEmail(email);
+          await registerFailedLogin(email, metadata, account?.id ?? null, 'invalid_password');
+
+          return reply.code(401).send({
+            message: 'Invalid email or password',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        if (user.isActive) {
+          return reply.code(400).send({
+            message: 'Account is already active',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (user.suspendedAt) {
+          return reply.code(403).send({
+            message: 'This account was deactivated by an administrator',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const deletionCancelled = await cancelAccountDeletion(user.id);
+        await reactivateUser(user.id);
+
+        await clearFailedLogins(accountThrottleKey(email));
+        await recordSecurityEvent(user.id, SecurityEventType.ACCOUNT_REACTIVATED, metadata);
+
+        return { message: 'Account reactivated', deletionCancelled };
+      } catch (error) {
+        fastify.log.error('Error reactivating account:', error);
+        return reply.code(500).send({
+          message: 'Failed to reactivate account',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /users/me - Schedule account deletion
+  fastify.delete<{ Body: DeleteAccountBody }>(
+    '/users/me',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Delete account',
+        description:
+          'Deactivate the account now and permanently delete it once the grace period ends. ' +
+          'Personal data is removed; expenses and splits shared with other users are kept but ' +
+          'anonymized. Outstanding debts block deletion unless writeOffDebts is set, which marks ' +
+          'all unpaid splits between you and others as paid. Reactivating the account during ' +
+          'the grace period cancels the deletion.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            password: { type: 'string', description: 'Current password' },
+            writeOffDebts: {
+              type: 'boolean',
+              description: 'Write off all unpaid splits you owe or are owed',
+            },
+          },
+        },
+        response: {
+          202: {
+            description: 'Account deletion scheduled',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              scheduledFor: { type: 'string', format: 'date-time' },
+            },
+          },
+          401: {
+            description: 'Current password is incorrect',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Outstanding debts must be settled or written off first',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+              balances: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    currency: { type: 'string' },
+                    owes: { type: 'string' },
+                    owed: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.id;
+        const { password, writeOffDebts } = request.body || {};
+        const user = await getUserById(userId);
+
+        if (user?.password && !(await verifyCurrentPassword(userId, password || ''))) {
+          return reply.code(401).send({
+            message: 'Current password is incorrect',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        if (!writeOffDebts && (await hasOutstandingDebts(userId))) {
+          const balances = await getUserBalanceSummary(userId);
+          return reply.code(409).send({
+            message: 'Outstanding debts must be settled or written off before deleting the account',
+            error: 'Conflict',
+            statusCode: 409,
+            balances: balances.map(balance => ({
+              currency: balance.currency,
+              owes: balance.owes.toString(),
+              owed: balance.owed.toString(),
+            })),
+          });
+        }
+
+        const deletion = await scheduleAccountDeletion(userId, { writeOffDebts });
+        await revokeAllUserSessions(userId, 'account_deleted');
+
+        return reply.code(202).send({
+          message: 'Account deletion scheduled',
+          scheduledFor: deletion.scheduledFor,
+        });
+      } catch (error) {
+        fastify.log.error('Error scheduling account deletion:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete account',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default accountRoute;
@@ -0,0 +1,950 @@
+import { FastifyPluginAsync } from 'fastify';
+import { SystemRole } from '@prisma/client';
+import {
+  countUsers,
+  deactivateUser,
+  getUserById,
+  listUsers,
+  reactivateUser,
+  setUserRole,
+} from '../repositories/userRepo.js';
+import { revokeAllUserSessions } from '../repositories/sessionRepo.js';
+import { cancelAccountDeletion } from '../repositories/accountDeletionRepo.js';
+import {
+  createDefaultCategory,
+  deleteCategory,
+  getCategoryById,
+  getDefaultCategories,
+  updateCategory,
+} from '../repositories/categoryRepo.js';
+import { getPlatformStats } from '../repositories/adminRepo.js';
+import { importExchangeRates, listExchangeRates } from '../repositories/exchangeRateRepo.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  requireSystemAdmin,
+  requireUserSession,
+} from '../utils/middleware.js';
+
+interface ListUsersQuery {
+  search?: string;
+  role?: SystemRole;
+  isActive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+interface AdminUserParams {
+  id: string;
+}
+
+interface SetRoleBody {
+  role: SystemRole;
+}
+
+interface DefaultCategoryParams {
+  id: string;
+}
+
+interface CreateDefaultCategoryBody {
+  name: string;
+  description?: string;
+  icon: string;
+  color: string;
+}
+
+interface UpdateDefaultCategoryBody {
+  name?: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  isActive?: boolean;
+}
+
+interface ListExchangeRatesQuery {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface ImportExchangeRatesBody {
+  rates: Array<{
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    effectiveDate: string;
+  }>;
+}
+
+const adminRoute: FastifyPluginAsync = async fastify => {
+  // Every admin endpoint needs a login session of a user with the ADMIN system role
+  fastify.addHook('preHandler', authenticate);
+  fastify.addHook('preHandler', requireUserSession);
+  fastify.addHook('preHandler', requireSystemAdmin);
+
+  // GET /users - List and search users
+  fastify.get<{ Querystring: ListUsersQuery }>(
+    '/users',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'List users',
+        description:
+          'List all users, newest first. Search matches email, name or username ' +
+          '(case-insensitive). Requires the ADMIN system role.',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            search: { type: 'string', minLength: 1, description: 'Email, name or username' },
+            role: { type: 'string', enum: ['USER', 'ADMIN'], description: 'Filter by role' },
+            isActive: { type: 'boolean', description: 'Filter by account status' },
+            limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Number of results' },
+            offset: { type: 'integer', minimum: 0, description: 'Offset for pagination' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Users retrieved successfully',
+            type: 'object',
+            properties: {
+              users: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    email: { type: 'string' },
+                    name: { type: 'string' },
+                    username: { type: 'string', nullable: true },
+                    provider: { type: 'string' },
+                    isEmailVerified: { type: 'boolean' },
+                    isActive: { type: 'boolean' },
+                    suspendedAt: { type: 'string', format: 'date-time', nullable: true },
+                    role: { type: 'string' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    lastLoginAt: { type: 'string', format: 'date-time', nullable: true },
+                  },
+                },
+              },
+              total: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { search, role, isActive, limit = 50, offset = 0 } = request.query;
+        const filters = { search, role, isActive };
+
+        const [users, total] = await Promise.all([
+          listUsers(offset, limit, filters),
+          countUsers(filters),
+        ]);
+
+        return { users, total };
+      } catch (error) {
+        fastify.log.error('Error listing users:', error);
+        return reply.code(500).send({
+          message: 'Failed to list users',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /users/:id/deactivate - Deactivate a user's account
+  fastify.post<{ Params: AdminUserParams }>(
+    '/users/:id/deactivate',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Deactivate user',
+        description:
+          'Deactivate an account and revoke all of its sessions. Only an admin can reactivate ' +
+          'it again (POST /admin/users/:id/reactivate); POST /auth/reactivate refuses it. ' +
+          'Requires the ADMIN system role.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'User deactivated',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid user ID, own account or already deactivated',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'User not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid user ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (id === request.user!.id) {
+          return reply.code(400).send({
+            message: 'Use POST /users/me/deactivate to deactivate your own account',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const user = await getUserById(id);
+        if (!user) {
+          return reply.code(404).send({
+            message: 'User not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (!user.isActive) {
+          return reply.code(400).send({
+            message: 'User is already deactivated',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        await deactivateUser(id, true);
+        await revokeAllUserSessions(id, 'account_deactivated');
+
+        return { message: 'User deactivated' };
+      } catch (error) {
+        fastify.log.error('Error deactivating user:', error);
+        return reply.code(500).send({
+          message: 'Failed to deactivate user',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /users/:id/reactivate - Reactivate a user's account
+  fastify.post<{ Params: AdminUserParams }>(
+    '/users/:id/reactivate',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Reactivate user',
+        description:
+          'Reactivate a deactivated account. This also cancels a pending account deletion; ' +
+          'accounts that were already deleted cannot be restored. Requires the ADMIN system role.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'User reactivated',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              deletionCancelled: { type: 'boolean' },
+            },
+          },
+          400: {
+            description: 'Invalid user ID or account is already active',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'User not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Account has been deleted',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid user ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const user = await getUserById(id);
+        if (!user) {
+          return reply.code(404).send({
+            message: 'User not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // Deleted accounts are kept as anonymized tombstones (see deleteAccount)
+        if (user.provider === 'deleted') {
+          return reply.code(409).send({
+            message: 'Deleted accounts cannot be reactivated',
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        if (user.isActive) {
+          return reply.code(400).send({
+            message: 'User is already active',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const deletionCancelled = await cancelAccountDeletion(id);
+        await reactivateUser(id);
+
+        return { message: 'User reactivated', deletionCancelled };
+      } catch (error) {
+        fastify.log.error('Error reactivating user:', error);
+        return reply.code(500).send({
+          message: 'Failed to reactivate user',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /users/:id/role - Grant or revoke the ADMIN system role
+  fastify.put<{ Params: AdminUserParams; Body: SetRoleBody }>(
+    '/users/:id/role',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Set user role',
+        description:
+          'Change the system role of a user. Admins cannot change their own role, so there ' +
+          'is always at least one admin left. Requires the ADMIN system role.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'User ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', enum: ['USER', 'ADMIN'], description: 'New system role' },
+          },
+          required: ['role'],
+        },
+        response: {
+          200: {
+            description: 'Role updated',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              role: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid user ID or own account',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'User not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid user ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (id === request.user!.id) {
+          return reply.code(400).send({
+            message: 'You cannot change your own role',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const user = await getUserById(id);
+        if (!user) {
+          return reply.code(404).send({
+            message: 'User not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const updated = await setUserRole(id, request.body.role);
+        return { id: updated.id, role: updated.role };
+      } catch (error) {
+        fastify.log.error('Error updating user role:', error);
+        return reply.code(500).send({
+          message: 'Failed to update user role',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /stats - Platform-wide counts
+  fastify.get(
+    '/stats',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Platform statistics',
+        description: 'Platform-wide counts of users, groups, expenses and more',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Statistics retrieved successfully',
+            type: 'object',
+            properties: {
+              users: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  active: { type: 'integer' },
+                  deactivated: { type: 'integer' },
+                  verified: { type: 'integer' },
+                  admins: { type: 'integer' },
+                  pendingDeletion: { type: 'integer' },
+                  newLast30Days: { type: 'integer' },
+                },
+              },
+              groups: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  active: { type: 'integer' },
+                },
+              },
+              expenses: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  unpaidSplits: { type: 'integer' },
+                },
+              },
+              categories: {
+                type: 'object',
+                properties: {
+                  default: { type: 'integer' },
+                  custom: { type: 'integer' },
+                },
+              },
+              friendships: { type: 'integer' },
+              activeSessions: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        return await getPlatformStats();
+      } catch (error) {
+        fastify.log.error('Error fetching platform stats:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch platform statistics',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /categories - List default categories
+  fastify.get(
+    '/categories',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'List default categories',
+        description:
+          'List the default categories offered to every user, including deactivated ones',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Default categories retrieved successfully',
+            type: 'object',
+            properties: {
+              categories: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    description: { type: 'string', nullable: true },
+                    icon: { type: 'string' },
+                    color: { type: 'string' },
+                    isDefault: { type: 'boolean' },
+                    isActive: { type: 'boolean' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    updatedAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const categories = await getDefaultCategories(true);
+        return { categories };
+      } catch (error) {
+        fastify.log.error('Error fetching default categories:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch default categories',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /categories - Create a default category
+  fastify.post<{ Body: CreateDefaultCategoryBody }>(
+    '/categories',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Create default category',
+        description: 'Create a default category that is available to every user',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 50, description: 'Category name' },
+            description: { type: 'string', maxLength: 200, description: 'Category description' },
+            icon: { type: 'string', minLength: 1, description: 'Icon identifier' },
+            color: {
+              type: 'string',
+              pattern: '^#[0-9A-Fa-f]{6}$',
+              description: 'Hex color code (e.g., #FF5733)',
+            },
+          },
+          required: ['name', 'icon', 'color'],
+        },
+        response: {
+          201: {
+            description: 'Default category created successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              icon: { type: 'string' },
+              color: { type: 'string' },
+              isDefault: { type: 'boolean' },
+              isActive: { type: 'boolean' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const category = await createDefaultCategory(request.body);
+        return reply.code(201).send(category);
+      } catch (error) {
+        fastify.log.error('Error creating default category:', error);
+        return reply.code(500).send({
+          message: 'Failed to create default category',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /categories/:id - Update a default category
+  fastify.put<{ Params: DefaultCategoryParams; Body: UpdateDefaultCategoryBody }>(
+    '/categories/:id',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Update default category',
+        description: 'Update a default category; set isActive to restore a deactivated one',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Category ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 50, description: 'Category name' },
+            description: { type: 'string', maxLength: 200, description: 'Category description' },
+            icon: { type: 'string', minLength: 1, description: 'Icon identifier' },
+            color: {
+              type: 'string',
+              pattern: '^#[0-9A-Fa-f]{6}$',
+              description: 'Hex color code (e.g., #FF5733)',
+            },
+            isActive: { type: 'boolean', description: 'Whether category is active' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Default category updated successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              icon: { type: 'string' },
+              color: { type: 'string' },
+              isDefault: { type: 'boolean' },
+              isActive: { type: 'boolean' },
+            },
+          },
+          404: {
+            description: 'Default category not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid category ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existingCategory = await getCategoryById(id);
+        if (!existingCategory || !existingCategory.isDefault) {
+          return reply.code(404).send({
+            message: 'Default category not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        return await updateCategory(id, request.body);
+      } catch (error) {
+        fastify.log.error('Error updating default category:', error);
+        return reply.code(500).send({
+          message: 'Failed to update default category',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /categories/:id - Deactivate a default category
+  fastify.delete<{ Params: DefaultCategoryParams }>(
+    '/categories/:id',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Delete default category',
+        description:
+          'Deactivate a default category. Existing expenses keep it; it is no longer offered ' +
+          'to users and can be restored with PUT /admin/categories/:id.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Category ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Default category deactivated',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          404: {
+            description: 'Default category not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid category ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existingCategory = await getCategoryById(id);
+        if (!existingCategory || !existingCategory.isDefault) {
+          return reply.code(404).send({
+            message: 'Default category not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        await deleteCategory(id);
+        return { message: 'Default category deleted successfully' };
+      } catch (error) {
+        fastify.log.error('Error deleting default category:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete default category',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /exchange-rates - List exchange rates
+  fastify.get<{ Querystring: ListExchangeRatesQuery }>(
+    '/exchange-rates',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'List exchange rates',
+        description:
+          'List the exchange rates used to convert balances, newest effective date first',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            baseCurrency: { type: 'string', pattern: '^[A-Z]{3}$', description: 'Base currency' },
+            quoteCurrency: { type: 'string', pattern: '^[A-Z]{3}$', description: 'Quote currency' },
+            limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Number of results' },
+            offset: { type: 'integer', minimum: 0, description: 'Offset for pagination' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Exchange rates retrieved successfully',
+            type: 'object',
+            properties: {
+              rates: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    baseCurrency: { type: 'string' },
+                    quoteCurrency: { type: 'string' },
+                    rate: { type: 'string', description: '1 baseCurrency = rate quoteCurrency' },
+                    effectiveDate: { type: 'string', format: 'date-time' },
+                    updatedAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { baseCurrency, quoteCurrency, limit = 50, offset = 0 } = request.query;
+        const rates = await listExchangeRates({ baseCurrency, quoteCurrency }, offset, limit);
+
+        return {
+          rates: rates.map(rate => ({ ...rate, rate: rate.rate.toString() })),
+        };
+      } catch (error) {
+        fastify.log.error('Error fetching exchange rates:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch exchange rates',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /exchange-rates - Import exchange rates
+  fastify.post<{ Body: ImportExchangeRatesBody }>(
+    '/exchange-rates',
+    {
+      schema: {
+        tags: ['admin'],
+        summary: 'Import exchange rates',
+        description:
+          'Add or replace exchange rates. A rate for the same currency pair and effective date ' +
+          'overwrites the existing one. Conversions use the latest rate effective at the time.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            rates: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 500,
+              items: {
+                type: 'object',
+                properties: {
+                  baseCurrency: { type: 'string', pattern: '^[A-Z]{3}$' },
+                  quoteCurrency: { type: 'string', pattern: '^[A-Z]{3}$' },
+                  rate: {
+                    type: 'number',
+                    exclusiveMinimum: 0,
+                    description: '1 baseCurrency = rate quoteCurrency',
+                  },
+                  effectiveDate: { type: 'string', format: 'date' },
+                },
+                required: ['baseCurrency', 'quoteCurrency', 'rate', 'effectiveDate'],
+              },
+            },
+          },
+          required: ['rates'],
+        },
+        response: {
+          201: {
+            description: 'Exchange rates imported successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              imported: { type: 'integer' },
+            },
+          },
+          400: {
+            description: 'A rate converts a currency into itself',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { rates } = request.body;
+
+        if (rates.some(rate => rate.baseCurrency === rate.quoteCurrency)) {
+          return reply.code(400).send({
+            message: 'Base and quote currency must differ',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const imported = await importExchangeRates(
+          rates.map(rate => ({ ...rate, effectiveDate: new Date(rate.effectiveDate) }))
+        );
+
+        return reply.code(201).send({ message: 'Exchange rates imported successfully', imported });
+      } catch (error) {
+        fastify.log.error('Error importing exchange rates:', error);
+        return reply.code(500).send({
+          message: 'Failed to import exchange rates',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default adminRoute;
@@ -0,0 +1,225 @@
+import { FastifyPluginAsync } from 'fastify';
+import { createApiToken, listApiTokens, revokeApiToken } from '../repositories/apiTokenRepo.js';
+import { API_TOKEN_SCOPES, ApiTokenScope } from '../utils/auth.js';
+import { authenticate, authHeaderSchema, requireUserSession } from '../utils/middleware.js';
+
+interface CreateApiTokenBody {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number;
+}
+
+interface ApiTokenParams {
+  id: string;
+}
+
+const apiTokensRoute: FastifyPluginAsync = async fastify => {
+  // GET /users/me/api-tokens - List personal API tokens
+  fastify.get(
+    '/users/me/api-tokens',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'List API tokens',
+        description: "List the authenticated user's active personal API tokens",
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'API tokens retrieved successfully',
+            type: 'object',
+            properties: {
+              apiTokens: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    prefix: { type: 'string' },
+                    scopes: { type: 'array', items: { type: 'string' } },
+                    expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                    lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              availableScopes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const apiTokens = await listApiTokens(request.user!.id);
+        return { apiTokens, availableScopes: API_TOKEN_SCOPES };
+      } catch (error) {
+        fastify.log.error('Error fetching API tokens:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch API tokens',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /users/me/api-tokens - Create a personal API token
+  fastify.post<{ Body: CreateApiTokenBody }>(
+    '/users/me/api-tokens',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Create API token',
+        description:
+          'Create a personal API token for scripts and integrations. The token is only ' +
+          'returned once; send it as "Authorization: Bearer <token>".',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100, description: 'Token name' },
+            scopes: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string', enum: [...API_TOKEN_SCOPES] },
+              description: 'Scopes granted to the token',
+            },
+            expiresInDays: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 3650,
+              description: 'Days until the token expires (omit for no expiry)',
+            },
+          },
+          required: ['name', 'scopes'],
+        },
+        response: {
+          201: {
+            description: 'API token created successfully',
+            type: 'object',
+            properties: {
+              token: { type: 'string' },
+              apiToken: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  name: { type: 'string' },
+                  prefix: { type: 'string' },
+                  scopes: { type: 'array', items: { type: 'string' } },
+                  expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { name, scopes, expiresInDays } = request.body;
+
+        const created = await createApiToken(request.user!.id, {
+          name,
+          scopes,
+          expiresAt: expiresInDays
+            ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+            : undefined,
+        });
+
+        return reply.code(201).send(created);
+      } catch (error) {
+        fastify.log.error('Error creating API token:', error);
+        return reply.code(500).send({
+          message: 'Failed to create API token',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /users/me/api-tokens/:id - Revoke a personal API token
+  fastify.delete<{ Params: ApiTokenParams }>(
+    '/users/me/api-tokens/:id',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Revoke API token',
+        description: 'Revoke a personal API token; it stops working immediately',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'API token ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'API token revoked successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid API token ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'API token not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid API token ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        await revokeApiToken(request.user!.id, id);
+        return { message: 'API token revoked successfully' };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('API token not found')) {
+          return reply.code(404).send({
+            message: 'API token not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        fastify.log.error('Error revoking API token:', error);
+        return reply.code(500).send({
+          message: 'Failed to revoke API token',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default apiTokensRoute;
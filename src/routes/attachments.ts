@@ -0,0 +1,525 @@
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { verifyAttachmentDownloadToken } from '../utils/auth.js';
+import {
+  ATTACHMENT_MAX_BYTES,
+  getAttachmentLinks,
+  getContentDisposition,
+  removeAttachmentFiles,
+  storeAttachment,
+} from '../utils/attachments.js';
+import { getStorageDriver } from '../utils/storage.js';
+import { isGroupMember } from '../repositories/groupRepo.js';
+import { canManageExpense, getExpenseById } from '../repositories/expenseRepo.js';
+import {
+  createAttachment,
+  deleteAttachment,
+  getAttachmentById,
+  getExpenseAttachments,
+} from '../repositories/attachmentRepo.js';
+
+interface ExpenseParams {
+  id: string;
+}
+
+interface AttachmentParams {
+  id: string;
+  attachmentId: string;
+}
+
+interface ContentParams {
+  attachmentId: string;
+}
+
+interface ContentQuery {
+  token: string;
+}
+
+const attachmentsRoute: FastifyPluginAsync = async fastify => {
+  // POST /expenses/:id/attachments - Upload a receipt or document
+  fastify.post<{ Params: ExpenseParams }>(
+    '/expenses/:id/attachments',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['attachments'],
+        summary: 'Upload an attachment',
+        description:
+          'Attach a receipt or document to an expense as a multipart/form-data upload with a ' +
+          `single file field. JPEG, PNG, GIF, WebP and PDF files up to ` +
+          `${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB are accepted; images get a thumbnail. ` +
+          'Group expenses accept uploads from any group member.',
+        consumes: ['multipart/form-data'],
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          201: {
+            description: 'Attachment uploaded successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              fileName: { type: 'string' },
+              mimeType: { type: 'string' },
+              sizeBytes: { type: 'integer' },
+              uploadedById: { type: 'integer' },
+              createdAt: { type: 'string', format: 'date-time' },
+              downloadUrl: { type: 'string' },
+              thumbnailUrl: { type: ['string', 'null'] },
+            },
+          },
+          400: {
+            description: 'Invalid request or unsupported file',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          413: {
+            description: 'File too large',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpenseById(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // For group expenses, user must be a group member; otherwise only the payer or creator
+        const hasAccess = expense.groupId
+          ? await isGroupMember(expense.groupId, request.user!.id)
+          : canManageExpense(expense, request.user!.id);
+        if (!hasAccess) {
+          return reply.code(403).send({
+            message: 'Access denied. You cannot add attachments to this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const file = await request.file();
+        if (!file) {
+          return reply.code(400).send({
+            message: 'No file uploaded',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const data = await file.toBuffer();
+        const stored = await storeAttachment(expenseId, file.filename, data);
+
+        const attachment = await createAttachment({
+          ...stored,
+          expenseId,
+          uploadedById: request.user!.id,
+        });
+
+        return reply.code(201).send({ ...attachment, ...getAttachmentLinks(attachment) });
+      } catch (error) {
+        if (error instanceof fastify.multipartErrors.RequestFileTooLargeError) {
+          return reply.code(413).send({
+            message: `File is too large, the limit is ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`,
+            error: 'Payload Too Large',
+            statusCode: 413,
+          });
+        }
+
+        if (error instanceof fastify.multipartErrors.InvalidMultipartContentTypeError) {
+          return reply.code(400).send({
+            message: 'Upload the file as multipart/form-data',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (
+          error instanceof Error &&
+          (error.message.startsWith('Unsupported file type') ||
+            error.message.startsWith('Invalid image'))
+        ) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error uploading attachment:', error);
+        return reply.code(500).send({
+          message: 'Failed to upload attachment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /expenses/:id/attachments - List an expense's attachments
+  fastify.get<{ Params: ExpenseParams }>(
+    '/expenses/:id/attachments',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['attachments'],
+        summary: "List an expense's attachments",
+        description:
+          'List attachments with short-lived signed download links. Group expenses are visible ' +
+          'to all group members.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Attachments retrieved successfully',
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                fileName: { type: 'string' },
+                mimeType: { type: 'string' },
+                sizeBytes: { type: 'integer' },
+                uploadedById: { type: 'integer' },
+                createdAt: { type: 'string', format: 'date-time' },
+                downloadUrl: { type: 'string' },
+                thumbnailUrl: { type: ['string', 'null'] },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpenseById(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const hasAccess = expense.groupId
+          ? await isGroupMember(expense.groupId, request.user!.id)
+          : canManageExpense(expense, request.user!.id);
+        if (!hasAccess) {
+          return reply.code(403).send({
+            message: 'Access denied. You cannot view attachments of this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const attachments = await getExpenseAttachments(expenseId);
+        return attachments.map(attachment => ({
+          ...attachment,
+          ...getAttachmentLinks(attachment),
+        }));
+      } catch (error) {
+        fastify.log.error('Error fetching attachments:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch attachments',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /expenses/:id/attachments/:attachmentId - Remove an attachment
+  fastify.delete<{ Params: AttachmentParams }>(
+    '/expenses/:id/attachments/:attachmentId',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['attachments'],
+        summary: 'Delete an attachment',
+        description:
+          'Delete an attachment and its stored files (only the uploader or the expense owner)',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+            attachmentId: { type: 'string', description: 'Attachment ID' },
+          },
+          required: ['id', 'attachmentId'],
+        },
+        response: {
+          200: {
+            description: 'Attachment deleted successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Attachment not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const attachmentId = parseInt(request.params.attachmentId, 10);
+
+        if (isNaN(expenseId) || isNaN(attachmentId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense or attachment ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const attachment = await getAttachmentById(attachmentId);
+        if (!attachment || attachment.expenseId !== expenseId) {
+          return reply.code(404).send({
+            message: 'Attachment not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const userId = request.user!.id;
+        if (attachment.uploadedById !== userId && !canManageExpense(attachment.expense, userId)) {
+          return reply.code(403).send({
+            message: 'Access denied. Only the uploader or the expense owner can delete it.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        await deleteAttachment(attachmentId);
+
+        // The record is gone either way; a file left behind is only logged
+        try {
+          await removeAttachmentFiles([attachment]);
+        } catch (error) {
+          fastify.log.error('Error removing attachment files:', error);
+        }
+
+        return { message: 'Attachment deleted successfully' };
+      } catch (error) {
+        fastify.log.error('Error deleting attachment:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete attachment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /attachments/:attachmentId/content - Download a file with a signed link
+  fastify.get<{ Params: ContentParams; Querystring: ContentQuery }>(
+    '/attachments/:attachmentId/content',
+    {
+      schema: {
+        tags: ['attachments'],
+        summary: 'Download an attachment',
+        description:
+          'Download an attachment or its thumbnail. No Authorization header is needed: the ' +
+          'token comes from the signed link returned when listing attachments and expires ' +
+          'after a few minutes.',
+        params: {
+          type: 'object',
+          properties: {
+            attachmentId: { type: 'string', description: 'Attachment ID' },
+          },
+          required: ['attachmentId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'Signed download token' },
+          },
+          required: ['token'],
+        },
+        response: {
+          401: {
+            description: 'Invalid or expired link',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Attachment not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const attachmentId = parseInt(request.params.attachmentId, 10);
+        const payload = verifyAttachmentDownloadToken(request.query.token);
+
+        if (!payload || payload.attachmentId !== attachmentId) {
+          return reply.code(401).send({
+            message: 'Invalid or expired download link',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        const attachment = await getAttachmentById(attachmentId);
+        const key =
+          payload.variant === 'thumbnail' ? attachment?.thumbnailKey : attachment?.storageKey;
+        const data = attachment && key ? await getStorageDriver().get(key) : null;
+
+        if (!attachment || !data) {
+          return reply.code(404).send({
+            message: 'Attachment not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // Thumbnails are always JPEG, whatever the original was
+        return reply
+          .header(
+            'Content-Type',
+            payload.variant === 'thumbnail' ? 'image/jpeg' : attachment.mimeType
+          )
+          .header('Content-Disposition', getContentDisposition(attachment.fileName))
+          .header('X-Content-Type-Options', 'nosniff')
+          .header('Cache-Control', 'private, max-age=300')
+          .send(data);
+      } catch (error) {
+        fastify.log.error('Error downloading attachment:', error);
+        return reply.code(500).send({
+          message: 'Failed to download attachment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default attachmentsRoute;
@@ -1,5 +1,5 @@
 import { FastifyPluginAsync } from 'fastify';
-import { authenticate, authHeaderSchema } from '../utils/middleware.js';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
 import {
   getUserCategories,
   getCategoryById,
@@ -42,7 +42,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/categories',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('categories:read')],
       schema: {
         tags: ['categories'],
         summary: "List user's available categories",
@@ -178,7 +178,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: CategoryParams }>(
     '/categories/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('categories:read')],
       schema: {
         tags: ['categories'],
         summary: 'Get category by ID',
@@ -274,7 +274,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.post<{ Body: CreateCategoryBody }>(
     '/categories',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('categories:write')],
       schema: {
         tags: ['categories'],
         summary: 'Create a custom category',
@@ -356,7 +356,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.put<{ Params: CategoryParams; Body: UpdateCategoryBody }>(
     '/categories/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('categories:write')],
       schema: {
         tags: ['categories'],
         summary: 'Update a custom category',
@@ -477,7 +477,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.delete<{ Params: CategoryParams }>(
     '/categories/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('categories:write')],
       schema: {
         tags: ['categories'],
         summary: 'Delete a custom category',
@@ -583,11 +583,13 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Querystring: CategoryAnalyticsQuery }>(
     '/categories/analytics/spending',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:read')],
       schema: {
         tags: ['categories', 'analytics'],
         summary: 'Get category spending analytics',
-        description: 'Get spending breakdown by category with percentages',
+        description:
+          'Get spending breakdown by category with percentages, per currency. The limit ' +
+          'applies to each currency.',
         headers: authHeaderSchema,
         querystring: {
           type: 'object',
@@ -605,7 +607,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
             limit: {
               type: 'string',
               pattern: '^[0-9]+$',
-              description: 'Maximum number of categories to return',
+              description: 'Maximum number of categories to return per currency',
             },
           },
         },
@@ -620,6 +622,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
                 categoryName: { type: 'string' },
                 categoryIcon: { type: 'string' },
                 categoryColor: { type: 'string' },
+                currency: { type: 'string', description: 'Currency of the amounts' },
                 totalAmount: { type: 'number' },
                 expenseCount: { type: 'integer' },
                 averageAmount: { type: 'number' },
@@ -668,11 +671,11 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Querystring: CategoryAnalyticsQuery }>(
     '/categories/analytics/top-spending',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:read')],
       schema: {
         tags: ['categories', 'analytics'],
         summary: 'Get top spending categories',
-        description: 'Get the categories with the highest spending',
+        description: 'Get the categories with the highest spending in each currency',
         headers: authHeaderSchema,
         querystring: {
           type: 'object',
@@ -690,7 +693,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
             limit: {
               type: 'string',
               pattern: '^[0-9]+$',
-              description: 'Maximum number of categories to return',
+              description: 'Maximum number of categories to return per currency',
             },
           },
         },
@@ -705,6 +708,7 @@ const categoriesRoute: FastifyPluginAsync = async fastify => {
                 categoryName: { type: 'string' },
                 categoryIcon: { type: 'string' },
                 categoryColor: { type: 'string' },
+                currency: { type: 'string', description: 'Currency of the amounts' },
                 totalAmount: { type: 'number' },
                 expenseCount: { type: 'integer' },
                 averageAmount: { type: 'number' },
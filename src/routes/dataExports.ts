@@ -0,0 +1,288 @@
+import { FastifyPluginAsync } from 'fastify';
+import {
+  getDataExport,
+  getDataExportArchive,
+  processDataExport,
+  requestDataExport,
+} from '../repositories/dataExportRepo.js';
+import { authenticate, authHeaderSchema, requireUserSession } from '../utils/middleware.js';
+
+interface DataExportParams {
+  id: string;
+}
+
+const dataExportsRoute: FastifyPluginAsync = async fastify => {
+  // POST /users/me/export - Start a full account data export
+  fastify.post(
+    '/users/me/export',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Export account data',
+        description:
+          'Start a background export of everything tied to the account: profile, expenses, ' +
+          'splits, groups, memberships, friend requests, friendships, custom categories and ' +
+          'recurring expenses. Poll the status endpoint and download the JSON archive once it ' +
+          'is completed. ' +
+          'If an export is already running, that export is returned instead.',
+        headers: authHeaderSchema,
+        response: {
+          202: {
+            description: 'Export queued or already running',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              dataExport: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  status: {
+                    type: 'string',
+                    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
+                  },
+                  sizeBytes: { type: 'integer', nullable: true },
+                  error: { type: 'string', nullable: true },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  startedAt: { type: 'string', format: 'date-time', nullable: true },
+                  completedAt: { type: 'string', format: 'date-time', nullable: true },
+                  expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { dataExport, created } = await requestDataExport(request.user!.id);
+
+        if (created) {
+          // Generate outside the request so large accounts don't hit request timeouts
+          setImmediate(() => {
+            processDataExport(dataExport.id).catch(error => {
+              fastify.log.error('Error processing data export:', error);
+            });
+          });
+        }
+
+        return reply.code(202).send({
+          message: created ? 'Data export started' : 'A data export is already in progress',
+          dataExport,
+        });
+      } catch (error) {
+        fastify.log.error('Error starting data export:', error);
+        return reply.code(500).send({
+          message: 'Failed to start data export',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /users/me/export/:id - Get data export status
+  fastify.get<{ Params: DataExportParams }>(
+    '/users/me/export/:id',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Get data export status',
+        description: 'Check the progress of an account data export',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Data export ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Data export retrieved successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              status: { type: 'string', enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] },
+              sizeBytes: { type: 'integer', nullable: true },
+              error: { type: 'string', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              startedAt: { type: 'string', format: 'date-time', nullable: true },
+              completedAt: { type: 'string', format: 'date-time', nullable: true },
+              expiresAt: { type: 'string', format: 'date-time', nullable: true },
+            },
+          },
+          400: {
+            description: 'Invalid data export ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Data export not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid data export ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const dataExport = await getDataExport(request.user!.id, id);
+
+        if (!dataExport) {
+          return reply.code(404).send({
+            message: 'Data export not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        return dataExport;
+      } catch (error) {
+        fastify.log.error('Error fetching data export:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch data export',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /users/me/export/:id/download - Download a completed data export
+  fastify.get<{ Params: DataExportParams }>(
+    '/users/me/export/:id/download',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Download data export',
+        description:
+          'Download the JSON archive of a completed export. The archive layout is described ' +
+          'in docs/DATA_EXPORT.md.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Data export ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          400: {
+            description: 'Invalid data export ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Data export not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Data export is not ready yet',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          410: {
+            description: 'Data export has expired',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid data export ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const archive = await getDataExportArchive(request.user!.id, id);
+
+        // The archive is already serialized JSON, so it is sent as-is
+        return reply
+          .header('Content-Type', 'application/json; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="account-export-${id}.json"`)
+          .send(archive);
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes('not found')) {
+            return reply.code(404).send({
+              message: 'Data export not found',
+              error: 'Not Found',
+              statusCode: 404,
+            });
+          }
+
+          if (error.message.includes('not ready')) {
+            return reply.code(409).send({
+              message: error.message,
+              error: 'Conflict',
+              statusCode: 409,
+            });
+          }
+
+          if (error.message.includes('expired')) {
+            return reply.code(410).send({
+              message: error.message,
+              error: 'Gone',
+              statusCode: 410,
+            });
+          }
+        }
+
+        fastify.log.error('Error downloading data export:', error);
+        return reply.code(500).send({
+          message: 'Failed to download data export',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default dataExportsRoute;
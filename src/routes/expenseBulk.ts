@@ -0,0 +1,339 @@
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { areGroupMembers, isGroupMember } from '../repositories/groupRepo.js';
+import {
+  applyBulkExpenseOperations,
+  BULK_MAX_OPERATIONS,
+  BulkExpenseOperation,
+  canManageExpense,
+  getExpenseById,
+} from '../repositories/expenseRepo.js';
+import { canUseTags } from '../repositories/tagRepo.js';
+
+type BulkAction = 'create' | 'update' | 'delete';
+
+interface BulkOperationBody {
+  action: BulkAction;
+  id?: number; // Expense to update or delete
+  title?: string;
+  description?: string;
+  amount?: number;
+  currency?: string;
+  paidAt?: string;
+  groupId?: number | null;
+  categoryId?: number | null;
+  tagIds?: number[];
+}
+
+interface BulkExpensesBody {
+  mode?: 'atomic' | 'bestEffort';
+  operations: BulkOperationBody[];
+}
+
+interface BulkResultBody {
+  index: number;
+  action: BulkAction;
+  status: 'succeeded' | 'failed' | 'skipped';
+  id?: number;
+  error?: string;
+}
+
+const resultsSchema = {
+  type: 'array',
+  description: 'One result per operation, in request order',
+  items: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer' },
+      action: { type: 'string' },
+      status: { type: 'string', enum: ['succeeded', 'failed', 'skipped'] },
+      id: { type: 'integer', description: 'Expense created or changed' },
+      error: { type: 'string' },
+    },
+  },
+};
+
+/**
+ * Check that the user may carry out an operation and turn it into a repository operation.
+ * Reads happen up front, so an operation can't depend on an earlier one in the same request.
+ */
+async function checkBulkOperation(
+  item: BulkOperationBody,
+  userId: number
+): Promise<{ operation: BulkExpenseOperation } | { error: string }> {
+  if (item.action === 'create') {
+    if (item.title === undefined || item.amount === undefined) {
+      return { error: 'title and amount are required to create an expense' };
+    }
+
+    const groupId = item.groupId ?? undefined;
+    if (groupId && !(await isGroupMember(groupId, userId))) {
+      return { error: 'You are not a member of this group' };
+    }
+    if (item.tagIds && !(await canUseTags(item.tagIds, groupId ? { groupId } : { userId }))) {
+      return { error: "Tags must be your own, or for group expenses the group's" };
+    }
+
+    return {
+      operation: {
+        action: 'create',
+        data: {
+          title: item.title,
+          description: item.description,
+          amount: item.amount,
+          currency: item.currency,
+          userId,
+          createdById: userId,
+          groupId,
+          categoryId: item.categoryId ?? undefined,
+          paidAt: item.paidAt ? new Date(item.paidAt) : undefined,
+          tagIds: item.tagIds,
+        },
+      },
+    };
+  }
+
+  if (item.id === undefined) {
+    return { error: 'id is required to update or delete an expense' };
+  }
+
+  const expense = await getExpenseById(item.id);
+  if (!expense || !canManageExpense(expense, userId)) {
+    return { error: 'Expense not found' };
+  }
+
+  if (item.action === 'delete') {
+    return { operation: { action: 'delete', id: item.id } };
+  }
+
+  const { title, description, amount, currency, paidAt } = item;
+  if ([title, description, amount, currency, paidAt].some(field => field !== undefined)) {
+    return { error: 'Bulk updates can only change categoryId, groupId and tagIds' };
+  }
+
+  const movesGroup = item.groupId !== undefined && item.groupId !== expense.groupId;
+  const groupId = item.groupId !== undefined ? item.groupId : expense.groupId;
+
+  if (movesGroup && groupId) {
+    if (!(await isGroupMember(groupId, userId))) {
+      return { error: 'You are not a member of this group' };
+    }
+
+    const people = [
+      expense.userId,
+      ...expense.payers.map(payer => payer.userId),
+      ...expense.splits.map(split => split.userId),
+    ];
+    if (!(await areGroupMembers(groupId, people))) {
+      return { error: 'Everyone on the expense must be a member of the group' };
+    }
+  } else if (movesGroup && expense.userId !== userId) {
+    return { error: 'Only the payer can make a group expense personal' };
+  }
+
+  if (
+    item.tagIds &&
+    !(await canUseTags(item.tagIds, groupId ? { groupId } : { userId: expense.userId }))
+  ) {
+    return { error: "Tags must be your own, or for group expenses the group's" };
+  }
+
+  return {
+    operation: {
+      action: 'update',
+      id: item.id,
+      data: {
+        categoryId: item.categoryId,
+        groupId: item.groupId,
+        // Tags belong to the group or the payer, so they don't move along with the expense
+        tagIds: item.tagIds ?? (movesGroup ? [] : undefined),
+      },
+    },
+  };
+}
+
+const expenseBulkRoute: FastifyPluginAsync = async fastify => {
+  // Problems found by the repository are unexpected here: log them and report them generically
+  const failureMessage = (action: BulkAction, error: unknown) => {
+    fastify.log.error(`Error in bulk ${action} of expense:`, error);
+    return `Failed to ${action} expense`;
+  };
+
+  // POST /expenses/bulk - Create, update and delete many expenses at once
+  fastify.post<{ Body: BulkExpensesBody }>(
+    '/expenses/bulk',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Bulk expense operations',
+        description:
+          'Create, update (category, group and tags) and delete many expenses in one request. ' +
+          'In atomic mode all operations are applied in a single transaction, or none of them ' +
+          'if any fails. In bestEffort mode each operation stands on its own. Either way every ' +
+          'operation gets a result; moving an expense to another group clears its tags unless ' +
+          'tagIds are given.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            mode: {
+              type: 'string',
+              enum: ['atomic', 'bestEffort'],
+              default: 'atomic',
+              description: 'All-or-nothing (atomic) or apply whatever succeeds (bestEffort)',
+            },
+            operations: {
+              type: 'array',
+              minItems: 1,
+              maxItems: BULK_MAX_OPERATIONS,
+              items: {
+                type: 'object',
+                properties: {
+                  action: { type: 'string', enum: ['create', 'update', 'delete'] },
+                  id: { type: 'integer', description: 'Expense to update or delete' },
+                  title: { type: 'string', description: 'Expense title (create)' },
+                  description: { type: 'string', description: 'Expense description (create)' },
+                  amount: { type: 'number', description: 'Expense amount (create)' },
+                  currency: {
+                    type: 'string',
+                    pattern: '^[A-Z]{3}$',
+                    description: 'ISO 4217 currency code (create)',
+                  },
+                  paidAt: {
+                    type: 'string',
+                    format: 'date-time',
+                    pattern: '([Zz]|[+-]\\d{2}:\\d{2})$',
+                    description: 'When it was paid, with a timezone offset (create)',
+                  },
+                  groupId: {
+                    type: 'integer',
+                    nullable: true,
+                    description: 'Group of the expense; null makes an updated expense personal',
+                  },
+                  categoryId: {
+                    type: 'integer',
+                    nullable: true,
+                    description: 'Category; null removes it from an updated expense',
+                  },
+                  tagIds: {
+                    type: 'array',
+                    items: { type: 'integer' },
+                    description: 'Tags (replaces the tags of an updated expense)',
+                  },
+                },
+                required: ['action'],
+              },
+            },
+          },
+          required: ['operations'],
+        },
+        response: {
+          200: {
+            description: 'Operations applied; see each result',
+            type: 'object',
+            properties: {
+              mode: { type: 'string' },
+              succeeded: { type: 'integer' },
+              failed: { type: 'integer' },
+              skipped: { type: 'integer' },
+              results: resultsSchema,
+            },
+          },
+          400: {
+            description: 'Validation error, or an atomic request failed and nothing was changed',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+              results: resultsSchema,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { mode = 'atomic', operations } = request.body;
+        const userId = request.user!.id;
+        const atomic = mode === 'atomic';
+
+        const results: BulkResultBody[] = operations.map((item, index) => ({
+          index,
+          action: item.action,
+          status: 'skipped',
+        }));
+
+        const planned: Array<{ index: number; operation: BulkExpenseOperation }> = [];
+        const seenIds = new Set<number>();
+        for (const [index, item] of operations.entries()) {
+          const checked =
+            item.id !== undefined && seenIds.has(item.id)
+              ? { error: 'The expense appears more than once in the request' }
+              : await checkBulkOperation(item, userId);
+
+          if (item.id !== undefined) {
+            seenIds.add(item.id);
+          }
+
+          if ('error' in checked) {
+            results[index] = { ...results[index], status: 'failed', error: checked.error };
+          } else {
+            planned.push({ index, operation: checked.operation });
+          }
+        }
+
+        // An atomic request with a rejected operation doesn't touch the database at all
+        if (!atomic || results.every(result => result.status !== 'failed')) {
+          const outcomes = await applyBulkExpenseOperations(
+            planned.map(({ operation }) => operation),
+            userId,
+            atomic
+          );
+
+          outcomes.forEach((outcome, position) => {
+            const { index } = planned[position];
+            results[index] = {
+              ...results[index],
+              status: outcome.status,
+              id: outcome.id,
+              ...(outcome.status === 'failed' && {
+                error: failureMessage(results[index].action, outcome.error),
+              }),
+            };
+          });
+        }
+
+        const count = (status: BulkResultBody['status']) =>
+          results.filter(result => result.status === status).length;
+
+        if (atomic && count('failed') > 0) {
+          return reply.code(400).send({
+            message: 'An operation failed, so no changes were made',
+            error: 'Bad Request',
+            statusCode: 400,
+            results,
+          });
+        }
+
+        return {
+          mode,
+          succeeded: count('succeeded'),
+          failed: count('failed'),
+          skipped: count('skipped'),
+          results,
+        };
+      } catch (error) {
+        fastify.log.error('Error applying bulk expense operations:', error);
+        return reply.code(500).send({
+          message: 'Failed to apply bulk expense operations',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default expenseBulkRoute;
@@ -0,0 +1,566 @@
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { canManageExpense, getExpense } from '../repositories/expenseRepo.js';
+import {
+  canAccessExpenseComments,
+  createExpenseComment,
+  deleteExpenseComment,
+  ExpenseCommentWithDetails,
+  getExpenseCommentById,
+  getExpenseComments,
+  updateExpenseComment,
+} from '../repositories/expenseCommentRepo.js';
+
+interface ExpenseParams {
+  id: string;
+}
+
+interface CommentParams {
+  id: string;
+  commentId: string;
+}
+
+interface CommentsQuery {
+  limit?: number;
+  offset?: number;
+}
+
+interface CommentBody {
+  body: string;
+}
+
+// Mentions are returned as the users they resolved to
+function toCommentResponse(comment: ExpenseCommentWithDetails) {
+  return { ...comment, mentions: comment.mentions.map(({ user }) => user) };
+}
+
+const expenseCommentsRoute: FastifyPluginAsync = async fastify => {
+  // GET /expenses/:id/comments - List an expense's comments
+  fastify.get<{ Params: ExpenseParams; Querystring: CommentsQuery }>(
+    '/expenses/:id/comments',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'List expense comments',
+        description:
+          "List the discussion thread of an expense, oldest first. Open to the expense's owner, " +
+          'payers and split participants, and for group expenses to all group members.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Number of results' },
+            offset: { type: 'integer', minimum: 0, description: 'Offset for pagination' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Comments retrieved successfully',
+            type: 'object',
+            properties: {
+              comments: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    body: { type: 'string' },
+                    editedAt: { type: 'string', format: 'date-time', nullable: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    user: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                        username: { type: 'string', nullable: true },
+                        avatar: { type: 'string', nullable: true },
+                      },
+                    },
+                    mentions: {
+                      type: 'array',
+                      description: 'Participants the @username mentions resolved to',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'integer' },
+                          name: { type: 'string' },
+                          username: { type: 'string', nullable: true },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              total: { type: 'integer' },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not part of the expense',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const { limit = 50, offset = 0 } = request.query;
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpense(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (!(await canAccessExpenseComments(expense, request.user!.id))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not part of this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const page = await getExpenseComments(expenseId, limit, offset);
+
+        return { comments: page.comments.map(toCommentResponse), total: page.total };
+      } catch (error) {
+        fastify.log.error('Error fetching expense comments:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch expense comments',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /expenses/:id/comments - Comment on an expense
+  fastify.post<{ Params: ExpenseParams; Body: CommentBody }>(
+    '/expenses/:id/comments',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Comment on an expense',
+        description:
+          'Add a comment to the discussion thread of an expense. @username mentions resolve to ' +
+          'the users with that username who take part in the expense; other mentions stay plain text.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          required: ['body'],
+          properties: {
+            body: { type: 'string', minLength: 1, maxLength: 2000 },
+          },
+        },
+        response: {
+          201: {
+            description: 'Comment created successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              body: { type: 'string' },
+              editedAt: { type: 'string', format: 'date-time', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              user: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  name: { type: 'string' },
+                  username: { type: 'string', nullable: true },
+                  avatar: { type: 'string', nullable: true },
+                },
+              },
+              mentions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    username: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID or empty comment',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not part of the expense',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const body = request.body.body.trim();
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (!body) {
+          return reply.code(400).send({
+            message: 'Comment cannot be empty',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpense(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (!(await canAccessExpenseComments(expense, request.user!.id))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not part of this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const comment = await createExpenseComment({
+          expenseId,
+          userId: request.user!.id,
+          body,
+        });
+
+        return reply.code(201).send(toCommentResponse(comment));
+      } catch (error) {
+        fastify.log.error('Error creating expense comment:', error);
+        return reply.code(500).send({
+          message: 'Failed to create comment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /expenses/:id/comments/:commentId - Edit a comment
+  fastify.put<{ Params: CommentParams; Body: CommentBody }>(
+    '/expenses/:id/comments/:commentId',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Edit a comment',
+        description:
+          'Change the text of your own comment. Its mentions are resolved again and it is ' +
+          'marked as edited.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+            commentId: { type: 'string', description: 'Comment ID' },
+          },
+          required: ['id', 'commentId'],
+        },
+        body: {
+          type: 'object',
+          required: ['body'],
+          properties: {
+            body: { type: 'string', minLength: 1, maxLength: 2000 },
+          },
+        },
+        response: {
+          200: {
+            description: 'Comment updated successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              body: { type: 'string' },
+              editedAt: { type: 'string', format: 'date-time', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              user: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  name: { type: 'string' },
+                  username: { type: 'string', nullable: true },
+                  avatar: { type: 'string', nullable: true },
+                },
+              },
+              mentions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    username: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid ID or empty comment',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not the author of the comment',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense or comment not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const commentId = parseInt(request.params.commentId, 10);
+        const body = request.body.body.trim();
+
+        if (isNaN(expenseId) || isNaN(commentId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense or comment ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (!body) {
+          return reply.code(400).send({
+            message: 'Comment cannot be empty',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpense(expenseId);
+        const comment = await getExpenseCommentById(commentId);
+        if (!expense || !comment || comment.expenseId !== expenseId) {
+          return reply.code(404).send({
+            message: 'Comment not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (comment.userId !== request.user!.id) {
+          return reply.code(403).send({
+            message: 'Access denied. You can only edit your own comments.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        return toCommentResponse(await updateExpenseComment(commentId, body));
+      } catch (error) {
+        fastify.log.error('Error updating expense comment:', error);
+        return reply.code(500).send({
+          message: 'Failed to update comment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /expenses/:id/comments/:commentId - Delete a comment
+  fastify.delete<{ Params: CommentParams }>(
+    '/expenses/:id/comments/:commentId',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Delete a comment',
+        description: "Delete a comment (only by its author or the expense's owner)",
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+            commentId: { type: 'string', description: 'Comment ID' },
+          },
+          required: ['id', 'commentId'],
+        },
+        response: {
+          200: {
+            description: 'Comment deleted successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid expense or comment ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: "Neither the comment's author nor the expense's owner",
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense or comment not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const commentId = parseInt(request.params.commentId, 10);
+
+        if (isNaN(expenseId) || isNaN(commentId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense or comment ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpense(expenseId);
+        const comment = await getExpenseCommentById(commentId);
+        if (!expense || !comment || comment.expenseId !== expenseId) {
+          return reply.code(404).send({
+            message: 'Comment not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const userId = request.user!.id;
+        if (comment.userId !== userId && !canManageExpense(expense, userId)) {
+          return reply.code(403).send({
+            message:
+              "Access denied. Only the comment's author or the expense's owner can delete it.",
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        await deleteExpenseComment(commentId);
+
+        return { message: 'Comment deleted successfully' };
+      } catch (error) {
+        fastify.log.error('Error deleting expense comment:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete comment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default expenseCommentsRoute;
@@ -0,0 +1,120 @@
+import { Readable } from 'node:stream';
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import {
+  EXPORT_FORMATS,
+  ExportAmount,
+  ExportFormat,
+  exportExpenses,
+} from '../utils/expenseExport.js';
+import { isGroupMember } from '../repositories/groupRepo.js';
+import { ExpenseFilters } from '../repositories/expenseRepo.js';
+
+interface ExportQuery {
+  format: ExportFormat;
+  amount?: ExportAmount;
+  groupId?: number;
+  categoryId?: number;
+  tagIds?: number[];
+  title?: string;
+  description?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  fromDate?: string;
+  toDate?: string;
+  isPaid?: boolean;
+}
+
+const expenseExportsRoute: FastifyPluginAsync = async fastify => {
+  // GET /expenses/export - Download expenses as CSV, OFX, QIF or JSON
+  fastify.get<{ Querystring: ExportQuery }>(
+    '/expenses/export',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Export expenses',
+        description:
+          'Download expenses, oldest first, as CSV, OFX, QIF or JSON. Takes the same filters as ' +
+          'expense search: without groupId it exports the expenses you paid or recorded, with ' +
+          "groupId all of that group's expenses. amount=share exports only your part of each " +
+          'expense (your splits, or the whole amount of unsplit expenses you paid), and without ' +
+          'groupId also includes expenses others paid that you have a split in. CSV and JSON ' +
+          'include category, group, tag, payer and split share details. OFX and QIF hold a single ' +
+          'currency, so expenses in other currencies are exported as recorded and noted in the memo.',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          required: ['format'],
+          properties: {
+            format: { type: 'string', enum: Object.keys(EXPORT_FORMATS) },
+            amount: { type: 'string', enum: ['full', 'share'], default: 'full' },
+            groupId: { type: 'integer', description: 'Export this group only' },
+            categoryId: { type: 'integer' },
+            tagIds: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'Only expenses with all of these tags (repeat the parameter)',
+            },
+            title: { type: 'string', description: 'Title contains (case-insensitive)' },
+            description: { type: 'string', description: 'Description contains (case-insensitive)' },
+            minAmount: { type: 'number', minimum: 0 },
+            maxAmount: { type: 'number', minimum: 0 },
+            fromDate: { type: 'string', format: 'date', description: 'Paid on or after' },
+            toDate: { type: 'string', format: 'date', description: 'Paid on or before' },
+            isPaid: { type: 'boolean', description: 'Has a split with this payment status' },
+          },
+        },
+        response: {
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { format, amount = 'full', groupId, fromDate, toDate, ...search } = request.query;
+        const userId = request.user!.id;
+
+        if (groupId && !(await isGroupMember(groupId, userId))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const filters: ExpenseFilters = {
+          ...search,
+          ...(groupId ? { groupId } : { userId, withSplits: amount === 'share' }),
+          fromDate: fromDate ? new Date(`${fromDate}T00:00:00.000Z`) : undefined,
+          toDate: toDate ? new Date(`${toDate}T23:59:59.999Z`) : undefined,
+        };
+
+        const fileName = `expenses-${new Date().toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+
+        return reply
+          .header('Content-Type', EXPORT_FORMATS[format].contentType)
+          .header('Content-Disposition', `attachment; filename="${fileName}"`)
+          .header('Cache-Control', 'no-store')
+          .send(Readable.from(exportExpenses(filters, { format, amount, userId })));
+      } catch (error) {
+        fastify.log.error('Error exporting expenses:', error);
+        return reply.code(500).send({
+          message: 'Failed to export expenses',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default expenseExportsRoute;
@@ -0,0 +1,324 @@
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { isGroupMember } from '../repositories/groupRepo.js';
+import { canManageExpense, getExpense } from '../repositories/expenseRepo.js';
+import {
+  getExpenseRevision,
+  getExpenseRevisions,
+  revertExpenseToRevision,
+} from '../repositories/expenseRevisionRepo.js';
+
+interface ExpenseParams {
+  id: string;
+}
+
+interface RevisionParams {
+  id: string;
+  revisionId: string;
+}
+
+const expenseHistoryRoute: FastifyPluginAsync = async fastify => {
+  // GET /expenses/:id/history - Get an expense's revisions
+  fastify.get<{ Params: ExpenseParams }>(
+    '/expenses/:id/history',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Get expense history',
+        description:
+          'List every change made to an expense and its splits, newest first, with who made it ' +
+          'and the fields it changed. Payers and splits are compared per person.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'History retrieved successfully',
+            type: 'object',
+            properties: {
+              revisions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    action: {
+                      type: 'string',
+                      enum: [
+                        'CREATED',
+                        'UPDATED',
+                        'SPLITS_UPDATED',
+                        'DELETED',
+                        'RESTORED',
+                        'REVERTED',
+                      ],
+                    },
+                    actor: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                      },
+                    },
+                    changes: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          field: {
+                            type: 'string',
+                            description:
+                              'Expense field, or payers.<userId> and splits.<userId> for one person',
+                          },
+                          from: { description: 'Value before the change; null when it was added' },
+                          to: { description: 'Value after the change; null when it was removed' },
+                        },
+                      },
+                    },
+                    revertedToId: { type: 'integer', nullable: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpense(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // For group expenses, user must be a group member; otherwise only the payer or creator
+        const hasAccess = expense.groupId
+          ? await isGroupMember(expense.groupId, request.user!.id)
+          : canManageExpense(expense, request.user!.id);
+        if (!hasAccess) {
+          return reply.code(403).send({
+            message: 'Access denied. You cannot view the history of this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        return { revisions: await getExpenseRevisions(expenseId) };
+      } catch (error) {
+        fastify.log.error('Error fetching expense history:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch expense history',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /expenses/:id/history/:revisionId/revert - Revert an expense to an earlier revision
+  fastify.post<{ Params: RevisionParams }>(
+    '/expenses/:id/history/:revisionId/revert',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Revert an expense to a revision',
+        description:
+          'Restore the fields, group, payers, tags and splits an expense had at one of its ' +
+          'revisions (only accessible by the payer or whoever recorded it). Balances follow the ' +
+          'restored splits. The revert is recorded as a new revision. Splits cannot be replaced ' +
+          'once any of them has been paid, and itemized expenses cannot be reverted. Only the ' +
+          'payer can make a group expense personal again.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+            revisionId: { type: 'string', description: 'Revision to revert to' },
+          },
+          required: ['id', 'revisionId'],
+        },
+        response: {
+          200: {
+            description: 'Expense reverted successfully; the new revision',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              action: { type: 'string' },
+              actor: {
+                type: 'object',
+                nullable: true,
+                properties: {
+                  id: { type: 'integer' },
+                  name: { type: 'string' },
+                },
+              },
+              changes: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string' },
+                    from: { description: 'Value before the revert' },
+                    to: { description: 'Value after the revert' },
+                  },
+                },
+              },
+              revertedToId: { type: 'integer' },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid expense or revision ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Only the payer can revert a group expense to a personal one',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense or revision not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description:
+              "The expense is itemized, has paid splits or its people left the revision's group",
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const revisionId = parseInt(request.params.revisionId, 10);
+
+        if (isNaN(expenseId) || isNaN(revisionId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense or revision ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpense(expenseId);
+        if (!expense || !canManageExpense(expense, request.user!.id)) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (!(await getExpenseRevision(expenseId, revisionId))) {
+          return reply.code(404).send({
+            message: 'Revision not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        return await revertExpenseToRevision(expenseId, revisionId, request.user!.id);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Only the payer')) {
+          return reply.code(403).send({
+            message: error.message,
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        if (
+          error instanceof Error &&
+          (error.message.includes('paid splits') ||
+            error.message.startsWith('Itemized') ||
+            error.message.includes('no longer be reverted'))
+        ) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        fastify.log.error('Error reverting expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to revert expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default expenseHistoryRoute;
@@ -0,0 +1,499 @@
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { ItemizationAdjustment, ItemizationItem } from '../utils/itemization.js';
+import { areGroupMembers, isGroupMember } from '../repositories/groupRepo.js';
+import { canManageExpense, getExpenseById } from '../repositories/expenseRepo.js';
+import {
+  clearExpenseItems,
+  getExpenseItemization,
+  setExpenseItems,
+} from '../repositories/expenseItemRepo.js';
+
+interface ExpenseParams {
+  id: string;
+}
+
+interface SetExpenseItemsBody {
+  items: ItemizationItem[];
+  adjustments?: ItemizationAdjustment[];
+}
+
+const expenseItemsRoute: FastifyPluginAsync = async fastify => {
+  // GET /expenses/:id/items - Get an expense's line items and adjustments
+  fastify.get<{ Params: ExpenseParams }>(
+    '/expenses/:id/items',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['expense-splits'],
+        summary: 'Get expense items',
+        description:
+          'Get the line items and tax, tip, service charge and discount adjustments of an ' +
+          'itemized expense. Both lists are empty for expenses that are not itemized.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Items retrieved successfully',
+            type: 'object',
+            properties: {
+              items: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    amount: { type: 'string' },
+                    assigneeIds: { type: 'array', items: { type: 'integer' } },
+                  },
+                },
+              },
+              adjustments: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    type: { type: 'string' },
+                    amount: { type: 'string' },
+                    description: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpenseById(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // For group expenses, user must be a group member; otherwise only the payer or creator
+        const hasAccess = expense.groupId
+          ? await isGroupMember(expense.groupId, request.user!.id)
+          : canManageExpense(expense, request.user!.id);
+        if (!hasAccess) {
+          return reply.code(403).send({
+            message: 'Access denied. You cannot view the items of this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        return await getExpenseItemization(expenseId);
+      } catch (error) {
+        fastify.log.error('Error fetching expense items:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch expense items',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /expenses/:id/items - Itemize an expense and generate its splits
+  fastify.put<{ Params: ExpenseParams; Body: SetExpenseItemsBody }>(
+    '/expenses/:id/items',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expense-splits'],
+        summary: 'Itemize an expense',
+        description:
+          'Replace the line items and adjustments of an expense and regenerate its splits as ' +
+          'ITEMIZED splits. Each item is shared equally by its assignees; tax, tip, service ' +
+          "charges and discounts are distributed in proportion to each participant's item " +
+          'subtotal, and shares are rounded to cents so they add up to the expense amount. ' +
+          'Items plus charges minus discounts must equal the expense amount. Existing splits ' +
+          'are replaced, which is refused once any of them has been paid.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', minLength: 1, maxLength: 200 },
+                  amount: { type: 'number', exclusiveMinimum: 0, description: 'Line total' },
+                  assigneeIds: {
+                    type: 'array',
+                    minItems: 1,
+                    items: { type: 'integer' },
+                    description: 'Users sharing the item equally',
+                  },
+                },
+                required: ['name', 'amount', 'assigneeIds'],
+              },
+            },
+            adjustments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['TAX', 'TIP', 'SERVICE_CHARGE', 'DISCOUNT'] },
+                  amount: {
+                    type: 'number',
+                    exclusiveMinimum: 0,
+                    description: 'Positive amount; discounts are subtracted',
+                  },
+                  description: { type: 'string', maxLength: 200 },
+                },
+                required: ['type', 'amount'],
+              },
+            },
+          },
+          required: ['items'],
+        },
+        response: {
+          200: {
+            description: 'Expense itemized successfully',
+            type: 'object',
+            properties: {
+              items: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    amount: { type: 'string' },
+                    assigneeIds: { type: 'array', items: { type: 'integer' } },
+                  },
+                },
+              },
+              adjustments: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    type: { type: 'string' },
+                    amount: { type: 'string' },
+                    description: { type: 'string', nullable: true },
+                  },
+                },
+              },
+              splits: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    userId: { type: 'integer' },
+                    amount: { type: 'string' },
+                    splitType: { type: 'string' },
+                    isPaid: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid items',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Expense has paid splits',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+        const { items, adjustments } = request.body;
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpenseById(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (expense.groupId) {
+          // For group expenses, the user and everyone sharing an item must be group members
+          const isMember = await isGroupMember(expense.groupId, request.user!.id);
+          if (!isMember) {
+            return reply.code(403).send({
+              message: 'Access denied. You are not a member of this group.',
+              error: 'Forbidden',
+              statusCode: 403,
+            });
+          }
+
+          const assigneeIds = items.flatMap(item => item.assigneeIds);
+          if (!(await areGroupMembers(expense.groupId, assigneeIds))) {
+            return reply.code(400).send({
+              message: 'All item assignees must be members of the group',
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+        } else if (!canManageExpense(expense, request.user!.id)) {
+          // For personal expenses, only the payer or creator can itemize
+          return reply.code(403).send({
+            message: 'Access denied. You can only itemize your own expenses.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        return await setExpenseItems(expenseId, { items, adjustments }, request.user!.id);
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes('paid splits')) {
+            return reply.code(409).send({
+              message: error.message,
+              error: 'Conflict',
+              statusCode: 409,
+            });
+          }
+
+          if (
+            error.message.includes('must equal expense amount') ||
+            error.message.includes('Item "') ||
+            error.message.includes('must be positive') ||
+            error.message.includes('cannot exceed')
+          ) {
+            return reply.code(400).send({
+              message: error.message,
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+        }
+
+        fastify.log.error('Error itemizing expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to itemize expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /expenses/:id/items - Remove an expense's itemization
+  fastify.delete<{ Params: ExpenseParams }>(
+    '/expenses/:id/items',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expense-splits'],
+        summary: 'Remove expense items',
+        description:
+          'Remove the line items and adjustments of an expense together with the ITEMIZED ' +
+          'splits generated from them',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Items removed successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Access denied',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Expense has paid splits',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const expenseId = parseInt(request.params.id, 10);
+
+        if (isNaN(expenseId)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const expense = await getExpenseById(expenseId);
+        if (!expense) {
+          return reply.code(404).send({
+            message: 'Expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const hasAccess = expense.groupId
+          ? await isGroupMember(expense.groupId, request.user!.id)
+          : canManageExpense(expense, request.user!.id);
+        if (!hasAccess) {
+          return reply.code(403).send({
+            message: 'Access denied. You cannot change the items of this expense.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        await clearExpenseItems(expenseId, request.user!.id);
+
+        return { message: 'Expense items removed successfully' };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('paid splits')) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        fastify.log.error('Error removing expense items:', error);
+        return reply.code(500).send({
+          message: 'Failed to remove expense items',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default expenseItemsRoute;
@@ -1,15 +1,16 @@
 import { FastifyPluginAsync } from 'fastify';
 import { SplitType } from '@prisma/client';
-import { authenticate, authHeaderSchema } from '../utils/middleware.js';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
 import { isGroupMember } from '../repositories/groupRepo.js';
+import { canManageExpense } from '../repositories/expenseRepo.js';
 import {
   createExpenseSplits,
   getExpenseSplits,
   getUserSplits,
   markSplitAsPaid,
   getUserBalanceSummary,
-  SplitParticipant,
 } from '../repositories/expenseSplitRepo.js';
+import { SplitParticipant } from '../utils/splitCalculation.js';
 import { prisma } from '../app.js';
 
 interface ExpenseParams {
@@ -31,7 +32,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
   fastify.post<{ Params: ExpenseParams; Body: CreateSplitBody }>(
     '/expenses/:id/splits',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:write')],
       schema: {
         tags: ['expense-splits'],
         summary: 'Create splits for an expense',
@@ -145,8 +146,8 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
         }
 
         // Get the expense and validate ownership/access
-        const expense = await prisma.expense.findUnique({
-          where: { id: expenseId },
+        const expense = await prisma.expense.findFirst({
+          where: { id: expenseId, deletedAt: null },
           include: { group: true },
         });
 
@@ -170,8 +171,8 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
             });
           }
         } else {
-          // For personal expenses, only the owner can create splits
-          if (expense.userId !== request.user!.id) {
+          // For personal expenses, only the payer or creator can create splits
+          if (!canManageExpense(expense, request.user!.id)) {
             return reply.code(403).send({
               message: 'Access denied. You can only split your own expenses.',
               error: 'Forbidden',
@@ -210,11 +211,14 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
         }
 
         // Create the splits
-        const splits = await createExpenseSplits({
-          expenseId,
-          splitType,
-          participants,
-        });
+        const splits = await createExpenseSplits(
+          {
+            expenseId,
+            splitType,
+            participants,
+          },
+          request.user!.id
+        );
 
         return reply.code(201).send({
           message: 'Splits created successfully',
@@ -253,7 +257,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: ExpenseParams }>(
     '/expenses/:id/splits',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:read')],
       schema: {
         tags: ['expense-splits'],
         summary: 'Get splits for an expense',
@@ -314,8 +318,8 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
         }
 
         // Validate expense exists and user has access
-        const expense = await prisma.expense.findUnique({
-          where: { id: expenseId },
+        const expense = await prisma.expense.findFirst({
+          where: { id: expenseId, deletedAt: null },
           include: { group: true },
         });
 
@@ -337,7 +341,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
               statusCode: 403,
             });
           }
-        } else if (expense.userId !== request.user!.id) {
+        } else if (!canManageExpense(expense, request.user!.id)) {
           return reply.code(403).send({
             message: 'Access denied. You can only view splits for your own expenses.',
             error: 'Forbidden',
@@ -362,7 +366,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/splits/my-splits',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:read')],
       schema: {
         tags: ['expense-splits'],
         summary: 'Get current user splits',
@@ -420,7 +424,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
   fastify.put<{ Params: MarkPaidParams }>(
     '/splits/:expenseId/:userId/mark-paid',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('settlements:write')],
       schema: {
         tags: ['expense-splits'],
         summary: 'Mark split as paid',
@@ -484,8 +488,8 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
         }
 
         // Only the expense owner can mark splits as paid
-        const expense = await prisma.expense.findUnique({
-          where: { id: expenseId },
+        const expense = await prisma.expense.findFirst({
+          where: { id: expenseId, deletedAt: null },
         });
 
         if (!expense) {
@@ -496,7 +500,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
-        if (expense.userId !== request.user!.id) {
+        if (!canManageExpense(expense, request.user!.id)) {
           return reply.code(403).send({
             message: 'Access denied. Only the expense owner can mark splits as paid.',
             error: 'Forbidden',
@@ -504,7 +508,7 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
-        const split = await markSplitAsPaid(expenseId, userId);
+        const split = await markSplitAsPaid(expenseId, userId, request.user!.id);
 
         return reply.code(200).send({
           message: 'Split marked as paid successfully',
@@ -525,37 +529,78 @@ const expenseSplitsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/splits/balance-summary',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('settlements:read')],
       schema: {
         tags: ['expense-splits'],
         summary: 'Get user balance summary',
-        description: 'Get summary of what user owes and is owed',
+        description:
+          'Get summary of what user owes and is owed, per currency or converted into a single currency',
         headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'Convert all balances into this currency',
+            },
+          },
+        },
         response: {
           200: {
             description: 'Balance summary',
             type: 'object',
             properties: {
-              owes: { type: 'string', description: 'Amount user owes to others' },
-              owed: { type: 'string', description: 'Amount others owe to user' },
-              netBalance: {
-                type: 'string',
-                description: 'Net balance (positive = owed to user, negative = user owes)',
+              balances: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    currency: { type: 'string' },
+                    owes: { type: 'string', description: 'Amount user owes to others' },
+                    owed: { type: 'string', description: 'Amount others owe to user' },
+                    netBalance: {
+                      type: 'string',
+                      description: 'Net balance (positive = owed to user, negative = user owes)',
+                    },
+                  },
+                },
               },
             },
           },
+          422: {
+            description: 'No exchange rate available for the requested conversion',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
         },
       },
     },
     async (request, reply) => {
       try {
-        const summary = await getUserBalanceSummary(request.user!.id);
+        const { currency } = request.query as { currency?: string };
+        const balances = await getUserBalanceSummary(request.user!.id, { currency });
         return {
-          owes: summary.owes.toString(),
-          owed: summary.owed.toString(),
-          netBalance: summary.netBalance.toString(),
+          balances: balances.map(balance => ({
+            currency: balance.currency,
+            owes: balance.owes.toString(),
+            owed: balance.owed.toString(),
+            netBalance: balance.netBalance.toString(),
+          })),
         };
       } catch (error) {
+        if (error instanceof Error && error.message.includes('No exchange rate')) {
+          return reply.code(422).send({
+            message: error.message,
+            error: 'Unprocessable Entity',
+            statusCode: 422,
+          });
+        }
+
         fastify.log.error('Error fetching balance summary:', error);
         return reply.code(500).send({
           message: 'Failed to fetch balance summary',
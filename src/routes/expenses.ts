@@ -1,56 +1,165 @@
 import { FastifyPluginAsync } from 'fastify';
-import { authenticate, authHeaderSchema } from '../utils/middleware.js';
-import { isGroupMember } from '../repositories/groupRepo.js';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { areGroupMembers, isGroupMember } from '../repositories/groupRepo.js';
 import {
-  getUserExpenses,
+  searchExpensePage,
   getExpenseById,
   createExpense,
   updateExpense,
   deleteExpense,
+  getDeletedExpenses,
+  getDeletedExpense,
+  restoreExpense,
+  canManageExpense,
 } from '../repositories/expenseRepo.js';
+import { canUseTags } from '../repositories/tagRepo.js';
 
 interface ExpenseParams {
   id: string;
 }
 
+interface TrashQuery {
+  groupId?: number;
+}
+
+interface ListExpensesQuery {
+  groupId?: number;
+  categoryId?: number;
+  tagIds?: number[];
+  title?: string;
+  description?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  fromDate?: string;
+  toDate?: string;
+  isPaid?: boolean;
+  sortBy?: 'paidAt' | 'amount' | 'title';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+interface PayerBody {
+  userId: number;
+  amount: number;
+}
+
 interface CreateExpenseBody {
   title: string;
   description?: string;
   amount: number;
+  currency?: string;
   groupId?: number;
   categoryId?: number;
+  paidBy?: number;
+  paidAt?: string;
+  payers?: PayerBody[];
+  tagIds?: number[];
 }
 
 interface UpdateExpenseBody {
   title?: string;
   amount?: number;
+  currency?: string;
   categoryId?: number;
+  payers?: PayerBody[];
+  tagIds?: number[];
+  splitAmounts?: Array<{ userId: number; amount: number }>;
+  forceSplitChanges?: boolean;
 }
 
 const expensesRoute: FastifyPluginAsync = async fastify => {
   // GET /expenses - List user's expenses
-  fastify.get(
+  fastify.get<{ Querystring: ListExpensesQuery }>(
     '/expenses',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:read')],
       schema: {
         tags: ['expenses'],
         summary: "List authenticated user's expenses",
-        description: 'Retrieve a list of expenses for the authenticated user',
+        description:
+          'Retrieve the expenses the authenticated user paid or recorded, or with groupId all ' +
+          "of a group's expenses, filtered and sorted, a page at a time. Pass nextCursor from a " +
+          'response as cursor to get the next page, keeping the same filters and sort; it is ' +
+          'null on the last page.',
         headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'integer', description: 'Only this group' },
+            categoryId: { type: 'integer', description: 'Only this category' },
+            tagIds: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'Only expenses with all of these tags (repeat the parameter)',
+            },
+            title: { type: 'string', description: 'Title contains (case-insensitive)' },
+            description: { type: 'string', description: 'Description contains (case-insensitive)' },
+            minAmount: { type: 'number', minimum: 0 },
+            maxAmount: { type: 'number', minimum: 0 },
+            fromDate: { type: 'string', format: 'date', description: 'Paid on or after' },
+            toDate: { type: 'string', format: 'date', description: 'Paid on or before' },
+            isPaid: { type: 'boolean', description: 'Has a split with this payment status' },
+            sortBy: { type: 'string', enum: ['paidAt', 'amount', 'title'], default: 'paidAt' },
+            order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+            cursor: { type: 'string', description: 'nextCursor of the previous page' },
+          },
+        },
         response: {
           200: {
-            description: 'List of user expenses',
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'integer' },
-                title: { type: 'string' },
-                amount: { type: 'number' },
-                paidAt: { type: 'string', format: 'date-time' },
-                userId: { type: 'integer' },
+            description: 'A page of expenses',
+            type: 'object',
+            properties: {
+              expenses: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    title: { type: 'string' },
+                    description: { type: 'string', nullable: true },
+                    amount: { type: 'number' },
+                    currency: { type: 'string' },
+                    paidAt: { type: 'string', format: 'date-time' },
+                    userId: { type: 'integer' },
+                    createdById: { type: 'integer', nullable: true },
+                    groupId: { type: 'integer', nullable: true },
+                    categoryId: { type: 'integer', nullable: true },
+                    tags: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'integer' },
+                          name: { type: 'string' },
+                          color: { type: 'string', nullable: true },
+                        },
+                      },
+                    },
+                    commentCount: { type: 'integer' },
+                  },
+                },
               },
+              nextCursor: { type: 'string', nullable: true },
+            },
+          },
+          400: {
+            description: 'Invalid cursor',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
             },
           },
         },
@@ -58,20 +167,47 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
     },
     async (request, reply) => {
       try {
-        const expenses = await getUserExpenses(request.user!.id, {
-          orderBy: 'paidAt',
-          orderDirection: 'desc',
-          includeDetails: false, // For performance on list view
-        });
+        const { groupId, fromDate, toDate, sortBy, order, limit, cursor, ...search } =
+          request.query;
+        const userId = request.user!.id;
 
-        // Convert Decimal amounts to numbers for JSON response
-        const formattedExpenses = expenses.map(expense => ({
-          ...expense,
-          amount: expense.amount.toNumber(),
-        }));
+        if (groupId && !(await isGroupMember(groupId, userId))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const page = await searchExpensePage(
+          {
+            ...search,
+            ...(groupId ? { groupId } : { userId }),
+            fromDate: fromDate ? new Date(`${fromDate}T00:00:00.000Z`) : undefined,
+            toDate: toDate ? new Date(`${toDate}T23:59:59.999Z`) : undefined,
+          },
+          { orderBy: sortBy, orderDirection: order, limit, cursor }
+        );
 
-        return formattedExpenses;
+        // Convert Decimal amounts to numbers for JSON response
+        return {
+          expenses: page.expenses.map(expense => ({
+            ...expense,
+            amount: expense.amount.toNumber(),
+            tags: expense.tags?.map(({ tag }) => tag),
+            commentCount: expense._count.comments,
+          })),
+          nextCursor: page.nextCursor,
+        };
       } catch (error) {
+        if (error instanceof Error && error.message === 'Invalid cursor') {
+          return reply.code(400).send({
+            message: 'Invalid cursor: it must come from a page with the same sort order',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
         fastify.log.error('Error fetching expenses:', error);
         return reply.code(500).send({
           message: 'Failed to fetch expenses',
@@ -86,7 +222,7 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: ExpenseParams }>(
     '/expenses/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:read')],
       schema: {
         tags: ['expenses'],
         summary: "Get user's expense by ID",
@@ -107,8 +243,38 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
               id: { type: 'integer' },
               title: { type: 'string' },
               amount: { type: 'number' },
+              currency: { type: 'string' },
               paidAt: { type: 'string', format: 'date-time' },
               userId: { type: 'integer' },
+              createdById: { type: 'integer', nullable: true },
+              recurringExpenseId: {
+                type: 'integer',
+                nullable: true,
+                description: 'Recurring expense this expense was created from',
+              },
+              payers: {
+                type: 'array',
+                description: 'Contributions when several people paid; empty if userId paid it all',
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                  },
+                },
+              },
+              tags: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    color: { type: 'string', nullable: true },
+                  },
+                },
+              },
+              commentCount: { type: 'integer' },
             },
           },
           404: {
@@ -137,7 +303,7 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
 
         const expense = await getExpenseById(id);
 
-        if (!expense || expense.userId !== request.user!.id) {
+        if (!expense || !canManageExpense(expense, request.user!.id)) {
           return reply.code(404).send({
             message: 'Expense not found',
             error: 'Not Found',
@@ -149,10 +315,16 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
         return {
           ...expense,
           amount: expense.amount.toNumber(),
+          payers: expense.payers.map(payer => ({
+            ...payer,
+            amount: payer.amount.toNumber(),
+          })),
           splits: expense.splits.map(split => ({
             ...split,
             amount: split.amount.toNumber(),
           })),
+          tags: expense.tags?.map(({ tag }) => tag),
+          commentCount: expense._count.comments,
         };
       } catch (error) {
         fastify.log.error('Error fetching expense:', error);
@@ -169,11 +341,14 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
   fastify.post<{ Body: CreateExpenseBody }>(
     '/expenses',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:write')],
       schema: {
         tags: ['expenses'],
         summary: 'Create a new expense',
-        description: 'Create a new expense record for the authenticated user',
+        description:
+          'Create a new expense record. The authenticated user pays it unless paidBy names ' +
+          'another group member, e.g. when a treasurer records what someone else paid; the ' +
+          'creator is recorded either way and can manage the expense together with the payer.',
         headers: authHeaderSchema,
         body: {
           type: 'object',
@@ -181,11 +356,47 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
             title: { type: 'string', description: 'Expense title' },
             description: { type: 'string', description: 'Expense description' },
             amount: { type: 'number', description: 'Expense amount' },
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description:
+                'ISO 4217 currency code (defaults to the group or user default currency)',
+            },
             groupId: { type: 'integer', description: 'Group ID (optional, for group expenses)' },
             categoryId: {
               type: 'integer',
               description: 'Category ID (optional, for categorized expenses)',
             },
+            paidBy: {
+              type: 'integer',
+              description: 'Group member who paid (group expenses only; defaults to you)',
+            },
+            paidAt: {
+              type: 'string',
+              format: 'date-time',
+              pattern: '([Zz]|[+-]\\d{2}:\\d{2})$',
+              description:
+                'When it was paid, with a timezone offset (e.g. 2026-10-13T18:30:00+02:00; ' +
+                'defaults to now)',
+            },
+            payers: {
+              type: 'array',
+              minItems: 1,
+              description: 'Who paid how much, when several people paid (must add up to amount)',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'integer' },
+                  amount: { type: 'number', exclusiveMinimum: 0 },
+                },
+                required: ['userId', 'amount'],
+              },
+            },
+            tagIds: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: "Tags to add: the group's tags for group expenses, otherwise your own",
+            },
           },
           required: ['title', 'amount'],
         },
@@ -197,8 +408,33 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
               id: { type: 'integer' },
               title: { type: 'string' },
               amount: { type: 'number' },
+              currency: { type: 'string' },
               paidAt: { type: 'string', format: 'date-time' },
               userId: { type: 'integer' },
+              createdById: { type: 'integer', nullable: true },
+              payers: {
+                type: 'array',
+                description: 'Contributions when several people paid; empty if userId paid it all',
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                  },
+                },
+              },
+              tags: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    color: { type: 'string', nullable: true },
+                  },
+                },
+              },
+              commentCount: { type: 'integer' },
             },
           },
           400: {
@@ -224,8 +460,26 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
     },
     async (request, reply) => {
       try {
-        const { title, description, amount, groupId, categoryId } =
-          request.body as CreateExpenseBody;
+        const {
+          title,
+          description,
+          amount,
+          currency,
+          groupId,
+          categoryId,
+          paidBy,
+          paidAt,
+          payers,
+          tagIds,
+        } = request.body as CreateExpenseBody;
+
+        if (paidBy !== undefined && !groupId) {
+          return reply.code(400).send({
+            message: 'paidBy can only be set on group expenses',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
 
         // Validate that user can add expense to group (if groupId provided)
         if (groupId) {
@@ -237,27 +491,79 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
               statusCode: 403,
             });
           }
+
+          if (paidBy !== undefined && !(await isGroupMember(groupId, paidBy))) {
+            return reply.code(400).send({
+              message: 'The payer must be a member of the group',
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+
+          if (
+            payers &&
+            !(await areGroupMembers(
+              groupId,
+              payers.map(payer => payer.userId)
+            ))
+          ) {
+            return reply.code(400).send({
+              message: 'All payers must be members of the group',
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+        }
+
+        if (
+          tagIds &&
+          !(await canUseTags(tagIds, groupId ? { groupId } : { userId: request.user!.id }))
+        ) {
+          return reply.code(400).send({
+            message: "Tags must be your own, or for group expenses the group's",
+            error: 'Bad Request',
+            statusCode: 400,
+          });
         }
 
         const expense = await createExpense({
           title,
           description,
           amount,
-          userId: request.user!.id,
+          currency,
+          userId: paidBy ?? request.user!.id,
+          createdById: request.user!.id,
           groupId,
           categoryId,
+          paidAt: paidAt ? new Date(paidAt) : undefined,
+          payers,
+          tagIds,
         });
 
         // Convert Decimal amounts to numbers for JSON response
         return reply.code(201).send({
           ...expense,
           amount: expense.amount.toNumber(),
+          payers: expense.payers.map(payer => ({
+            ...payer,
+            amount: payer.amount.toNumber(),
+          })),
           splits: expense.splits.map(split => ({
             ...split,
             amount: split.amount.toNumber(),
           })),
+          tags: expense.tags?.map(({ tag }) => tag),
+          commentCount: expense._count.comments,
         });
       } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Payer')) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
         fastify.log.error('Error creating expense:', error);
         return reply.code(500).send({
           message: 'Failed to create expense',
@@ -272,11 +578,14 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
   fastify.put<{ Params: ExpenseParams; Body: UpdateExpenseBody }>(
     '/expenses/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:write')],
       schema: {
         tags: ['expenses'],
         summary: "Update user's expense",
-        description: 'Update a specific expense (only accessible by the owner)',
+        description:
+          'Update a specific expense (only accessible by the owner). When the amount changes, ' +
+          'EQUAL and PERCENTAGE splits are recalculated and AMOUNT splits must be given again ' +
+          'in splitAmounts. Changes to splits already marked paid need forceSplitChanges.',
         headers: authHeaderSchema,
         params: {
           type: 'object',
@@ -290,11 +599,51 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
           properties: {
             title: { type: 'string', description: 'Expense title' },
             amount: { type: 'number', description: 'Expense amount' },
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'ISO 4217 currency code',
+            },
             categoryId: {
               type: 'integer',
               description: 'Category ID (optional, for categorized expenses)',
             },
+            payers: {
+              type: 'array',
+              description:
+                'Replaces who paid how much (must add up to amount; [] if you paid it all)',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'integer' },
+                  amount: { type: 'number', exclusiveMinimum: 0 },
+                },
+                required: ['userId', 'amount'],
+              },
+            },
+            tagIds: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'Replaces the tags ([] removes them all)',
+            },
+            splitAmounts: {
+              type: 'array',
+              description: 'New AMOUNT splits for a changed amount (must add up to amount)',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'integer' },
+                  amount: { type: 'number', exclusiveMinimum: 0 },
+                },
+                required: ['userId', 'amount'],
+              },
+            },
+            forceSplitChanges: {
+              type: 'boolean',
+              description: 'Let a changed amount alter splits already marked paid',
+            },
           },
+          additionalProperties: false,
         },
         response: {
           200: {
@@ -304,8 +653,42 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
               id: { type: 'integer' },
               title: { type: 'string' },
               amount: { type: 'number' },
+              currency: { type: 'string' },
               paidAt: { type: 'string', format: 'date-time' },
               userId: { type: 'integer' },
+              createdById: { type: 'integer', nullable: true },
+              payers: {
+                type: 'array',
+                description: 'Contributions when several people paid; empty if userId paid it all',
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                  },
+                },
+              },
+              tags: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    color: { type: 'string', nullable: true },
+                  },
+                },
+              },
+              commentCount: { type: 'integer' },
+            },
+          },
+          400: {
+            description: 'Validation error',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
             },
           },
           404: {
@@ -317,6 +700,15 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
               statusCode: { type: 'integer' },
             },
           },
+          409: {
+            description: 'The new amount would change paid splits',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
         },
       },
     },
@@ -334,7 +726,7 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
 
         // First check if expense exists and belongs to user
         const existingExpense = await getExpenseById(id);
-        if (!existingExpense || existingExpense.userId !== request.user!.id) {
+        if (!existingExpense || !canManageExpense(existingExpense, request.user!.id)) {
           return reply.code(404).send({
             message: 'Expense not found',
             error: 'Not Found',
@@ -342,18 +734,87 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
-        const updatedExpense = await updateExpense(id, request.body as UpdateExpenseBody);
+        const {
+          title,
+          amount,
+          currency,
+          categoryId,
+          payers,
+          tagIds,
+          splitAmounts,
+          forceSplitChanges,
+        } = request.body as UpdateExpenseBody;
+        if (
+          payers &&
+          existingExpense.groupId &&
+          !(await areGroupMembers(
+            existingExpense.groupId,
+            payers.map(payer => payer.userId)
+          ))
+        ) {
+          return reply.code(400).send({
+            message: 'All payers must be members of the group',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const tagOwner = existingExpense.groupId
+          ? { groupId: existingExpense.groupId }
+          : { userId: request.user!.id };
+        if (tagIds && !(await canUseTags(tagIds, tagOwner))) {
+          return reply.code(400).send({
+            message: "Tags must be your own, or for group expenses the group's",
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        // Only the fields this route accepts; the group, payer and creator can't be changed here
+        const updatedExpense = await updateExpense(
+          id,
+          { title, amount, currency, categoryId, payers, tagIds, splitAmounts, forceSplitChanges },
+          request.user!.id
+        );
 
         // Convert Decimal amounts to numbers for JSON response
         return {
           ...updatedExpense,
           amount: updatedExpense.amount.toNumber(),
+          payers: updatedExpense.payers.map(payer => ({
+            ...payer,
+            amount: payer.amount.toNumber(),
+          })),
           splits: updatedExpense.splits.map(split => ({
             ...split,
             amount: split.amount.toNumber(),
           })),
+          tags: updatedExpense.tags?.map(({ tag }) => tag),
+          commentCount: updatedExpense._count.comments,
         };
       } catch (error) {
+        if (error instanceof Error && error.message.includes('paid splits')) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        if (
+          error instanceof Error &&
+          (error.message.startsWith('Payer') ||
+            error.message.startsWith('Split') ||
+            error.message.startsWith('Itemized') ||
+            error.message.startsWith('All participants'))
+        ) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
         fastify.log.error('Error updating expense:', error);
         return reply.code(500).send({
           message: 'Failed to update expense',
@@ -368,11 +829,14 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
   fastify.delete<{ Params: ExpenseParams }>(
     '/expenses/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('expenses:write')],
       schema: {
         tags: ['expenses'],
         summary: "Delete user's expense",
-        description: 'Delete a specific expense (only accessible by the owner)',
+        description:
+          'Move an expense to the trash (only accessible by the owner). It no longer counts ' +
+          'towards balances, settlements or analytics, and can be restored until it is ' +
+          'permanently deleted with its splits and attachments after the retention period.',
         headers: authHeaderSchema,
         params: {
           type: 'object',
@@ -383,7 +847,7 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
         },
         response: {
           200: {
-            description: 'Expense deleted successfully',
+            description: 'Expense moved to the trash',
             type: 'object',
             properties: {
               message: { type: 'string' },
@@ -415,7 +879,7 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
 
         // First check if expense exists and belongs to user
         const existingExpense = await getExpenseById(id);
-        if (!existingExpense || existingExpense.userId !== request.user!.id) {
+        if (!existingExpense || !canManageExpense(existingExpense, request.user!.id)) {
           return reply.code(404).send({
             message: 'Expense not found',
             error: 'Not Found',
@@ -423,9 +887,9 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
-        await deleteExpense(id);
+        await deleteExpense(id, request.user!.id);
 
-        return { message: 'Expense deleted successfully' };
+        return { message: 'Expense moved to trash' };
       } catch (error) {
         fastify.log.error('Error deleting expense:', error);
         return reply.code(500).send({
@@ -436,6 +900,199 @@ const expensesRoute: FastifyPluginAsync = async fastify => {
       }
     }
   );
+
+  // GET /expenses/trash - List deleted expenses
+  fastify.get<{ Querystring: TrashQuery }>(
+    '/expenses/trash',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'List expenses in the trash',
+        description:
+          'List the expenses you deleted, or with groupId all deleted expenses of a group, most ' +
+          'recently deleted first, with when each will be permanently deleted',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'integer', description: "List this group's deleted expenses" },
+          },
+        },
+        response: {
+          200: {
+            description: 'Deleted expenses retrieved successfully',
+            type: 'object',
+            properties: {
+              expenses: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    title: { type: 'string' },
+                    description: { type: 'string', nullable: true },
+                    amount: { type: 'number' },
+                    currency: { type: 'string' },
+                    paidAt: { type: 'string', format: 'date-time' },
+                    deletedAt: { type: 'string', format: 'date-time' },
+                    purgeAt: { type: 'string', format: 'date-time' },
+                    user: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                      },
+                    },
+                    group: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                      },
+                    },
+                    category: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                      },
+                    },
+                    splitCount: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { groupId } = request.query;
+        const userId = request.user!.id;
+
+        if (groupId && !(await isGroupMember(groupId, userId))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const expenses = await getDeletedExpenses(groupId ? { groupId } : { userId });
+
+        return {
+          expenses: expenses.map(({ _count, ...expense }) => ({
+            ...expense,
+            amount: expense.amount.toNumber(),
+            splitCount: _count.splits,
+          })),
+        };
+      } catch (error) {
+        fastify.log.error('Error fetching deleted expenses:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch deleted expenses',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /expenses/:id/restore - Restore a deleted expense
+  fastify.post<{ Params: ExpenseParams }>(
+    '/expenses/:id/restore',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['expenses'],
+        summary: 'Restore a deleted expense',
+        description:
+          'Take an expense out of the trash (only accessible by the owner). It counts towards ' +
+          'balances again with its splits as they were.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Expense restored successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Expense not found in the trash',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const deletedExpense = await getDeletedExpense(id);
+        if (!deletedExpense || !canManageExpense(deletedExpense, request.user!.id)) {
+          return reply.code(404).send({
+            message: 'Expense not found in trash',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        await restoreExpense(id, request.user!.id);
+
+        return { message: 'Expense restored successfully' };
+      } catch (error) {
+        fastify.log.error('Error restoring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to restore expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
 };
 
 export default expensesRoute;
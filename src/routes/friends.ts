@@ -1,5 +1,10 @@
 import { FastifyPluginAsync } from 'fastify';
-import { authenticate, authHeaderSchema } from '../utils/middleware.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  requireVerifiedEmail,
+  requireScope,
+} from '../utils/middleware.js';
 import {
   sendFriendRequest,
   getFriendRequestById,
@@ -46,7 +51,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.post<{ Body: SendFriendRequestBody }>(
     '/friends/requests',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:write'), requireVerifiedEmail],
       schema: {
         tags: ['friends'],
         summary: 'Send a friend request',
@@ -175,7 +180,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/friends/requests/sent',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Get sent friend requests',
@@ -231,7 +236,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/friends/requests/received',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Get received friend requests',
@@ -287,7 +292,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.patch<{ Params: FriendRequestParams; Body: RespondToRequestBody }>(
     '/friends/requests/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:write')],
       schema: {
         tags: ['friends'],
         summary: 'Respond to a friend request',
@@ -405,7 +410,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.delete<{ Params: FriendRequestParams }>(
     '/friends/requests/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:write')],
       schema: {
         tags: ['friends'],
         summary: 'Cancel a friend request',
@@ -477,7 +482,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/friends',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Get friends list',
@@ -543,7 +548,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.delete<{ Params: UserParams }>(
     '/friends/:userId',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:write')],
       schema: {
         tags: ['friends'],
         summary: 'Remove a friend',
@@ -606,7 +611,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Querystring: SearchUsersQuery }>(
     '/friends/search',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Search for users',
@@ -670,7 +675,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/friends/suggestions',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Get friend suggestions',
@@ -722,7 +727,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: UserParams }>(
     '/friends/:userId/mutual',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Get mutual friends',
@@ -791,7 +796,7 @@ const friendsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: UserParams }>(
     '/friends/:userId/status',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('friends:read')],
       schema: {
         tags: ['friends'],
         summary: 'Check friendship status',
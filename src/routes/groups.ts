@@ -15,7 +15,12 @@ import {
   isGroupAdmin,
 } from '../repositories/groupRepo.js';
 import { getUserByEmail } from '../repositories/userRepo.js';
-import { authenticate, authHeaderSchema } from '../utils/middleware.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  requireVerifiedEmail,
+  requireScope,
+} from '../utils/middleware.js';
 
 interface GroupParams {
   id: string;
@@ -30,12 +35,14 @@ interface CreateGroupBody {
   name: string;
   description?: string;
   avatar?: string;
+  defaultCurrency?: string;
 }
 
 interface UpdateGroupBody {
   name?: string;
   description?: string;
   avatar?: string;
+  defaultCurrency?: string;
 }
 
 interface AddMemberBody {
@@ -52,7 +59,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.get(
     '/groups',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:read')],
       schema: {
         tags: ['groups'],
         summary: "List user's groups",
@@ -70,6 +77,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
                 description: { type: 'string' },
                 avatar: { type: 'string' },
                 isActive: { type: 'boolean' },
+                defaultCurrency: { type: 'string' },
                 createdAt: { type: 'string', format: 'date-time' },
                 updatedAt: { type: 'string', format: 'date-time' },
                 creator: {
@@ -122,7 +130,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: GroupParams }>(
     '/groups/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:read')],
       schema: {
         tags: ['groups'],
         summary: 'Get group details',
@@ -145,6 +153,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
               description: { type: 'string', nullable: true, description: 'Group description' },
               avatar: { type: 'string', nullable: true, description: 'Group avatar URL' },
               isActive: { type: 'boolean', description: 'Whether the group is active' },
+              defaultCurrency: { type: 'string', description: 'Currency for new group expenses' },
               createdAt: {
                 type: 'string',
                 format: 'date-time',
@@ -329,7 +338,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.post<{ Body: CreateGroupBody }>(
     '/groups',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:write')],
       schema: {
         tags: ['groups'],
         summary: 'Create a new group',
@@ -341,6 +350,11 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
             name: { type: 'string', minLength: 1, maxLength: 100, description: 'Group name' },
             description: { type: 'string', maxLength: 500, description: 'Group description' },
             avatar: { type: 'string', description: 'Group avatar URL' },
+            defaultCurrency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'ISO 4217 currency code for new group expenses',
+            },
           },
           required: ['name'],
         },
@@ -354,6 +368,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
               description: { type: 'string' },
               avatar: { type: 'string' },
               isActive: { type: 'boolean' },
+              defaultCurrency: { type: 'string' },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               createdBy: { type: 'integer' },
@@ -364,12 +379,13 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
     },
     async (request, reply) => {
       try {
-        const { name, description, avatar } = request.body as CreateGroupBody;
+        const { name, description, avatar, defaultCurrency } = request.body as CreateGroupBody;
 
         const group = await createGroup({
           name: name.trim(),
           description: description?.trim(),
           avatar,
+          defaultCurrency,
           createdBy: request.user!.id,
         });
 
@@ -389,7 +405,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.put<{ Params: GroupParams; Body: UpdateGroupBody }>(
     '/groups/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:write')],
       schema: {
         tags: ['groups'],
         summary: 'Update group information',
@@ -408,6 +424,11 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
             name: { type: 'string', minLength: 1, maxLength: 100, description: 'Group name' },
             description: { type: 'string', maxLength: 500, description: 'Group description' },
             avatar: { type: 'string', description: 'Group avatar URL' },
+            defaultCurrency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'ISO 4217 currency code for new group expenses',
+            },
           },
         },
         response: {
@@ -420,6 +441,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
               description: { type: 'string' },
               avatar: { type: 'string' },
               isActive: { type: 'boolean' },
+              defaultCurrency: { type: 'string' },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               createdBy: { type: 'integer' },
@@ -450,7 +472,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
-        const { name, description, avatar } = request.body as UpdateGroupBody;
+        const { name, description, avatar, defaultCurrency } = request.body as UpdateGroupBody;
         const updateData: any = {};
 
         if (name !== undefined) {
@@ -462,6 +484,9 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
         if (avatar !== undefined) {
           updateData.avatar = avatar;
         }
+        if (defaultCurrency !== undefined) {
+          updateData.defaultCurrency = defaultCurrency;
+        }
 
         const group = await updateGroup(id, updateData);
         return group;
@@ -480,7 +505,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.delete<{ Params: GroupParams }>(
     '/groups/:id',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:write')],
       schema: {
         tags: ['groups'],
         summary: 'Deactivate group',
@@ -543,7 +568,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: GroupParams }>(
     '/groups/:id/members',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:read')],
       schema: {
         tags: ['groups'],
         summary: 'Get group members',
@@ -621,7 +646,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.post<{ Params: GroupParams; Body: AddMemberBody }>(
     '/groups/:id/members',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:write'), requireVerifiedEmail],
       schema: {
         tags: ['groups'],
         summary: 'Add member to group',
@@ -716,7 +741,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.put<{ Params: MemberParams; Body: UpdateMemberRoleBody }>(
     '/groups/:id/members/:userId',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:write')],
       schema: {
         tags: ['groups'],
         summary: 'Update member role',
@@ -809,7 +834,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.delete<{ Params: MemberParams }>(
     '/groups/:id/members/:userId',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:write')],
       schema: {
         tags: ['groups'],
         summary: 'Remove member from group',
@@ -886,7 +911,7 @@ const groupsRoute: FastifyPluginAsync = async fastify => {
   fastify.get<{ Params: GroupParams }>(
     '/groups/:id/stats',
     {
-      preHandler: [authenticate],
+      preHandler: [authenticate, requireScope('groups:read')],
       schema: {
         tags: ['groups'],
         summary: 'Get group statistics',
@@ -0,0 +1,992 @@
+import { FastifyPluginAsync } from 'fastify';
+import { ImportAmountSign } from '@prisma/client';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import {
+  commitImport,
+  ImportRow,
+  previewImport,
+  summarizeImportRows,
+  validateImportProfile,
+} from '../utils/expenseImport.js';
+import { isGroupMember } from '../repositories/groupRepo.js';
+import {
+  createImportProfile,
+  deleteImportProfile,
+  getImportBatchById,
+  getImportProfileById,
+  getUserImportBatches,
+  getUserImportProfiles,
+  ImportProfileData,
+  undoImportBatch,
+  updateImportProfile,
+} from '../repositories/importRepo.js';
+
+interface IdParams {
+  id: string;
+}
+
+interface CreateImportQuery {
+  profileId: number;
+  groupId?: number;
+}
+
+interface CommitImportBody {
+  rows?: number[];
+  categories?: { row: number; categoryId: number | null }[];
+}
+
+const importsRoute: FastifyPluginAsync = async fastify => {
+  // GET /import-profiles - List the user's column mapping profiles
+  fastify.get(
+    '/import-profiles',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['imports'],
+        summary: 'List import profiles',
+        description: "List the current user's saved column mappings for bank statement imports",
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Import profiles retrieved successfully',
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' },
+                delimiter: { type: 'string' },
+                hasHeader: { type: 'boolean' },
+                dateColumn: { type: 'string' },
+                descriptionColumn: { type: 'string' },
+                amountColumn: { type: 'string', nullable: true },
+                debitColumn: { type: 'string', nullable: true },
+                creditColumn: { type: 'string', nullable: true },
+                amountSign: { type: 'string' },
+                dateFormat: { type: 'string' },
+                decimalSeparator: { type: 'string' },
+                currency: { type: 'string', nullable: true },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        return await getUserImportProfiles(request.user!.id);
+      } catch (error) {
+        fastify.log.error('Error fetching import profiles:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch import profiles',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /import-profiles - Save a column mapping profile
+  fastify.post<{ Body: ImportProfileData }>(
+    '/import-profiles',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Create an import profile',
+        description:
+          'Save how to read a bank statement CSV. Columns are header names, or 1-based column ' +
+          'numbers when the file has no header row. Use amountColumn for a single signed amount ' +
+          '(amountSign says whether money out is NEGATIVE or POSITIVE), or debitColumn and ' +
+          'optionally creditColumn for separate money out and money in columns. dateFormat ' +
+          'combines YYYY, MM and DD, e.g. "DD/MM/YYYY".',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          required: ['name', 'dateColumn', 'descriptionColumn'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            delimiter: { type: 'string', minLength: 1, maxLength: 1 },
+            hasHeader: { type: 'boolean' },
+            dateColumn: { type: 'string', minLength: 1 },
+            descriptionColumn: { type: 'string', minLength: 1 },
+            amountColumn: { type: 'string', minLength: 1, nullable: true },
+            debitColumn: { type: 'string', minLength: 1, nullable: true },
+            creditColumn: { type: 'string', minLength: 1, nullable: true },
+            amountSign: { type: 'string', enum: Object.values(ImportAmountSign) },
+            dateFormat: { type: 'string', minLength: 1 },
+            decimalSeparator: { type: 'string', enum: ['.', ','] },
+            currency: { type: 'string', pattern: '^[A-Z]{3}$', nullable: true },
+          },
+        },
+        response: {
+          201: {
+            description: 'Import profile created successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              delimiter: { type: 'string' },
+              hasHeader: { type: 'boolean' },
+              dateColumn: { type: 'string' },
+              descriptionColumn: { type: 'string' },
+              amountColumn: { type: 'string', nullable: true },
+              debitColumn: { type: 'string', nullable: true },
+              creditColumn: { type: 'string', nullable: true },
+              amountSign: { type: 'string' },
+              dateFormat: { type: 'string' },
+              decimalSeparator: { type: 'string' },
+              currency: { type: 'string', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid profile or duplicate name',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        validateImportProfile(request.body);
+
+        const profile = await createImportProfile(request.user!.id, request.body);
+
+        return reply.code(201).send(profile);
+      } catch (error: any) {
+        if (error instanceof Error && error.message.startsWith('Invalid import profile')) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (error.code === 'P2002') {
+          return reply.code(400).send({
+            message: 'An import profile with this name already exists',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error creating import profile:', error);
+        return reply.code(500).send({
+          message: 'Failed to create import profile',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /import-profiles/:id - Update a column mapping profile
+  fastify.put<{ Params: IdParams; Body: Partial<ImportProfileData> }>(
+    '/import-profiles/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Update an import profile',
+        description:
+          'Change some or all of an import profile. The resulting mapping must still be valid.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Import profile ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            delimiter: { type: 'string', minLength: 1, maxLength: 1 },
+            hasHeader: { type: 'boolean' },
+            dateColumn: { type: 'string', minLength: 1 },
+            descriptionColumn: { type: 'string', minLength: 1 },
+            amountColumn: { type: 'string', minLength: 1, nullable: true },
+            debitColumn: { type: 'string', minLength: 1, nullable: true },
+            creditColumn: { type: 'string', minLength: 1, nullable: true },
+            amountSign: { type: 'string', enum: Object.values(ImportAmountSign) },
+            dateFormat: { type: 'string', minLength: 1 },
+            decimalSeparator: { type: 'string', enum: ['.', ','] },
+            currency: { type: 'string', pattern: '^[A-Z]{3}$', nullable: true },
+          },
+        },
+        response: {
+          200: {
+            description: 'Import profile updated successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              delimiter: { type: 'string' },
+              hasHeader: { type: 'boolean' },
+              dateColumn: { type: 'string' },
+              descriptionColumn: { type: 'string' },
+              amountColumn: { type: 'string', nullable: true },
+              debitColumn: { type: 'string', nullable: true },
+              creditColumn: { type: 'string', nullable: true },
+              amountSign: { type: 'string' },
+              dateFormat: { type: 'string' },
+              decimalSeparator: { type: 'string' },
+              currency: { type: 'string', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid profile ID, invalid profile or duplicate name',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Import profile not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid import profile ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getImportProfileById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Import profile not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        validateImportProfile({ ...existing, ...request.body });
+
+        return await updateImportProfile(id, request.body);
+      } catch (error: any) {
+        if (error instanceof Error && error.message.startsWith('Invalid import profile')) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (error.code === 'P2002') {
+          return reply.code(400).send({
+            message: 'An import profile with this name already exists',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error updating import profile:', error);
+        return reply.code(500).send({
+          message: 'Failed to update import profile',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /import-profiles/:id - Delete a column mapping profile
+  fastify.delete<{ Params: IdParams }>(
+    '/import-profiles/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Delete an import profile',
+        description: 'Delete an import profile. Imports made with it are kept.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Import profile ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Import profile deleted',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid import profile ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Import profile not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid import profile ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getImportProfileById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Import profile not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        await deleteImportProfile(id);
+
+        return { message: 'Import profile deleted successfully' };
+      } catch (error) {
+        fastify.log.error('Error deleting import profile:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete import profile',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /imports - Upload a bank statement and preview the import
+  fastify.post<{ Querystring: CreateImportQuery }>(
+    '/imports',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Preview a statement import',
+        description:
+          'Upload a bank statement CSV as multipart/form-data with a single file field. It is ' +
+          'read with the given import profile and stored as a pending import: nothing is created ' +
+          'until it is committed. Each row gets a parse error, the ID of an existing expense it ' +
+          'probably duplicates (same amount, a date within 3 days and a similar description) ' +
+          'and a suggested category. Money coming in is not imported.',
+        consumes: ['multipart/form-data'],
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          required: ['profileId'],
+          properties: {
+            profileId: { type: 'integer', description: 'Import profile to read the file with' },
+            groupId: { type: 'integer', description: 'Group to create the expenses in' },
+          },
+        },
+        response: {
+          201: {
+            description: 'Import previewed successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              status: { type: 'string' },
+              fileName: { type: 'string' },
+              currency: { type: 'string', nullable: true },
+              groupId: { type: 'integer', nullable: true },
+              profileId: { type: 'integer', nullable: true },
+              expenseCount: { type: 'integer' },
+              createdAt: { type: 'string', format: 'date-time' },
+              committedAt: { type: 'string', format: 'date-time', nullable: true },
+              undoneAt: { type: 'string', format: 'date-time', nullable: true },
+              summary: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  importable: { type: 'integer' },
+                  duplicates: { type: 'integer' },
+                  errors: { type: 'integer' },
+                },
+              },
+              rows: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    row: { type: 'integer' },
+                    date: { type: 'string', nullable: true },
+                    description: { type: 'string' },
+                    amount: { type: 'string', nullable: true },
+                    suggestedCategoryId: { type: 'integer', nullable: true },
+                    duplicateOfExpenseId: { type: 'integer', nullable: true },
+                    error: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'No file, or a file that cannot be read with the profile',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Import profile not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          413: {
+            description: 'File too large',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { profileId, groupId } = request.query;
+
+        const profile = await getImportProfileById(profileId);
+        if (!profile || profile.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Import profile not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (groupId && !(await isGroupMember(groupId, request.user!.id))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const file = await request.file();
+        if (!file) {
+          return reply.code(400).send({
+            message: 'No file uploaded',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const data = await file.toBuffer();
+        const batch = await previewImport(request.user!.id, profile, file.filename, data, groupId);
+        const rows = batch.rows as unknown as ImportRow[];
+
+        return reply.code(201).send({ ...batch, summary: summarizeImportRows(rows) });
+      } catch (error) {
+        if (error instanceof fastify.multipartErrors.RequestFileTooLargeError) {
+          return reply.code(413).send({
+            message: 'File is too large',
+            error: 'Payload Too Large',
+            statusCode: 413,
+          });
+        }
+
+        if (error instanceof fastify.multipartErrors.InvalidMultipartContentTypeError) {
+          return reply.code(400).send({
+            message: 'Upload the file as multipart/form-data',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (
+          error instanceof Error &&
+          (error.message.startsWith('Invalid CSV') ||
+            error.message.startsWith('Column') ||
+            error.message.startsWith('Statement has more than'))
+        ) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error previewing import:', error);
+        return reply.code(500).send({
+          message: 'Failed to preview import',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /imports - List the user's imports
+  fastify.get(
+    '/imports',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['imports'],
+        summary: 'List imports',
+        description: "List the current user's statement imports, newest first, without their rows",
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Imports retrieved successfully',
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                status: { type: 'string' },
+                fileName: { type: 'string' },
+                currency: { type: 'string', nullable: true },
+                groupId: { type: 'integer', nullable: true },
+                profileId: { type: 'integer', nullable: true },
+                expenseCount: { type: 'integer' },
+                createdAt: { type: 'string', format: 'date-time' },
+                committedAt: { type: 'string', format: 'date-time', nullable: true },
+                undoneAt: { type: 'string', format: 'date-time', nullable: true },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        return await getUserImportBatches(request.user!.id);
+      } catch (error) {
+        fastify.log.error('Error fetching imports:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch imports',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /imports/:id - Get an import with its preview rows
+  fastify.get<{ Params: IdParams }>(
+    '/imports/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Get an import',
+        description: 'Get an import with its preview rows and a summary of them',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Import ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Import retrieved successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              status: { type: 'string' },
+              fileName: { type: 'string' },
+              currency: { type: 'string', nullable: true },
+              groupId: { type: 'integer', nullable: true },
+              profileId: { type: 'integer', nullable: true },
+              expenseCount: { type: 'integer' },
+              createdAt: { type: 'string', format: 'date-time' },
+              committedAt: { type: 'string', format: 'date-time', nullable: true },
+              undoneAt: { type: 'string', format: 'date-time', nullable: true },
+              summary: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  importable: { type: 'integer' },
+                  duplicates: { type: 'integer' },
+                  errors: { type: 'integer' },
+                },
+              },
+              rows: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    row: { type: 'integer' },
+                    date: { type: 'string', nullable: true },
+                    description: { type: 'string' },
+                    amount: { type: 'string', nullable: true },
+                    suggestedCategoryId: { type: 'integer', nullable: true },
+                    duplicateOfExpenseId: { type: 'integer', nullable: true },
+                    error: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid import ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Import not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid import ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const batch = await getImportBatchById(id);
+        if (!batch || batch.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Import not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const rows = batch.rows as unknown as ImportRow[];
+        return { ...batch, summary: summarizeImportRows(rows) };
+      } catch (error) {
+        fastify.log.error('Error fetching import:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch import',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /imports/:id/commit - Create expenses from a previewed import
+  fastify.post<{ Params: IdParams; Body: CommitImportBody }>(
+    '/imports/:id/commit',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Commit an import',
+        description:
+          'Create expenses from a pending import in one go. By default every row without an ' +
+          'error or likely duplicate is imported; pass rows to choose them yourself (duplicates ' +
+          'included). Each expense gets the suggested category unless categories overrides it ' +
+          '(null for none). An import can only be committed once.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Import ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            rows: { type: 'array', items: { type: 'integer' }, uniqueItems: true },
+            categories: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['row', 'categoryId'],
+                properties: {
+                  row: { type: 'integer' },
+                  categoryId: { type: 'integer', nullable: true },
+                },
+              },
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'Import committed successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              status: { type: 'string' },
+              expenseCount: { type: 'integer' },
+              committedAt: { type: 'string', format: 'date-time', nullable: true },
+            },
+          },
+          400: {
+            description: 'Invalid import ID, row or category',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Import not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Import has already been committed or undone',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid import ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const batch = await getImportBatchById(id);
+        if (!batch || batch.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Import not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // The group may have been left since the preview
+        if (batch.groupId && !(await isGroupMember(batch.groupId, request.user!.id))) {
+          return reply.code(404).send({
+            message: 'Import not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const { rows, categories } = request.body ?? {};
+        return await commitImport(batch, {
+          rows,
+          categories:
+            categories &&
+            Object.fromEntries(categories.map(override => [override.row, override.categoryId])),
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('already been committed')) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        if (
+          error instanceof Error &&
+          (error.message.startsWith('Row') || error.message.startsWith('Category'))
+        ) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error committing import:', error);
+        return reply.code(500).send({
+          message: 'Failed to commit import',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /imports/:id/undo - Delete the expenses a committed import created
+  fastify.post<{ Params: IdParams }>(
+    '/imports/:id/undo',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['imports'],
+        summary: 'Undo an import',
+        description:
+          'Delete every expense a committed import created. Not possible once any of their ' +
+          'splits has been paid.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Import ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Import undone successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              status: { type: 'string' },
+              expenseCount: { type: 'integer' },
+              undoneAt: { type: 'string', format: 'date-time', nullable: true },
+            },
+          },
+          400: {
+            description: 'Invalid import ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Import not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Import is not committed or has paid splits',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid import ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const batch = await getImportBatchById(id);
+        if (!batch || batch.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Import not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        return await undoImportBatch(id);
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          (error.message.includes('can be undone') || error.message.includes('paid splits'))
+        ) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        fastify.log.error('Error undoing import:', error);
+        return reply.code(500).send({
+          message: 'Failed to undo import',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default importsRoute;
@@ -0,0 +1,484 @@
+import { FastifyPluginAsync } from 'fastify';
+import { getUserById, verifyCurrentPassword } from '../repositories/userRepo.js';
+import { createSession } from '../repositories/sessionRepo.js';
+import {
+  confirmMfaEnrollment,
+  disableMfa,
+  getMfaStatus,
+  regenerateRecoveryCodes,
+  startMfaEnrollment,
+  verifyMfaCode,
+} from '../repositories/mfaRepo.js';
+import { createAuthResponse, verifyMfaPendingToken } from '../utils/auth.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  getRequestMetadata,
+  requireUserSession,
+} from '../utils/middleware.js';
+import { buildOtpauthUri } from '../utils/totp.js';
+import {
+  checkLoginThrottle,
+  createThrottledResponse,
+  registerFailedLogin,
+  registerSuccessfulLogin,
+} from '../utils/loginProtection.js';
+
+interface MfaLoginBody {
+  mfaToken: string;
+  code: string;
+}
+
+interface MfaCodeBody {
+  code: string;
+}
+
+interface DisableMfaBody {
+  code: string;
+  password?: string;
+}
+
+const mfaRoute: FastifyPluginAsync = async fastify => {
+  // POST /auth/login/mfa - Complete login with a second factor
+  fastify.post<{ Body: MfaLoginBody }>(
+    '/auth/login/mfa',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Complete two-factor login',
+        description:
+          'Exchange the MFA pending token returned by login and a TOTP code (or an unused ' +
+          'recovery code) for an access token and refresh token',
+        body: {
+          type: 'object',
+          properties: {
+            mfaToken: { type: 'string', minLength: 1, description: 'MFA pending token' },
+            code: { type: 'string', minLength: 1, description: 'TOTP code or recovery code' },
+          },
+          required: ['mfaToken', 'code'],
+        },
+        response: {
+          200: {
+            description: 'Login successful',
+            type: 'object',
+            properties: {
+              user: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  email: { type: 'string' },
+                  name: { type: 'string' },
+                  username: { type: 'string' },
+                  provider: { type: 'string' },
+                  isEmailVerified: { type: 'boolean' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+              token: { type: 'string' },
+              refreshToken: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Invalid or expired MFA token, or invalid code',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          429: {
+            description: 'Too many failed attempts; retry after the given number of seconds',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+              retryAfter: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const userId = verifyMfaPendingToken(request.body.mfaToken);
+        if (!userId) {
+          return reply.code(401).send({
+            message: 'Invalid or expired MFA token',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        const user = await getUserById(userId);
+        if (!user || !user.isActive) {
+          return reply.code(401).send({
+            message: 'User not found or inactive',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        // Codes are short, so guessing them is throttled like passwords
+        const metadata = getRequestMetadata(request);
+        const throttle = await checkLoginThrottle(user.email, metadata);
+        if (throttle.blocked) {
+          return reply
+            .code(429)
+            .header('Retry-After', String(throttle.retryAfterSeconds))
+            .send(createThrottledResponse(throttle));
+        }
+
+        const method = await verifyMfaCode(user.id, request.body.code);
+        if (!method) {
+          await registerFailedLogin(user.email, metadata, user.id, 'invalid_mfa_code');
+          return reply.code(401).send({
+            message: 'Invalid verification code',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        await registerSuccessfulLogin(user.id, user.email, metadata, method);
+
+        const session = await createSession(user.id, metadata);
+        return createAuthResponse(user, session);
+      } catch (error) {
+        fastify.log.error('Error completing MFA login:', error);
+        return reply.code(500).send({
+          message: 'Failed to login',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /users/me/mfa - Get two-factor authentication status
+  fastify.get(
+    '/users/me/mfa',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Get two-factor authentication status',
+        description: 'Check whether TOTP two-factor authentication is enabled',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Two-factor authentication status',
+            type: 'object',
+            properties: {
+              enabled: { type: 'boolean' },
+              enabledAt: { type: 'string', format: 'date-time', nullable: true },
+              recoveryCodesRemaining: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        return await getMfaStatus(request.user!.id);
+      } catch (error) {
+        fastify.log.error('Error fetching MFA status:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch two-factor authentication status',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /users/me/mfa/enroll - Start TOTP enrollment
+  fastify.post(
+    '/users/me/mfa/enroll',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Start two-factor enrollment',
+        description:
+          'Generate a new TOTP secret and otpauth URI for an authenticator app. ' +
+          'Two-factor authentication stays off until confirmed with a code.',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Enrollment started',
+            type: 'object',
+            properties: {
+              secret: { type: 'string' },
+              otpauthUri: { type: 'string' },
+            },
+          },
+          409: {
+            description: 'Two-factor authentication is already enabled',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const secret = await startMfaEnrollment(request.user!.id);
+        return { secret, otpauthUri: buildOtpauthUri(secret, request.user!.email) };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('already enabled')) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        fastify.log.error('Error starting MFA enrollment:', error);
+        return reply.code(500).send({
+          message: 'Failed to start two-factor enrollment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /users/me/mfa/confirm - Confirm TOTP enrollment
+  fastify.post<{ Body: MfaCodeBody }>(
+    '/users/me/mfa/confirm',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Confirm two-factor enrollment',
+        description:
+          'Enable two-factor authentication with a code from the authenticator app. ' +
+          'Returns one-time recovery codes, which are only shown once.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 1, description: 'TOTP code' },
+          },
+          required: ['code'],
+        },
+        response: {
+          200: {
+            description: 'Two-factor authentication enabled',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              recoveryCodes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          400: {
+            description: 'Invalid code or enrollment not started',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'Two-factor authentication is already enabled',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const recoveryCodes = await confirmMfaEnrollment(request.user!.id, request.body.code);
+        return { message: 'Two-factor authentication enabled', recoveryCodes };
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes('already enabled')) {
+            return reply.code(409).send({
+              message: error.message,
+              error: 'Conflict',
+              statusCode: 409,
+            });
+          }
+
+          if (
+            error.message.includes('Invalid verification code') ||
+            error.message.includes('enrollment not started')
+          ) {
+            return reply.code(400).send({
+              message: error.message,
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+        }
+
+        fastify.log.error('Error confirming MFA enrollment:', error);
+        return reply.code(500).send({
+          message: 'Failed to confirm two-factor enrollment',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /users/me/mfa/recovery-codes - Regenerate recovery codes
+  fastify.post<{ Body: MfaCodeBody }>(
+    '/users/me/mfa/recovery-codes',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Regenerate recovery codes',
+        description:
+          'Replace all recovery codes with a new set. Requires a current TOTP code; ' +
+          'the old codes stop working immediately.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 1, description: 'TOTP code' },
+          },
+          required: ['code'],
+        },
+        response: {
+          200: {
+            description: 'Recovery codes regenerated',
+            type: 'object',
+            properties: {
+              recoveryCodes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          400: {
+            description: 'Invalid code or two-factor authentication not enabled',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.id;
+
+        // Recovery codes cannot be used to mint new recovery codes
+        if ((await verifyMfaCode(userId, request.body.code)) !== 'totp') {
+          return reply.code(400).send({
+            message: 'Invalid verification code',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        return { recoveryCodes: await regenerateRecoveryCodes(userId) };
+      } catch (error) {
+        fastify.log.error('Error regenerating recovery codes:', error);
+        return reply.code(500).send({
+          message: 'Failed to regenerate recovery codes',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /users/me/mfa - Disable two-factor authentication
+  fastify.delete<{ Body: DisableMfaBody }>(
+    '/users/me/mfa',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Disable two-factor authentication',
+        description:
+          'Turn off two-factor authentication. Requires a TOTP or recovery code, and the ' +
+          'current password for accounts that have one.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 1, description: 'TOTP code or recovery code' },
+            password: { type: 'string', description: 'Current password' },
+          },
+          required: ['code'],
+        },
+        response: {
+          200: {
+            description: 'Two-factor authentication disabled',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid code',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          401: {
+            description: 'Current password is incorrect',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.id;
+        const user = await getUserById(userId);
+
+        if (user?.password && !(await verifyCurrentPassword(userId, request.body.password || ''))) {
+          return reply.code(401).send({
+            message: 'Current password is incorrect',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        if (!(await verifyMfaCode(userId, request.body.code))) {
+          return reply.code(400).send({
+            message: 'Invalid verification code',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        await disableMfa(userId);
+        return { message: 'Two-factor authentication disabled' };
+      } catch (error) {
+        fastify.log.error('Error disabling MFA:', error);
+        return reply.code(500).send({
+          message: 'Failed to disable two-factor authentication',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default mfaRoute;
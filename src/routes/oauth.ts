@@ -0,0 +1,599 @@
+import { FastifyPluginAsync } from 'fastify';
+import { SecurityEventType } from '@prisma/client';
+import {
+  findOrCreateOAuthUser,
+  getUserById,
+  getUserByProvider,
+  linkProvider,
+  unlinkProvider,
+} from '../repositories/userRepo.js';
+import { createOAuthState, consumeOAuthState } from '../repositories/oauthStateRepo.js';
+import { createSession } from '../repositories/sessionRepo.js';
+import { isMfaEnabled } from '../repositories/mfaRepo.js';
+import { recordSecurityEvent } from '../repositories/securityEventRepo.js';
+import { createAuthResponse, createMfaChallenge, toSafeUser } from '../utils/auth.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  getRequestMetadata,
+  requireUserSession,
+} from '../utils/middleware.js';
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  generateRandomValue,
+  getEnabledProviders,
+  getProviderConfig,
+  verifyIdToken,
+} from '../utils/oidc.js';
+
+interface ProviderParams {
+  provider: string;
+}
+
+interface CallbackQuery {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+const oauthRoute: FastifyPluginAsync = async fastify => {
+  // GET /auth/oauth/providers - List configured sign-in providers
+  fastify.get(
+    '/auth/oauth/providers',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'List OAuth providers',
+        description: 'List the OpenID Connect providers that can be used to sign in',
+        response: {
+          200: {
+            description: 'Configured providers',
+            type: 'object',
+            properties: {
+              providers: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    async () => {
+      return {
+        providers: getEnabledProviders().filter(name => getProviderConfig(name) !== null),
+      };
+    }
+  );
+
+  // GET /auth/oauth/:provider/start - Begin sign-in with a provider
+  fastify.get<{ Params: ProviderParams }>(
+    '/auth/oauth/:provider/start',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Start OAuth sign-in',
+        description:
+          'Start an OpenID Connect authorization code flow (with PKCE) and return the ' +
+          'provider URL to send the user to',
+        params: {
+          type: 'object',
+          properties: {
+            provider: {
+              type: 'string',
+              description: 'Provider name as configured in OAUTH_PROVIDERS',
+            },
+          },
+          required: ['provider'],
+        },
+        response: {
+          200: {
+            description: 'Authorization URL to send the user to',
+            type: 'object',
+            properties: {
+              authorizationUrl: { type: 'string' },
+              expiresAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: {
+            description: 'Unknown OAuth provider',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const config = getProviderConfig(request.params.provider);
+        if (!config) {
+          return reply.code(404).send({
+            message: 'Unknown OAuth provider',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const discovery = await discoverProvider(config);
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const nonce = generateRandomValue();
+        const { state, expiresAt } = await createOAuthState({
+          provider: config.name,
+          codeVerifier,
+          nonce,
+        });
+
+        return {
+          authorizationUrl: buildAuthorizationUrl(config, discovery, {
+            state,
+            nonce,
+            codeChallenge,
+          }),
+          expiresAt,
+        };
+      } catch (error) {
+        fastify.log.error('Error starting OAuth sign-in:', error);
+        return reply.code(502).send({
+          message: 'Failed to contact OAuth provider',
+          error: 'Bad Gateway',
+          statusCode: 502,
+        });
+      }
+    }
+  );
+
+  // POST /auth/oauth/:provider/link - Begin linking a provider to the current account
+  fastify.post<{ Params: ProviderParams }>(
+    '/auth/oauth/:provider/link',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['auth'],
+        summary: 'Start OAuth provider linking',
+        description:
+          'Start an OpenID Connect authorization code flow that links the provider ' +
+          'to the authenticated account once the callback completes',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            provider: {
+              type: 'string',
+              description: 'Provider name as configured in OAUTH_PROVIDERS',
+            },
+          },
+          required: ['provider'],
+        },
+        response: {
+          200: {
+            description: 'Authorization URL to send the user to',
+            type: 'object',
+            properties: {
+              authorizationUrl: { type: 'string' },
+              expiresAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: {
+            description: 'Unknown OAuth provider',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const config = getProviderConfig(request.params.provider);
+        if (!config) {
+          return reply.code(404).send({
+            message: 'Unknown OAuth provider',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const discovery = await discoverProvider(config);
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const nonce = generateRandomValue();
+        const { state, expiresAt } = await createOAuthState({
+          provider: config.name,
+          codeVerifier,
+          nonce,
+          userId: request.user!.id,
+        });
+
+        return {
+          authorizationUrl: buildAuthorizationUrl(config, discovery, {
+            state,
+            nonce,
+            codeChallenge,
+          }),
+          expiresAt,
+        };
+      } catch (error) {
+        fastify.log.error('Error starting OAuth linking:', error);
+        return reply.code(502).send({
+          message: 'Failed to contact OAuth provider',
+          error: 'Bad Gateway',
+          statusCode: 502,
+        });
+      }
+    }
+  );
+
+  // GET /auth/oauth/:provider/callback - Complete sign-in or linking
+  fastify.get<{ Params: ProviderParams; Querystring: CallbackQuery }>(
+    '/auth/oauth/:provider/callback',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'OAuth callback',
+        description:
+          'Redirect target for the provider. Exchanges the authorization code, verifies the ' +
+          'ID token and either signs the user in (creating or linking an account by verified ' +
+          'email) or links the provider to the account that started the flow. Accounts whose ' +
+          'own email is not verified are only linked from the account itself.',
+        params: {
+          type: 'object',
+          properties: {
+            provider: {
+              type: 'string',
+              description: 'Provider name as configured in OAUTH_PROVIDERS',
+            },
+          },
+          required: ['provider'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            code: { type: 'string' },
+            state: { type: 'string' },
+            error: { type: 'string' },
+            error_description: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            description:
+              'Signed in (token pair), MFA challenge, or provider linked (linkedProvider)',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              linkedProvider: {
+                type: 'string',
+                description: 'Provider that was linked; only set by the linking flow',
+              },
+              user: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  email: { type: 'string' },
+                  name: { type: 'string' },
+                  username: { type: 'string', nullable: true },
+                  provider: { type: 'string' },
+                  isEmailVerified: { type: 'boolean' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+              token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              mfaRequired: { type: 'boolean' },
+              mfaToken: { type: 'string' },
+              expiresIn: { type: 'integer' },
+            },
+          },
+          400: {
+            description: 'Provider error, missing parameters, invalid state or unusable email',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          401: {
+            description: 'Invalid ID token or inactive user',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Unknown OAuth provider',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description:
+              'Provider identity is already linked elsewhere, or an account with an ' +
+              'unverified email must link it itself',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { code, state } = request.query;
+
+      const config = getProviderConfig(request.params.provider);
+      if (!config) {
+        return reply.code(404).send({
+          message: 'Unknown OAuth provider',
+          error: 'Not Found',
+          statusCode: 404,
+        });
+      }
+
+      if (request.query.error) {
+        return reply.code(400).send({
+          message: `OAuth provider returned an error: ${
+            request.query.error_description || request.query.error
+          }`,
+          error: 'Bad Request',
+          statusCode: 400,
+        });
+      }
+
+      if (!code || !state) {
+        return reply.code(400).send({
+          message: 'Missing code or state',
+          error: 'Bad Request',
+          statusCode: 400,
+        });
+      }
+
+      try {
+        const pending = await consumeOAuthState(state, config.name);
+        const discovery = await discoverProvider(config);
+        const idToken = await exchangeAuthorizationCode(
+          config,
+          discovery,
+          code,
+          pending.codeVerifier
+        );
+        const identity = await verifyIdToken(config, discovery, idToken, pending.nonce);
+
+        // Linking flow started by an authenticated user
+        if (pending.userId) {
+          const owner = await getUserByProvider(config.name, identity.subject);
+          if (owner && owner.id !== pending.userId) {
+            return reply.code(409).send({
+              message: 'This provider account is already linked to another user',
+              error: 'Conflict',
+              statusCode: 409,
+            });
+          }
+
+          const user = await getUserById(pending.userId);
+          if (!user || !user.isActive) {
+            return reply.code(401).send({
+              message: 'User not found or inactive',
+              error: 'Unauthorized',
+              statusCode: 401,
+            });
+          }
+
+          if (user.providerId && user.providerId !== identity.subject) {
+            return reply.code(409).send({
+              message: 'Account is already linked to another provider',
+              error: 'Conflict',
+              statusCode: 409,
+            });
+          }
+
+          const linked = await linkProvider(user.id, config.name, identity.subject);
+          return {
+            message: 'Provider linked successfully',
+            linkedProvider: config.name,
+            user: toSafeUser(linked),
+          };
+        }
+
+        const user = await findOrCreateOAuthUser({
+          provider: config.name,
+          providerId: identity.subject,
+          email: identity.email,
+          emailVerified: identity.emailVerified,
+          name: identity.name,
+          avatar: identity.picture,
+        });
+
+        if (!user.isActive) {
+          return reply.code(401).send({
+            message: 'Account is deactivated',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        if (await isMfaEnabled(user.id)) {
+          return createMfaChallenge(user);
+        }
+
+        const metadata = getRequestMetadata(request);
+        await recordSecurityEvent(user.id, SecurityEventType.LOGIN_SUCCEEDED, {
+          ...metadata,
+          detail: `oauth:${config.name}`,
+        });
+
+        const session = await createSession(user.id, metadata);
+        return createAuthResponse(user, session);
+      } catch (error) {
+        if (error instanceof Error) {
+          if (
+            error.message.includes('Invalid or expired OAuth state') ||
+            error.message.includes('did not return an email address') ||
+            error.message.includes('email address is not verified')
+          ) {
+            return reply.code(400).send({
+              message: error.message,
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+
+          if (error.message.includes('Invalid ID token')) {
+            return reply.code(401).send({
+              message: error.message,
+              error: 'Unauthorized',
+              statusCode: 401,
+            });
+          }
+
+          if (
+            error.message.includes('already linked to another provider') ||
+            error.message.includes('sign in to it and link the provider')
+          ) {
+            return reply.code(409).send({
+              message: error.message,
+              error: 'Conflict',
+              statusCode: 409,
+            });
+          }
+
+          if (error.message.includes('OIDC')) {
+            fastify.log.error('Error contacting OAuth provider:', error);
+            return reply.code(502).send({
+              message: 'Failed to complete sign-in with OAuth provider',
+              error: 'Bad Gateway',
+              statusCode: 502,
+            });
+          }
+        }
+
+        fastify.log.error('Error completing OAuth sign-in:', error);
+        return reply.code(500).send({
+          message: 'Failed to complete OAuth sign-in',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /auth/oauth/:provider/link - Unlink a provider from the current account
+  fastify.delete<{ Params: ProviderParams }>(
+    '/auth/oauth/:provider/link',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['auth'],
+        summary: 'Unlink OAuth provider',
+        description:
+          'Unlink the provider from the authenticated account. The account must have a ' +
+          'password so that it can still be signed in to.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            provider: {
+              type: 'string',
+              description: 'Provider name as configured in OAUTH_PROVIDERS',
+            },
+          },
+          required: ['provider'],
+        },
+        response: {
+          200: {
+            description: 'Provider unlinked successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              user: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  email: { type: 'string' },
+                  name: { type: 'string' },
+                  username: { type: 'string' },
+                  provider: { type: 'string' },
+                  isEmailVerified: { type: 'boolean' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Account has no password to fall back to',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Provider is not linked to this account',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = await getUserById(request.user!.id);
+        if (!user) {
+          return reply.code(404).send({
+            message: 'User not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (user.provider !== request.params.provider || !user.providerId) {
+          return reply.code(404).send({
+            message: 'Provider is not linked to this account',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (!user.password) {
+          return reply.code(400).send({
+            message:
+              'Set a password (via password reset) before unlinking your only sign-in method',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const unlinked = await unlinkProvider(user.id);
+        return { message: 'Provider unlinked successfully', user: toSafeUser(unlinked) };
+      } catch (error) {
+        fastify.log.error('Error unlinking OAuth provider:', error);
+        return reply.code(500).send({
+          message: 'Failed to unlink provider',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default oauthRoute;
@@ -0,0 +1,1109 @@
+import { FastifyPluginAsync } from 'fastify';
+import { SplitType } from '@prisma/client';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { areGroupMembers, isGroupMember } from '../repositories/groupRepo.js';
+import {
+  createRecurringExpense,
+  deleteRecurringExpense,
+  getRecurringExpenseById,
+  getUserRecurringExpenses,
+  pauseRecurringExpense,
+  RecurringSplitParticipant,
+  resumeRecurringExpense,
+  skipNextOccurrence,
+  updateRecurringExpense,
+} from '../repositories/recurringExpenseRepo.js';
+
+interface RecurringExpenseParams {
+  id: string;
+}
+
+interface RecurringExpenseQuery {
+  groupId?: number;
+}
+
+interface SplitTemplateBody {
+  splitType: SplitType;
+  participants: RecurringSplitParticipant[];
+}
+
+interface CreateRecurringExpenseBody {
+  title: string;
+  description?: string;
+  amount: number;
+  currency?: string;
+  groupId?: number;
+  categoryId?: number;
+  schedule: string;
+  startDate: string;
+  endDate?: string;
+  maxOccurrences?: number;
+  split?: SplitTemplateBody;
+}
+
+interface UpdateRecurringExpenseBody {
+  title?: string;
+  description?: string;
+  amount?: number;
+  currency?: string;
+  categoryId?: number;
+  schedule?: string;
+  startDate?: string;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
+  split?: SplitTemplateBody | null;
+}
+
+const recurringExpensesRoute: FastifyPluginAsync = async fastify => {
+  // GET /recurring-expenses - List user's recurring expenses
+  fastify.get<{ Querystring: RecurringExpenseQuery }>(
+    '/recurring-expenses',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'List recurring expenses',
+        description:
+          'List the recurring expenses created by the authenticated user, soonest next occurrence first',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'integer', description: 'Only recurring expenses of this group' },
+          },
+        },
+        response: {
+          200: {
+            description: 'List of recurring expenses',
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                title: { type: 'string' },
+                description: { type: 'string', nullable: true },
+                amount: { type: 'number' },
+                currency: { type: 'string', nullable: true },
+                schedule: { type: 'string' },
+                startDate: { type: 'string', format: 'date-time' },
+                endDate: { type: 'string', format: 'date-time', nullable: true },
+                maxOccurrences: { type: 'integer', nullable: true },
+                occurrenceCount: { type: 'integer' },
+                nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+                isPaused: { type: 'boolean' },
+                splitType: { type: 'string', nullable: true },
+                splitParticipants: {
+                  type: 'array',
+                  nullable: true,
+                  items: {
+                    type: 'object',
+                    properties: {
+                      userId: { type: 'integer' },
+                      amount: { type: 'number' },
+                      percentage: { type: 'number' },
+                    },
+                  },
+                },
+                lastError: { type: 'string', nullable: true },
+                userId: { type: 'integer' },
+                groupId: { type: 'integer', nullable: true },
+                categoryId: { type: 'integer', nullable: true },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const recurringExpenses = await getUserRecurringExpenses(
+          request.user!.id,
+          request.query.groupId
+        );
+
+        // Convert Decimal amounts to numbers for JSON response
+        return recurringExpenses.map(recurringExpense => ({
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        }));
+      } catch (error) {
+        fastify.log.error('Error fetching recurring expenses:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch recurring expenses',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /recurring-expenses/:id - Get a recurring expense
+  fastify.get<{ Params: RecurringExpenseParams }>(
+    '/recurring-expenses/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Get a recurring expense',
+        description: 'Get a recurring expense by its ID (only accessible by its creator)',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Recurring expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Recurring expense details',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              title: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              amount: { type: 'number' },
+              currency: { type: 'string', nullable: true },
+              schedule: { type: 'string' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time', nullable: true },
+              maxOccurrences: { type: 'integer', nullable: true },
+              occurrenceCount: { type: 'integer' },
+              nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+              isPaused: { type: 'boolean' },
+              splitType: { type: 'string', nullable: true },
+              splitParticipants: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                    percentage: { type: 'number' },
+                  },
+                },
+              },
+              lastError: { type: 'string', nullable: true },
+              userId: { type: 'integer' },
+              groupId: { type: 'integer', nullable: true },
+              categoryId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid recurring expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Recurring expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid recurring expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const recurringExpense = await getRecurringExpenseById(id);
+        if (!recurringExpense || recurringExpense.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Recurring expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        // Convert Decimal amounts to numbers for JSON response
+        return {
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        };
+      } catch (error) {
+        fastify.log.error('Error fetching recurring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch recurring expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /recurring-expenses - Create a recurring expense
+  fastify.post<{ Body: CreateRecurringExpenseBody }>(
+    '/recurring-expenses',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Create a recurring expense',
+        description:
+          'Define an expense that is created automatically on a schedule, optionally split using a ' +
+          'stored template. Occurrences from startDate on are created, including ones already past, ' +
+          'until endDate or maxOccurrences is reached.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            amount: { type: 'number', exclusiveMinimum: 0 },
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description:
+                'ISO 4217 currency code (defaults to the group or user default currency)',
+            },
+            groupId: { type: 'integer', description: 'Group ID (optional, for group expenses)' },
+            categoryId: { type: 'integer' },
+            schedule: {
+              type: 'string',
+              description:
+                'RRULE (e.g. FREQ=MONTHLY;BYMONTHDAY=1) or 5-field cron expression (e.g. 0 9 1 * *), in UTC',
+            },
+            startDate: { type: 'string', format: 'date-time' },
+            endDate: { type: 'string', format: 'date-time' },
+            maxOccurrences: { type: 'integer', minimum: 1 },
+            split: {
+              type: 'object',
+              description: 'Split template applied to every created expense',
+              properties: {
+                splitType: { type: 'string', enum: ['EQUAL', 'AMOUNT', 'PERCENTAGE'] },
+                participants: {
+                  type: 'array',
+                  minItems: 1,
+                  items: {
+                    type: 'object',
+                    properties: {
+                      userId: { type: 'integer' },
+                      amount: { type: 'number', description: 'Amount for AMOUNT splits' },
+                      percentage: {
+                        type: 'number',
+                        description: 'Percentage for PERCENTAGE splits',
+                      },
+                    },
+                    required: ['userId'],
+                  },
+                },
+              },
+              required: ['splitType', 'participants'],
+            },
+          },
+          required: ['title', 'amount', 'schedule', 'startDate'],
+        },
+        response: {
+          201: {
+            description: 'Recurring expense created',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              title: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              amount: { type: 'number' },
+              currency: { type: 'string', nullable: true },
+              schedule: { type: 'string' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time', nullable: true },
+              maxOccurrences: { type: 'integer', nullable: true },
+              occurrenceCount: { type: 'integer' },
+              nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+              isPaused: { type: 'boolean' },
+              splitType: { type: 'string', nullable: true },
+              splitParticipants: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                    percentage: { type: 'number' },
+                  },
+                },
+              },
+              lastError: { type: 'string', nullable: true },
+              userId: { type: 'integer' },
+              groupId: { type: 'integer', nullable: true },
+              categoryId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Validation error',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not authorized to add expenses to the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { startDate, endDate, split, ...rest } = request.body;
+
+        if (endDate && new Date(endDate) < new Date(startDate)) {
+          return reply.code(400).send({
+            message: 'endDate must not be before startDate',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (rest.groupId) {
+          const isMember = await isGroupMember(rest.groupId, request.user!.id);
+          if (!isMember) {
+            return reply.code(403).send({
+              message: 'You are not a member of this group',
+              error: 'Forbidden',
+              statusCode: 403,
+            });
+          }
+
+          if (
+            split &&
+            !(await areGroupMembers(
+              rest.groupId,
+              split.participants.map(participant => participant.userId)
+            ))
+          ) {
+            return reply.code(400).send({
+              message: 'All split participants must be members of the group',
+              error: 'Bad Request',
+              statusCode: 400,
+            });
+          }
+        }
+
+        const recurringExpense = await createRecurringExpense({
+          ...rest,
+          userId: request.user!.id,
+          startDate: new Date(startDate),
+          endDate: endDate ? new Date(endDate) : undefined,
+          split,
+        });
+
+        return reply.code(201).send({
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        });
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          (error.message.startsWith('Invalid schedule') ||
+            error.message.startsWith('Schedule has no occurrences') ||
+            error.message.includes('participant') ||
+            error.message.includes('must equal expense amount') ||
+            error.message.includes('must total 100%'))
+        ) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error creating recurring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to create recurring expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /recurring-expenses/:id - Edit future occurrences
+  fastify.put<{ Params: RecurringExpenseParams; Body: UpdateRecurringExpenseBody }>(
+    '/recurring-expenses/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Edit a recurring expense',
+        description:
+          'Change the recurring expense for all future occurrences. Expenses already created are not ' +
+          'changed. A new schedule or start date takes effect from now; set endDate, maxOccurrences ' +
+          'or split to null to remove them.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Recurring expense ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            amount: { type: 'number', exclusiveMinimum: 0 },
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description:
+                'ISO 4217 currency code (defaults to the group or user default currency)',
+            },
+            categoryId: { type: 'integer' },
+            schedule: {
+              type: 'string',
+              description:
+                'RRULE (e.g. FREQ=MONTHLY;BYMONTHDAY=1) or 5-field cron expression (e.g. 0 9 1 * *), in UTC',
+            },
+            startDate: { type: 'string', format: 'date-time' },
+            endDate: { type: 'string', format: 'date-time', nullable: true },
+            maxOccurrences: { type: 'integer', minimum: 1, nullable: true },
+            split: {
+              type: 'object',
+              nullable: true,
+              description: 'Split template applied to every created expense',
+              properties: {
+                splitType: { type: 'string', enum: ['EQUAL', 'AMOUNT', 'PERCENTAGE'] },
+                participants: {
+                  type: 'array',
+                  minItems: 1,
+                  items: {
+                    type: 'object',
+                    properties: {
+                      userId: { type: 'integer' },
+                      amount: { type: 'number', description: 'Amount for AMOUNT splits' },
+                      percentage: {
+                        type: 'number',
+                        description: 'Percentage for PERCENTAGE splits',
+                      },
+                    },
+                    required: ['userId'],
+                  },
+                },
+              },
+              required: ['splitType', 'participants'],
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'Recurring expense updated',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              title: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              amount: { type: 'number' },
+              currency: { type: 'string', nullable: true },
+              schedule: { type: 'string' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time', nullable: true },
+              maxOccurrences: { type: 'integer', nullable: true },
+              occurrenceCount: { type: 'integer' },
+              nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+              isPaused: { type: 'boolean' },
+              splitType: { type: 'string', nullable: true },
+              splitParticipants: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                    percentage: { type: 'number' },
+                  },
+                },
+              },
+              lastError: { type: 'string', nullable: true },
+              userId: { type: 'integer' },
+              groupId: { type: 'integer', nullable: true },
+              categoryId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Validation error',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Recurring expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid recurring expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getRecurringExpenseById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Recurring expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const { startDate, endDate, split, ...rest } = request.body;
+        const newStartDate = startDate ? new Date(startDate) : existing.startDate;
+        const newEndDate =
+          endDate !== undefined ? (endDate ? new Date(endDate) : null) : existing.endDate;
+
+        if (newEndDate && newEndDate < newStartDate) {
+          return reply.code(400).send({
+            message: 'endDate must not be before startDate',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        if (
+          existing.groupId &&
+          split &&
+          !(await areGroupMembers(
+            existing.groupId,
+            split.participants.map(participant => participant.userId)
+          ))
+        ) {
+          return reply.code(400).send({
+            message: 'All split participants must be members of the group',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const recurringExpense = await updateRecurringExpense(id, {
+          ...rest,
+          ...(startDate && { startDate: newStartDate }),
+          ...(endDate !== undefined && { endDate: newEndDate }),
+          split,
+        });
+
+        return {
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        };
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          (error.message.startsWith('Invalid schedule') ||
+            error.message.startsWith('Schedule has no occurrences') ||
+            error.message.includes('participant') ||
+            error.message.includes('must equal expense amount') ||
+            error.message.includes('must total 100%'))
+        ) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error updating recurring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to update recurring expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /recurring-expenses/:id - Stop a recurring expense
+  fastify.delete<{ Params: RecurringExpenseParams }>(
+    '/recurring-expenses/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Delete a recurring expense',
+        description:
+          'Stop creating occurrences and remove the recurring expense. Expenses it created are kept.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Recurring expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Recurring expense deleted',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid recurring expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Recurring expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid recurring expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getRecurringExpenseById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Recurring expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        await deleteRecurringExpense(id);
+
+        return { message: 'Recurring expense deleted successfully' };
+      } catch (error) {
+        fastify.log.error('Error deleting recurring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete recurring expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /recurring-expenses/:id/pause - Pause a recurring expense
+  fastify.post<{ Params: RecurringExpenseParams }>(
+    '/recurring-expenses/:id/pause',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Pause a recurring expense',
+        description: 'Stop creating occurrences until the recurring expense is resumed',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Recurring expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Recurring expense paused',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              title: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              amount: { type: 'number' },
+              currency: { type: 'string', nullable: true },
+              schedule: { type: 'string' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time', nullable: true },
+              maxOccurrences: { type: 'integer', nullable: true },
+              occurrenceCount: { type: 'integer' },
+              nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+              isPaused: { type: 'boolean' },
+              splitType: { type: 'string', nullable: true },
+              splitParticipants: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                    percentage: { type: 'number' },
+                  },
+                },
+              },
+              lastError: { type: 'string', nullable: true },
+              userId: { type: 'integer' },
+              groupId: { type: 'integer', nullable: true },
+              categoryId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid recurring expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Recurring expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid recurring expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getRecurringExpenseById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Recurring expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const recurringExpense = await pauseRecurringExpense(id);
+
+        return {
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        };
+      } catch (error) {
+        fastify.log.error('Error pausing recurring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to pause recurring expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /recurring-expenses/:id/resume - Resume a recurring expense
+  fastify.post<{ Params: RecurringExpenseParams }>(
+    '/recurring-expenses/:id/resume',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Resume a recurring expense',
+        description:
+          'Start creating occurrences again. Occurrences that fell due while paused are not created.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Recurring expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Recurring expense resumed',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              title: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              amount: { type: 'number' },
+              currency: { type: 'string', nullable: true },
+              schedule: { type: 'string' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time', nullable: true },
+              maxOccurrences: { type: 'integer', nullable: true },
+              occurrenceCount: { type: 'integer' },
+              nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+              isPaused: { type: 'boolean' },
+              splitType: { type: 'string', nullable: true },
+              splitParticipants: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                    percentage: { type: 'number' },
+                  },
+                },
+              },
+              lastError: { type: 'string', nullable: true },
+              userId: { type: 'integer' },
+              groupId: { type: 'integer', nullable: true },
+              categoryId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid recurring expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Recurring expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid recurring expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getRecurringExpenseById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Recurring expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const recurringExpense = await resumeRecurringExpense(id);
+
+        return {
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        };
+      } catch (error) {
+        fastify.log.error('Error resuming recurring expense:', error);
+        return reply.code(500).send({
+          message: 'Failed to resume recurring expense',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /recurring-expenses/:id/skip - Skip the next occurrence
+  fastify.post<{ Params: RecurringExpenseParams }>(
+    '/recurring-expenses/:id/skip',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['recurring-expenses'],
+        summary: 'Skip the next occurrence',
+        description:
+          'Move past the next occurrence without creating an expense. Skipped occurrences count ' +
+          'towards maxOccurrences.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Recurring expense ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Next occurrence skipped',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              title: { type: 'string' },
+              description: { type: 'string', nullable: true },
+              amount: { type: 'number' },
+              currency: { type: 'string', nullable: true },
+              schedule: { type: 'string' },
+              startDate: { type: 'string', format: 'date-time' },
+              endDate: { type: 'string', format: 'date-time', nullable: true },
+              maxOccurrences: { type: 'integer', nullable: true },
+              occurrenceCount: { type: 'integer' },
+              nextRunAt: { type: 'string', format: 'date-time', nullable: true },
+              isPaused: { type: 'boolean' },
+              splitType: { type: 'string', nullable: true },
+              splitParticipants: {
+                type: 'array',
+                nullable: true,
+                items: {
+                  type: 'object',
+                  properties: {
+                    userId: { type: 'integer' },
+                    amount: { type: 'number' },
+                    percentage: { type: 'number' },
+                  },
+                },
+              },
+              lastError: { type: 'string', nullable: true },
+              userId: { type: 'integer' },
+              groupId: { type: 'integer', nullable: true },
+              categoryId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid recurring expense ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Recurring expense not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          409: {
+            description: 'No upcoming occurrence to skip',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid recurring expense ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getRecurringExpenseById(id);
+        if (!existing || existing.userId !== request.user!.id) {
+          return reply.code(404).send({
+            message: 'Recurring expense not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        const recurringExpense = await skipNextOccurrence(id);
+
+        return {
+          ...recurringExpense,
+          amount: recurringExpense.amount.toNumber(),
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('no upcoming occurrence')) {
+          return reply.code(409).send({
+            message: error.message,
+            error: 'Conflict',
+            statusCode: 409,
+          });
+        }
+
+        fastify.log.error('Error skipping recurring expense occurrence:', error);
+        return reply.code(500).send({
+          message: 'Failed to skip occurrence',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default recurringExpensesRoute;
@@ -0,0 +1,81 @@
+import { FastifyPluginAsync } from 'fastify';
+import { listSecurityEvents } from '../repositories/securityEventRepo.js';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+
+interface SecurityEventsQuery {
+  limit?: number;
+  offset?: number;
+}
+
+const securityEventsRoute: FastifyPluginAsync = async fastify => {
+  // GET /users/me/security-events - List the account's security events
+  fastify.get<{ Querystring: SecurityEventsQuery }>(
+    '/users/me/security-events',
+    {
+      preHandler: [authenticate, requireScope('profile:read')],
+      schema: {
+        tags: ['users'],
+        summary: 'List security events',
+        description:
+          'Audit trail of successful and failed logins, lockouts, password changes and ' +
+          'password resets on the account, newest first',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Number of results' },
+            offset: { type: 'integer', minimum: 0, description: 'Offset for pagination' },
+          },
+        },
+        response: {
+          200: {
+            description: 'Security events retrieved successfully',
+            type: 'object',
+            properties: {
+              events: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                    type: {
+                      type: 'string',
+                      enum: [
+                        'LOGIN_SUCCEEDED',
+                        'LOGIN_FAILED',
+                        'ACCOUNT_LOCKED',
+                        'PASSWORD_CHANGED',
+                        'PASSWORD_RESET',
+                        'ACCOUNT_REACTIVATED',
+                      ],
+                    },
+                    detail: { type: 'string', nullable: true },
+                    ipAddress: { type: 'string', nullable: true },
+                    userAgent: { type: 'string', nullable: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              total: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { limit = 50, offset = 0 } = request.query;
+        return await listSecurityEvents(request.user!.id, limit, offset);
+      } catch (error) {
+        fastify.log.error('Error fetching security events:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch security events',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default securityEventsRoute;
@@ -8,7 +8,7 @@ import {
   getGroupMemberDebts,
   executeGroupSettlement,
 } from '../repositories/expenseSplitRepo.js';
-import { authenticate } from '../utils/middleware.js';
+import { authenticate, requireScope } from '../utils/middleware.js';
 import { prisma } from '../app.js';
 
 export default async function settlementsRoute(fastify: FastifyInstance) {
@@ -21,11 +21,12 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
   fastify.get(
     '/settlements',
     {
+      preHandler: [requireScope('settlements:read')],
       schema: {
         tags: ['settlements'],
         summary: 'Get user settlements',
         description:
-          'Get all settlements for the authenticated user (who they owe and who owes them)',
+          'Get all settlements for the authenticated user (who they owe and who owes them), per currency or converted into a single currency',
         headers: {
           type: 'object',
           required: ['authorization'],
@@ -33,6 +34,16 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
             authorization: { type: 'string', description: 'Bearer JWT token' },
           },
         },
+        querystring: {
+          type: 'object',
+          properties: {
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'Convert all balances into this currency',
+            },
+          },
+        },
         response: {
           200: {
             type: 'object',
@@ -45,6 +56,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
                     userId: { type: 'integer', description: 'Other user ID' },
                     name: { type: 'string', description: 'Other user name' },
                     email: { type: 'string', description: 'Other user email' },
+                    currency: { type: 'string', description: 'Currency of the amounts' },
                     netAmount: {
                       type: 'string',
                       description: 'Net amount (positive = they owe you, negative = you owe them)',
@@ -56,13 +68,21 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
               },
             },
           },
+          422: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+            },
+          },
         },
       },
     },
     async (request, reply) => {
       try {
         const userId = request.user!.id;
-        const settlements = await getUserSettlements(userId);
+        const { currency } = request.query as { currency?: string };
+        const settlements = await getUserSettlements(userId, { currency });
 
         return reply.send({
           settlements: settlements.map(settlement => ({
@@ -73,6 +93,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           })),
         });
       } catch (error) {
+        if (error instanceof Error && error.message.includes('No exchange rate')) {
+          return reply.code(422).send({
+            message: error.message,
+            error: 'Unprocessable Entity',
+          });
+        }
+
         fastify.log.error('Error fetching user settlements:', error);
         return reply.code(500).send({
           message: 'Failed to fetch settlements',
@@ -88,11 +115,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
   fastify.get(
     '/settlements/:otherUserId',
     {
+      preHandler: [requireScope('settlements:read')],
       schema: {
         tags: ['settlements'],
         summary: 'Get settlement with specific user',
         description:
-          'Get detailed settlement information between authenticated user and another user',
+          'Get detailed settlement information between authenticated user and another user, ' +
+          'with the totals per currency',
         headers: {
           type: 'object',
           required: ['authorization'],
@@ -127,11 +156,21 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
                   email: { type: 'string' },
                 },
               },
-              user1OwesUser2: { type: 'string', description: 'Amount user1 owes user2' },
-              user2OwesUser1: { type: 'string', description: 'Amount user2 owes user1' },
-              netAmount: {
-                type: 'string',
-                description: 'Net amount (positive = user2 owes user1)',
+              balances: {
+                type: 'array',
+                description: 'Totals per currency',
+                items: {
+                  type: 'object',
+                  properties: {
+                    currency: { type: 'string' },
+                    user1OwesUser2: { type: 'string', description: 'Amount user1 owes user2' },
+                    user2OwesUser1: { type: 'string', description: 'Amount user2 owes user1' },
+                    netAmount: {
+                      type: 'string',
+                      description: 'Net amount (positive = user2 owes user1)',
+                    },
+                  },
+                },
               },
               splits: {
                 type: 'array',
@@ -141,6 +180,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
                     expenseId: { type: 'integer' },
                     expenseTitle: { type: 'string' },
                     amount: { type: 'string' },
+                    currency: { type: 'string' },
                     splitType: { type: 'string', enum: ['EQUAL', 'AMOUNT', 'PERCENTAGE'] },
                     percentage: { type: 'number', nullable: true },
                     paidBy: { type: 'integer', description: 'User ID who paid for the expense' },
@@ -169,9 +209,12 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
 
         return reply.send({
           ...settlement,
-          user1OwesUser2: settlement.user1OwesUser2.toString(),
-          user2OwesUser1: settlement.user2OwesUser1.toString(),
-          netAmount: settlement.netAmount.toString(),
+          balances: settlement.balances.map(balance => ({
+            currency: balance.currency,
+            user1OwesUser2: balance.user1OwesUser2.toString(),
+            user2OwesUser1: balance.user2OwesUser1.toString(),
+            netAmount: balance.netAmount.toString(),
+          })),
           splits: settlement.splits.map(split => ({
             ...split,
             amount: split.amount.toString(),
@@ -200,10 +243,14 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
   fastify.post(
     '/settlements/:otherUserId/settle',
     {
+      preHandler: [requireScope('settlements:write')],
       schema: {
         tags: ['settlements'],
         summary: 'Settle debt with user',
-        description: 'Settle debt owed to another user (mark splits as paid)',
+        description:
+          'Settle debt owed to another user (mark splits as paid). Splits on expenses paid by ' +
+          'several people are skipped and counted in skippedSplits, since they can only be ' +
+          'marked paid as a whole.',
         headers: {
           type: 'object',
           required: ['authorization'],
@@ -223,9 +270,18 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           properties: {
             amount: {
               type: 'number',
-              description: 'Amount to settle (if not provided, settles all debts)',
+              description:
+                'Amount to settle in the given currency, or in the currency of the debts when ' +
+                'they are all in one (if not provided, settles all debts)',
               minimum: 0.01,
             },
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description:
+                'Only settle debts in this currency; required with an amount when debts are in ' +
+                'several currencies',
+            },
           },
         },
         response: {
@@ -235,6 +291,12 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
               message: { type: 'string' },
               settledAmount: { type: 'string', description: 'Total amount settled' },
               settledSplits: { type: 'integer', description: 'Number of splits marked as paid' },
+              skippedSplits: {
+                type: 'integer',
+                description:
+                  'Splits also owed to other payers; mark them paid with ' +
+                  'PUT /splits/:expenseId/:userId/mark-paid',
+              },
             },
           },
           400: {
@@ -251,7 +313,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
       try {
         const payerId = request.user!.id;
         const { otherUserId: payeeId } = request.params as { otherUserId: number };
-        const { amount } = request.body as { amount?: number };
+        const { amount, currency } = request.body as { amount?: number; currency?: string };
 
         // Validate that user is settling their own debt
         if (payerId === payeeId) {
@@ -262,7 +324,16 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
         }
 
         const settlementAmount = amount ? new Decimal(amount) : undefined;
-        const result = await settleDebtBetweenUsers(payerId, payeeId, settlementAmount);
+        const result = await settleDebtBetweenUsers(payerId, payeeId, settlementAmount, currency);
+
+        if (result.settledSplits === 0 && result.skippedSplits > 0) {
+          return reply.code(400).send({
+            message:
+              'The remaining debts are on expenses paid by several people; ' +
+              'mark those splits as paid individually',
+            error: 'Shared payments',
+          });
+        }
 
         if (result.settledSplits === 0) {
           return reply.code(400).send({
@@ -275,8 +346,16 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           message: `Successfully settled ${result.settledAmount.toString()} with ${result.settledSplits} split(s)`,
           settledAmount: result.settledAmount.toString(),
           settledSplits: result.settledSplits,
+          skippedSplits: result.skippedSplits,
         });
       } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Currency is required')) {
+          return reply.code(400).send({
+            message: error.message,
+            error: 'Invalid request',
+          });
+        }
+
         fastify.log.error('Error settling debt:', error);
         return reply.code(500).send({
           message: 'Failed to settle debt',
@@ -292,10 +371,12 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
   fastify.get(
     '/settlements/groups/:groupId',
     {
+      preHandler: [requireScope('settlements:read')],
       schema: {
         tags: ['settlements'],
         summary: 'Get optimized group settlements',
-        description: 'Get optimized settlement plan for a group to minimize transactions',
+        description:
+          'Get optimized settlement plan for a group to minimize transactions, per currency or converted into a single currency',
         headers: {
           type: 'object',
           required: ['authorization'],
@@ -310,41 +391,60 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
             groupId: { type: 'integer', description: 'ID of the group' },
           },
         },
+        querystring: {
+          type: 'object',
+          properties: {
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'Convert all balances into this currency',
+            },
+          },
+        },
         response: {
           200: {
             type: 'object',
             properties: {
               groupId: { type: 'integer' },
               groupName: { type: 'string' },
-              members: {
+              balances: {
                 type: 'array',
                 items: {
                   type: 'object',
                   properties: {
-                    userId: { type: 'integer' },
-                    name: { type: 'string' },
-                    email: { type: 'string' },
-                    netBalance: {
-                      type: 'string',
-                      description: 'Positive = should receive, negative = should pay',
+                    currency: { type: 'string' },
+                    members: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          userId: { type: 'integer' },
+                          name: { type: 'string' },
+                          email: { type: 'string' },
+                          netBalance: {
+                            type: 'string',
+                            description: 'Positive = should receive, negative = should pay',
+                          },
+                        },
+                      },
                     },
+                    optimizedTransactions: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          fromUserId: { type: 'integer' },
+                          fromUserName: { type: 'string' },
+                          toUserId: { type: 'integer' },
+                          toUserName: { type: 'string' },
+                          amount: { type: 'string' },
+                        },
+                      },
+                    },
+                    totalDebt: { type: 'string' },
                   },
                 },
               },
-              optimizedTransactions: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    fromUserId: { type: 'integer' },
-                    fromUserName: { type: 'string' },
-                    toUserId: { type: 'integer' },
-                    toUserName: { type: 'string' },
-                    amount: { type: 'string' },
-                  },
-                },
-              },
-              totalDebt: { type: 'string' },
             },
           },
           403: {
@@ -354,6 +454,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
               error: { type: 'string' },
             },
           },
+          422: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+            },
+          },
         },
       },
     },
@@ -361,6 +468,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
       try {
         const userId = request.user!.id;
         const { groupId } = request.params as { groupId: number };
+        const { currency } = request.query as { currency?: string };
 
         // Check if user is a member of this group
         const groupMember = await prisma.groupMember.findUnique({
@@ -376,21 +484,31 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           });
         }
 
-        const groupSettlement = await getGroupSettlements(groupId);
+        const groupSettlement = await getGroupSettlements(groupId, { currency });
 
         return reply.send({
           ...groupSettlement,
-          members: groupSettlement.members.map(member => ({
-            ...member,
-            netBalance: member.netBalance.toString(),
+          balances: groupSettlement.balances.map(balance => ({
+            ...balance,
+            members: balance.members.map(member => ({
+              ...member,
+              netBalance: member.netBalance.toString(),
+            })),
+            optimizedTransactions: balance.optimizedTransactions.map(transaction => ({
+              ...transaction,
+              amount: transaction.amount.toString(),
+            })),
+            totalDebt: balance.totalDebt.toString(),
           })),
-          optimizedTransactions: groupSettlement.optimizedTransactions.map(transaction => ({
-            ...transaction,
-            amount: transaction.amount.toString(),
-          })),
-          totalDebt: groupSettlement.totalDebt.toString(),
         });
       } catch (error) {
+        if (error instanceof Error && error.message.includes('No exchange rate')) {
+          return reply.code(422).send({
+            message: error.message,
+            error: 'Unprocessable Entity',
+          });
+        }
+
         if (error instanceof Error && error.message.includes('not found')) {
           return reply.code(404).send({
             message: 'Group not found',
@@ -413,10 +531,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
   fastify.get(
     '/settlements/groups/:groupId/debts',
     {
+      preHandler: [requireScope('settlements:read')],
       schema: {
         tags: ['settlements'],
         summary: 'Get group member debt breakdown',
-        description: 'Get detailed breakdown of what each group member owes and is owed',
+        description:
+          'Get detailed breakdown of what each group member owes and is owed, per currency or ' +
+          'converted into a single currency',
         headers: {
           type: 'object',
           required: ['authorization'],
@@ -431,6 +552,16 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
             groupId: { type: 'integer', description: 'ID of the group' },
           },
         },
+        querystring: {
+          type: 'object',
+          properties: {
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'Convert all debts into this currency',
+            },
+          },
+        },
         response: {
           200: {
             type: 'object',
@@ -450,6 +581,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
                         email: { type: 'string' },
                       },
                     },
+                    currency: { type: 'string' },
                     totalOwes: { type: 'string' },
                     totalOwed: { type: 'string' },
                     netBalance: { type: 'string' },
@@ -458,6 +590,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
               },
             },
           },
+          422: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+            },
+          },
         },
       },
     },
@@ -465,6 +604,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
       try {
         const userId = request.user!.id;
         const { groupId } = request.params as { groupId: number };
+        const { currency } = request.query as { currency?: string };
 
         // Check if user is a member of this group
         const groupMember = await prisma.groupMember.findUnique({
@@ -480,7 +620,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           });
         }
 
-        const groupDebts = await getGroupMemberDebts(groupId);
+        const groupDebts = await getGroupMemberDebts(groupId, { currency });
 
         return reply.send({
           ...groupDebts,
@@ -492,6 +632,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           })),
         });
       } catch (error) {
+        if (error instanceof Error && error.message.includes('No exchange rate')) {
+          return reply.code(422).send({
+            message: error.message,
+            error: 'Unprocessable Entity',
+          });
+        }
+
         if (error instanceof Error && error.message.includes('not found')) {
           return reply.code(404).send({
             message: 'Group not found',
@@ -514,10 +661,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
   fastify.post(
     '/settlements/groups/:groupId/settle',
     {
+      preHandler: [requireScope('settlements:write')],
       schema: {
         tags: ['settlements'],
         summary: 'Execute optimized group settlement',
-        description: 'Execute the optimized settlement plan for a group',
+        description:
+          'Execute the optimized settlement plan for a group. Amounts are in the given currency ' +
+          'and only splits in that currency are marked as paid.',
         headers: {
           type: 'object',
           required: ['authorization'],
@@ -534,7 +684,7 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
         },
         body: {
           type: 'object',
-          required: ['transactions'],
+          required: ['transactions', 'currency'],
           properties: {
             transactions: {
               type: 'array',
@@ -548,6 +698,11 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
                 },
               },
             },
+            currency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'Currency of the amounts; only debts in this currency are settled',
+            },
           },
         },
         response: {
@@ -557,6 +712,12 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
               message: { type: 'string' },
               settledAmount: { type: 'string' },
               settledSplits: { type: 'integer' },
+              skippedSplits: {
+                type: 'integer',
+                description:
+                  'Splits also owed to other payers; mark them paid with ' +
+                  'PUT /splits/:expenseId/:userId/mark-paid',
+              },
               transactions: { type: 'integer' },
             },
           },
@@ -567,12 +728,13 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
       try {
         const userId = request.user!.id;
         const { groupId } = request.params as { groupId: number };
-        const { transactions } = request.body as {
+        const { transactions, currency } = request.body as {
           transactions: Array<{
             fromUserId: number;
             toUserId: number;
             amount: number;
           }>;
+          currency: string;
         };
 
         // Check if user is an admin of this group
@@ -596,12 +758,18 @@ export default async function settlementsRoute(fastify: FastifyInstance) {
           amount: new Decimal(t.amount),
         }));
 
-        const result = await executeGroupSettlement(groupId, settlementTransactions);
+        const result = await executeGroupSettlement(
+          groupId,
+          settlementTransactions,
+          userId,
+          currency
+        );
 
         return reply.send({
           message: `Successfully executed group settlement: ${result.settledAmount.toString()} settled across ${result.transactions} transaction(s)`,
           settledAmount: result.settledAmount.toString(),
           settledSplits: result.settledSplits,
+          skippedSplits: result.skippedSplits,
           transactions: result.transactions,
         });
       } catch (error) {
@@ -0,0 +1,493 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Tag } from '@prisma/client';
+import { authenticate, authHeaderSchema, requireScope } from '../utils/middleware.js';
+import { isGroupMember } from '../repositories/groupRepo.js';
+import {
+  createTag,
+  deleteTag,
+  getTagById,
+  getTags,
+  getTagSpendingSummary,
+  updateTag,
+} from '../repositories/tagRepo.js';
+
+interface TagParams {
+  id: string;
+}
+
+interface TagListQuery {
+  groupId?: number;
+}
+
+interface CreateTagBody {
+  name: string;
+  color?: string;
+  groupId?: number;
+}
+
+interface UpdateTagBody {
+  name?: string;
+  color?: string | null;
+}
+
+interface TagAnalyticsQuery {
+  groupId?: number;
+  fromDate?: string;
+  toDate?: string;
+  limit?: number;
+}
+
+const tagsRoute: FastifyPluginAsync = async fastify => {
+  // Personal tags are the owner's; group tags belong to every member of the group
+  const canManageTag = async (tag: Tag, userId: number) =>
+    tag.groupId ? isGroupMember(tag.groupId, userId) : tag.userId === userId;
+
+  // GET /tags - List personal or group tags
+  fastify.get<{ Querystring: TagListQuery }>(
+    '/tags',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['tags'],
+        summary: 'List tags',
+        description:
+          "List your personal tags, or with groupId the group's shared tags, with the number " +
+          'of expenses carrying each',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'integer', description: "List this group's tags" },
+          },
+        },
+        response: {
+          200: {
+            description: 'Tags retrieved successfully',
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' },
+                color: { type: 'string', nullable: true },
+                userId: { type: 'integer', nullable: true },
+                groupId: { type: 'integer', nullable: true },
+                createdAt: { type: 'string', format: 'date-time' },
+                expenseCount: { type: 'integer' },
+              },
+            },
+          },
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { groupId } = request.query;
+        const userId = request.user!.id;
+
+        if (groupId && !(await isGroupMember(groupId, userId))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const tags = await getTags(groupId ? { groupId } : { userId });
+
+        return tags.map(({ _count, ...tag }) => ({ ...tag, expenseCount: _count.expenses }));
+      } catch (error) {
+        fastify.log.error('Error fetching tags:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch tags',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /tags - Create a personal or group tag
+  fastify.post<{ Body: CreateTagBody }>(
+    '/tags',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['tags'],
+        summary: 'Create a tag',
+        description:
+          'Create a personal tag, or with groupId a tag shared by the group. Names are stored ' +
+          "lowercase and must be unique among your tags or the group's.",
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 50, pattern: '\\S' },
+            color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+            groupId: { type: 'integer', description: 'Share the tag with this group' },
+          },
+        },
+        response: {
+          201: {
+            description: 'Tag created successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              color: { type: 'string', nullable: true },
+              userId: { type: 'integer', nullable: true },
+              groupId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Duplicate tag name',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { groupId, ...data } = request.body;
+        const userId = request.user!.id;
+
+        if (groupId && !(await isGroupMember(groupId, userId))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const tag = await createTag(groupId ? { groupId } : { userId }, data);
+
+        return reply.code(201).send(tag);
+      } catch (error: any) {
+        if (error.code === 'P2002') {
+          return reply.code(400).send({
+            message: 'A tag with this name already exists',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error creating tag:', error);
+        return reply.code(500).send({
+          message: 'Failed to create tag',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // PUT /tags/:id - Rename or recolor a tag
+  fastify.put<{ Params: TagParams; Body: UpdateTagBody }>(
+    '/tags/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['tags'],
+        summary: 'Update a tag',
+        description:
+          'Rename or recolor a tag; expenses keep it. Any group member can edit group tags.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Tag ID' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 50, pattern: '\\S' },
+            color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$', nullable: true },
+          },
+        },
+        response: {
+          200: {
+            description: 'Tag updated successfully',
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              color: { type: 'string', nullable: true },
+              userId: { type: 'integer', nullable: true },
+              groupId: { type: 'integer', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: {
+            description: 'Invalid tag ID or duplicate tag name',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Tag not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid tag ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getTagById(id);
+        if (!existing || !(await canManageTag(existing, request.user!.id))) {
+          return reply.code(404).send({
+            message: 'Tag not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        return await updateTag(id, request.body);
+      } catch (error: any) {
+        if (error.code === 'P2002') {
+          return reply.code(400).send({
+            message: 'A tag with this name already exists',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error updating tag:', error);
+        return reply.code(500).send({
+          message: 'Failed to update tag',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // DELETE /tags/:id - Delete a tag
+  fastify.delete<{ Params: TagParams }>(
+    '/tags/:id',
+    {
+      preHandler: [authenticate, requireScope('expenses:write')],
+      schema: {
+        tags: ['tags'],
+        summary: 'Delete a tag',
+        description: 'Delete a tag and remove it from every expense. The expenses are kept.',
+        headers: authHeaderSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Tag ID' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            description: 'Tag deleted',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid tag ID',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          404: {
+            description: 'Tag not found',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const id = parseInt(request.params.id, 10);
+
+        if (isNaN(id)) {
+          return reply.code(400).send({
+            message: 'Invalid tag ID',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const existing = await getTagById(id);
+        if (!existing || !(await canManageTag(existing, request.user!.id))) {
+          return reply.code(404).send({
+            message: 'Tag not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        await deleteTag(id);
+
+        return { message: 'Tag deleted successfully' };
+      } catch (error) {
+        fastify.log.error('Error deleting tag:', error);
+        return reply.code(500).send({
+          message: 'Failed to delete tag',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // GET /tags/analytics/spending - Get tag spending analytics
+  fastify.get<{ Querystring: TagAnalyticsQuery }>(
+    '/tags/analytics/spending',
+    {
+      preHandler: [authenticate, requireScope('expenses:read')],
+      schema: {
+        tags: ['tags', 'analytics'],
+        summary: 'Get tag spending analytics',
+        description:
+          'Get spending per personal tag on your expenses, or with groupId per group tag on the ' +
+          "group's expenses, per currency. An expense counts towards each of its tags, so " +
+          'percentages of total spending in a currency can add up to more than 100.',
+        headers: authHeaderSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'integer', description: "Analyze this group's tags" },
+            fromDate: {
+              type: 'string',
+              format: 'date',
+              description: 'Start date (YYYY-MM-DD)',
+            },
+            toDate: {
+              type: 'string',
+              format: 'date',
+              description: 'End date (YYYY-MM-DD)',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 100,
+              description: 'Maximum number of tags to return per currency',
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'Tag spending analytics',
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                tagId: { type: 'integer' },
+                tagName: { type: 'string' },
+                tagColor: { type: 'string', nullable: true },
+                currency: { type: 'string', description: 'Currency of the amounts' },
+                totalAmount: { type: 'number' },
+                expenseCount: { type: 'integer' },
+                averageAmount: { type: 'number' },
+                percentage: { type: 'number' },
+                lastExpenseDate: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+          403: {
+            description: 'Not a member of the group',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { groupId, fromDate, toDate, limit = 10 } = request.query;
+        const userId = request.user!.id;
+
+        if (groupId && !(await isGroupMember(groupId, userId))) {
+          return reply.code(403).send({
+            message: 'Access denied. You are not a member of this group.',
+            error: 'Forbidden',
+            statusCode: 403,
+          });
+        }
+
+        const analytics = await getTagSpendingSummary(groupId ? { groupId } : { userId }, {
+          fromDate: fromDate ? new Date(fromDate) : undefined,
+          toDate: toDate ? new Date(`${toDate}T23:59:59.999Z`) : undefined,
+          limit,
+        });
+
+        // Convert Decimal amounts to numbers for JSON response
+        return analytics.map(item => ({
+          ...item,
+          totalAmount: item.totalAmount.toNumber(),
+          averageAmount: item.averageAmount.toNumber(),
+        }));
+      } catch (error) {
+        fastify.log.error('Error fetching tag analytics:', error);
+        return reply.code(500).send({
+          message: 'Failed to fetch tag analytics',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+};
+
+export default tagsRoute;
@@ -1,4 +1,5 @@
 import { FastifyPluginAsync } from 'fastify';
+import { SecurityEventType, UserTokenType } from '@prisma/client';
 import {
   createUser,
   verifyPassword,
@@ -6,15 +7,42 @@ import {
   isUsernameTaken,
   getUserProfile,
   getUserById,
+  getUserByEmail,
   updateUser,
+  verifyCurrentPassword,
+  setPassword,
 } from '../repositories/userRepo.js';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllUserSessions,
+} from '../repositories/sessionRepo.js';
+import { issueUserToken, consumeUserToken } from '../repositories/userTokenRepo.js';
+import { isMfaEnabled } from '../repositories/mfaRepo.js';
+import { accountThrottleKey, clearFailedLogins } from '../repositories/loginThrottleRepo.js';
+import { recordSecurityEvent } from '../repositories/securityEventRepo.js';
 import {
   createAuthResponse,
+  createMfaChallenge,
   isValidEmail,
   isValidPassword,
   isValidUsername,
-  verifyToken,
 } from '../utils/auth.js';
+import {
+  authenticate,
+  authHeaderSchema,
+  getRequestMetadata,
+  requireScope,
+  requireUserSession,
+} from '../utils/middleware.js';
+import { sendVerificationEmail, sendPasswordResetEmail } from '../utils/mailer.js';
+import {
+  checkLoginThrottle,
+  createThrottledResponse,
+  registerFailedLogin,
+  registerSuccessfulLogin,
+} from '../utils/loginProtection.js';
 
 interface RegisterBody {
   email: string;
@@ -34,12 +62,35 @@ interface UpdateProfileBody {
   username?: string;
   phoneNumber?: string;
   avatar?: string;
+  defaultCurrency?: string;
 }
 
 interface UserParams {
   id: string;
 }
 
+interface RefreshTokenBody {
+  refreshToken: string;
+}
+
+interface VerifyEmailBody {
+  token: string;
+}
+
+interface ForgotPasswordBody {
+  email: string;
+}
+
+interface ResetPasswordBody {
+  token: string;
+  password: string;
+}
+
+interface ChangePasswordBody {
+  currentPassword: string;
+  newPassword: string;
+}
+
 const usersRoute: FastifyPluginAsync = async fastify => {
   // POST /auth/register - Register new user
   fastify.post<{ Body: RegisterBody }>(
@@ -87,6 +138,7 @@ const usersRoute: FastifyPluginAsync = async fastify => {
                 },
               },
               token: { type: 'string' },
+              refreshToken: { type: 'string' },
             },
           },
           400: {
@@ -162,7 +214,17 @@ const usersRoute: FastifyPluginAsync = async fastify => {
           provider: 'local',
         });
 
-        const authResponse = createAuthResponse(user);
+        // A failing mail transport must not prevent the account from being created;
+        // the user can request a new verification email later
+        try {
+          const { token } = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION);
+          await sendVerificationEmail(user, token);
+        } catch (mailError) {
+          fastify.log.error('Error sending verification email:', mailError);
+        }
+
+        const session = await createSession(user.id, getRequestMetadata(request));
+        const authResponse = createAuthResponse(user, session);
         return reply.code(201).send(authResponse);
       } catch (error) {
         fastify.log.error('Error registering user:', error);
@@ -182,7 +244,11 @@ const usersRoute: FastifyPluginAsync = async fastify => {
       schema: {
         tags: ['auth'],
         summary: 'Login user',
-        description: 'Authenticate user with email and password',
+        description:
+          'Authenticate user with email and password. When two-factor authentication is ' +
+          'enabled, an MFA challenge is returned instead of tokens; complete it with ' +
+          'POST /auth/login/mfa. Repeated failures for an account or from an address are ' +
+          'slowed down with an increasing delay and then temporarily locked out (429).',
         body: {
           type: 'object',
           properties: {
@@ -209,6 +275,10 @@ const usersRoute: FastifyPluginAsync = async fastify => {
                 },
               },
               token: { type: 'string' },
+              refreshToken: { type: 'string' },
+              mfaRequired: { type: 'boolean' },
+              mfaToken: { type: 'string' },
+              expiresIn: { type: 'integer' },
             },
           },
           401: {
@@ -220,6 +290,16 @@ const usersRoute: FastifyPluginAsync = async fastify => {
               statusCode: { type: 'integer' },
             },
           },
+          429: {
+            description: 'Too many failed attempts; retry after the given number of seconds',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+              retryAfter: { type: 'integer' },
+            },
+          },
         },
       },
     },
@@ -235,8 +315,22 @@ const usersRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
+        const metadata = getRequestMetadata(request);
+
+        // Throttled attempts are rejected before the password is even checked
+        const throttle = await checkLoginThrottle(email, metadata);
+        if (throttle.blocked) {
+          return reply
+            .code(429)
+            .header('Retry-After', String(throttle.retryAfterSeconds))
+            .send(createThrottledResponse(throttle));
+        }
+
         const user = await verifyPassword(email, password);
         if (!user) {
+          const account = await getUserByEmail(email);
+          await registerFailedLogin(email, metadata, account?.id ?? null, 'invalid_password');
+
           return reply.code(401).send({
             message: 'Invalid email or password',
             error: 'Unauthorized',
@@ -252,7 +346,15 @@ const usersRoute: FastifyPluginAsync = async fastify => {
           });
         }
 
-        const authResponse = createAuthResponse(user);
+        // Second step required: no session until the TOTP or recovery code is checked
+        if (await isMfaEnabled(user.id)) {
+          return reply.code(200).send(createMfaChallenge(user));
+        }
+
+        await registerSuccessfulLogin(user.id, email, metadata, 'password');
+
+        const session = await createSession(user.id, metadata);
+        const authResponse = createAuthResponse(user, session);
         return reply.code(200).send(authResponse);
       } catch (error) {
         fastify.log.error('Error logging in user:', error);
@@ -265,21 +367,451 @@ const usersRoute: FastifyPluginAsync = async fastify => {
     }
   );
 
+  // POST /auth/refresh - Exchange a refresh token for a new token pair
+  fastify.post<{ Body: RefreshTokenBody }>(
+    '/auth/refresh',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Refresh access token',
+        description:
+          'Exchange a refresh token for a new access token and a new refresh token. ' +
+          'Each refresh token can only be used once; reusing one revokes the whole session.',
+        body: {
+          type: 'object',
+          properties: {
+            refreshToken: { type: 'string', minLength: 1, description: 'Refresh token' },
+          },
+          required: ['refreshToken'],
+        },
+        response: {
+          200: {
+            description: 'Tokens refreshed successfully',
+            type: 'object',
+            properties: {
+              token: { type: 'string' },
+              refreshToken: { type: 'string' },
+            },
+          },
+          401: {
+            description: 'Invalid, expired, revoked or reused refresh token',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const session = await rotateRefreshToken(
+          request.body.refreshToken,
+          getRequestMetadata(request)
+        );
+
+        const user = await getUserById(session.userId);
+        if (!user || !user.isActive) {
+          await revokeSession(session.id, 'logout');
+          return reply.code(401).send({
+            message: 'User not found or inactive',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        const { token, refreshToken } = createAuthResponse(user, session);
+        return { token, refreshToken };
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          (error.message.includes('Invalid refresh token') ||
+            error.message.includes('Session has been revoked') ||
+            error.message.includes('Refresh token reuse detected') ||
+            error.message.includes('Refresh token has expired'))
+        ) {
+          return reply.code(401).send({
+            message: error.message,
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        fastify.log.error('Error refreshing token:', error);
+        return reply.code(500).send({
+          message: 'Failed to refresh token',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/logout - Revoke the current session
+  fastify.post(
+    '/auth/logout',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['auth'],
+        summary: 'Logout',
+        description: 'Revoke the current session and all of its refresh tokens',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Logged out successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        if (request.user!.sessionId) {
+          await revokeSession(request.user!.sessionId, 'logout');
+        }
+
+        return { message: 'Logged out successfully' };
+      } catch (error) {
+        fastify.log.error('Error logging out:', error);
+        return reply.code(500).send({
+          message: 'Failed to logout',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/logout-all - Revoke every session of the current user
+  fastify.post(
+    '/auth/logout-all',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['auth'],
+        summary: 'Logout everywhere',
+        description: 'Revoke all sessions of the authenticated user on every device',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'All sessions revoked',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              revokedSessions: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const revokedSessions = await revokeAllUserSessions(request.user!.id, 'logout_all');
+
+        return { message: 'Logged out from all sessions', revokedSessions };
+      } catch (error) {
+        fastify.log.error('Error logging out from all sessions:', error);
+        return reply.code(500).send({
+          message: 'Failed to logout from all sessions',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/verify-email - Confirm email address with a verification token
+  fastify.post<{ Body: VerifyEmailBody }>(
+    '/auth/verify-email',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Verify email address',
+        description: 'Mark the email address as verified using the token sent by email',
+        body: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', minLength: 1, description: 'Email verification token' },
+          },
+          required: ['token'],
+        },
+        response: {
+          200: {
+            description: 'Email verified successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              user: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  email: { type: 'string' },
+                  isEmailVerified: { type: 'boolean' },
+                },
+              },
+            },
+          },
+          400: {
+            description: 'Invalid or expired token',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const userId = await consumeUserToken(request.body.token, UserTokenType.EMAIL_VERIFICATION);
+        const user = await updateUser(userId, { isEmailVerified: true });
+
+        return {
+          message: 'Email verified successfully',
+          user: { id: user.id, email: user.email, isEmailVerified: user.isEmailVerified },
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('Invalid or expired token')) {
+          return reply.code(400).send({
+            message: 'Invalid or expired verification token',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error verifying email:', error);
+        return reply.code(500).send({
+          message: 'Failed to verify email',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/verify-email/resend - Send a new verification email
+  fastify.post(
+    '/auth/verify-email/resend',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['auth'],
+        summary: 'Resend verification email',
+        description:
+          'Send a new email verification link to the authenticated user. ' +
+          'Previously sent links stop working.',
+        headers: authHeaderSchema,
+        response: {
+          200: {
+            description: 'Verification email sent',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Email already verified',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = await getUserById(request.user!.id);
+        if (!user) {
+          return reply.code(404).send({
+            message: 'User not found',
+            error: 'Not Found',
+            statusCode: 404,
+          });
+        }
+
+        if (user.isEmailVerified) {
+          return reply.code(400).send({
+            message: 'Email is already verified',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const { token } = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION);
+        await sendVerificationEmail(user, token);
+
+        return { message: 'Verification email sent' };
+      } catch (error) {
+        fastify.log.error('Error resending verification email:', error);
+        return reply.code(500).send({
+          message: 'Failed to send verification email',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/forgot-password - Request a password reset link
+  fastify.post<{ Body: ForgotPasswordBody }>(
+    '/auth/forgot-password',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Request password reset',
+        description:
+          'Send a single-use password reset link to the given email address. ' +
+          'The response is the same whether or not the address is registered.',
+        body: {
+          type: 'object',
+          properties: {
+            email: { type: 'string', format: 'email', description: 'User email address' },
+          },
+          required: ['email'],
+        },
+        response: {
+          200: {
+            description: 'Reset link sent if the account exists',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = await getUserByEmail(request.body.email);
+
+        if (user && user.isActive) {
+          const { token, expiresAt } = await issueUserToken(user.id, UserTokenType.PASSWORD_RESET);
+          await sendPasswordResetEmail(user, token, expiresAt);
+        }
+
+        return {
+          message: 'If an account exists for this email, a password reset link has been sent',
+        };
+      } catch (error) {
+        fastify.log.error('Error requesting password reset:', error);
+        return reply.code(500).send({
+          message: 'Failed to request password reset',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  // POST /auth/reset-password - Set a new password using a reset token
+  fastify.post<{ Body: ResetPasswordBody }>(
+    '/auth/reset-password',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Reset password',
+        description:
+          'Set a new password using a password reset token. All existing sessions are revoked.',
+        body: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', minLength: 1, description: 'Password reset token' },
+            password: {
+              type: 'string',
+              minLength: 8,
+              description: 'New password (min 8 characters)',
+            },
+          },
+          required: ['token', 'password'],
+        },
+        response: {
+          200: {
+            description: 'Password reset successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+          400: {
+            description: 'Invalid token or weak password',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { token, password } = request.body;
+
+        // Validate before consuming the token so a weak password does not burn the link
+        const passwordValidation = isValidPassword(password);
+        if (!passwordValidation.valid) {
+          return reply.code(400).send({
+            message: passwordValidation.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        const userId = await consumeUserToken(token, UserTokenType.PASSWORD_RESET);
+
+        const user = await setPassword(userId, password);
+        await revokeAllUserSessions(userId, 'password_change');
+
+        // A locked-out owner who just proved access to the mailbox can sign in again
+        await clearFailedLogins(accountThrottleKey(user.email));
+        await recordSecurityEvent(
+          userId,
+          SecurityEventType.PASSWORD_RESET,
+          getRequestMetadata(request)
+        );
+
+        return { message: 'Password reset successfully' };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('Invalid or expired token')) {
+          return reply.code(400).send({
+            message: 'Invalid or expired password reset token',
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        fastify.log.error('Error resetting password:', error);
+        return reply.code(500).send({
+          message: 'Failed to reset password',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
   // GET /users/profile - Get current user profile
   fastify.get(
     '/users/profile',
     {
+      preHandler: [authenticate, requireScope('profile:read')],
       schema: {
         tags: ['users'],
         summary: 'Get current user profile',
         description: "Get the authenticated user's profile information",
-        headers: {
-          type: 'object',
-          properties: {
-            authorization: { type: 'string', description: 'Bearer token' },
-          },
-          required: ['authorization'],
-        },
+        headers: authHeaderSchema,
         response: {
           200: {
             description: 'User profile',
@@ -293,6 +825,8 @@ const usersRoute: FastifyPluginAsync = async fastify => {
               phoneNumber: { type: 'string' },
               provider: { type: 'string' },
               isEmailVerified: { type: 'boolean' },
+              role: { type: 'string', enum: ['USER', 'ADMIN'] },
+              defaultCurrency: { type: 'string' },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               lastLoginAt: { type: 'string', format: 'date-time' },
@@ -315,26 +849,7 @@ const usersRoute: FastifyPluginAsync = async fastify => {
     },
     async (request, reply) => {
       try {
-        const authHeader = request.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          return reply.code(401).send({
-            message: 'Authorization header is required',
-            error: 'Unauthorized',
-            statusCode: 401,
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const payload = verifyToken(token);
-        if (!payload) {
-          return reply.code(401).send({
-            message: 'Invalid or expired token',
-            error: 'Unauthorized',
-            statusCode: 401,
-          });
-        }
-
-        const userProfile = await getUserProfile(payload.userId);
+        const userProfile = await getUserProfile(request.user!.id);
         if (!userProfile) {
           return reply.code(404).send({
             message: 'User not found',
@@ -359,17 +874,12 @@ const usersRoute: FastifyPluginAsync = async fastify => {
   fastify.patch<{ Body: UpdateProfileBody }>(
     '/users/profile',
     {
+      preHandler: [authenticate, requireScope('profile:write')],
       schema: {
         tags: ['users'],
         summary: 'Update user profile',
         description: "Update the authenticated user's profile information",
-        headers: {
-          type: 'object',
-          properties: {
-            authorization: { type: 'string', description: 'Bearer token' },
-          },
-          required: ['authorization'],
-        },
+        headers: authHeaderSchema,
         body: {
           type: 'object',
           properties: {
@@ -377,6 +887,11 @@ const usersRoute: FastifyPluginAsync = async fastify => {
             username: { type: 'string', minLength: 3, maxLength: 20, description: 'Username' },
             phoneNumber: { type: 'string', description: 'Phone number' },
             avatar: { type: 'string', format: 'uri', description: 'Avatar URL' },
+            defaultCurrency: {
+              type: 'string',
+              pattern: '^[A-Z]{3}$',
+              description: 'ISO 4217 currency code for new personal expenses',
+            },
           },
         },
         response: {
@@ -392,6 +907,7 @@ const usersRoute: FastifyPluginAsync = async fastify => {
               phoneNumber: { type: 'string' },
               provider: { type: 'string' },
               isEmailVerified: { type: 'boolean' },
+              defaultCurrency: { type: 'string' },
               updatedAt: { type: 'string', format: 'date-time' },
             },
           },
@@ -400,26 +916,7 @@ const usersRoute: FastifyPluginAsync = async fastify => {
     },
     async (request, reply) => {
       try {
-        const authHeader = request.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          return reply.code(401).send({
-            message: 'Authorization header is required',
-            error: 'Unauthorized',
-            statusCode: 401,
-          });
-        }
-
-        const token = authHeader.substring(7);
-        const payload = verifyToken(token);
-        if (!payload) {
-          return reply.code(401).send({
-            message: 'Invalid or expired token',
-            error: 'Unauthorized',
-            statusCode: 401,
-          });
-        }
-
-        const { name, username, phoneNumber, avatar } = request.body;
+        const { name, username, phoneNumber, avatar, defaultCurrency } = request.body;
 
         // Validate username if provided
         if (username) {
@@ -433,7 +930,7 @@ const usersRoute: FastifyPluginAsync = async fastify => {
           }
 
           // Check if username is taken by another user
-          const existingUser = await getUserById(payload.userId);
+          const existingUser = await getUserById(request.user!.id);
           if (
             existingUser &&
             existingUser.username !== username &&
@@ -447,11 +944,12 @@ const usersRoute: FastifyPluginAsync = async fastify => {
           }
         }
 
-        const updatedUser = await updateUser(payload.userId, {
+        const updatedUser = await updateUser(request.user!.id, {
           name,
           username,
           phoneNumber,
           avatar,
+          defaultCurrency,
         });
 
         // Return safe user data
@@ -468,6 +966,126 @@ const usersRoute: FastifyPluginAsync = async fastify => {
     }
   );
 
+  // PUT /users/password - Change password
+  fastify.put<{ Body: ChangePasswordBody }>(
+    '/users/password',
+    {
+      preHandler: [authenticate, requireUserSession],
+      schema: {
+        tags: ['users'],
+        summary: 'Change password',
+        description:
+          "Change the authenticated user's password. Requires the current password, and wrong " +
+          'guesses are throttled like logins; all other sessions are revoked.',
+        headers: authHeaderSchema,
+        body: {
+          type: 'object',
+          properties: {
+            currentPassword: { type: 'string', description: 'Current password' },
+            newPassword: {
+              type: 'string',
+              minLength: 8,
+              description: 'New password (min 8 characters)',
+            },
+          },
+          required: ['currentPassword', 'newPassword'],
+        },
+        response: {
+          200: {
+            description: 'Password changed successfully',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              revokedSessions: { type: 'integer' },
+            },
+          },
+          400: {
+            description: 'Weak password',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          401: {
+            description: 'Current password is incorrect',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+            },
+          },
+          429: {
+            description: 'Too many failed attempts; retry after the given number of seconds',
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              error: { type: 'string' },
+              statusCode: { type: 'integer' },
+              retryAfter: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { currentPassword, newPassword } = request.body;
+        const { id: userId, email } = request.user!;
+        const metadata = getRequestMetadata(request);
+
+        // Same throttle as logging in, so a stolen session can't be used to guess the password
+        const throttle = await checkLoginThrottle(email, metadata);
+        if (throttle.blocked) {
+          return reply
+            .code(429)
+            .header('Retry-After', String(throttle.retryAfterSeconds))
+            .send(createThrottledResponse(throttle));
+        }
+
+        if (!(await verifyCurrentPassword(userId, currentPassword))) {
+          await registerFailedLogin(email, metadata, userId, 'invalid_password');
+          return reply.code(401).send({
+            message: 'Current password is incorrect',
+            error: 'Unauthorized',
+            statusCode: 401,
+          });
+        }
+
+        const passwordValidation = isValidPassword(newPassword);
+        if (!passwordValidation.valid) {
+          return reply.code(400).send({
+            message: passwordValidation.message,
+            error: 'Bad Request',
+            statusCode: 400,
+          });
+        }
+
+        await setPassword(userId, newPassword);
+        await clearFailedLogins(accountThrottleKey(email));
+        await recordSecurityEvent(userId, SecurityEventType.PASSWORD_CHANGED, metadata);
+
+        // Keep the session that made the change, sign out everywhere else
+        const revokedSessions = await revokeAllUserSessions(
+          userId,
+          'password_change',
+          request.user!.sessionId
+        );
+
+        return { message: 'Password changed successfully', revokedSessions };
+      } catch (error) {
+        fastify.log.error('Error changing password:', error);
+        return reply.code(500).send({
+          message: 'Failed to change password',
+          error: 'Internal Server Error',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
   // GET /users/:id - Get user by ID (public profile)
   fastify.get<{ Params: UserParams }>(
     '/users/:id',
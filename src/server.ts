@@ -1,4 +1,16 @@
 import createApp from './app.js';
+import { processDueAccountDeletions } from './repositories/accountDeletionRepo.js';
+import { purgeDeletedExpenses } from './repositories/expenseRepo.js';
+import { processDueRecurringExpenses } from './utils/recurringExpenseRunner.js';
+
+// How often accounts whose deletion grace period has ended are deleted
+const ACCOUNT_DELETION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// How often due recurring expense occurrences are created; missed ones are caught up on startup
+const RECURRING_EXPENSE_INTERVAL_MS = 5 * 60 * 1000;
+
+// How often expenses past their trash retention period are permanently deleted
+const EXPENSE_TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 const start = async () => {
   let app;
@@ -11,6 +23,43 @@ const start = async () => {
 
     app.log.info(`🚀 Server ready at http://localhost:${port}`);
     app.log.info(`📚 API Documentation available at http://localhost:${port}/docs`);
+
+    const { log } = app;
+    const sweepAccountDeletions = () => {
+      processDueAccountDeletions()
+        .then(deleted => {
+          if (deleted > 0) {
+            log.info(`Deleted ${deleted} account(s) after their grace period`);
+          }
+        })
+        .catch(error => log.error(error, 'Error processing account deletions'));
+    };
+    sweepAccountDeletions();
+    setInterval(sweepAccountDeletions, ACCOUNT_DELETION_SWEEP_INTERVAL_MS).unref();
+
+    const runRecurringExpenses = () => {
+      processDueRecurringExpenses()
+        .then(created => {
+          if (created > 0) {
+            log.info(`Created ${created} recurring expense occurrence(s)`);
+          }
+        })
+        .catch(error => log.error(error, 'Error processing recurring expenses'));
+    };
+    runRecurringExpenses();
+    setInterval(runRecurringExpenses, RECURRING_EXPENSE_INTERVAL_MS).unref();
+
+    const purgeExpenseTrash = () => {
+      purgeDeletedExpenses()
+        .then(purged => {
+          if (purged > 0) {
+            log.info(`Permanently deleted ${purged} expense(s) from the trash`);
+          }
+        })
+        .catch(error => log.error(error, 'Error purging deleted expenses'));
+    };
+    purgeExpenseTrash();
+    setInterval(purgeExpenseTrash, EXPENSE_TRASH_PURGE_INTERVAL_MS).unref();
   } catch (err) {
     if (app) {
       app.log.error(err);
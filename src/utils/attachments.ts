@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { AttachmentVariant, createAttachmentDownloadToken } from './auth.js';
+import { getStorageDriver } from './storage.js';
+
+// Upload limits - receipts are photos or PDFs, anything else is rejected
+export const ATTACHMENT_MAX_BYTES =
+  parseInt(process.env.ATTACHMENT_MAX_SIZE_MB || '10', 10) * 1024 * 1024;
+
+// Thumbnails fit in a square this size, keeping the aspect ratio
+const THUMBNAIL_SIZE = 320;
+
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+};
+
+// Leading bytes ("magic numbers") of each accepted file type
+const FILE_SIGNATURES: { mimeType: string; parts: { offset: number; bytes: Buffer }[] }[] = [
+  { mimeType: 'image/jpeg', parts: [{ offset: 0, bytes: Buffer.from([0xff, 0xd8, 0xff]) }] },
+  {
+    mimeType: 'image/png',
+    parts: [{ offset: 0, bytes: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) }],
+  },
+  { mimeType: 'image/gif', parts: [{ offset: 0, bytes: Buffer.from('GIF87a') }] },
+  { mimeType: 'image/gif', parts: [{ offset: 0, bytes: Buffer.from('GIF89a') }] },
+  {
+    mimeType: 'image/webp',
+    parts: [
+      { offset: 0, bytes: Buffer.from('RIFF') },
+      { offset: 8, bytes: Buffer.from('WEBP') },
+    ],
+  },
+  { mimeType: 'application/pdf', parts: [{ offset: 0, bytes: Buffer.from('%PDF-') }] },
+];
+
+export interface StoredAttachment {
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  storageKey: string;
+  thumbnailKey: string | null;
+}
+
+export interface AttachmentFiles {
+  storageKey: string;
+  thumbnailKey: string | null;
+}
+
+/** Detect the file type from its leading bytes; the client-supplied type is not trusted */
+export function detectMimeType(data: Buffer): string | null {
+  const signature = FILE_SIGNATURES.find(({ parts }) =>
+    parts.every(({ offset, bytes }) => data.subarray(offset, offset + bytes.length).equals(bytes))
+  );
+  return signature?.mimeType ?? null;
+}
+
+/** Keep only the base name, without control characters, so it is safe in headers */
+export function sanitizeFileName(fileName: string): string {
+  const name = [...path.basename(fileName.replace(/\\/g, '/'))]
+    .filter(char => char >= ' ' && char !== '\u007f' && char !== '"')
+    .join('')
+    .trim()
+    .slice(0, 255);
+  return name || 'attachment';
+}
+
+/**
+ * Validate an uploaded file and write it (and a thumbnail for images) to storage
+ * Throws "Unsupported file type" or "Invalid image" errors for files that are rejected
+ */
+export async function storeAttachment(
+  expenseId: number,
+  fileName: string,
+  data: Buffer
+): Promise<StoredAttachment> {
+  const mimeType = detectMimeType(data);
+  if (!mimeType) {
+    throw new Error('Unsupported file type, upload a JPEG, PNG, GIF, WebP or PDF file');
+  }
+
+  let thumbnail: Buffer | null = null;
+  if (mimeType.startsWith('image/')) {
+    try {
+      thumbnail = await sharp(data)
+        .rotate() // Apply EXIF orientation, phone photos are often stored sideways
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+    } catch {
+      throw new Error('Invalid image, the file could not be read');
+    }
+  }
+
+  const baseKey = `expenses/${expenseId}/${crypto.randomBytes(16).toString('hex')}`;
+  const storageKey = `${baseKey}${EXTENSIONS[mimeType]}`;
+  const thumbnailKey = thumbnail ? `${baseKey}-thumbnail.jpg` : null;
+
+  const storage = getStorageDriver();
+  await storage.put(storageKey, data, mimeType);
+  if (thumbnail && thumbnailKey) {
+    await storage.put(thumbnailKey, thumbnail, 'image/jpeg');
+  }
+
+  return {
+    fileName: sanitizeFileName(fileName),
+    mimeType,
+    sizeBytes: data.length,
+    storageKey,
+    thumbnailKey,
+  };
+}
+
+/** Remove stored files once their attachment records are gone */
+export async function removeAttachmentFiles(attachments: AttachmentFiles[]): Promise<void> {
+  const storage = getStorageDriver();
+  const keys = attachments.flatMap(({ storageKey, thumbnailKey }) =>
+    thumbnailKey ? [storageKey, thumbnailKey] : [storageKey]
+  );
+
+  await Promise.all(keys.map(key => storage.delete(key)));
+}
+
+/** Signed, short-lived download link; whoever holds it can download without logging in */
+export function getAttachmentDownloadUrl(attachmentId: number, variant: AttachmentVariant): string {
+  const token = createAttachmentDownloadToken(attachmentId, variant);
+  return `${APP_BASE_URL}/api/v1/attachments/${attachmentId}/content?token=${encodeURIComponent(token)}`;
+}
+
+/** Download links for an attachment and its thumbnail, if it has one */
+export function getAttachmentLinks(attachment: { id: number; thumbnailKey: string | null }): {
+  downloadUrl: string;
+  thumbnailUrl: string | null;
+} {
+  return {
+    downloadUrl: getAttachmentDownloadUrl(attachment.id, 'original'),
+    thumbnailUrl: attachment.thumbnailKey
+      ? getAttachmentDownloadUrl(attachment.id, 'thumbnail')
+      : null,
+  };
+}
+
+/** Content-Disposition header value, with an ASCII fallback for clients without RFC 5987 support */
+export function getContentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_');
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
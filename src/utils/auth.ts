@@ -1,19 +1,83 @@
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { User } from '@prisma/client';
 
 // JWT secret - in production, this should be in environment variables
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
-const JWT_EXPIRES_IN = '7d';
+const JWT_EXPIRES_IN = (process.env.JWT_ACCESS_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+
+// Refresh tokens are opaque random strings, only their hash is stored server-side
+const REFRESH_TOKEN_BYTES = 48;
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+// Short-lived token issued after the password step when a second factor is required
+export const MFA_PENDING_TOKEN_TTL_SECONDS = parseInt(
+  process.env.MFA_PENDING_TOKEN_TTL_SECONDS || '300',
+  10
+);
+
+// Signed attachment download links work without an Authorization header, so keep them short-lived
+export const ATTACHMENT_URL_TTL_SECONDS = parseInt(
+  process.env.ATTACHMENT_URL_TTL_SECONDS || '900',
+  10
+);
+
+// Personal API tokens are opaque, prefixed so they can be told apart from JWTs
+export const API_TOKEN_PREFIX = 'pat_';
+
+/** Scopes that can be granted to personal API tokens */
+export const API_TOKEN_SCOPES = [
+  'profile:read',
+  'profile:write',
+  'expenses:read',
+  'expenses:write',
+  'settlements:read',
+  'settlements:write',
+  'groups:read',
+  'groups:write',
+  'friends:read',
+  'friends:write',
+  'categories:read',
+  'categories:write',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
 
 export interface JwtPayload {
   userId: number;
   email: string;
   provider: string;
+  sessionId?: string;
 }
 
 export interface AuthResponse {
   user: SafeUser;
   token: string;
+  refreshToken?: string;
+}
+
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+interface MfaPendingPayload {
+  userId: number;
+  purpose: 'mfa_pending';
+}
+
+export type AttachmentVariant = 'original' | 'thumbnail';
+
+interface AttachmentDownloadPayload {
+  attachmentId: number;
+  variant: AttachmentVariant;
+  purpose: 'attachment_download';
+}
+
+export interface AuthSession {
+  id: string;
+  refreshToken: string;
 }
 
 export interface SafeUser {
@@ -28,14 +92,18 @@ export interface SafeUser {
   updatedAt: Date;
 }
 
-/** Generate JWT token for user */
-export function generateToken(user: User): string {
+/** Generate JWT access token for user (bound to a session when one is given) */
+export function generateToken(user: User, sessionId?: string): string {
   const payload: JwtPayload = {
     userId: user.id,
     email: user.email,
     provider: user.provider,
   };
 
+  if (sessionId) {
+    payload.sessionId = sessionId;
+  }
+
   const options: SignOptions = { expiresIn: JWT_EXPIRES_IN };
   return jwt.sign(payload, JWT_SECRET, options);
 }
@@ -43,12 +111,82 @@ export function generateToken(user: User): string {
 /** Verify JWT token */
 export function verifyToken(token: string): JwtPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload & { purpose?: string };
+    // Purpose-bound tokens (e.g. MFA pending) are never valid access tokens
+    return payload.purpose ? null : payload;
+  } catch {
+    return null;
+  }
+}
+
+/** Create the challenge returned when login still needs a second factor */
+export function createMfaChallenge(user: User): MfaChallengeResponse {
+  const payload: MfaPendingPayload = { userId: user.id, purpose: 'mfa_pending' };
+
+  return {
+    mfaRequired: true,
+    mfaToken: jwt.sign(payload, JWT_SECRET, { expiresIn: MFA_PENDING_TOKEN_TTL_SECONDS }),
+    expiresIn: MFA_PENDING_TOKEN_TTL_SECONDS,
+  };
+}
+
+/** Verify an MFA pending token and return the user ID it was issued for */
+export function verifyMfaPendingToken(token: string): number | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as MfaPendingPayload;
+    return payload.purpose === 'mfa_pending' ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Create a token for a signed attachment download link */
+export function createAttachmentDownloadToken(
+  attachmentId: number,
+  variant: AttachmentVariant
+): string {
+  const payload: AttachmentDownloadPayload = {
+    attachmentId,
+    variant,
+    purpose: 'attachment_download',
+  };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ATTACHMENT_URL_TTL_SECONDS });
+}
+
+/** Verify an attachment download token and return what it grants access to */
+export function verifyAttachmentDownloadToken(
+  token: string
+): { attachmentId: number; variant: AttachmentVariant } | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as AttachmentDownloadPayload;
+    return payload.purpose === 'attachment_download'
+      ? { attachmentId: payload.attachmentId, variant: payload.variant }
+      : null;
   } catch {
     return null;
   }
 }
 
+/** Generate an opaque refresh token */
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+}
+
+/** Generate a personal API token */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/** Check whether a bearer token is a personal API token rather than a JWT */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/** Hash an opaque token (refresh tokens and similar) for storage and lookup */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /** Extract safe user data (without password) */
 export function toSafeUser(user: User): SafeUser {
   return {
@@ -64,12 +202,18 @@ export function toSafeUser(user: User): SafeUser {
   };
 }
 
-/** Create authentication response */
-export function createAuthResponse(user: User): AuthResponse {
-  return {
+/** Create authentication response (includes the refresh token when a session is given) */
+export function createAuthResponse(user: User, session?: AuthSession): AuthResponse {
+  const response: AuthResponse = {
     user: toSafeUser(user),
-    token: generateToken(user),
+    token: generateToken(user, session?.id),
   };
+
+  if (session) {
+    response.refreshToken = session.refreshToken;
+  }
+
+  return response;
 }
 
 /** Validate email format */
@@ -0,0 +1,78 @@
+// Minimal RFC 4180 CSV support: quoted fields may contain delimiters, quotes ("") and line breaks
+
+/** Parse CSV text into rows of fields; blank lines are skipped */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format one CSV line (with CRLF ending), quoting fields where needed
+ * Text that a spreadsheet would run as a formula gets a leading apostrophe
+ */
+export function formatCsvRow(fields: (string | null)[], delimiter: string = ','): string {
+  const cells = fields.map(field => {
+    let value = field ?? '';
+
+    if (/^[=+\-@\t\r]/.test(value) && isNaN(Number(value))) {
+      value = `'${value}`;
+    }
+
+    return value.includes(delimiter) || /["\r\n]/.test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+  });
+
+  return cells.join(delimiter) + '\r\n';
+}
@@ -0,0 +1,303 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  ExpenseExportRecord,
+  ExpenseFilters,
+  getExpenseExportPage,
+} from '../repositories/expenseRepo.js';
+import { formatCsvRow } from './csv.js';
+
+// Expense exports for accountants and personal finance software. Expenses are read a page at
+// a time and written out as they arrive, so exports of any size use constant memory.
+
+export type ExportFormat = 'csv' | 'ofx' | 'qif' | 'json';
+
+// Full expense amount, or only the part that is the exporting user's
+export type ExportAmount = 'full' | 'share';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ofx: { contentType: 'application/x-ofx', extension: 'ofx' },
+  qif: { contentType: 'application/qif', extension: 'qif' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+export interface ExpenseExportOptions {
+  format: ExportFormat;
+  amount: ExportAmount;
+  userId: number; // Whose share to export
+}
+
+// Expenses read from the database per page
+const EXPORT_PAGE_SIZE = 500;
+
+const CSV_HEADER = [
+  'Date',
+  'Title',
+  'Description',
+  'Amount',
+  'Currency',
+  'Category',
+  'Group',
+  'Tags',
+  'Paid by',
+  'Split shares',
+];
+
+// ===== Amounts =====
+
+/**
+ * The user's part of an expense: their splits if it is split,
+ * otherwise all of it for the payer and nothing for anyone else
+ */
+export function getExpenseShare(expense: ExpenseExportRecord, userId: number): Decimal {
+  if (expense.splits.length === 0) {
+    return expense.userId === userId ? new Decimal(expense.amount) : new Decimal(0);
+  }
+
+  return expense.splits
+    .filter(split => split.userId === userId)
+    .reduce((sum, split) => sum.plus(split.amount), new Decimal(0));
+}
+
+function exportedAmount(expense: ExpenseExportRecord, options: ExpenseExportOptions): Decimal {
+  return options.amount === 'share'
+    ? getExpenseShare(expense, options.userId)
+    : new Decimal(expense.amount);
+}
+
+/** Names of whoever paid; the recorder unless several people contributed */
+function paidBy(expense: ExpenseExportRecord): string {
+  return expense.payers.length > 0
+    ? expense.payers.map(payer => payer.user.name).join('; ')
+    : expense.user.name;
+}
+
+// ===== Formats =====
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function csvRecord(expense: ExpenseExportRecord, options: ExpenseExportOptions): string {
+  return formatCsvRow([
+    isoDate(expense.paidAt),
+    expense.title,
+    expense.description,
+    exportedAmount(expense, options).toFixed(2),
+    expense.currency,
+    expense.category?.name ?? null,
+    expense.group?.name ?? null,
+    expense.tags.map(({ tag }) => tag.name).join('; '),
+    paidBy(expense),
+    expense.splits.map(split => `${split.user.name} ${split.amount.toFixed(2)}`).join('; '),
+  ]);
+}
+
+function jsonRecord(expense: ExpenseExportRecord, options: ExpenseExportOptions): string {
+  return JSON.stringify({
+    id: expense.id,
+    date: isoDate(expense.paidAt),
+    title: expense.title,
+    description: expense.description,
+    amount: exportedAmount(expense, options).toFixed(2),
+    totalAmount: new Decimal(expense.amount).toFixed(2),
+    currency: expense.currency,
+    category: expense.category,
+    group: expense.group,
+    tags: expense.tags.map(({ tag }) => tag.name),
+    paidBy: expense.payers.length
+      ? expense.payers.map(payer => ({
+          userId: payer.userId,
+          name: payer.user.name,
+          amount: payer.amount.toFixed(2),
+        }))
+      : [{ userId: expense.userId, name: expense.user.name, amount: expense.amount.toFixed(2) }],
+    splits: expense.splits.map(split => ({
+      userId: split.userId,
+      name: split.user.name,
+      amount: split.amount.toFixed(2),
+      isPaid: split.isPaid,
+    })),
+  });
+}
+
+// QIF has no currency: amounts are written as recorded, with the currency in the memo
+function qifRecord(expense: ExpenseExportRecord, options: ExpenseExportOptions): string {
+  const [year, month, day] = isoDate(expense.paidAt).split('-');
+  const memo = expense.description
+    ? `${expense.description} (${expense.currency})`
+    : expense.currency;
+  const line = (text: string) => text.replace(/[\r\n]+/g, ' ');
+
+  return (
+    [
+      `D${month}/${day}/${year}`,
+      `T-${exportedAmount(expense, options).toFixed(2)}`,
+      `P${line(expense.title)}`,
+      `M${line(memo)}`,
+      ...(expense.category ? [`L${line(expense.category.name)}`] : []),
+      '^',
+    ].join('\r\n') + '\r\n'
+  );
+}
+
+function ofxText(text: string, maxLength: number): string {
+  return text
+    .replace(/[\r\n]+/g, ' ')
+    .slice(0, maxLength)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function ofxDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+// OFX 1.02 (SGML), the version most finance software imports. A statement has one currency,
+// that of the oldest expense; amounts in other currencies are written as recorded and named in
+// the memo.
+function ofxHeader(userId: number, currency: string, start: Date, end: Date): string {
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:UNICODE',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(new Date())}`,
+    '<LANGUAGE>ENG',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${currency}`,
+    `<BANKACCTFROM><BANKID>EXPENSES<ACCTID>${userId}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(start)}`,
+    `<DTEND>${ofxDate(end)}`,
+    '',
+  ].join('\r\n');
+}
+
+function ofxRecord(
+  expense: ExpenseExportRecord,
+  options: ExpenseExportOptions,
+  currency: string
+): string {
+  const memo = [
+    expense.description,
+    expense.currency !== currency ? `Amount in ${expense.currency}` : null,
+  ]
+    .filter(Boolean)
+    .join(' - ');
+
+  return [
+    '<STMTTRN>',
+    '<TRNTYPE>DEBIT',
+    `<DTPOSTED>${ofxDate(expense.paidAt)}`,
+    `<TRNAMT>-${exportedAmount(expense, options).toFixed(2)}`,
+    `<FITID>${expense.id}`,
+    `<NAME>${ofxText(expense.title, 32)}`,
+    ...(memo ? [`<MEMO>${ofxText(memo, 255)}`] : []),
+    '</STMTTRN>',
+    '',
+  ].join('\r\n');
+}
+
+const OFX_FOOTER = [
+  '</BANKTRANLIST>',
+  '</STMTRS>',
+  '</STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>',
+  '',
+].join('\r\n');
+
+// ===== Export =====
+
+async function* expensePages(filters: ExpenseFilters): AsyncGenerator<ExpenseExportRecord[]> {
+  let afterId: number | undefined;
+
+  for (;;) {
+    const page = await getExpenseExportPage(filters, afterId, EXPORT_PAGE_SIZE);
+    if (page.length > 0) {
+      yield page;
+    }
+    if (page.length < EXPORT_PAGE_SIZE) {
+      return;
+    }
+    afterId = page[page.length - 1].id;
+  }
+}
+
+/** Write the expenses matching the filters in the chosen format, a chunk at a time */
+export async function* exportExpenses(
+  filters: ExpenseFilters,
+  options: ExpenseExportOptions
+): AsyncGenerator<string> {
+  const pages = expensePages(filters);
+  let first = true;
+
+  // OFX needs the statement period and currency up front: the oldest expense is on the first page
+  const firstPage = await pages.next();
+  const expenses = firstPage.done ? [] : firstPage.value;
+  const statementCurrency = expenses[0]?.currency ?? 'USD';
+
+  switch (options.format) {
+    case 'csv':
+      yield '\uFEFF' + formatCsvRow(CSV_HEADER); // BOM so spreadsheets detect UTF-8
+      break;
+    case 'qif':
+      yield '!Type:Bank\r\n';
+      break;
+    case 'json':
+      yield '[';
+      break;
+    case 'ofx':
+      yield ofxHeader(
+        options.userId,
+        statementCurrency,
+        filters.fromDate ?? expenses[0]?.paidAt ?? new Date(),
+        filters.toDate ?? new Date()
+      );
+      break;
+  }
+
+  let page = expenses;
+  while (page.length > 0) {
+    yield page
+      .map(expense => {
+        switch (options.format) {
+          case 'csv':
+            return csvRecord(expense, options);
+          case 'qif':
+            return qifRecord(expense, options);
+          case 'ofx':
+            return ofxRecord(expense, options, statementCurrency);
+          case 'json': {
+            const record = (first ? '' : ',') + jsonRecord(expense, options);
+            first = false;
+            return record;
+          }
+        }
+      })
+      .join('');
+
+    const next = await pages.next();
+    page = next.done ? [] : next.value;
+  }
+
+  if (options.format === 'json') {
+    yield ']';
+  } else if (options.format === 'ofx') {
+    yield OFX_FOOTER;
+  }
+}
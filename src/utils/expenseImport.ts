@@ -0,0 +1,371 @@
+import { ImportAmountSign, ImportBatch, ImportProfile, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { createExpense } from '../repositories/expenseRepo.js';
+import { canUserAccessCategory, getUserCategories } from '../repositories/categoryRepo.js';
+import {
+  commitImportBatch,
+  createImportBatch,
+  getCategorizedExpenses,
+  getExpensesInRange,
+  IMPORT_MAX_ROWS,
+  ImportProfileData,
+} from '../repositories/importRepo.js';
+import { parseCsv } from './csv.js';
+
+// Bank statement import: a CSV upload is parsed with a saved column mapping profile into
+// preview rows, which are checked against existing expenses for duplicates and given a
+// suggested category. Committing creates the chosen rows as expenses in one transaction.
+
+// Existing expenses this many days either side of a row, with the same amount, can be duplicates
+const DUPLICATE_WINDOW_DAYS = 3;
+
+// Share of words two descriptions need in common to be considered the same
+const SIMILARITY_THRESHOLD = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ImportRow {
+  row: number; // Line in the file, counting the header
+  date: string | null; // ISO date
+  description: string;
+  amount: string | null; // Positive expense amount
+  suggestedCategoryId: number | null;
+  duplicateOfExpenseId: number | null; // Existing expense this row probably is
+  error: string | null; // Why the row cannot be imported
+}
+
+export interface ImportSummary {
+  total: number;
+  importable: number;
+  duplicates: number;
+  errors: number;
+}
+
+export interface CommitImportOptions {
+  rows?: number[]; // Rows to import; defaults to every row without an error or duplicate
+  categories?: Record<number, number | null>; // Row -> category, overriding the suggestion
+}
+
+type ProfileMapping = Pick<
+  ImportProfile,
+  | 'delimiter'
+  | 'hasHeader'
+  | 'dateColumn'
+  | 'descriptionColumn'
+  | 'amountColumn'
+  | 'debitColumn'
+  | 'creditColumn'
+  | 'amountSign'
+  | 'dateFormat'
+  | 'decimalSeparator'
+>;
+
+// ===== Parsing =====
+
+/** Throw an "Invalid import profile" error if the mapping cannot be used */
+export function validateImportProfile(profile: Partial<ImportProfileData>): void {
+  const invalid = (reason: string) => new Error(`Invalid import profile: ${reason}`);
+
+  if (profile.amountColumn && (profile.debitColumn || profile.creditColumn)) {
+    throw invalid('use either amountColumn or debitColumn/creditColumn, not both');
+  }
+  if (!profile.amountColumn && !profile.debitColumn) {
+    throw invalid('amountColumn or debitColumn is required');
+  }
+  if (profile.delimiter !== undefined && profile.delimiter.length !== 1) {
+    throw invalid('delimiter must be a single character');
+  }
+  if (profile.decimalSeparator !== undefined && !['.', ','].includes(profile.decimalSeparator)) {
+    throw invalid('decimalSeparator must be "." or ","');
+  }
+  if (
+    profile.dateFormat !== undefined &&
+    !['YYYY', 'MM', 'DD'].every(part => profile.dateFormat!.split(part).length === 2)
+  ) {
+    throw invalid('dateFormat must contain YYYY, MM and DD once each');
+  }
+}
+
+/** Parse a date in a format such as "DD/MM/YYYY"; returns null if it doesn't match */
+export function parseStatementDate(value: string, format: string): Date | null {
+  const order: string[] = [];
+  const pattern = format.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/YYYY|MM|DD/g, part => {
+    order.push(part);
+    return part === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+  });
+
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const parts = Object.fromEntries(
+    order.map((part, index) => [part, parseInt(match[index + 1], 10)])
+  );
+  const date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD));
+
+  // Reject dates like 31/02 that Date would roll over into the next month
+  return date.getUTCMonth() === parts.MM - 1 && date.getUTCDate() === parts.DD ? date : null;
+}
+
+/**
+ * Parse an amount such as "-1,234.56", "1.234,56", "(12.00)" or "12.00-"
+ * Currency symbols and spaces are ignored; returns null if there is no number
+ */
+export function parseStatementAmount(value: string, decimalSeparator: string): Decimal | null {
+  let text = value.replace(/[^\d.,()+-]/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text) || text.endsWith('-')) {
+    negative = true;
+    text = text.replace(/[()]/g, '').replace(/-$/, '');
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  text = text.replace(/^\+/, '');
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  text = text.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+
+  const amount = new Decimal(text);
+  return negative ? amount.negated() : amount;
+}
+
+/** Turn a CSV statement into preview rows (without duplicate checks or categories) */
+export function parseStatement(text: string, profile: ProfileMapping): ImportRow[] {
+  const records = parseCsv(text, profile.delimiter);
+  const header = profile.hasHeader ? (records.shift() ?? []).map(name => name.trim()) : null;
+
+  if (records.length > IMPORT_MAX_ROWS) {
+    throw new Error(`Statement has more than ${IMPORT_MAX_ROWS} rows`);
+  }
+
+  const columnIndex = (column: string | null): number | null => {
+    if (!column) {
+      return null;
+    }
+    const index = header ? header.indexOf(column.trim()) : parseInt(column, 10) - 1;
+    if (index < 0 || isNaN(index)) {
+      throw new Error(`Column "${column}" not found in the statement`);
+    }
+    return index;
+  };
+
+  const dateIndex = columnIndex(profile.dateColumn)!;
+  const descriptionIndex = columnIndex(profile.descriptionColumn)!;
+  const amountIndex = columnIndex(profile.amountColumn);
+  const debitIndex = columnIndex(profile.debitColumn);
+  const creditIndex = columnIndex(profile.creditColumn);
+
+  return records.map((record, index) => {
+    const cell = (column: number | null) => (column === null ? '' : (record[column] ?? '').trim());
+    const date = parseStatementDate(cell(dateIndex), profile.dateFormat);
+    const description = cell(descriptionIndex).replace(/\s+/g, ' ');
+
+    // Work out the money going out; money coming in is not an expense
+    let amount: Decimal | null;
+    if (amountIndex !== null) {
+      const signed = parseStatementAmount(cell(amountIndex), profile.decimalSeparator);
+      amount =
+        signed && (profile.amountSign === ImportAmountSign.NEGATIVE ? signed.negated() : signed);
+    } else {
+      const debit = cell(debitIndex);
+      const credit = cell(creditIndex);
+      const value = debit || credit;
+      const parsed = value ? parseStatementAmount(value, profile.decimalSeparator)?.abs() : null;
+      amount = parsed ? (debit ? parsed : parsed.negated()) : null;
+    }
+
+    let error: string | null = null;
+    if (!date) {
+      error = `Date does not match ${profile.dateFormat}`;
+    } else if (!description) {
+      error = 'Description is empty';
+    } else if (!amount) {
+      error = 'Amount is missing or not a number';
+    } else if (amount.lte(0)) {
+      error = 'Not an expense (money in)';
+    }
+
+    return {
+      row: index + (header ? 2 : 1),
+      date: date ? date.toISOString().slice(0, 10) : null,
+      description,
+      amount: amount && amount.gt(0) ? amount.toFixed(2) : null,
+      suggestedCategoryId: null,
+      duplicateOfExpenseId: null,
+      error,
+    };
+  });
+}
+
+// ===== Matching =====
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/\p{L}{3,}/gu) ?? []);
+}
+
+/** Share of the shorter description's words found in the other one, from 0 to 1 */
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  const common = [...wordsA].filter(word => wordsB.has(word)).length;
+  return common / Math.min(wordsA.size, wordsB.size);
+}
+
+/** Flag likely duplicates of existing expenses and suggest categories, in place */
+async function annotateRows(userId: number, rows: ImportRow[]): Promise<void> {
+  const candidates = rows.filter(row => !row.error);
+  if (candidates.length === 0) {
+    return;
+  }
+
+  const times = candidates.map(row => new Date(row.date!).getTime());
+  const [existing, categorized, categories] = await Promise.all([
+    getExpensesInRange(
+      userId,
+      new Date(Math.min(...times) - DUPLICATE_WINDOW_DAYS * DAY_MS),
+      new Date(Math.max(...times) + (DUPLICATE_WINDOW_DAYS + 1) * DAY_MS)
+    ),
+    getCategorizedExpenses(userId),
+    getUserCategories(userId, { limit: 200 }),
+  ]);
+
+  // Each existing expense can only be the duplicate of one row
+  const matched = new Set<number>();
+
+  for (const row of candidates) {
+    const time = new Date(row.date!).getTime();
+    const duplicate = existing
+      .filter(
+        expense =>
+          !matched.has(expense.id) &&
+          new Decimal(expense.amount).equals(row.amount!) &&
+          Math.abs(expense.paidAt.getTime() - time) <= (DUPLICATE_WINDOW_DAYS + 1) * DAY_MS
+      )
+      .map(expense => ({ expense, score: descriptionSimilarity(expense.title, row.description) }))
+      .filter(({ score }) => score >= SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.score - a.score)[0];
+
+    if (duplicate) {
+      matched.add(duplicate.expense.id);
+      row.duplicateOfExpenseId = duplicate.expense.id;
+    }
+
+    // Prefer the category of a similar past expense, then a category named in the description
+    let best = 0;
+    for (const expense of categorized) {
+      const score = descriptionSimilarity(expense.title, row.description);
+      if (score >= SIMILARITY_THRESHOLD && score > best) {
+        best = score;
+        row.suggestedCategoryId = expense.categoryId;
+      }
+    }
+
+    if (row.suggestedCategoryId === null) {
+      const rowWords = words(row.description);
+      const named = categories.find(category =>
+        [...words(category.name)].some(word => rowWords.has(word))
+      );
+      row.suggestedCategoryId = named?.id ?? null;
+    }
+  }
+}
+
+/** Counts shown with a preview */
+export function summarizeImportRows(rows: ImportRow[]): ImportSummary {
+  return {
+    total: rows.length,
+    importable: rows.filter(row => !row.error && !row.duplicateOfExpenseId).length,
+    duplicates: rows.filter(row => row.duplicateOfExpenseId).length,
+    errors: rows.filter(row => row.error).length,
+  };
+}
+
+// ===== Import Pipeline =====
+
+/** Parse an uploaded statement and store it as a pending import for the user to review */
+export async function previewImport(
+  userId: number,
+  profile: ImportProfile,
+  fileName: string,
+  data: Buffer,
+  groupId?: number
+): Promise<ImportBatch> {
+  const rows = parseStatement(data.toString('utf8'), profile);
+  await annotateRows(userId, rows);
+
+  return createImportBatch({
+    userId,
+    groupId,
+    profileId: profile.id,
+    fileName,
+    currency: profile.currency ?? undefined,
+    rows: rows as unknown as Prisma.InputJsonValue,
+  });
+}
+
+/**
+ * Create expenses for the chosen rows of a pending import, all or nothing
+ * Throws if a chosen row cannot be imported or a category is not available to the user
+ */
+export async function commitImport(
+  batch: ImportBatch,
+  options: CommitImportOptions = {}
+): Promise<ImportBatch> {
+  const rows = batch.rows as unknown as ImportRow[];
+
+  const selected = options.rows
+    ? options.rows.map(number => {
+        const row = rows.find(candidate => candidate.row === number);
+        if (!row) {
+          throw new Error(`Row ${number} is not part of this import`);
+        }
+        if (row.error) {
+          throw new Error(`Row ${number} cannot be imported: ${row.error}`);
+        }
+        return row;
+      })
+    : rows.filter(row => !row.error && !row.duplicateOfExpenseId);
+
+  const categoryOf = (row: ImportRow) =>
+    options.categories && row.row in options.categories
+      ? options.categories[row.row]
+      : row.suggestedCategoryId;
+
+  const categoryIds = new Set(selected.map(categoryOf).filter((id): id is number => id !== null));
+  for (const categoryId of categoryIds) {
+    if (!(await canUserAccessCategory(batch.userId, categoryId))) {
+      throw new Error(`Category ${categoryId} not found`);
+    }
+  }
+
+  return commitImportBatch(batch.id, async tx => {
+    for (const row of selected) {
+      await createExpense(
+        {
+          title: row.description,
+          amount: new Decimal(row.amount!),
+          currency: batch.currency ?? undefined,
+          userId: batch.userId,
+          groupId: batch.groupId ?? undefined,
+          categoryId: categoryOf(row) ?? undefined,
+          paidAt: new Date(row.date!),
+          importBatchId: batch.id,
+        },
+        tx
+      );
+    }
+    return selected.length;
+  });
+}
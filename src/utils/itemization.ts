@@ -0,0 +1,112 @@
+import { ExpenseAdjustmentType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Itemized bills: each participant pays for their items, and tax, tip, service charges and
+// discounts are shared in proportion to each participant's item subtotal.
+// Shares are rounded to cents so that they add up to the bill total exactly.
+
+export interface ItemizationItem {
+  name: string;
+  amount: number | Decimal;
+  assigneeIds: number[]; // The item is shared equally between them
+}
+
+export interface ItemizationAdjustment {
+  type: ExpenseAdjustmentType;
+  amount: number | Decimal; // Positive; discounts are subtracted
+  description?: string;
+}
+
+export interface ItemizedShare {
+  userId: number;
+  amount: Decimal;
+}
+
+/** Item subtotal plus charges minus discounts */
+export function getItemizedTotal(
+  items: ItemizationItem[],
+  adjustments: ItemizationAdjustment[]
+): Decimal {
+  const subtotal = items.reduce((sum, item) => sum.plus(item.amount), new Decimal(0));
+
+  return adjustments.reduce(
+    (sum, adjustment) =>
+      adjustment.type === ExpenseAdjustmentType.DISCOUNT
+        ? sum.minus(adjustment.amount)
+        : sum.plus(adjustment.amount),
+    subtotal
+  );
+}
+
+/**
+ * Work out what each participant owes for an itemized bill of `total`
+ * Throws if the items and adjustments are invalid or don't add up to the total
+ */
+export function calculateItemizedShares(
+  total: Decimal,
+  items: ItemizationItem[],
+  adjustments: ItemizationAdjustment[] = []
+): ItemizedShare[] {
+  if (items.length === 0) {
+    throw new Error('At least one item is required');
+  }
+
+  for (const item of items) {
+    if (new Decimal(item.amount).lte(0)) {
+      throw new Error(`Item "${item.name}" must have a positive amount`);
+    }
+    if (item.assigneeIds.length === 0) {
+      throw new Error(`Item "${item.name}" must be assigned to at least one participant`);
+    }
+    if (new Set(item.assigneeIds).size !== item.assigneeIds.length) {
+      throw new Error(`Item "${item.name}" lists a participant more than once`);
+    }
+  }
+
+  if (adjustments.some(adjustment => new Decimal(adjustment.amount).lte(0))) {
+    throw new Error('Adjustment amounts must be positive');
+  }
+
+  const itemizedTotal = getItemizedTotal(items, adjustments);
+  if (!itemizedTotal.equals(total)) {
+    throw new Error(`Itemized total (${itemizedTotal}) must equal expense amount (${total})`);
+  }
+
+  if (total.lte(0)) {
+    throw new Error('Discounts cannot exceed the item subtotal');
+  }
+
+  // Each participant's item subtotal, kept exact until the final rounding
+  const subtotals = new Map<number, Decimal>();
+  for (const item of items) {
+    const share = new Decimal(item.amount).dividedBy(item.assigneeIds.length);
+    for (const userId of item.assigneeIds) {
+      subtotals.set(userId, (subtotals.get(userId) ?? new Decimal(0)).plus(share));
+    }
+  }
+
+  const subtotal = items.reduce((sum, item) => sum.plus(item.amount), new Decimal(0));
+  const exactShares = [...subtotals].map(([userId, amount]) => ({
+    userId,
+    exact: amount.times(total).dividedBy(subtotal),
+  }));
+
+  // Round down to cents, then hand the leftover cents to the largest remainders
+  const shares = exactShares.map(({ userId, exact }) => ({
+    userId,
+    amount: exact.toDecimalPlaces(2, Decimal.ROUND_DOWN),
+    remainder: exact.minus(exact.toDecimalPlaces(2, Decimal.ROUND_DOWN)),
+  }));
+
+  const allocated = shares.reduce((sum, share) => sum.plus(share.amount), new Decimal(0));
+  const leftoverCents = total.minus(allocated).times(100).toNumber();
+
+  [...shares]
+    .sort((a, b) => b.remainder.comparedTo(a.remainder))
+    .slice(0, Math.round(leftoverCents))
+    .forEach(share => {
+      share.amount = share.amount.plus('0.01');
+    });
+
+  return shares.map(({ userId, amount }) => ({ userId, amount }));
+}
@@ -0,0 +1,80 @@
+import { SecurityEventType } from '@prisma/client';
+import {
+  accountThrottleKey,
+  clearFailedLogins,
+  getLoginThrottle,
+  ipThrottleKey,
+  LoginThrottleStatus,
+  recordFailedLogin,
+} from '../repositories/loginThrottleRepo.js';
+import { recordSecurityEvent } from '../repositories/securityEventRepo.js';
+
+export interface LoginAttemptMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/** Throttle keys that apply to a login attempt: the account and the client address */
+export function getLoginThrottleKeys(email: string, ipAddress?: string): string[] {
+  return ipAddress
+    ? [accountThrottleKey(email), ipThrottleKey(ipAddress)]
+    : [accountThrottleKey(email)];
+}
+
+/** Check whether a login attempt must be rejected without looking at the credentials */
+export async function checkLoginThrottle(
+  email: string,
+  metadata: LoginAttemptMetadata
+): Promise<LoginThrottleStatus> {
+  return getLoginThrottle(getLoginThrottleKeys(email, metadata.ipAddress));
+}
+
+/** Error body for a throttled login attempt */
+export function createThrottledResponse(status: LoginThrottleStatus) {
+  return {
+    message: status.locked
+      ? 'Too many failed login attempts, the account is temporarily locked'
+      : 'Too many failed login attempts, please wait before trying again',
+    error: 'Too Many Requests',
+    statusCode: 429,
+    retryAfter: status.retryAfterSeconds,
+  };
+}
+
+/**
+ * Count a failed login and add it to the user's security log.
+ * userId is only known when the email belongs to an account.
+ */
+export async function registerFailedLogin(
+  email: string,
+  metadata: LoginAttemptMetadata,
+  userId: number | null,
+  reason: string
+): Promise<void> {
+  const lockedKeys = await recordFailedLogin(getLoginThrottleKeys(email, metadata.ipAddress));
+
+  if (userId) {
+    await recordSecurityEvent(userId, SecurityEventType.LOGIN_FAILED, {
+      ...metadata,
+      detail: reason,
+    });
+
+    if (lockedKeys.includes(accountThrottleKey(email))) {
+      await recordSecurityEvent(userId, SecurityEventType.ACCOUNT_LOCKED, metadata);
+    }
+  }
+}
+
+/** Reset the account's failed attempts and add the login to the user's security log */
+export async function registerSuccessfulLogin(
+  userId: number,
+  email: string,
+  metadata: LoginAttemptMetadata,
+  method: string
+): Promise<void> {
+  await clearFailedLogins(accountThrottleKey(email));
+  await recordSecurityEvent(userId, SecurityEventType.LOGIN_SUCCEEDED, {
+    ...metadata,
+    detail: method,
+  });
+}
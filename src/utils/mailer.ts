@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createOutboxEmail } from '../repositories/emailOutboxRepo.js';
+
+// Mail settings - in production, these should be in environment variables
+const MAIL_FROM = process.env.MAIL_FROM || 'Expense Service <no-reply@expense-svc.local>';
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail');
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  // eslint-disable-next-line no-unused-vars
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/** Transport that stores every message in the email_outbox table */
+export function createOutboxTransport(): MailTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      await createOutboxEmail(message);
+    },
+  };
+}
+
+/** Transport that writes every message as a JSON file into a local directory */
+export function createFileTransport(directory: string = MAIL_OUTBOX_DIR): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+      await fs.writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, createdAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+/** Create the transport selected by MAIL_TRANSPORT ("outbox" by default) */
+export function createTransport(name: string = process.env.MAIL_TRANSPORT || 'outbox') {
+  switch (name) {
+    case 'outbox':
+      return createOutboxTransport();
+    case 'file':
+      return createFileTransport();
+    default:
+      throw new Error(`Unsupported mail transport: ${name}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/** Replace the active transport (e.g. with a real SMTP/API transport at startup) */
+export function setMailTransport(customTransport: MailTransport): void {
+  transport = customTransport;
+}
+
+/** Send a message through the active transport */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createTransport();
+  }
+
+  await transport.send({ from: MAIL_FROM, ...message });
+}
+
+// ===== Templates =====
+
+/** Send the email address verification link */
+export async function sendVerificationEmail(
+  user: { email: string; name: string },
+  token: string
+): Promise<void> {
+  const link = `${APP_BASE_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text:
+      `Hi ${user.name},\n\n` +
+      `Please confirm your email address by opening the link below:\n\n${link}\n\n` +
+      `Verification code: ${token}\n\n` +
+      `If you did not create an account, you can ignore this email.`,
+  });
+}
+
+/** Send the password reset link */
+export async function sendPasswordResetEmail(
+  user: { email: string; name: string },
+  token: string,
+  expiresAt: Date
+): Promise<void> {
+  const link = `${APP_BASE_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text:
+      `Hi ${user.name},\n\n` +
+      `Someone requested a password reset for your account. Open the link below to choose ` +
+      `a new password:\n\n${link}\n\n` +
+      `This link can only be used once and expires at ${expiresAt.toISOString()}.\n\n` +
+      `If you did not request a reset, you can ignore this email.`,
+  });
+}
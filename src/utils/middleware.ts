@@ -1,6 +1,9 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { verifyToken } from './auth.js';
+import { SystemRole } from '@prisma/client';
+import { ApiTokenScope, isApiToken, verifyToken } from './auth.js';
 import { getUserById } from '../repositories/userRepo.js';
+import { isSessionActive } from '../repositories/sessionRepo.js';
+import { authenticateApiToken } from '../repositories/apiTokenRepo.js';
 
 // Add user to the request type
 declare module 'fastify' {
@@ -9,6 +12,9 @@ declare module 'fastify' {
       id: number;
       email: string;
       provider: string;
+      sessionId?: string;
+      apiTokenId?: number; // Set when authenticated with a personal API token
+      scopes?: string[]; // API token scopes; undefined for login sessions (full access)
     };
   }
 }
@@ -18,11 +24,14 @@ export interface AuthenticatedRequest extends FastifyRequest {
     id: number;
     email: string;
     provider: string;
+    sessionId?: string;
+    apiTokenId?: number;
+    scopes?: string[];
   };
 }
 
 /**
- * Authentication middleware that verifies JWT token and adds user to request
+ * Authentication middleware that verifies a JWT or personal API token and adds user to request
  */
 export async function authenticate(request: FastifyRequest, reply: FastifyReply) {
   try {
@@ -37,6 +46,36 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
     }
 
     const token = authHeader.substring(7);
+
+    if (isApiToken(token)) {
+      const apiToken = await authenticateApiToken(token, request.ip);
+      if (!apiToken) {
+        return reply.code(401).send({
+          message: 'Invalid, expired or revoked API token',
+          error: 'Unauthorized',
+          statusCode: 401,
+        });
+      }
+
+      const tokenUser = await getUserById(apiToken.userId);
+      if (!tokenUser || !tokenUser.isActive) {
+        return reply.code(401).send({
+          message: 'User not found or inactive',
+          error: 'Unauthorized',
+          statusCode: 401,
+        });
+      }
+
+      request.user = {
+        id: tokenUser.id,
+        email: tokenUser.email,
+        provider: tokenUser.provider,
+        apiTokenId: apiToken.id,
+        scopes: apiToken.scopes,
+      };
+      return;
+    }
+
     const payload = verifyToken(token);
 
     if (!payload) {
@@ -57,11 +96,21 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
       });
     }
 
+    // Tokens bound to a session stop working as soon as the session is revoked
+    if (payload.sessionId && !(await isSessionActive(payload.sessionId))) {
+      return reply.code(401).send({
+        message: 'Session has been revoked',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
+    }
+
     // Add user info to request
     request.user = {
       id: payload.userId,
       email: payload.email,
       provider: payload.provider,
+      sessionId: payload.sessionId,
     };
   } catch {
     return reply.code(401).send({
@@ -72,6 +121,83 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
   }
 }
 
+/**
+ * Create a middleware that requires an API token to carry the given scope.
+ * Login sessions are not scoped and always pass; must run after authenticate.
+ */
+export function requireScope(scope: ApiTokenScope) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    if (request.user?.scopes && !request.user.scopes.includes(scope)) {
+      return reply.code(403).send({
+        message: `API token is missing the required scope: ${scope}`,
+        error: 'Forbidden',
+        statusCode: 403,
+      });
+    }
+  };
+}
+
+/**
+ * Middleware for account and security management routes, which API tokens may never use.
+ * Must run after authenticate.
+ */
+export async function requireUserSession(request: FastifyRequest, reply: FastifyReply) {
+  if (request.user?.apiTokenId) {
+    return reply.code(403).send({
+      message: 'This action requires a login session and cannot be performed with an API token',
+      error: 'Forbidden',
+      statusCode: 403,
+    });
+  }
+}
+
+/**
+ * Middleware that rejects users whose email is not verified.
+ * Only enforced when REQUIRE_EMAIL_VERIFICATION=true; must run after authenticate.
+ */
+export async function requireVerifiedEmail(request: FastifyRequest, reply: FastifyReply) {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION !== 'true') {
+    return;
+  }
+
+  const user = request.user ? await getUserById(request.user.id) : null;
+  if (!user || !user.isEmailVerified) {
+    return reply.code(403).send({
+      message: 'Email address must be verified to perform this action',
+      error: 'Forbidden',
+      statusCode: 403,
+    });
+  }
+}
+
+/**
+ * Middleware for the admin API; only users with the ADMIN system role may pass.
+ * The role is read from the database so demotions take effect immediately. Must run after authenticate.
+ */
+export async function requireSystemAdmin(request: FastifyRequest, reply: FastifyReply) {
+  const user = request.user ? await getUserById(request.user.id) : null;
+  if (!user || user.role !== SystemRole.ADMIN) {
+    return reply.code(403).send({
+      message: 'Administrator access required',
+      error: 'Forbidden',
+      statusCode: 403,
+    });
+  }
+}
+
+/**
+ * Client metadata recorded on sessions and security-relevant records
+ */
+export function getRequestMetadata(request: FastifyRequest): {
+  userAgent?: string;
+  ipAddress?: string;
+} {
+  return {
+    userAgent: request.headers['user-agent'],
+    ipAddress: request.ip,
+  };
+}
+
 /**
  * Schema for authorization header
  */
@@ -80,7 +206,7 @@ export const authHeaderSchema = {
   properties: {
     authorization: {
       type: 'string',
-      description: 'Bearer token for authentication',
+      description: 'Bearer token for authentication (JWT access token or personal API token)',
     },
   },
   required: ['authorization'],
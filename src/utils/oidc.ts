@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+
+// OAuth settings - every provider is configured through OAUTH_<NAME>_* environment variables
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+const DEFAULT_SCOPES = 'openid email profile';
+const ID_TOKEN_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  redirectUri: string;
+}
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+}
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string })[];
+}
+
+const discoveryCache = new Map<string, OidcDiscoveryDocument>();
+const jwksCache = new Map<string, JsonWebKeySet>();
+
+// ===== Provider Configuration =====
+
+/** Names of the providers listed in OAUTH_PROVIDERS (comma separated) */
+export function getEnabledProviders(
+  env: Record<string, string | undefined> = process.env
+): string[] {
+  return (env.OAUTH_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => /^[a-z0-9_-]+$/.test(name));
+}
+
+/** Read a provider's configuration, or null if it is not enabled or incomplete */
+export function getProviderConfig(
+  name: string,
+  env: Record<string, string | undefined> = process.env
+): OidcProviderConfig | null {
+  if (!getEnabledProviders(env).includes(name)) {
+    return null;
+  }
+
+  const prefix = `OAUTH_${name.toUpperCase().replace(/-/g, '_')}_`;
+  const issuer = env[`${prefix}ISSUER`];
+  const clientId = env[`${prefix}CLIENT_ID`];
+
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  return {
+    name,
+    issuer,
+    clientId,
+    clientSecret: env[`${prefix}CLIENT_SECRET`],
+    scopes: env[`${prefix}SCOPES`] || DEFAULT_SCOPES,
+    redirectUri:
+      env[`${prefix}REDIRECT_URI`] || `${APP_BASE_URL}/api/v1/auth/oauth/${name}/callback`,
+  };
+}
+
+// ===== Authorization Request =====
+
+/** Generate a random URL-safe value (state, nonce) */
+export function generateRandomValue(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/** Create a PKCE code verifier and its S256 challenge */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = generateRandomValue(32);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/** Build the URL the user is sent to in order to sign in with the provider */
+export function buildAuthorizationUrl(
+  config: OidcProviderConfig,
+  discovery: OidcDiscoveryDocument,
+  params: { state: string; nonce: string; codeChallenge: string }
+): string {
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+// ===== Provider Requests =====
+
+async function fetchJson<T>(url: string, init?: Parameters<typeof fetch>[1]): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/** Load (and cache) the provider's OpenID configuration document */
+export async function discoverProvider(config: OidcProviderConfig): Promise<OidcDiscoveryDocument> {
+  const cached = discoveryCache.get(config.issuer);
+  if (cached) {
+    return cached;
+  }
+
+  const document = await fetchJson<OidcDiscoveryDocument>(
+    `${config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+  );
+
+  if (document.issuer !== config.issuer) {
+    throw new Error(`OIDC issuer mismatch: expected ${config.issuer}, got ${document.issuer}`);
+  }
+
+  discoveryCache.set(config.issuer, document);
+  return document;
+}
+
+/** Exchange an authorization code (plus PKCE verifier) for the provider's ID token */
+export async function exchangeAuthorizationCode(
+  config: OidcProviderConfig,
+  discovery: OidcDiscoveryDocument,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: codeVerifier,
+  });
+
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body,
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('OIDC token response did not include an ID token');
+  }
+
+  return tokens.id_token;
+}
+
+async function getSigningKey(jwksUri: string, kid?: string): Promise<crypto.KeyObject> {
+  const findKey = (jwks: JsonWebKeySet) =>
+    jwks.keys.find(key => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  let key = jwksCache.has(jwksUri) ? findKey(jwksCache.get(jwksUri)!) : undefined;
+
+  // Unknown key ID: the provider may have rotated its keys, refetch once
+  if (!key) {
+    const jwks = await fetchJson<JsonWebKeySet>(jwksUri);
+    jwksCache.set(jwksUri, jwks);
+    key = findKey(jwks);
+  }
+
+  if (!key) {
+    throw new Error('Invalid ID token: signing key not found');
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+}
+
+/** Verify the ID token signature and claims, returning the signed-in identity */
+export async function verifyIdToken(
+  config: OidcProviderConfig,
+  discovery: OidcDiscoveryDocument,
+  idToken: string,
+  nonce: string
+): Promise<OidcIdentity> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw new Error('Invalid ID token: malformed token');
+  }
+
+  const key = await getSigningKey(discovery.jwks_uri, decoded.header.kid);
+
+  let claims: JwtPayload;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: config.clientId,
+    }) as JwtPayload;
+  } catch (error) {
+    throw new Error(`Invalid ID token: ${(error as Error).message}`);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new Error('Invalid ID token: nonce mismatch');
+  }
+
+  if (!claims.sub) {
+    throw new Error('Invalid ID token: missing subject');
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    picture: typeof claims.picture === 'string' ? claims.picture : undefined,
+  };
+}
+
+/** Forget cached discovery documents and signing keys */
+export function clearOidcCache(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
@@ -0,0 +1,299 @@
+// Recurring expense schedules, evaluated in UTC. Two formats are accepted:
+// - an RRULE (RFC 5545 subset): FREQ, INTERVAL, BYDAY, BYMONTHDAY and BYMONTH,
+//   e.g. "FREQ=MONTHLY;BYMONTHDAY=1" or "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+// - a 5-field cron expression (minute hour day-of-month month day-of-week), e.g. "0 9 1 * *"
+// End dates and occurrence limits are stored separately, so COUNT and UNTIL are rejected.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead to look for the next occurrence before giving up
+const MAX_SEARCH_DAYS = 10 * 366;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RRuleSchedule {
+  kind: 'rrule';
+  frequency: Frequency;
+  interval: number;
+  byDay: number[] | null; // 0 = Sunday
+  byMonthDay: number[] | null; // Negative values count back from the end of the month
+  byMonth: number[] | null; // 1-12
+}
+
+interface CronSchedule {
+  kind: 'cron';
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0 = Sunday
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+type Schedule = RRuleSchedule | CronSchedule;
+
+// ===== Parsing =====
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid schedule: ${reason}`);
+}
+
+function parseInteger(value: string, min: number, max: number, name: string): number {
+  if (!/^-?\d+$/.test(value)) {
+    throw invalid(`${name} must be a whole number`);
+  }
+
+  const parsed = parseInt(value, 10);
+  if (parsed < min || parsed > max) {
+    throw invalid(`${name} must be between ${min} and ${max}`);
+  }
+
+  return parsed;
+}
+
+function parseRRule(rule: string): RRuleSchedule {
+  const parts = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw invalid(`malformed rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  if (parts.has('COUNT') || parts.has('UNTIL')) {
+    throw invalid('use maxOccurrences and endDate instead of COUNT and UNTIL');
+  }
+
+  const frequency = parts.get('FREQ');
+  if (!frequency || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(frequency)) {
+    throw invalid('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH'].includes(key)) {
+      throw invalid(`${key} is not supported`);
+    }
+  }
+
+  const list = (key: string): string[] | null => parts.get(key)?.split(',') ?? null;
+  const interval = parts.get('INTERVAL');
+
+  return {
+    kind: 'rrule',
+    frequency: frequency as Frequency,
+    interval: interval ? parseInteger(interval, 1, 1000, 'INTERVAL') : 1,
+    byDay:
+      list('BYDAY')?.map(value => {
+        const day = WEEKDAYS.indexOf(value);
+        if (day === -1) {
+          throw invalid(`unknown BYDAY value "${value}"`);
+        }
+        return day;
+      }) ?? null,
+    byMonthDay:
+      list('BYMONTHDAY')?.map(value => {
+        const day = parseInteger(value, -31, 31, 'BYMONTHDAY');
+        if (day === 0) {
+          throw invalid('BYMONTHDAY cannot be 0');
+        }
+        return day;
+      }) ?? null,
+    byMonth: list('BYMONTH')?.map(value => parseInteger(value, 1, 12, 'BYMONTH')) ?? null,
+  };
+}
+
+/** Expand one cron field ("*", "5", "1-5", "*\/15", "1,15") into the values it matches */
+function parseCronField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInteger(stepText, 1, max, `${name} step`);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseInteger(from, min, max, name);
+      end = parseInteger(to, min, max, name);
+      if (start > end) {
+        throw invalid(`${name} range ${range} is backwards`);
+      }
+    } else {
+      start = parseInteger(range, min, max, name);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseCron(expression: string): CronSchedule {
+  const fields = expression.split(/\s+/);
+  if (fields.length !== 5) {
+    throw invalid('cron expressions need 5 fields (minute hour day-of-month month day-of-week)');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  return {
+    kind: 'cron',
+    minutes: parseCronField(minute, 0, 59, 'minute'),
+    hours: parseCronField(hour, 0, 23, 'hour'),
+    daysOfMonth: new Set(parseCronField(dayOfMonth, 1, 31, 'day of month')),
+    months: new Set(parseCronField(month, 1, 12, 'month')),
+    // 7 is Sunday too
+    daysOfWeek: new Set(parseCronField(dayOfWeek, 0, 7, 'day of week').map(day => day % 7)),
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+function parseSchedule(schedule: string): Schedule {
+  const trimmed = schedule.trim();
+  if (!trimmed) {
+    throw invalid('schedule is empty');
+  }
+
+  return trimmed.includes('=') ? parseRRule(trimmed) : parseCron(trimmed);
+}
+
+/** Throw a descriptive "Invalid schedule" error if the schedule cannot be used */
+export function validateSchedule(schedule: string): void {
+  parseSchedule(schedule);
+}
+
+// ===== Evaluation =====
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function daysInMonth(day: Date): number {
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+}
+
+/** Whether the day is one of the month days, where days past the end of a month fall on its last day */
+function matchesMonthDay(day: Date, monthDays: number[]): boolean {
+  const lastDay = daysInMonth(day);
+  return monthDays.some(monthDay => {
+    const resolved = monthDay > 0 ? Math.min(monthDay, lastDay) : lastDay + monthDay + 1;
+    return resolved === day.getUTCDate();
+  });
+}
+
+function matchesRRuleDay(rule: RRuleSchedule, day: Date, firstDay: Date): boolean {
+  const elapsedDays = Math.round((day.getTime() - firstDay.getTime()) / DAY_MS);
+
+  // Periods (days, weeks, months or years) since the start date
+  let periods: number;
+  switch (rule.frequency) {
+    case 'DAILY':
+      periods = elapsedDays;
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const firstMonday = firstDay.getTime() - ((firstDay.getUTCDay() + 6) % 7) * DAY_MS;
+      periods = Math.floor((day.getTime() - firstMonday) / (7 * DAY_MS));
+      break;
+    }
+    case 'MONTHLY':
+      periods = monthsBetween(firstDay, day);
+      break;
+    case 'YEARLY':
+      periods = day.getUTCFullYear() - firstDay.getUTCFullYear();
+      break;
+  }
+
+  if (periods % rule.interval !== 0) {
+    return false;
+  }
+
+  // Unset BY* parts default to the matching part of the start date
+  const byMonth =
+    rule.byMonth ?? (rule.frequency === 'YEARLY' ? [firstDay.getUTCMonth() + 1] : null);
+  if (byMonth && !byMonth.includes(day.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const byDay =
+    rule.byDay ?? (rule.frequency === 'WEEKLY' && !rule.byMonthDay ? [firstDay.getUTCDay()] : null);
+  if (byDay && !byDay.includes(day.getUTCDay())) {
+    return false;
+  }
+
+  const byMonthDay =
+    rule.byMonthDay ??
+    ((rule.frequency === 'MONTHLY' || rule.frequency === 'YEARLY') && !rule.byDay
+      ? [firstDay.getUTCDate()]
+      : null);
+  return !byMonthDay || matchesMonthDay(day, byMonthDay);
+}
+
+function matchesCronDay(cron: CronSchedule, day: Date): boolean {
+  if (!cron.months.has(day.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const monthDayMatches = cron.daysOfMonth.has(day.getUTCDate());
+  const weekDayMatches = cron.daysOfWeek.has(day.getUTCDay());
+
+  // As in cron, a day matches either field when both are restricted
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return monthDayMatches || weekDayMatches;
+  }
+  return monthDayMatches && weekDayMatches;
+}
+
+/**
+ * Get the first occurrence strictly after `after` and not before `startDate`
+ * Returns null when there is none within the next ten years
+ */
+export function getNextOccurrence(schedule: string, startDate: Date, after: Date): Date | null {
+  const parsed = parseSchedule(schedule);
+  const from = after.getTime() >= startDate.getTime() ? after : new Date(startDate.getTime() - 1);
+  const firstDay = startOfDay(startDate);
+  const timeOfDay = startDate.getTime() - firstDay.getTime();
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(startOfDay(from).getTime() + offset * DAY_MS);
+
+    if (parsed.kind === 'rrule') {
+      const occurrence = new Date(day.getTime() + timeOfDay);
+      if (occurrence > from && matchesRRuleDay(parsed, day, firstDay)) {
+        return occurrence;
+      }
+      continue;
+    }
+
+    if (!matchesCronDay(parsed, day)) {
+      continue;
+    }
+
+    for (const hour of parsed.hours) {
+      for (const minute of parsed.minutes) {
+        const occurrence = new Date(day.getTime() + (hour * 60 + minute) * 60 * 1000);
+        if (occurrence > from) {
+          return occurrence;
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,99 @@
+import { RecurringExpense } from '@prisma/client';
+import { createExpense } from '../repositories/expenseRepo.js';
+import { createExpenseSplits } from '../repositories/expenseSplitRepo.js';
+import {
+  completeOccurrence,
+  getDueRecurringExpenses,
+  getOccurrenceExpense,
+  getRecurringSplitTemplate,
+  OccurrenceExpense,
+  recordRecurringExpenseFailure,
+} from '../repositories/recurringExpenseRepo.js';
+
+// Occurrences created per recurring expense in one run; a long backlog is caught up over several runs
+const MAX_OCCURRENCES_PER_RUN = 50;
+
+// Keeps overlapping runs (e.g. a slow run and the next interval) from racing each other
+let running = false;
+
+/**
+ * Create the expense for one occurrence, then its splits
+ * Each step is skipped if an earlier, interrupted run already did it
+ */
+async function createOccurrence(
+  recurringExpense: RecurringExpense,
+  occurrenceDate: Date
+): Promise<void> {
+  let expense: OccurrenceExpense | null = await getOccurrenceExpense(
+    recurringExpense.id,
+    occurrenceDate
+  );
+
+  if (!expense) {
+    const created = await createExpense({
+      title: recurringExpense.title,
+      description: recurringExpense.description ?? undefined,
+      amount: recurringExpense.amount,
+      currency: recurringExpense.currency ?? undefined,
+      userId: recurringExpense.userId,
+      groupId: recurringExpense.groupId ?? undefined,
+      categoryId: recurringExpense.categoryId ?? undefined,
+      paidAt: occurrenceDate,
+      recurringExpenseId: recurringExpense.id,
+      occurrenceDate,
+    });
+    expense = { id: created.id, splitCount: 0 };
+  }
+
+  const split = getRecurringSplitTemplate(recurringExpense);
+  if (split && expense.splitCount === 0) {
+    await createExpenseSplits({ expenseId: expense.id, ...split }, recurringExpense.userId);
+  }
+}
+
+/**
+ * Create every due occurrence of active recurring expenses, oldest first,
+ * including ones missed while the server was down. Returns how many were created.
+ */
+export async function processDueRecurringExpenses(now: Date = new Date()): Promise<number> {
+  if (running) {
+    return 0;
+  }
+
+  running = true;
+  try {
+    let created = 0;
+
+    for (const due of await getDueRecurringExpenses(now)) {
+      let recurringExpense: RecurringExpense | null = due;
+
+      for (
+        let count = 0;
+        count < MAX_OCCURRENCES_PER_RUN &&
+        recurringExpense?.nextRunAt &&
+        recurringExpense.nextRunAt <= now;
+        count++
+      ) {
+        const occurrenceDate: Date = recurringExpense.nextRunAt;
+        try {
+          await createOccurrence(recurringExpense, occurrenceDate);
+        } catch (error) {
+          // Keep the occurrence pending so it is retried, and let the owner see why it failed.
+          // An expense created meanwhile by another server instance is picked up by the retry.
+          await recordRecurringExpenseFailure(
+            recurringExpense.id,
+            error instanceof Error ? error.message : String(error)
+          );
+          break;
+        }
+
+        recurringExpense = await completeOccurrence(recurringExpense.id, occurrenceDate);
+        created++;
+      }
+    }
+
+    return created;
+  } finally {
+    running = false;
+  }
+}
@@ -0,0 +1,211 @@
+import { SplitType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Split amounts: EQUAL divides the total between participants, AMOUNT takes the amounts as
+// given and PERCENTAGE takes a share of the total. ITEMIZED splits are calculated from line
+// items instead (see itemization.ts).
+
+export interface SplitParticipant {
+  userId: number;
+  amount?: number; // For AMOUNT splits
+  percentage?: number; // For PERCENTAGE splits
+}
+
+export interface CalculatedSplit {
+  userId: number;
+  amount: Decimal;
+  percentage?: number;
+}
+
+export interface ExistingSplit {
+  userId: number;
+  splitType: SplitType;
+  percentage: number | null;
+}
+
+/**
+ * Calculate split amounts based on split type
+ */
+export function calculateSplitAmounts(
+  totalAmount: Decimal,
+  splitType: SplitType,
+  participants: SplitParticipant[]
+): CalculatedSplit[] {
+  const total = new Decimal(totalAmount.toString());
+
+  switch (splitType) {
+    case SplitType.EQUAL:
+      return calculateEqualSplit(total, participants);
+
+    case SplitType.AMOUNT:
+      return calculateAmountSplit(total, participants);
+
+    case SplitType.PERCENTAGE:
+      return calculatePercentageSplit(total, participants);
+
+    default:
+      throw new Error(`Unsupported split type: ${splitType}`);
+  }
+}
+
+/**
+ * Calculate equal split among participants
+ */
+function calculateEqualSplit(
+  totalAmount: Decimal,
+  participants: SplitParticipant[]
+): CalculatedSplit[] {
+  if (participants.length === 0) {
+    throw new Error('At least one participant is required');
+  }
+
+  const equalAmount = totalAmount.dividedBy(participants.length);
+
+  return roundToCents(
+    totalAmount,
+    participants.map(participant => ({
+      userId: participant.userId,
+      amount: equalAmount,
+    }))
+  );
+}
+
+/**
+ * Calculate split based on specific amounts
+ */
+function calculateAmountSplit(
+  totalAmount: Decimal,
+  participants: SplitParticipant[]
+): CalculatedSplit[] {
+  // Validate all participants have amounts
+  for (const participant of participants) {
+    if (participant.amount === undefined || participant.amount <= 0) {
+      throw new Error('All participants must have positive amounts for AMOUNT split');
+    }
+  }
+
+  // Calculate total of specified amounts
+  const specifiedTotal = participants.reduce(
+    (sum, participant) => sum.plus(participant.amount!),
+    new Decimal(0)
+  );
+
+  // Validate total matches expense amount
+  if (!specifiedTotal.equals(totalAmount)) {
+    throw new Error(
+      `Split amounts total (${specifiedTotal}) must equal expense amount (${totalAmount})`
+    );
+  }
+
+  return participants.map(participant => ({
+    userId: participant.userId,
+    amount: new Decimal(participant.amount!),
+  }));
+}
+
+/**
+ * Calculate split based on percentages
+ */
+function calculatePercentageSplit(
+  totalAmount: Decimal,
+  participants: SplitParticipant[]
+): CalculatedSplit[] {
+  // Validate all participants have percentages
+  for (const participant of participants) {
+    if (participant.percentage === undefined || participant.percentage <= 0) {
+      throw new Error('All participants must have positive percentages for PERCENTAGE split');
+    }
+  }
+
+  // Calculate total percentage
+  const totalPercentage = participants.reduce(
+    (sum, participant) => sum + participant.percentage!,
+    0
+  );
+
+  // Validate total percentage is 100%
+  if (Math.abs(totalPercentage - 100) > 0.01) {
+    // Allow small floating point differences
+    throw new Error(`Split percentages must total 100%, got ${totalPercentage}%`);
+  }
+
+  return roundToCents(
+    totalAmount,
+    participants.map(participant => {
+      const percentage = participant.percentage!;
+      const amount = totalAmount.times(percentage).dividedBy(100);
+
+      return {
+        userId: participant.userId,
+        amount,
+        percentage,
+      };
+    })
+  );
+}
+
+/**
+ * Round each share to cents, the last participant takes whatever is left so the shares add up
+ * to the total exactly
+ */
+function roundToCents(totalAmount: Decimal, splits: CalculatedSplit[]): CalculatedSplit[] {
+  let allocated = new Decimal(0);
+
+  return splits.map((split, index) => {
+    const amount =
+      index === splits.length - 1 ? totalAmount.minus(allocated) : split.amount.toDecimalPlaces(2);
+    allocated = allocated.plus(amount);
+
+    return { ...split, amount };
+  });
+}
+
+/**
+ * Recalculate an expense's splits for a new expense amount, keeping the same participants
+ * EQUAL and PERCENTAGE splits follow the amount; AMOUNT splits have to be given again
+ */
+export function recalculateSplits(
+  newAmount: Decimal,
+  splits: ExistingSplit[],
+  amounts?: SplitParticipant[] // New amounts for AMOUNT splits
+): CalculatedSplit[] {
+  const splitTypes = new Set(splits.map(split => split.splitType));
+  if (splitTypes.size > 1) {
+    throw new Error('Splits of different types cannot be recalculated, create them again');
+  }
+
+  const [splitType] = splitTypes;
+  switch (splitType) {
+    case SplitType.EQUAL:
+      return calculateEqualSplit(
+        newAmount,
+        splits.map(split => ({ userId: split.userId }))
+      );
+
+    case SplitType.PERCENTAGE:
+      return calculatePercentageSplit(
+        newAmount,
+        splits.map(split => ({ userId: split.userId, percentage: split.percentage ?? undefined }))
+      );
+
+    case SplitType.AMOUNT: {
+      if (!amounts) {
+        throw new Error('Split amounts must be given again when the expense amount changes');
+      }
+
+      const participants = (list: { userId: number }[]) =>
+        list
+          .map(entry => entry.userId)
+          .sort((a, b) => a - b)
+          .join(',');
+      if (participants(amounts) !== participants(splits)) {
+        throw new Error('Split amounts must be given for exactly the current participants');
+      }
+
+      return calculateAmountSplit(newAmount, amounts);
+    }
+
+    default:
+      throw new Error('Itemized splits follow their items, change the items instead');
+  }
+}
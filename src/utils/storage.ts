@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Attachment storage settings - the local driver keeps files under this directory
+const ATTACHMENT_STORAGE_DIR =
+  process.env.ATTACHMENT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'attachments');
+
+export interface StorageDriver {
+  name: string;
+  // eslint-disable-next-line no-unused-vars
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Returns null when nothing is stored under the key */
+  // eslint-disable-next-line no-unused-vars
+  get(key: string): Promise<Buffer | null>;
+  /** Removing a key that does not exist is not an error */
+  // eslint-disable-next-line no-unused-vars
+  delete(key: string): Promise<void>;
+}
+
+/** Driver that stores files on the local filesystem, one file per key */
+export function createLocalStorageDriver(
+  directory: string = ATTACHMENT_STORAGE_DIR
+): StorageDriver {
+  const root = path.resolve(directory);
+
+  // Keys are generated by the service, but never let one point outside the root
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
+
+/** Create the driver selected by ATTACHMENT_STORAGE_DRIVER ("local" by default) */
+export function createStorageDriver(
+  name: string = process.env.ATTACHMENT_STORAGE_DRIVER || 'local'
+): StorageDriver {
+  switch (name) {
+    case 'local':
+      return createLocalStorageDriver();
+    default:
+      throw new Error(`Unsupported storage driver: ${name}`);
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+/** Replace the active driver (e.g. with an object storage driver at startup) */
+export function setStorageDriver(customDriver: StorageDriver): void {
+  driver = customDriver;
+}
+
+/** The active storage driver */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createStorageDriver();
+  }
+
+  return driver;
+}
@@ -0,0 +1,249 @@
+// Mock Prisma client
+const mockPrisma = {
+  accountDeletion: {
+    upsert: jest.fn(),
+    deleteMany: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+  },
+  user: { findUnique: jest.fn(), update: jest.fn() },
+  expense: { deleteMany: jest.fn() },
+  expenseAttachment: { findMany: jest.fn() },
+  recurringExpense: { deleteMany: jest.fn() },
+  expenseSplit: { count: jest.fn(), findMany: jest.fn(), updateMany: jest.fn() },
+  group: { deleteMany: jest.fn() },
+  groupMember: {
+    findMany: jest.fn(),
+    count: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  friendRequest: { deleteMany: jest.fn() },
+  friendship: { deleteMany: jest.fn() },
+  category: { deleteMany: jest.fn() },
+  userSession: { deleteMany: jest.fn() },
+  userToken: { deleteMany: jest.fn() },
+  oAuthState: { deleteMany: jest.fn() },
+  mfaRecoveryCode: { deleteMany: jest.fn() },
+  userMfa: { deleteMany: jest.fn() },
+  apiToken: { deleteMany: jest.fn() },
+  dataExport: { deleteMany: jest.fn() },
+  importBatch: { deleteMany: jest.fn() },
+  importProfile: { deleteMany: jest.fn() },
+  tag: { deleteMany: jest.fn() },
+  securityEvent: { deleteMany: jest.fn() },
+  emailOutbox: { deleteMany: jest.fn() },
+  loginThrottle: { deleteMany: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  GroupMemberRole: { ADMIN: 'ADMIN', MEMBER: 'MEMBER' },
+  ExpenseRevisionAction: { SPLITS_UPDATED: 'SPLITS_UPDATED' },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../src/utils/attachments', () => ({
+  removeAttachmentFiles: jest.fn(),
+}));
+
+const mockRevisionQueries = { recordExpenseRevisionQuery: jest.fn() };
+jest.mock('../../src/queries/expenseRevisionQueries', () => mockRevisionQueries);
+
+import {
+  cancelAccountDeletion,
+  deleteAccount,
+  hasOutstandingDebts,
+  processDueAccountDeletions,
+  scheduleAccountDeletion,
+} from '../../src/repositories/accountDeletionRepo';
+import { removeAttachmentFiles } from '../../src/utils/attachments';
+
+describe('AccountDeletionRepository', () => {
+  const outstandingWhere = {
+    isPaid: false,
+    expense: { deletedAt: null },
+    OR: [
+      {
+        userId: 1,
+        expense: {
+          OR: [
+            { userId: { not: 1 }, payers: { none: {} } },
+            { payers: { some: { userId: { not: 1 } } } },
+          ],
+        },
+      },
+      {
+        userId: { not: 1 },
+        expense: { OR: [{ userId: 1, payers: { none: {} } }, { payers: { some: { userId: 1 } } }] },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(arg =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mockPrisma.user.findUnique.mockResolvedValue({ email: 'test@example.com' });
+    mockPrisma.groupMember.findMany.mockResolvedValue([]);
+    mockPrisma.expenseAttachment.findMany.mockResolvedValue([]);
+    (removeAttachmentFiles as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('hasOutstandingDebts', () => {
+    it('should count unpaid splits in both directions', async () => {
+      mockPrisma.expenseSplit.count.mockResolvedValue(2);
+
+      expect(await hasOutstandingDebts(1)).toBe(true);
+      expect(mockPrisma.expenseSplit.count).toHaveBeenCalledWith({ where: outstandingWhere });
+    });
+  });
+
+  describe('scheduleAccountDeletion', () => {
+    it('should schedule the deletion after the grace period and deactivate the user', async () => {
+      const deletion = { id: 1, userId: 1, scheduledFor: new Date() };
+      mockPrisma.accountDeletion.upsert.mockResolvedValue(deletion);
+
+      const result = await scheduleAccountDeletion(1, { writeOffDebts: true });
+
+      const { create } = mockPrisma.accountDeletion.upsert.mock.calls[0][0];
+      expect(create.writeOffDebts).toBe(true);
+      expect(create.scheduledFor.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { isActive: false, updatedAt: expect.any(Date) },
+      });
+      expect(result).toEqual(deletion);
+    });
+  });
+
+  describe('cancelAccountDeletion', () => {
+    it('should only cancel deletions that have not been carried out', async () => {
+      mockPrisma.accountDeletion.deleteMany.mockResolvedValue({ count: 1 });
+
+      expect(await cancelAccountDeletion(1)).toBe(true);
+      expect(mockPrisma.accountDeletion.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 1, completedAt: null },
+      });
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should refuse while debts are outstanding', async () => {
+      mockPrisma.expenseSplit.count.mockResolvedValue(1);
+
+      await expect(deleteAccount(1, false)).rejects.toThrow('Account has outstanding debts');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should write off debts when requested', async () => {
+      mockPrisma.expenseSplit.findMany.mockResolvedValue([{ expenseId: 7 }]);
+
+      await deleteAccount(1, true);
+
+      expect(mockPrisma.expenseSplit.updateMany).toHaveBeenCalledWith({
+        where: outstandingWhere,
+        data: { isPaid: true },
+      });
+      expect(mockPrisma.expenseSplit.count).not.toHaveBeenCalled();
+      expect(mockRevisionQueries.recordExpenseRevisionQuery).toHaveBeenCalledWith(
+        mockPrisma,
+        7,
+        'SPLITS_UPDATED',
+        1
+      );
+    });
+
+    it('should remove personal data and anonymize the user', async () => {
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+
+      await deleteAccount(1, false);
+
+      // Only expenses nobody else is part of are deleted
+      expect(mockPrisma.expense.deleteMany).toHaveBeenCalledWith({
+        where: {
+          userId: 1,
+          splits: { none: { userId: { not: 1 } } },
+          payers: { none: { userId: { not: 1 } } },
+          OR: [{ groupId: null }, { group: { members: { none: { userId: { not: 1 } } } } }],
+        },
+      });
+      expect(mockPrisma.groupMember.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+      expect(mockPrisma.friendship.deleteMany).toHaveBeenCalled();
+      expect(mockPrisma.userSession.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+      expect(mockPrisma.emailOutbox.deleteMany).toHaveBeenCalledWith({
+        where: { to: 'test@example.com' },
+      });
+      expect(mockPrisma.securityEvent.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+
+      const { data } = mockPrisma.user.update.mock.calls[0][0];
+      expect(data).toMatchObject({
+        email: 'deleted-user-1@deleted.invalid',
+        name: 'Deleted user',
+        password: null,
+        isActive: false,
+      });
+      expect(mockPrisma.accountDeletion.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { completedAt: expect.any(Date) } })
+      );
+    });
+
+    it('should remove the stored files of deleted expenses after the transaction', async () => {
+      const files = [{ storageKey: 'expenses/3/abc.pdf', thumbnailKey: null }];
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+      mockPrisma.expenseAttachment.findMany.mockResolvedValue(files);
+      (removeAttachmentFiles as jest.Mock).mockRejectedValue(new Error('Storage unavailable'));
+
+      await deleteAccount(1, false);
+
+      expect(mockPrisma.expenseAttachment.findMany).toHaveBeenCalledWith({
+        where: { expense: expect.objectContaining({ userId: 1 }) },
+        select: { storageKey: true, thumbnailKey: true },
+      });
+      expect(removeAttachmentFiles).toHaveBeenCalledWith(files);
+      expect(mockPrisma.accountDeletion.upsert).toHaveBeenCalled();
+    });
+
+    it('should hand the admin role to the longest-standing member', async () => {
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+      mockPrisma.groupMember.findMany.mockResolvedValue([{ groupId: 5 }]);
+      mockPrisma.groupMember.count.mockResolvedValue(0);
+      mockPrisma.groupMember.findFirst.mockResolvedValue({ id: 42, groupId: 5, userId: 2 });
+
+      await deleteAccount(1, false);
+
+      expect(mockPrisma.groupMember.findFirst).toHaveBeenCalledWith({
+        where: { groupId: 5, userId: { not: 1 } },
+        orderBy: { joinedAt: 'asc' },
+      });
+      expect(mockPrisma.groupMember.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: { role: 'ADMIN' },
+      });
+    });
+  });
+
+  describe('processDueAccountDeletions', () => {
+    it('should delete due accounts and skip ones blocked by debts', async () => {
+      mockPrisma.accountDeletion.findMany.mockResolvedValue([
+        { userId: 1, writeOffDebts: false },
+        { userId: 2, writeOffDebts: false },
+      ]);
+      mockPrisma.expenseSplit.count.mockResolvedValueOnce(0).mockResolvedValueOnce(3);
+
+      const deleted = await processDueAccountDeletions();
+
+      expect(deleted).toBe(1);
+      expect(mockPrisma.accountDeletion.findMany).toHaveBeenCalledWith({
+        where: { completedAt: null, scheduledFor: { lte: expect.any(Date) } },
+        select: { userId: true, writeOffDebts: true },
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+// Mock Prisma client
+const mockPrisma = {
+  user: { count: jest.fn() },
+  accountDeletion: { count: jest.fn() },
+  group: { count: jest.fn() },
+  expense: { count: jest.fn() },
+  expenseSplit: { count: jest.fn() },
+  category: { count: jest.fn() },
+  friendship: { count: jest.fn() },
+  userSession: { count: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  SystemRole: { USER: 'USER', ADMIN: 'ADMIN' },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { getPlatformStats } from '../../src/repositories/adminRepo';
+
+describe('AdminRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(arg => Promise.all(arg as Promise<unknown>[]));
+  });
+
+  describe('getPlatformStats', () => {
+    it('should aggregate platform-wide counts', async () => {
+      jest.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z') });
+
+      mockPrisma.user.count
+        .mockResolvedValueOnce(10) // total
+        .mockResolvedValueOnce(8) // active
+        .mockResolvedValueOnce(7) // verified
+        .mockResolvedValueOnce(2) // admins
+        .mockResolvedValueOnce(4); // new
+      mockPrisma.accountDeletion.count.mockResolvedValue(1);
+      mockPrisma.group.count.mockResolvedValueOnce(5).mockResolvedValueOnce(3);
+      mockPrisma.expense.count.mockResolvedValue(42);
+      mockPrisma.expenseSplit.count.mockResolvedValue(6);
+      mockPrisma.category.count.mockResolvedValueOnce(12).mockResolvedValueOnce(9);
+      mockPrisma.friendship.count.mockResolvedValue(11);
+      mockPrisma.userSession.count.mockResolvedValue(13);
+
+      const result = await getPlatformStats();
+
+      expect(result).toEqual({
+        users: {
+          total: 10,
+          active: 8,
+          deactivated: 2,
+          verified: 7,
+          admins: 2,
+          pendingDeletion: 1,
+          newLast30Days: 4,
+        },
+        groups: { total: 5, active: 3 },
+        expenses: { total: 42, unpaidSplits: 6 },
+        categories: { default: 12, custom: 9 },
+        friendships: 11,
+        activeSessions: 13,
+      });
+      expect(mockPrisma.user.count).toHaveBeenCalledWith({ where: { role: 'ADMIN' } });
+      expect(mockPrisma.user.count).toHaveBeenCalledWith({
+        where: { createdAt: { gte: new Date('2026-09-18T12:00:00Z') } },
+      });
+      expect(mockPrisma.accountDeletion.count).toHaveBeenCalledWith({
+        where: { completedAt: null },
+      });
+      expect(mockPrisma.userSession.count).toHaveBeenCalledWith({
+        where: { revokedAt: null, expiresAt: { gt: new Date('2026-10-18T12:00:00Z') } },
+      });
+
+      jest.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+// Mock Prisma client
+const mockPrisma = {
+  apiToken: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  authenticateApiToken,
+} from '../../src/repositories/apiTokenRepo';
+import { hashToken } from '../../src/utils/auth';
+
+describe('ApiTokenRepository', () => {
+  const summary = {
+    id: 7,
+    name: 'Import script',
+    prefix: 'pat_abcdef',
+    scopes: ['expenses:read', 'expenses:write'],
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: new Date('2026-01-01'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createApiToken', () => {
+    it('should store only the hash and a display prefix', async () => {
+      mockPrisma.apiToken.create.mockResolvedValue(summary);
+
+      const result = await createApiToken(1, {
+        name: 'Import script',
+        scopes: ['expenses:read', 'expenses:write', 'expenses:read'],
+      });
+
+      expect(result.token).toMatch(/^pat_/);
+      expect(result.apiToken).toEqual(summary);
+
+      const { data, select } = mockPrisma.apiToken.create.mock.calls[0][0];
+      expect(data).toEqual({
+        userId: 1,
+        name: 'Import script',
+        tokenHash: hashToken(result.token),
+        prefix: result.token.slice(0, 10),
+        scopes: ['expenses:read', 'expenses:write'],
+        expiresAt: undefined,
+      });
+      expect(select.tokenHash).toBeUndefined();
+    });
+  });
+
+  describe('listApiTokens', () => {
+    it('should list active tokens newest first', async () => {
+      mockPrisma.apiToken.findMany.mockResolvedValue([summary]);
+
+      const result = await listApiTokens(1);
+
+      expect(mockPrisma.apiToken.findMany).toHaveBeenCalledWith({
+        where: { userId: 1, revokedAt: null },
+        select: expect.any(Object),
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(result).toEqual([summary]);
+    });
+  });
+
+  describe('revokeApiToken', () => {
+    it("should revoke one of the user's tokens", async () => {
+      mockPrisma.apiToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await revokeApiToken(1, 7);
+
+      expect(mockPrisma.apiToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 7, userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should throw when the token does not belong to the user', async () => {
+      mockPrisma.apiToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(revokeApiToken(2, 7)).rejects.toThrow('API token not found');
+    });
+  });
+
+  describe('authenticateApiToken', () => {
+    const storedToken = {
+      id: 7,
+      userId: 1,
+      scopes: ['expenses:read'],
+      expiresAt: null,
+      revokedAt: null,
+    };
+
+    it('should return the token scopes and record its use', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(storedToken);
+
+      const result = await authenticateApiToken('pat_raw', '10.0.0.1');
+
+      expect(mockPrisma.apiToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('pat_raw') },
+        select: expect.any(Object),
+      });
+      expect(mockPrisma.apiToken.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.1' },
+      });
+      expect(result).toEqual({ id: 7, userId: 1, scopes: ['expenses:read'] });
+    });
+
+    it('should reject unknown, revoked and expired tokens', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.apiToken.findUnique.mockResolvedValueOnce({
+        ...storedToken,
+        revokedAt: new Date(),
+      });
+      mockPrisma.apiToken.findUnique.mockResolvedValueOnce({
+        ...storedToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      expect(await authenticateApiToken('pat_raw')).toBeNull();
+      expect(await authenticateApiToken('pat_raw')).toBeNull();
+      expect(await authenticateApiToken('pat_raw')).toBeNull();
+      expect(mockPrisma.apiToken.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+// Mock Prisma client
+const mockPrisma = {
+  expenseAttachment: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    delete: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  createAttachment,
+  deleteAttachment,
+  getAttachmentById,
+  getExpenseAttachments,
+} from '../../src/repositories/attachmentRepo';
+
+describe('AttachmentRepository', () => {
+  const attachment = {
+    id: 1,
+    fileName: 'receipt.png',
+    mimeType: 'image/png',
+    sizeBytes: 2048,
+    storageKey: 'expenses/3/abc.png',
+    thumbnailKey: 'expenses/3/abc-thumbnail.jpg',
+    expenseId: 3,
+    uploadedById: 2,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createAttachment', () => {
+    it('should record the stored file', async () => {
+      mockPrisma.expenseAttachment.create.mockResolvedValue(attachment);
+
+      const data = {
+        expenseId: 3,
+        uploadedById: 2,
+        fileName: 'receipt.png',
+        mimeType: 'image/png',
+        sizeBytes: 2048,
+        storageKey: 'expenses/3/abc.png',
+        thumbnailKey: 'expenses/3/abc-thumbnail.jpg',
+      };
+      const result = await createAttachment(data);
+
+      expect(mockPrisma.expenseAttachment.create).toHaveBeenCalledWith({ data });
+      expect(result).toEqual(attachment);
+    });
+  });
+
+  describe('getAttachmentById', () => {
+    it('should include the expense fields used for access checks', async () => {
+      mockPrisma.expenseAttachment.findFirst.mockResolvedValue({
+        ...attachment,
+        expense: { id: 3, userId: 1, groupId: null },
+      });
+
+      const result = await getAttachmentById(1);
+
+      expect(mockPrisma.expenseAttachment.findFirst).toHaveBeenCalledWith({
+        where: { id: 1, expense: { deletedAt: null } },
+        include: {
+          expense: { select: { id: true, userId: true, createdById: true, groupId: true } },
+        },
+      });
+      expect(result?.expense.userId).toBe(1);
+    });
+  });
+
+  describe('getExpenseAttachments', () => {
+    it("should list an expense's attachments oldest first", async () => {
+      mockPrisma.expenseAttachment.findMany.mockResolvedValue([attachment]);
+
+      const result = await getExpenseAttachments(3);
+
+      expect(mockPrisma.expenseAttachment.findMany).toHaveBeenCalledWith({
+        where: { expenseId: 3 },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(result).toEqual([attachment]);
+    });
+  });
+
+  describe('deleteAttachment', () => {
+    it('should delete the record', async () => {
+      mockPrisma.expenseAttachment.delete.mockResolvedValue(attachment);
+
+      await deleteAttachment(1);
+
+      expect(mockPrisma.expenseAttachment.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+  });
+});
@@ -36,6 +36,7 @@ jest.mock('../../src/app', () => ({
 
 import {
   createCategory,
+  createDefaultCategory,
   getCategoryById,
   getCategoryWithStats,
   updateCategory,
@@ -112,6 +113,19 @@ describe('CategoryRepository', () => {
     });
   });
 
+  describe('createDefaultCategory', () => {
+    it('should create a default category available to every user', async () => {
+      const categoryData = { name: 'Pets', icon: 'paw', color: '#AABBCC' };
+      mockPrisma.category.create.mockResolvedValue({ id: 9, ...categoryData, isDefault: true });
+
+      await createDefaultCategory(categoryData);
+
+      expect(mockPrisma.category.create).toHaveBeenCalledWith({
+        data: { ...categoryData, isDefault: true, userId: null },
+      });
+    });
+  });
+
   describe('getCategoryById', () => {
     it('should get category by id', async () => {
       const expectedCategory = {
@@ -176,7 +190,7 @@ describe('CategoryRepository', () => {
           _count: {
             select: {
               expenses: {
-                where: { userId: 123 },
+                where: { userId: 123, deletedAt: null },
               },
             },
           },
@@ -187,6 +201,7 @@ describe('CategoryRepository', () => {
         where: {
           categoryId: 1,
           userId: 123,
+          deletedAt: null,
         },
         _sum: { amount: true },
         _avg: { amount: true },
@@ -226,7 +241,7 @@ describe('CategoryRepository', () => {
         include: {
           _count: {
             select: {
-              expenses: true,
+              expenses: { where: { deletedAt: null } },
             },
           },
         },
@@ -235,6 +250,7 @@ describe('CategoryRepository', () => {
       expect(mockPrisma.expense.aggregate).toHaveBeenCalledWith({
         where: {
           categoryId: 1,
+          deletedAt: null,
         },
         _sum: { amount: true },
         _avg: { amount: true },
@@ -424,7 +440,7 @@ describe('CategoryRepository', () => {
           _count: {
             select: {
               expenses: {
-                where: { userId: 123 },
+                where: { userId: 123, deletedAt: null },
               },
             },
           },
@@ -466,7 +482,7 @@ describe('CategoryRepository', () => {
           _count: {
             select: {
               expenses: {
-                where: { userId: 123 },
+                where: { userId: 123, deletedAt: null },
               },
             },
           },
@@ -479,6 +495,7 @@ describe('CategoryRepository', () => {
         where: {
           categoryId: 1,
           userId: 123,
+          deletedAt: null,
         },
         _sum: { amount: true },
         _avg: { amount: true },
@@ -510,7 +527,7 @@ describe('CategoryRepository', () => {
           _count: {
             select: {
               expenses: {
-                where: { userId: 123 },
+                where: { userId: 123, deletedAt: null },
               },
             },
           },
@@ -556,6 +573,17 @@ describe('CategoryRepository', () => {
       });
       expect(result).toEqual(mockCategories);
     });
+
+    it('should include deactivated default categories when requested', async () => {
+      mockPrisma.category.findMany.mockResolvedValue([]);
+
+      await getDefaultCategories(true);
+
+      expect(mockPrisma.category.findMany).toHaveBeenCalledWith({
+        where: { isDefault: true },
+        orderBy: { name: 'asc' },
+      });
+    });
   });
 
   describe('searchCategories', () => {
@@ -631,6 +659,7 @@ describe('CategoryRepository', () => {
             color: '#FF5733',
           },
           amount: new Decimal(100),
+          currency: 'USD',
           paidAt: new Date('2023-12-01'),
         },
         {
@@ -641,27 +670,28 @@ describe('CategoryRepository', () => {
             color: '#FF5733',
           },
           amount: new Decimal(400),
+          currency: 'USD',
           paidAt: new Date('2023-12-02'),
         },
       ];
 
-      const mockTotalSpending = {
-        _sum: { amount: new Decimal(1000) },
-      };
+      const mockTotalSpending = [{ currency: 'USD', _sum: { amount: new Decimal(1000) } }];
 
       mockPrisma.expense.findMany.mockResolvedValue(mockExpenses);
-      mockPrisma.expense.aggregate.mockResolvedValue(mockTotalSpending);
+      mockPrisma.expense.groupBy.mockResolvedValue(mockTotalSpending);
 
       const result = await getCategorySpendingSummary(123);
 
-      expect(mockPrisma.expense.aggregate).toHaveBeenCalledWith({
-        where: { userId: 123 },
+      expect(mockPrisma.expense.groupBy).toHaveBeenCalledWith({
+        by: ['currency'],
+        where: { userId: 123, deletedAt: null },
         _sum: { amount: true },
       });
 
       expect(mockPrisma.expense.findMany).toHaveBeenCalledWith({
         where: {
           userId: 123,
+          deletedAt: null,
           categoryId: { not: null },
         },
         include: {
@@ -677,6 +707,7 @@ describe('CategoryRepository', () => {
         categoryName: 'Food',
         categoryIcon: '🍔',
         categoryColor: '#FF5733',
+        currency: 'USD',
         totalAmount: new Decimal(500),
         expenseCount: 2,
         averageAmount: new Decimal(250),
@@ -687,16 +718,18 @@ describe('CategoryRepository', () => {
 
     it('should handle date filters', async () => {
       mockPrisma.expense.findMany.mockResolvedValue([]);
-      mockPrisma.expense.aggregate.mockResolvedValue({ _sum: { amount: new Decimal(0) } });
+      mockPrisma.expense.groupBy.mockResolvedValue([]);
 
       const fromDate = new Date('2023-01-01');
       const toDate = new Date('2023-12-31');
 
       await getCategorySpendingSummary(123, { fromDate, toDate, limit: 10 });
 
-      expect(mockPrisma.expense.aggregate).toHaveBeenCalledWith({
+      expect(mockPrisma.expense.groupBy).toHaveBeenCalledWith({
+        by: ['currency'],
         where: {
           userId: 123,
+          deletedAt: null,
           paidAt: {
             gte: fromDate,
             lte: toDate,
@@ -708,6 +741,7 @@ describe('CategoryRepository', () => {
       expect(mockPrisma.expense.findMany).toHaveBeenCalledWith({
         where: {
           userId: 123,
+          deletedAt: null,
           categoryId: { not: null },
           paidAt: {
             gte: fromDate,
@@ -734,18 +768,19 @@ describe('CategoryRepository', () => {
             color: '#FF5733',
           },
           amount: new Decimal(500),
+          currency: 'USD',
           paidAt: new Date('2023-12-01'),
         },
       ];
 
       mockPrisma.expense.findMany.mockResolvedValue(mockExpenses);
-      mockPrisma.expense.aggregate.mockResolvedValue({
-        _sum: { amount: new Decimal(1000) },
-      });
+      mockPrisma.expense.groupBy.mockResolvedValue([
+        { currency: 'USD', _sum: { amount: new Decimal(1000) } },
+      ]);
 
       const result = await getTopSpendingCategories(123, 5, new Date('2023-01-01'));
 
-      expect(mockPrisma.expense.aggregate).toHaveBeenCalled();
+      expect(mockPrisma.expense.groupBy).toHaveBeenCalled();
       expect(mockPrisma.expense.findMany).toHaveBeenCalled();
       expect(result).toHaveLength(1);
     });
@@ -0,0 +1,313 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Mock Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+  },
+  dataExport: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  DataExportStatus: {
+    PENDING: 'PENDING',
+    PROCESSING: 'PROCESSING',
+    COMPLETED: 'COMPLETED',
+    FAILED: 'FAILED',
+  },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  DATA_EXPORT_SCHEMA_VERSION,
+  getDataExportArchive,
+  processDataExport,
+  requestDataExport,
+  serializeAccountExport,
+} from '../../src/repositories/dataExportRepo';
+
+describe('DataExportRepository', () => {
+  const createdAt = new Date('2026-01-01T00:00:00Z');
+  const friend = { id: 2, name: 'Friend User' };
+  const group = {
+    id: 5,
+    name: 'Trip',
+    description: null,
+    avatar: null,
+    defaultCurrency: 'EUR',
+    isActive: true,
+    createdBy: 1,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  const exportData = {
+    id: 1,
+    email: 'test@example.com',
+    name: 'Test User',
+    username: 'tester',
+    avatar: null,
+    phoneNumber: null,
+    provider: 'local',
+    isEmailVerified: true,
+    isActive: true,
+    defaultCurrency: 'USD',
+    createdAt,
+    updatedAt: createdAt,
+    lastLoginAt: null,
+    expenses: [
+      {
+        id: 10,
+        title: 'Dinner',
+        description: null,
+        amount: new Decimal('60.00'),
+        currency: 'EUR',
+        paidAt: createdAt,
+        deletedAt: null,
+        userId: 1,
+        groupId: 5,
+        categoryId: null,
+        group: { id: 5, name: 'Trip' },
+        category: null,
+        splits: [
+          {
+            id: 100,
+            amount: new Decimal('30.00'),
+            splitType: 'EQUAL',
+            percentage: null,
+            isPaid: false,
+            createdAt,
+            updatedAt: createdAt,
+            expenseId: 10,
+            userId: 2,
+            user: friend,
+          },
+        ],
+      },
+    ],
+    expenseSplits: [
+      {
+        id: 101,
+        amount: new Decimal('12.50'),
+        splitType: 'AMOUNT',
+        percentage: null,
+        isPaid: true,
+        createdAt,
+        updatedAt: createdAt,
+        expenseId: 11,
+        userId: 1,
+        expense: {
+          id: 11,
+          title: 'Taxi',
+          amount: new Decimal('25.00'),
+          currency: 'EUR',
+          paidAt: createdAt,
+          groupId: 5,
+          user: friend,
+        },
+      },
+    ],
+    createdGroups: [group],
+    groupMembers: [{ id: 1, role: 'ADMIN', joinedAt: createdAt, groupId: 5, userId: 1, group }],
+    sentFriendRequests: [
+      {
+        id: 3,
+        status: 'ACCEPTED',
+        message: null,
+        createdAt,
+        updatedAt: createdAt,
+        respondedAt: createdAt,
+        senderId: 1,
+        receiverId: 2,
+        receiver: friend,
+      },
+    ],
+    receivedFriendRequests: [],
+    friendships1: [{ id: 4, createdAt, user1Id: 1, user2Id: 2, user2: friend }],
+    friendships2: [],
+    categories: [],
+    recurringExpenses: [
+      {
+        id: 6,
+        title: 'Rent',
+        description: null,
+        amount: new Decimal('900.00'),
+        currency: null,
+        schedule: 'FREQ=MONTHLY;BYMONTHDAY=1',
+        startDate: createdAt,
+        endDate: null,
+        maxOccurrences: 12,
+        occurrenceCount: 3,
+        nextRunAt: createdAt,
+        isPaused: false,
+        groupId: 5,
+        categoryId: null,
+        createdAt,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('serializeAccountExport', () => {
+    it('should map account data onto the documented archive layout', () => {
+      const result = serializeAccountExport(exportData as never, createdAt);
+
+      expect(result.schemaVersion).toBe(DATA_EXPORT_SCHEMA_VERSION);
+      expect(result.exportedAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(result.profile).not.toHaveProperty('password');
+      expect(result.expenses[0]).toEqual({
+        id: 10,
+        title: 'Dinner',
+        description: null,
+        amount: '60',
+        currency: 'EUR',
+        paidAt: '2026-01-01T00:00:00.000Z',
+        deletedAt: null,
+        group: { id: 5, name: 'Trip' },
+        category: null,
+        splits: [
+          {
+            id: 100,
+            user: friend,
+            amount: '30',
+            splitType: 'EQUAL',
+            percentage: null,
+            isPaid: false,
+          },
+        ],
+      });
+      expect(result.splits[0].expense.paidBy).toEqual(friend);
+      expect(result.splits[0].expense.currency).toBe('EUR');
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0].defaultCurrency).toBe('EUR');
+      expect(result.memberships).toEqual([
+        { groupId: 5, role: 'ADMIN', joinedAt: '2026-01-01T00:00:00.000Z' },
+      ]);
+      expect(result.friendRequests[0]).toMatchObject({ direction: 'sent', otherUser: friend });
+      expect(result.friendships).toEqual([
+        { id: 4, friend, createdAt: '2026-01-01T00:00:00.000Z' },
+      ]);
+      expect(result.recurringExpenses[0]).toMatchObject({
+        amount: '900',
+        schedule: 'FREQ=MONTHLY;BYMONTHDAY=1',
+        endDate: null,
+        nextRunAt: '2026-01-01T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('requestDataExport', () => {
+    const summary = { id: 9, status: 'PENDING', createdAt };
+
+    it('should queue a new export', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(null);
+      mockPrisma.dataExport.create.mockResolvedValue(summary);
+
+      const result = await requestDataExport(1);
+
+      expect(mockPrisma.dataExport.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 1,
+          status: { in: ['PENDING', 'PROCESSING'] },
+          createdAt: { lt: expect.any(Date) },
+        },
+        data: { status: 'FAILED', error: 'Export timed out' },
+      });
+      expect(result).toEqual({ dataExport: summary, created: true });
+    });
+
+    it('should return an export that is still running', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(summary);
+
+      const result = await requestDataExport(1);
+
+      expect(mockPrisma.dataExport.create).not.toHaveBeenCalled();
+      expect(result).toEqual({ dataExport: summary, created: false });
+    });
+  });
+
+  describe('processDataExport', () => {
+    it('should store the archive and mark the export completed', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.dataExport.findUniqueOrThrow.mockResolvedValue({ userId: 1 });
+      mockPrisma.user.findUnique.mockResolvedValue(exportData);
+
+      await processDataExport(9);
+
+      const { data } = mockPrisma.dataExport.update.mock.calls[0][0];
+      expect(data.status).toBe('COMPLETED');
+      expect(JSON.parse(data.archive).profile.email).toBe('test@example.com');
+      expect(data.sizeBytes).toBe(Buffer.byteLength(data.archive));
+      expect(data.expiresAt.getTime()).toBeGreaterThan(data.completedAt.getTime());
+    });
+
+    it('should skip exports that were already picked up', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 0 });
+
+      await processDataExport(9);
+
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.dataExport.update).not.toHaveBeenCalled();
+    });
+
+    it('should record failures on the export', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.dataExport.findUniqueOrThrow.mockResolvedValue({ userId: 1 });
+      mockPrisma.user.findUnique.mockRejectedValue(new Error('Connection lost'));
+
+      await processDataExport(9);
+
+      expect(mockPrisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { status: 'FAILED', error: 'Connection lost', completedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('getDataExportArchive', () => {
+    it('should return the archive of a completed export', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue({
+        status: 'COMPLETED',
+        archive: '{}',
+        expiresAt: new Date(Date.now() + 60000),
+      });
+
+      expect(await getDataExportArchive(1, 9)).toBe('{}');
+      expect(mockPrisma.dataExport.findFirst).toHaveBeenCalledWith({
+        where: { id: 9, userId: 1 },
+        select: { status: true, archive: true, expiresAt: true },
+      });
+    });
+
+    it('should reject missing, unfinished and expired exports', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        status: 'PROCESSING',
+        archive: null,
+        expiresAt: null,
+      });
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({
+        status: 'COMPLETED',
+        archive: '{}',
+        expiresAt: new Date(Date.now() - 60000),
+      });
+
+      await expect(getDataExportArchive(1, 9)).rejects.toThrow('Data export not found');
+      await expect(getDataExportArchive(1, 9)).rejects.toThrow('Data export is not ready');
+      await expect(getDataExportArchive(1, 9)).rejects.toThrow('Data export has expired');
+    });
+  });
+});
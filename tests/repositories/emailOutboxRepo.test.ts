@@ -0,0 +1,73 @@
+// Mock Prisma client
+const mockPrisma = {
+  emailOutbox: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  createOutboxEmail,
+  getOutboxEmailsFor,
+  markOutboxEmailSent,
+} from '../../src/repositories/emailOutboxRepo';
+
+describe('EmailOutboxRepository', () => {
+  const email = {
+    id: 1,
+    to: 'test@example.com',
+    from: 'no-reply@example.com',
+    subject: 'Hello',
+    text: 'Body',
+    html: null,
+    createdAt: new Date(),
+    sentAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store an outgoing email', async () => {
+    mockPrisma.emailOutbox.create.mockResolvedValue(email);
+
+    const data = { to: email.to, from: email.from, subject: email.subject, text: email.text };
+    const result = await createOutboxEmail(data);
+
+    expect(mockPrisma.emailOutbox.create).toHaveBeenCalledWith({ data });
+    expect(result).toEqual(email);
+  });
+
+  it('should list emails for a recipient, newest first', async () => {
+    mockPrisma.emailOutbox.findMany.mockResolvedValue([email]);
+
+    const result = await getOutboxEmailsFor('test@example.com');
+
+    expect(mockPrisma.emailOutbox.findMany).toHaveBeenCalledWith({
+      where: { to: 'test@example.com' },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+    expect(result).toEqual([email]);
+  });
+
+  it('should mark an email as sent', async () => {
+    mockPrisma.emailOutbox.update.mockResolvedValue({ ...email, sentAt: new Date() });
+
+    await markOutboxEmailSent(1);
+
+    expect(mockPrisma.emailOutbox.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { sentAt: expect.any(Date) },
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// Mock Prisma client
+const mockPrisma = {
+  exchangeRate: {
+    upsert: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { Decimal } from '@prisma/client/runtime/library';
+import { importExchangeRates, listExchangeRates } from '../../src/repositories/exchangeRateRepo';
+import { getExchangeRateQuery } from '../../src/queries/exchangeRateQueries';
+
+describe('ExchangeRateRepository', () => {
+  const effectiveDate = new Date('2026-10-01T00:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(arg => Promise.all(arg as Promise<unknown>[]));
+  });
+
+  describe('importExchangeRates', () => {
+    it('should upsert each rate by pair and effective date', async () => {
+      mockPrisma.exchangeRate.upsert.mockResolvedValue({});
+
+      const count = await importExchangeRates([
+        { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.08, effectiveDate },
+        { baseCurrency: 'GBP', quoteCurrency: 'USD', rate: '1.27', effectiveDate },
+      ]);
+
+      expect(count).toBe(2);
+      expect(mockPrisma.exchangeRate.upsert).toHaveBeenCalledWith({
+        where: {
+          baseCurrency_quoteCurrency_effectiveDate: {
+            baseCurrency: 'EUR',
+            quoteCurrency: 'USD',
+            effectiveDate,
+          },
+        },
+        create: {
+          baseCurrency: 'EUR',
+          quoteCurrency: 'USD',
+          rate: new Decimal('1.08'),
+          effectiveDate,
+        },
+        update: { rate: new Decimal('1.08'), updatedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('listExchangeRates', () => {
+    it('should filter by currency pair with pagination', async () => {
+      mockPrisma.exchangeRate.findMany.mockResolvedValue([]);
+
+      await listExchangeRates({ baseCurrency: 'EUR' }, 10, 20);
+
+      expect(mockPrisma.exchangeRate.findMany).toHaveBeenCalledWith({
+        where: { baseCurrency: 'EUR' },
+        orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+        skip: 10,
+        take: 20,
+      });
+    });
+  });
+
+  describe('getExchangeRateQuery', () => {
+    const asOf = new Date('2026-10-18T00:00:00Z');
+
+    it('should not look up a rate for the same currency', async () => {
+      const rate = await getExchangeRateQuery('USD', 'USD', asOf);
+
+      expect(rate?.toString()).toBe('1');
+      expect(mockPrisma.exchangeRate.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should use the latest rate effective at the given date', async () => {
+      mockPrisma.exchangeRate.findFirst.mockResolvedValueOnce({ rate: new Decimal('1.1') });
+
+      const rate = await getExchangeRateQuery('EUR', 'USD', asOf);
+
+      expect(rate?.toString()).toBe('1.1');
+      expect(mockPrisma.exchangeRate.findFirst).toHaveBeenCalledWith({
+        where: { baseCurrency: 'EUR', quoteCurrency: 'USD', effectiveDate: { lte: asOf } },
+        orderBy: { effectiveDate: 'desc' },
+      });
+    });
+
+    it('should fall back to the inverse pair', async () => {
+      mockPrisma.exchangeRate.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ rate: new Decimal('4') });
+
+      const rate = await getExchangeRateQuery('USD', 'EUR', asOf);
+
+      expect(rate?.toString()).toBe('0.25');
+    });
+
+    it('should return null when neither pair has a rate', async () => {
+      mockPrisma.exchangeRate.findFirst.mockResolvedValue(null);
+
+      await expect(getExchangeRateQuery('USD', 'CHF', asOf)).resolves.toBeNull();
+    });
+  });
+});
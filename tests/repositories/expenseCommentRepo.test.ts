@@ -0,0 +1,159 @@
+// Mock Prisma client
+const mockPrisma = {
+  expense: { findUnique: jest.fn() },
+  expenseComment: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  user: { findMany: jest.fn(), count: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  canAccessExpenseComments,
+  createExpenseComment,
+  getExpenseComments,
+  parseMentions,
+  updateExpenseComment,
+} from '../../src/repositories/expenseCommentRepo';
+
+describe('ExpenseCommentRepository', () => {
+  const groupExpense = { id: 5, userId: 1, groupId: 3 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
+    mockPrisma.expense.findUnique.mockResolvedValue(groupExpense);
+  });
+
+  describe('parseMentions', () => {
+    it('should find each mentioned username once, ignoring email addresses', () => {
+      expect(
+        parseMentions('@alice paid, ask @Bob_2 or @alice (not bob@example.com), @al is too short')
+      ).toEqual(['alice', 'bob_2']);
+    });
+  });
+
+  describe('canAccessExpenseComments', () => {
+    it('should let owners, payers, split participants and group members in', async () => {
+      mockPrisma.user.count.mockResolvedValue(1);
+
+      expect(await canAccessExpenseComments(groupExpense, 9)).toBe(true);
+      expect(mockPrisma.user.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            { id: 9 },
+            {
+              OR: [
+                { id: 1 },
+                { expensePayments: { some: { expenseId: 5 } } },
+                { expenseSplits: { some: { expenseId: 5 } } },
+                { groupMembers: { some: { groupId: 3 } } },
+              ],
+            },
+          ],
+        },
+      });
+    });
+
+    it('should leave group membership out for personal expenses', async () => {
+      mockPrisma.user.count.mockResolvedValue(0);
+
+      expect(await canAccessExpenseComments({ id: 5, userId: 1, groupId: null }, 9)).toBe(false);
+      const { where } = mockPrisma.user.count.mock.calls[0][0];
+      expect(where.AND[1].OR).toHaveLength(3);
+    });
+  });
+
+  describe('createExpenseComment', () => {
+    it('should store mentions that resolve to participants', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 2 }]);
+      mockPrisma.expenseComment.create.mockResolvedValue({ id: 1 });
+
+      await createExpenseComment({ expenseId: 5, userId: 1, body: 'Thanks @bob and @carol' });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            { username: { in: ['bob', 'carol'], mode: 'insensitive' } },
+            expect.objectContaining({ OR: expect.any(Array) }),
+          ],
+        },
+        select: { id: true },
+      });
+      expect(mockPrisma.expenseComment.create).toHaveBeenCalledWith({
+        data: {
+          expenseId: 5,
+          userId: 1,
+          body: 'Thanks @bob and @carol',
+          mentions: { create: [{ userId: 2 }] },
+        },
+        include: expect.any(Object),
+      });
+    });
+
+    it('should not look up users without mentions', async () => {
+      mockPrisma.expenseComment.create.mockResolvedValue({ id: 1 });
+
+      await createExpenseComment({ expenseId: 5, userId: 1, body: 'Looks right' });
+
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExpenseComments', () => {
+    it('should page through comments oldest first', async () => {
+      mockPrisma.expenseComment.findMany.mockResolvedValue([]);
+      mockPrisma.expenseComment.count.mockResolvedValue(12);
+
+      const page = await getExpenseComments(5, 10, 10);
+
+      expect(mockPrisma.expenseComment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { expenseId: 5 },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: 10,
+          skip: 10,
+        })
+      );
+      expect(page.total).toBe(12);
+    });
+  });
+
+  describe('updateExpenseComment', () => {
+    it('should replace the body and its mentions and mark it edited', async () => {
+      mockPrisma.expenseComment.findUnique.mockResolvedValue({ id: 7, expenseId: 5 });
+      mockPrisma.expenseComment.update.mockResolvedValue({ id: 7 });
+
+      await updateExpenseComment(7, 'Never mind');
+
+      expect(mockPrisma.expenseComment.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          body: 'Never mind',
+          editedAt: expect.any(Date),
+          mentions: { deleteMany: {}, create: [] },
+        },
+        include: expect.any(Object),
+      });
+    });
+
+    it('should throw when the comment does not exist', async () => {
+      mockPrisma.expenseComment.findUnique.mockResolvedValue(null);
+
+      await expect(updateExpenseComment(7, 'Hi')).rejects.toThrow('Comment not found');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// Mock Prisma client
+const mockPrisma = {
+  expense: { findUnique: jest.fn() },
+  expenseItem: { findMany: jest.fn(), create: jest.fn(), deleteMany: jest.fn() },
+  expenseAdjustment: { findMany: jest.fn(), createMany: jest.fn(), deleteMany: jest.fn() },
+  expenseSplit: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  SplitType: { EQUAL: 'EQUAL', AMOUNT: 'AMOUNT', PERCENTAGE: 'PERCENTAGE', ITEMIZED: 'ITEMIZED' },
+  ExpenseAdjustmentType: {
+    TAX: 'TAX',
+    TIP: 'TIP',
+    SERVICE_CHARGE: 'SERVICE_CHARGE',
+    DISCOUNT: 'DISCOUNT',
+  },
+  ExpenseRevisionAction: { SPLITS_UPDATED: 'SPLITS_UPDATED' },
+}));
+
+const mockRevisionQueries = { recordExpenseRevisionQuery: jest.fn() };
+jest.mock('../../src/queries/expenseRevisionQueries', () => mockRevisionQueries);
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  clearExpenseItems,
+  getExpenseItemization,
+  setExpenseItems,
+} from '../../src/repositories/expenseItemRepo';
+
+describe('ExpenseItemRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
+    mockPrisma.expenseItem.findMany.mockResolvedValue([]);
+    mockPrisma.expenseAdjustment.findMany.mockResolvedValue([]);
+    mockPrisma.expenseSplit.findMany.mockResolvedValue([]);
+  });
+
+  describe('getExpenseItemization', () => {
+    it('should flatten item assignees into IDs', async () => {
+      mockPrisma.expenseItem.findMany.mockResolvedValue([
+        {
+          id: 1,
+          name: 'Nachos',
+          amount: new Decimal(12),
+          assignees: [{ userId: 1 }, { userId: 2 }],
+        },
+      ]);
+
+      const result = await getExpenseItemization(3);
+
+      expect(result.items).toEqual([
+        { id: 1, name: 'Nachos', amount: new Decimal(12), assigneeIds: [1, 2] },
+      ]);
+      expect(mockPrisma.expenseAdjustment.findMany).toHaveBeenCalledWith({
+        where: { expenseId: 3 },
+        orderBy: { id: 'asc' },
+      });
+    });
+  });
+
+  describe('setExpenseItems', () => {
+    it('should replace the itemization and generate ITEMIZED splits', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ id: 3, amount: new Decimal(33) });
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+
+      await setExpenseItems(
+        3,
+        {
+          items: [
+            { name: 'Burger', amount: 20, assigneeIds: [1] },
+            { name: 'Fries', amount: 10, assigneeIds: [1, 2] },
+          ],
+          adjustments: [{ type: 'TIP', amount: 3 }],
+        },
+        1
+      );
+
+      expect(mockPrisma.expenseSplit.deleteMany).toHaveBeenCalledWith({ where: { expenseId: 3 } });
+      expect(mockPrisma.expenseItem.create).toHaveBeenCalledWith({
+        data: {
+          expenseId: 3,
+          name: 'Fries',
+          amount: 10,
+          assignees: { create: [{ userId: 1 }, { userId: 2 }] },
+        },
+      });
+      expect(mockPrisma.expenseAdjustment.createMany).toHaveBeenCalledWith({
+        data: [{ expenseId: 3, type: 'TIP', amount: 3, description: undefined }],
+      });
+
+      const { data } = mockPrisma.expenseSplit.createMany.mock.calls[0][0];
+      expect(
+        data.map((split: { userId: number; amount: Decimal }) => [
+          split.userId,
+          split.amount.toFixed(2),
+        ])
+      ).toEqual([
+        [1, '27.50'],
+        [2, '5.50'],
+      ]);
+      expect(data[0].splitType).toBe('ITEMIZED');
+    });
+
+    it('should refuse once splits have been paid', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ id: 3, amount: new Decimal(10) });
+      mockPrisma.expenseSplit.count.mockResolvedValue(1);
+
+      await expect(
+        setExpenseItems(3, { items: [{ name: 'Pizza', amount: 10, assigneeIds: [1] }] }, 1)
+      ).rejects.toThrow('Expense has paid splits');
+      expect(mockPrisma.expenseSplit.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should leave existing splits alone when the items do not add up', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ id: 3, amount: new Decimal(10) });
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+
+      await expect(
+        setExpenseItems(3, { items: [{ name: 'Pizza', amount: 8, assigneeIds: [1] }] }, 1)
+      ).rejects.toThrow('must equal expense amount');
+      expect(mockPrisma.expenseSplit.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the expense does not exist', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue(null);
+
+      await expect(setExpenseItems(3, { items: [] }, 1)).rejects.toThrow('Expense not found');
+    });
+  });
+
+  describe('clearExpenseItems', () => {
+    it('should remove items, adjustments and the splits generated from them', async () => {
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+
+      await clearExpenseItems(3, 1);
+
+      expect(mockPrisma.expenseItem.deleteMany).toHaveBeenCalledWith({ where: { expenseId: 3 } });
+      expect(mockPrisma.expenseAdjustment.deleteMany).toHaveBeenCalledWith({
+        where: { expenseId: 3 },
+      });
+      expect(mockPrisma.expenseSplit.deleteMany).toHaveBeenCalledWith({
+        where: { expenseId: 3, splitType: 'ITEMIZED' },
+      });
+      expect(mockRevisionQueries.recordExpenseRevisionQuery).toHaveBeenCalledWith(
+        mockPrisma,
+        3,
+        'SPLITS_UPDATED',
+        1
+      );
+    });
+  });
+});
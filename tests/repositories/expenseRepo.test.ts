@@ -3,9 +3,26 @@ const mockPrisma = {
   expense: {
     create: jest.fn(),
     findUnique: jest.fn(),
+    findFirst: jest.fn(),
     findMany: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  expenseAttachment: {
+    findMany: jest.fn(),
+  },
+  expenseSplit: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  $transaction: jest.fn(),
+  group: {
+    findUnique: jest.fn(),
+  },
+  user: {
+    findUnique: jest.fn(),
+    count: jest.fn(),
   },
 };
 
@@ -15,24 +32,47 @@ jest.mock('@prisma/client', () => ({
     toString: () => value.toString(),
     toNumber: () => parseFloat(value),
   })),
+  ExpenseRevisionAction: {
+    CREATED: 'CREATED',
+    UPDATED: 'UPDATED',
+    DELETED: 'DELETED',
+    RESTORED: 'RESTORED',
+  },
+  SplitType: {
+    EQUAL: 'EQUAL',
+    AMOUNT: 'AMOUNT',
+    PERCENTAGE: 'PERCENTAGE',
+    ITEMIZED: 'ITEMIZED',
+  },
 }));
 
+const mockRevisionQueries = { recordExpenseRevisionQuery: jest.fn() };
+jest.mock('../../src/queries/expenseRevisionQueries', () => mockRevisionQueries);
+
 jest.mock('../../src/app', () => ({
   prisma: mockPrisma,
 }));
 
+import { Decimal } from '@prisma/client/runtime/library';
 import {
   createExpense,
   getExpense,
   updateExpense,
   deleteExpense,
+  getDeletedExpenses,
+  restoreExpense,
+  purgeDeletedExpenses,
   listExpenses,
+  getExpenseExportPage,
+  searchExpensePage,
+  applyBulkExpenseOperations,
 } from '../../src/repositories/expenseRepo';
 
 describe('ExpenseRepository', () => {
   beforeEach(() => {
     // Reset all mocks
     jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
   });
 
   describe('createExpense', () => {
@@ -74,6 +114,7 @@ describe('ExpenseRepository', () => {
             toString: expect.any(Function),
             toNumber: expect.any(Function),
           }),
+          createdById: 1,
         },
         include: expect.objectContaining({
           user: expect.any(Object),
@@ -82,6 +123,12 @@ describe('ExpenseRepository', () => {
           _count: expect.any(Object),
         }),
       });
+      expect(mockRevisionQueries.recordExpenseRevisionQuery).toHaveBeenCalledWith(
+        mockPrisma,
+        1,
+        'CREATED',
+        1
+      );
       expect(result).toEqual(expectedExpense);
     });
 
@@ -125,6 +172,7 @@ describe('ExpenseRepository', () => {
             toString: expect.any(Function),
             toNumber: expect.any(Function),
           }),
+          createdById: 1,
         },
         include: expect.objectContaining({
           user: expect.any(Object),
@@ -136,6 +184,138 @@ describe('ExpenseRepository', () => {
       expect(result).toEqual(expectedExpense);
     });
 
+    it('should record who created an expense paid by someone else', async () => {
+      mockPrisma.expense.create.mockResolvedValue({ id: 2 });
+
+      await createExpense({ title: 'Taxi', amount: 40, userId: 2, createdById: 1, groupId: 3 });
+
+      expect(mockPrisma.expense.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ userId: 2, createdById: 1, groupId: 3 }),
+        })
+      );
+      expect(mockRevisionQueries.recordExpenseRevisionQuery).toHaveBeenCalledWith(
+        mockPrisma,
+        2,
+        'CREATED',
+        1
+      );
+    });
+
+    it("should default to the user's currency for personal expenses", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ defaultCurrency: 'EUR' });
+      mockPrisma.expense.create.mockResolvedValue({ id: 1 });
+
+      await createExpense({ title: 'Croissants', amount: 8, userId: 1 });
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: { defaultCurrency: true },
+      });
+      expect(mockPrisma.expense.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ currency: 'EUR' }) })
+      );
+    });
+
+    it("should default to the group's currency for group expenses", async () => {
+      mockPrisma.group.findUnique.mockResolvedValue({ defaultCurrency: 'JPY' });
+      mockPrisma.expense.create.mockResolvedValue({ id: 1 });
+
+      await createExpense({ title: 'Ramen', amount: 2400, userId: 1, groupId: 3 });
+
+      expect(mockPrisma.group.findUnique).toHaveBeenCalledWith({
+        where: { id: 3 },
+        select: { defaultCurrency: true },
+      });
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.expense.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ currency: 'JPY' }) })
+      );
+    });
+
+    it('should keep an explicit currency', async () => {
+      mockPrisma.expense.create.mockResolvedValue({ id: 1 });
+
+      await createExpense({ title: 'Taxi', amount: 30, currency: 'GBP', userId: 1, groupId: 3 });
+
+      expect(mockPrisma.group.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.expense.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ currency: 'GBP' }) })
+      );
+    });
+
+    it('should store contributions when several people paid', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ defaultCurrency: 'USD' });
+      mockPrisma.user.count.mockResolvedValue(2);
+      mockPrisma.expense.create.mockResolvedValue({ id: 1 });
+
+      await createExpense({
+        title: 'Hotel',
+        amount: 300,
+        userId: 1,
+        payers: [
+          { userId: 1, amount: 180 },
+          { userId: 2, amount: 120 },
+        ],
+      });
+
+      const { data } = mockPrisma.expense.create.mock.calls[0][0];
+      expect(data.payers.create).toEqual([
+        { userId: 1, amount: new Decimal(180) },
+        { userId: 2, amount: new Decimal(120) },
+      ]);
+    });
+
+    it('should reject contributions that do not add up to the amount', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ defaultCurrency: 'USD' });
+
+      await expect(
+        createExpense({
+          title: 'Hotel',
+          amount: 300,
+          userId: 1,
+          payers: [
+            { userId: 1, amount: 180 },
+            { userId: 2, amount: 100 },
+          ],
+        })
+      ).rejects.toThrow('Payer contributions total 280 but the expense amount is 300');
+      expect(mockPrisma.expense.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject the same payer listed twice', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ defaultCurrency: 'USD' });
+
+      await expect(
+        createExpense({
+          title: 'Hotel',
+          amount: 300,
+          userId: 1,
+          payers: [
+            { userId: 2, amount: 150 },
+            { userId: 2, amount: 150 },
+          ],
+        })
+      ).rejects.toThrow('Payers can only be listed once');
+    });
+
+    it('should reject unknown payers', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ defaultCurrency: 'USD' });
+      mockPrisma.user.count.mockResolvedValue(1);
+
+      await expect(
+        createExpense({
+          title: 'Hotel',
+          amount: 300,
+          userId: 1,
+          payers: [
+            { userId: 1, amount: 150 },
+            { userId: 99, amount: 150 },
+          ],
+        })
+      ).rejects.toThrow('Payer not found');
+    });
+
     it('should handle database errors', async () => {
       const expenseData = {
         title: 'Test Expense',
@@ -159,29 +339,29 @@ describe('ExpenseRepository', () => {
         paidAt: new Date(),
       };
 
-      mockPrisma.expense.findUnique.mockResolvedValue(expectedExpense);
+      mockPrisma.expense.findFirst.mockResolvedValue(expectedExpense);
 
       const result = await getExpense(1);
 
-      expect(mockPrisma.expense.findUnique).toHaveBeenCalledWith({
-        where: { id: 1 },
+      expect(mockPrisma.expense.findFirst).toHaveBeenCalledWith({
+        where: { id: 1, deletedAt: null },
       });
       expect(result).toEqual(expectedExpense);
     });
 
-    it('should return null when expense not found', async () => {
-      mockPrisma.expense.findUnique.mockResolvedValue(null);
+    it('should return null when expense not found or in the trash', async () => {
+      mockPrisma.expense.findFirst.mockResolvedValue(null);
 
       const result = await getExpense(999);
 
-      expect(mockPrisma.expense.findUnique).toHaveBeenCalledWith({
-        where: { id: 999 },
+      expect(mockPrisma.expense.findFirst).toHaveBeenCalledWith({
+        where: { id: 999, deletedAt: null },
       });
       expect(result).toBeNull();
     });
 
     it('should handle database errors', async () => {
-      mockPrisma.expense.findUnique.mockRejectedValue(new Error('Database error'));
+      mockPrisma.expense.findFirst.mockRejectedValue(new Error('Database error'));
 
       await expect(getExpense(1)).rejects.toThrow('Database error');
     });
@@ -216,7 +396,7 @@ describe('ExpenseRepository', () => {
 
       mockPrisma.expense.update.mockResolvedValue(expectedExpense);
 
-      const result = await updateExpense(1, updateData);
+      const result = await updateExpense(1, updateData, 1);
 
       expect(mockPrisma.expense.update).toHaveBeenCalledWith({
         where: { id: 1 },
@@ -237,6 +417,97 @@ describe('ExpenseRepository', () => {
       expect(result).toEqual(expectedExpense);
     });
 
+    it('should only write the fields an update can change', async () => {
+      mockPrisma.expense.update.mockResolvedValue({ id: 1 });
+
+      const tampered = { title: 'Lunch', userId: 9, createdById: 9, deletedAt: null };
+      await updateExpense(1, tampered, 1);
+
+      const { data } = mockPrisma.expense.update.mock.calls[0][0];
+      expect(data.title).toBe('Lunch');
+      expect(data).not.toHaveProperty('userId');
+      expect(data).not.toHaveProperty('createdById');
+      expect(data).not.toHaveProperty('deletedAt');
+    });
+
+    it('should keep existing contributions in line with a new amount', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({
+        amount: new Decimal(300),
+        payers: [
+          { userId: 1, amount: new Decimal(180) },
+          { userId: 2, amount: new Decimal(120) },
+        ],
+      });
+
+      await expect(updateExpense(1, { amount: 350 }, 1)).rejects.toThrow(
+        'Payer contributions total 300 but the expense amount is 350'
+      );
+      expect(mockPrisma.expense.update).not.toHaveBeenCalled();
+    });
+
+    it('should replace contributions', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ amount: new Decimal(300), payers: [] });
+      mockPrisma.user.count.mockResolvedValue(2);
+      mockPrisma.expense.update.mockResolvedValue({ id: 1 });
+
+      await updateExpense(
+        1,
+        {
+          payers: [
+            { userId: 1, amount: 200 },
+            { userId: 3, amount: 100 },
+          ],
+        },
+        1
+      );
+
+      const { data } = mockPrisma.expense.update.mock.calls[0][0];
+      expect(data.payers).toEqual({
+        deleteMany: {},
+        create: [
+          { userId: 1, amount: new Decimal(200) },
+          { userId: 3, amount: new Decimal(100) },
+        ],
+      });
+    });
+
+    it('should recalculate equal splits for a new amount', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ amount: new Decimal(100), payers: [] });
+      mockPrisma.expenseSplit.findMany.mockResolvedValue([
+        { userId: 1, amount: new Decimal(50), splitType: 'EQUAL', percentage: null, isPaid: false },
+        { userId: 2, amount: new Decimal(50), splitType: 'EQUAL', percentage: null, isPaid: false },
+      ]);
+      mockPrisma.expense.update.mockResolvedValue({ id: 1 });
+
+      await updateExpense(1, { amount: 120 }, 1);
+
+      expect(mockPrisma.expenseSplit.update).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.expenseSplit.update).toHaveBeenCalledWith({
+        where: { expenseId_userId: { expenseId: 1, userId: 2 } },
+        data: { amount: new Decimal(60) },
+      });
+    });
+
+    it('should refuse to change paid splits unless forced', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ amount: new Decimal(100), payers: [] });
+      mockPrisma.expenseSplit.findMany.mockResolvedValue([
+        { userId: 1, amount: new Decimal(50), splitType: 'EQUAL', percentage: null, isPaid: false },
+        { userId: 2, amount: new Decimal(50), splitType: 'EQUAL', percentage: null, isPaid: true },
+      ]);
+      mockPrisma.expense.update.mockResolvedValue({ id: 1 });
+
+      await expect(updateExpense(1, { amount: 120 }, 1)).rejects.toThrow(
+        'The new amount would change paid splits, force the update to change them'
+      );
+      expect(mockPrisma.expenseSplit.update).not.toHaveBeenCalled();
+      expect(mockPrisma.expense.update).not.toHaveBeenCalled();
+
+      await updateExpense(1, { amount: 120, forceSplitChanges: true }, 1);
+
+      expect(mockPrisma.expenseSplit.update).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.expense.update).toHaveBeenCalled();
+    });
+
     it('should update only title', async () => {
       const updateData = { title: 'New Title' };
 
@@ -262,7 +533,7 @@ describe('ExpenseRepository', () => {
 
       mockPrisma.expense.update.mockResolvedValue(expectedExpense);
 
-      const result = await updateExpense(1, updateData);
+      const result = await updateExpense(1, updateData, 1);
 
       expect(mockPrisma.expense.update).toHaveBeenCalledWith({
         where: { id: 1 },
@@ -306,7 +577,7 @@ describe('ExpenseRepository', () => {
 
       mockPrisma.expense.update.mockResolvedValue(expectedExpense);
 
-      const result = await updateExpense(1, updateData);
+      const result = await updateExpense(1, updateData, 1);
 
       expect(mockPrisma.expense.update).toHaveBeenCalledWith({
         where: { id: 1 },
@@ -329,12 +600,12 @@ describe('ExpenseRepository', () => {
 
       mockPrisma.expense.update.mockRejectedValue(new Error('Database error'));
 
-      await expect(updateExpense(1, updateData)).rejects.toThrow('Database error');
+      await expect(updateExpense(1, updateData, 1)).rejects.toThrow('Database error');
     });
   });
 
   describe('deleteExpense', () => {
-    it('should delete expense by id', async () => {
+    it('should move the expense to the trash', async () => {
       const expectedExpense = {
         id: 1,
         title: 'Test Expense',
@@ -343,20 +614,114 @@ describe('ExpenseRepository', () => {
         paidAt: new Date(),
       };
 
-      mockPrisma.expense.delete.mockResolvedValue(expectedExpense);
+      mockPrisma.expense.update.mockResolvedValue(expectedExpense);
 
-      const result = await deleteExpense(1);
+      const result = await deleteExpense(1, 1);
 
-      expect(mockPrisma.expense.delete).toHaveBeenCalledWith({
+      expect(mockPrisma.expense.update).toHaveBeenCalledWith({
         where: { id: 1 },
+        data: { deletedAt: expect.any(Date) },
       });
+      expect(mockRevisionQueries.recordExpenseRevisionQuery).toHaveBeenCalledWith(
+        mockPrisma,
+        1,
+        'DELETED',
+        1
+      );
       expect(result).toEqual(expectedExpense);
     });
 
     it('should handle database errors', async () => {
-      mockPrisma.expense.delete.mockRejectedValue(new Error('Database error'));
+      mockPrisma.expense.update.mockRejectedValue(new Error('Database error'));
+
+      await expect(deleteExpense(1, 1)).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('getDeletedExpenses', () => {
+    it('should list the trash with when each expense is purged', async () => {
+      const deletedAt = new Date('2026-03-01T12:00:00Z');
+      mockPrisma.expense.findMany.mockResolvedValue([{ id: 7, deletedAt }]);
+
+      const result = await getDeletedExpenses({ groupId: 3 });
+
+      expect(mockPrisma.expense.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { groupId: 3, deletedAt: { not: null } },
+          orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        })
+      );
+      expect(result[0].purgeAt).toEqual(new Date('2026-03-31T12:00:00Z'));
+    });
+  });
+
+  describe('applyBulkExpenseOperations', () => {
+    const deletions = [1, 2, 3].map(id => ({ action: 'delete' as const, id }));
+
+    it('should keep going after a failure in best-effort mode', async () => {
+      mockPrisma.expense.update
+        .mockResolvedValueOnce({ id: 1 })
+        .mockRejectedValueOnce(new Error('Database error'))
+        .mockResolvedValueOnce({ id: 3 });
+
+      const results = await applyBulkExpenseOperations(deletions, 1, false);
+
+      expect(results.map(result => result.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should roll everything back after a failure in atomic mode', async () => {
+      mockPrisma.expense.update
+        .mockResolvedValueOnce({ id: 1 })
+        .mockRejectedValueOnce(new Error('Database error'));
+
+      const results = await applyBulkExpenseOperations(deletions, 1, true);
 
-      await expect(deleteExpense(1)).rejects.toThrow('Database error');
+      expect(results.map(result => result.status)).toEqual(['skipped', 'failed', 'skipped']);
+      expect(results[1].error).toEqual(new Error('Database error'));
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      // Sized for the largest request rather than Prisma's 5 second default
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        maxWait: 10_000,
+        timeout: 10_000,
+      });
+      expect(mockPrisma.expense.update).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('restoreExpense', () => {
+    it('should take the expense out of the trash', async () => {
+      mockPrisma.expense.update.mockResolvedValue({ id: 7, deletedAt: null });
+
+      await restoreExpense(7, 1);
+
+      expect(mockPrisma.expense.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { deletedAt: null },
+      });
+      expect(mockRevisionQueries.recordExpenseRevisionQuery).toHaveBeenCalledWith(
+        mockPrisma,
+        7,
+        'RESTORED',
+        1
+      );
+    });
+  });
+
+  describe('purgeDeletedExpenses', () => {
+    it('should permanently delete expenses past the retention period', async () => {
+      mockPrisma.expenseAttachment.findMany.mockResolvedValue([]);
+      mockPrisma.expense.deleteMany.mockResolvedValue({ count: 2 });
+
+      const purged = await purgeDeletedExpenses(new Date('2026-04-30T00:00:00Z'));
+
+      const expired = { deletedAt: { lte: new Date('2026-03-31T00:00:00Z') } };
+      expect(mockPrisma.expenseAttachment.findMany).toHaveBeenCalledWith({
+        where: { expense: expired },
+        select: { storageKey: true, thumbnailKey: true },
+      });
+      expect(mockPrisma.expense.deleteMany).toHaveBeenCalledWith({ where: expired });
+      expect(purged).toBe(2);
     });
   });
 
@@ -384,6 +749,7 @@ describe('ExpenseRepository', () => {
       const result = await listExpenses();
 
       expect(mockPrisma.expense.findMany).toHaveBeenCalledWith({
+        where: { deletedAt: null },
         orderBy: { id: 'desc' },
       });
       expect(result).toEqual(mockExpenses);
@@ -403,4 +769,138 @@ describe('ExpenseRepository', () => {
       await expect(listExpenses()).rejects.toThrow('Database error');
     });
   });
+
+  describe('getExpenseExportPage', () => {
+    it('should apply search filters and continue after the previous page', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([]);
+
+      await getExpenseExportPage(
+        { userId: 1, title: 'taxi', fromDate: new Date('2026-01-01') },
+        40,
+        100
+      );
+
+      expect(mockPrisma.expense.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deletedAt: null,
+            OR: [{ userId: 1 }, { createdById: 1 }],
+            title: { contains: 'taxi', mode: 'insensitive' },
+            paidAt: { gte: new Date('2026-01-01') },
+          },
+          orderBy: [{ paidAt: 'asc' }, { id: 'asc' }],
+          cursor: { id: 40 },
+          skip: 1,
+          take: 100,
+        })
+      );
+    });
+
+    it('should include expenses the user has a split in when asked', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([]);
+
+      await getExpenseExportPage({ userId: 1, withSplits: true });
+
+      expect(mockPrisma.expense.findMany.mock.calls[0][0].where).toEqual({
+        deletedAt: null,
+        OR: [{ userId: 1 }, { createdById: 1 }, { splits: { some: { userId: 1 } } }],
+      });
+    });
+
+    it('should start from the oldest expense without a cursor', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([]);
+
+      await getExpenseExportPage({ groupId: 3 });
+
+      const query = mockPrisma.expense.findMany.mock.calls[0][0];
+      expect(query.where).toEqual({ deletedAt: null, groupId: 3 });
+      expect(query.cursor).toBeUndefined();
+      expect(query.take).toBe(500);
+    });
+  });
+
+  describe('searchExpensePage', () => {
+    const expense = (id: number, paidAt: string) => ({
+      id,
+      title: `Expense ${id}`,
+      amount: new Decimal(10),
+      paidAt: new Date(paidAt),
+    });
+
+    it('should filter by category and leave out the trash', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([]);
+
+      await searchExpensePage({ userId: 1, categoryId: 4 });
+
+      expect(mockPrisma.expense.findMany.mock.calls[0][0].where).toEqual({
+        deletedAt: null,
+        OR: [{ userId: 1 }, { createdById: 1 }],
+        categoryId: 4,
+      });
+    });
+
+    it('should match expenses with all of the tags', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([]);
+
+      await searchExpensePage({ groupId: 3, tagIds: [5, 6] });
+
+      expect(mockPrisma.expense.findMany.mock.calls[0][0].where).toEqual({
+        deletedAt: null,
+        groupId: 3,
+        AND: [{ tags: { some: { tagId: 5 } } }, { tags: { some: { tagId: 6 } } }],
+      });
+    });
+
+    it('should return a cursor that continues after the last expense', async () => {
+      mockPrisma.expense.findMany.mockResolvedValueOnce([
+        expense(9, '2026-03-03'),
+        expense(8, '2026-03-02'),
+        expense(7, '2026-03-02'),
+      ]);
+
+      const first = await searchExpensePage({ userId: 1 }, { limit: 2 });
+
+      expect(first.expenses.map(result => result.id)).toEqual([9, 8]);
+      expect(first.nextCursor).toEqual(expect.any(String));
+      expect(mockPrisma.expense.findMany.mock.calls[0][0]).toMatchObject({
+        orderBy: [{ paidAt: 'desc' }, { id: 'desc' }],
+        take: 3,
+      });
+
+      mockPrisma.expense.findMany.mockResolvedValueOnce([expense(7, '2026-03-02')]);
+
+      const second = await searchExpensePage(
+        { userId: 1 },
+        { limit: 2, cursor: first.nextCursor! }
+      );
+
+      expect(second.nextCursor).toBeNull();
+      expect(mockPrisma.expense.findMany.mock.calls[1][0].where).toEqual({
+        AND: [
+          { deletedAt: null, OR: [{ userId: 1 }, { createdById: 1 }] },
+          {
+            OR: [
+              { paidAt: { lt: new Date('2026-03-02') } },
+              { paidAt: new Date('2026-03-02'), id: { lt: 8 } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should reject cursors that are malformed or from another sort order', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([
+        expense(9, '2026-03-03'),
+        expense(8, '2026-03-02'),
+      ]);
+      const { nextCursor } = await searchExpensePage({ userId: 1 }, { limit: 1 });
+
+      await expect(
+        searchExpensePage({ userId: 1 }, { orderBy: 'amount', cursor: nextCursor! })
+      ).rejects.toThrow('Invalid cursor');
+      await expect(searchExpensePage({ userId: 1 }, { cursor: 'not-a-cursor' })).rejects.toThrow(
+        'Invalid cursor'
+      );
+    });
+  });
 });
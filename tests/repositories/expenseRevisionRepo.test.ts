@@ -0,0 +1,316 @@
+// Mock Prisma client
+const mockPrisma = {
+  expense: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+  groupMember: { count: jest.fn() },
+  expenseRevision: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+  },
+  expenseItem: { count: jest.fn() },
+  expenseSplit: { deleteMany: jest.fn(), createMany: jest.fn() },
+  category: { findUnique: jest.fn() },
+  tag: { findMany: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  SplitType: { EQUAL: 'EQUAL', AMOUNT: 'AMOUNT', PERCENTAGE: 'PERCENTAGE', ITEMIZED: 'ITEMIZED' },
+  ExpenseRevisionAction: {
+    CREATED: 'CREATED',
+    UPDATED: 'UPDATED',
+    SPLITS_UPDATED: 'SPLITS_UPDATED',
+    DELETED: 'DELETED',
+    RESTORED: 'RESTORED',
+    REVERTED: 'REVERTED',
+  },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { Decimal } from '@prisma/client/runtime/library';
+import { ExpenseRevisionAction } from '@prisma/client';
+import {
+  diffExpenseSnapshots,
+  ExpenseSnapshot,
+  recordExpenseRevisionQuery,
+} from '../../src/queries/expenseRevisionQueries';
+import {
+  getExpenseRevisions,
+  revertExpenseToRevision,
+} from '../../src/repositories/expenseRevisionRepo';
+
+describe('ExpenseRevisionRepository', () => {
+  const paidAt = new Date('2026-05-01T12:00:00.000Z');
+
+  // Expense row as loaded for a snapshot
+  const expenseRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 5,
+    title: 'Dinner',
+    description: null,
+    amount: new Decimal('60.00'),
+    currency: 'EUR',
+    paidAt,
+    groupId: 3,
+    categoryId: 2,
+    deletedAt: null,
+    tags: [{ tagId: 4 }],
+    payers: [],
+    splits: [
+      { userId: 1, amount: new Decimal(30), splitType: 'EQUAL', percentage: null, isPaid: false },
+      { userId: 2, amount: new Decimal(30), splitType: 'EQUAL', percentage: null, isPaid: false },
+    ],
+    ...overrides,
+  });
+
+  const snapshot: ExpenseSnapshot = {
+    title: 'Dinner',
+    description: null,
+    amount: '60',
+    currency: 'EUR',
+    paidAt: '2026-05-01T12:00:00.000Z',
+    groupId: 3,
+    categoryId: 2,
+    deletedAt: null,
+    tagIds: [4],
+    payers: [],
+    splits: [
+      { userId: 1, amount: '30', splitType: 'EQUAL', percentage: null, isPaid: false },
+      { userId: 2, amount: '30', splitType: 'EQUAL', percentage: null, isPaid: false },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
+    mockPrisma.expenseRevision.create.mockImplementation(({ data }) => ({ id: 20, ...data }));
+    mockPrisma.expenseItem.count.mockResolvedValue(0);
+  });
+
+  describe('diffExpenseSnapshots', () => {
+    it('should list changed fields and per-person split changes', () => {
+      const after: ExpenseSnapshot = {
+        ...snapshot,
+        title: 'Team dinner',
+        amount: '90',
+        splits: [
+          { userId: 1, amount: '45', splitType: 'EQUAL', percentage: null, isPaid: false },
+          { userId: 2, amount: '30', splitType: 'EQUAL', percentage: null, isPaid: false },
+          { userId: 3, amount: '15', splitType: 'EQUAL', percentage: null, isPaid: false },
+        ],
+      };
+
+      expect(diffExpenseSnapshots(snapshot, after)).toEqual([
+        { field: 'title', from: 'Dinner', to: 'Team dinner' },
+        { field: 'amount', from: '60', to: '90' },
+        { field: 'splits.1', from: snapshot.splits[0], to: after.splits[0] },
+        { field: 'splits.3', from: null, to: after.splits[2] },
+      ]);
+    });
+
+    it('should ignore the key order of stored snapshots', () => {
+      const stored = JSON.parse(
+        '{"splits":[{"isPaid":false,"userId":1,"amount":"30","splitType":"EQUAL","percentage":null},' +
+          '{"amount":"30","userId":2,"isPaid":false,"splitType":"EQUAL","percentage":null}],' +
+          '"payers":[],"tagIds":[4],"deletedAt":null,"categoryId":2,"paidAt":"2026-05-01T12:00:00.000Z",' +
+          '"currency":"EUR","amount":"60","description":null,"title":"Dinner"}'
+      );
+
+      expect(diffExpenseSnapshots(stored, snapshot)).toEqual([]);
+    });
+
+    it('should report a move to another group', () => {
+      expect(diffExpenseSnapshots(snapshot, { ...snapshot, groupId: null })).toEqual([
+        { field: 'groupId', from: 3, to: null },
+      ]);
+    });
+  });
+
+  describe('recordExpenseRevisionQuery', () => {
+    it('should record the state and changes since the previous revision', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue(expenseRow({ title: 'Team dinner' }));
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue({ snapshot });
+
+      await recordExpenseRevisionQuery(mockPrisma as any, 5, ExpenseRevisionAction.UPDATED, 1);
+
+      expect(mockPrisma.expenseRevision.create).toHaveBeenCalledWith({
+        data: {
+          expenseId: 5,
+          action: 'UPDATED',
+          actorId: 1,
+          revertedToId: undefined,
+          changes: [{ field: 'title', from: 'Dinner', to: 'Team dinner' }],
+          snapshot: { ...snapshot, title: 'Team dinner' },
+        },
+      });
+    });
+
+    it('should skip updates that changed nothing', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue(expenseRow());
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue({ snapshot });
+
+      const revision = await recordExpenseRevisionQuery(
+        mockPrisma as any,
+        5,
+        ExpenseRevisionAction.SPLITS_UPDATED,
+        1
+      );
+
+      expect(revision).toBeNull();
+      expect(mockPrisma.expenseRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('should start the history without changes', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue(expenseRow());
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue(null);
+
+      await recordExpenseRevisionQuery(mockPrisma as any, 5, ExpenseRevisionAction.CREATED, 1);
+
+      expect(mockPrisma.expenseRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'CREATED', changes: [], snapshot }),
+      });
+    });
+  });
+
+  describe('getExpenseRevisions', () => {
+    it('should list revisions newest first with their actor', async () => {
+      mockPrisma.expenseRevision.findMany.mockResolvedValue([]);
+
+      await getExpenseRevisions(5);
+
+      expect(mockPrisma.expenseRevision.findMany).toHaveBeenCalledWith({
+        where: { expenseId: 5 },
+        include: { actor: { select: { id: true, name: true } } },
+        orderBy: { id: 'desc' },
+      });
+    });
+  });
+
+  describe('revertExpenseToRevision', () => {
+    const changed = expenseRow({
+      title: 'Team dinner',
+      amount: new Decimal(90),
+      tags: [],
+      splits: [
+        { userId: 1, amount: new Decimal(45), splitType: 'EQUAL', percentage: null, isPaid: false },
+        { userId: 2, amount: new Decimal(45), splitType: 'EQUAL', percentage: null, isPaid: false },
+      ],
+    });
+
+    it('should restore fields and rebuild splits from the revision', async () => {
+      mockPrisma.expenseRevision.findFirst
+        .mockResolvedValueOnce({ id: 11, expenseId: 5, snapshot }) // revision to revert to
+        .mockResolvedValueOnce({ snapshot: { ...snapshot, title: 'Team dinner' } }); // latest
+      mockPrisma.expense.findUnique.mockResolvedValueOnce(changed).mockResolvedValue(expenseRow());
+      mockPrisma.category.findUnique.mockResolvedValue({ id: 2 });
+      mockPrisma.tag.findMany.mockResolvedValue([{ id: 4 }]);
+      mockPrisma.expenseRevision.findUniqueOrThrow.mockResolvedValue({ id: 20 });
+
+      await revertExpenseToRevision(5, 11, 1);
+
+      const { data } = mockPrisma.expense.update.mock.calls[0][0];
+      expect(data.title).toBe('Dinner');
+      expect(data.amount.toString()).toBe('60');
+      expect(data.tags).toEqual({ deleteMany: {}, create: [{ tagId: 4 }] });
+      expect(data).not.toHaveProperty('groupId'); // Unchanged
+      expect(mockPrisma.expenseSplit.deleteMany).toHaveBeenCalledWith({ where: { expenseId: 5 } });
+      const splits = mockPrisma.expenseSplit.createMany.mock.calls[0][0].data;
+      expect(splits.map((split: { amount: Decimal }) => split.amount.toString())).toEqual([
+        '30',
+        '30',
+      ]);
+      expect(mockPrisma.expenseRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'REVERTED', actorId: 1, revertedToId: 11 }),
+      });
+    });
+
+    it('should restore the group the revision recorded', async () => {
+      mockPrisma.expenseRevision.findFirst
+        .mockResolvedValueOnce({ id: 11, expenseId: 5, snapshot }) // revision to revert to
+        .mockResolvedValueOnce({ snapshot: { ...snapshot, groupId: 8 } }); // latest
+      mockPrisma.expense.findUnique
+        .mockResolvedValueOnce(expenseRow({ groupId: 8 }))
+        .mockResolvedValue(expenseRow());
+      mockPrisma.expense.findUniqueOrThrow.mockResolvedValue({ userId: 1 });
+      mockPrisma.groupMember.count.mockResolvedValue(2);
+      mockPrisma.category.findUnique.mockResolvedValue({ id: 2 });
+      mockPrisma.tag.findMany.mockResolvedValue([{ id: 4 }]);
+      mockPrisma.expenseRevision.findUniqueOrThrow.mockResolvedValue({ id: 20 });
+
+      await revertExpenseToRevision(5, 11, 1);
+
+      expect(mockPrisma.groupMember.count).toHaveBeenCalledWith({
+        where: { groupId: 3, userId: { in: [1, 2] } },
+      });
+      expect(mockPrisma.expense.update.mock.calls[0][0].data.groupId).toBe(3);
+    });
+
+    it('should refuse a group the people on the expense have left', async () => {
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue({ id: 11, expenseId: 5, snapshot });
+      mockPrisma.expense.findUnique.mockResolvedValue(expenseRow({ groupId: 8 }));
+      mockPrisma.expense.findUniqueOrThrow.mockResolvedValue({ userId: 1 });
+      mockPrisma.groupMember.count.mockResolvedValue(1);
+
+      await expect(revertExpenseToRevision(5, 11, 1)).rejects.toThrow('no longer be reverted');
+      expect(mockPrisma.expense.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let the payer make a group expense personal', async () => {
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue({
+        id: 11,
+        expenseId: 5,
+        snapshot: { ...snapshot, groupId: null },
+      });
+      mockPrisma.expense.findUnique.mockResolvedValue(expenseRow());
+      mockPrisma.expense.findUniqueOrThrow.mockResolvedValue({ userId: 2 });
+
+      await expect(revertExpenseToRevision(5, 11, 1)).rejects.toThrow('Only the payer');
+      expect(mockPrisma.expense.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to replace paid splits', async () => {
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue({ id: 11, expenseId: 5, snapshot });
+      mockPrisma.expense.findUnique.mockResolvedValue(
+        expenseRow({
+          splits: [
+            {
+              userId: 1,
+              amount: new Decimal(30),
+              splitType: 'EQUAL',
+              percentage: null,
+              isPaid: true,
+            },
+            {
+              userId: 2,
+              amount: new Decimal(30),
+              splitType: 'EQUAL',
+              percentage: null,
+              isPaid: false,
+            },
+          ],
+        })
+      );
+
+      await expect(revertExpenseToRevision(5, 11, 1)).rejects.toThrow('paid splits');
+      expect(mockPrisma.expense.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse itemized expenses', async () => {
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue({ id: 11, expenseId: 5, snapshot });
+      mockPrisma.expense.findUnique.mockResolvedValue(changed);
+      mockPrisma.expenseItem.count.mockResolvedValue(2);
+
+      await expect(revertExpenseToRevision(5, 11, 1)).rejects.toThrow('Itemized');
+    });
+
+    it('should throw when the revision belongs to another expense', async () => {
+      mockPrisma.expenseRevision.findFirst.mockResolvedValue(null);
+
+      await expect(revertExpenseToRevision(5, 99, 1)).rejects.toThrow('Revision not found');
+    });
+  });
+});
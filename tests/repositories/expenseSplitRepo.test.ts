@@ -372,14 +372,14 @@ describe('ExpenseSplitRepo', () => {
         participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
       });
 
-      const split = await markSplitAsPaid(testExpense.id, testUser2.id);
+      const split = await markSplitAsPaid(testExpense.id, testUser2.id, testUser1.id);
 
       expect(split.isPaid).toBe(true);
       expect(split.user).toBeDefined();
     });
 
     it('should throw error for non-existent split', async () => {
-      await expect(markSplitAsPaid(testExpense.id, testUser2.id)).rejects.toThrow();
+      await expect(markSplitAsPaid(testExpense.id, testUser2.id, testUser1.id)).rejects.toThrow();
     });
   });
 
@@ -409,8 +409,8 @@ describe('ExpenseSplitRepo', () => {
         participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
       });
 
-      const user1Summary = await getUserBalanceSummary(testUser1.id);
-      const user2Summary = await getUserBalanceSummary(testUser2.id);
+      const [user1Summary] = await getUserBalanceSummary(testUser1.id);
+      const [user2Summary] = await getUserBalanceSummary(testUser2.id);
 
       // User1: Owes $50 (from expense2), Owed $75 (from testExpense), Net: +$25
       expect(user1Summary.owes.toString()).toBe('50');
@@ -424,13 +424,68 @@ describe('ExpenseSplitRepo', () => {
     });
 
     it('should handle zero balances', async () => {
-      const summary = await getUserBalanceSummary(testUser3.id);
+      const balances = await getUserBalanceSummary(testUser3.id);
+
+      expect(balances).toHaveLength(0);
+    });
+
+    it('should report a zero balance in the requested currency', async () => {
+      const [summary] = await getUserBalanceSummary(testUser3.id, { currency: 'EUR' });
 
+      expect(summary.currency).toBe('EUR');
       expect(summary.owes.toString()).toBe('0');
       expect(summary.owed.toString()).toBe('0');
       expect(summary.netBalance.toString()).toBe('0');
     });
 
+    it('should report balances per currency or converted', async () => {
+      await prisma.exchangeRate.create({
+        data: {
+          baseCurrency: 'USD',
+          quoteCurrency: 'JPY',
+          rate: new Decimal('150'),
+          effectiveDate: new Date('2026-01-01'),
+        },
+      });
+
+      // User1 pays $150 split with User2; User2 pays ¥3000 split with User1
+      await createExpenseSplits({
+        expenseId: testExpense.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      const expense2 = await prisma.expense.create({
+        data: {
+          title: 'Ramen',
+          amount: new Decimal('3000'),
+          currency: 'JPY',
+          userId: testUser2.id,
+          groupId: testGroup.id,
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: expense2.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      const perCurrency = await getUserBalanceSummary(testUser1.id);
+      expect(perCurrency.map(balance => balance.currency)).toEqual(['JPY', 'USD']);
+      expect(perCurrency[0].owes.toString()).toBe('1500');
+      expect(perCurrency[1].owed.toString()).toBe('75');
+
+      // ¥1500 is $10 through the inverse of the USD/JPY rate
+      const [converted] = await getUserBalanceSummary(testUser1.id, { currency: 'USD' });
+      expect(converted.currency).toBe('USD');
+      expect(converted.owes.toString()).toBe('10');
+      expect(converted.owed.toString()).toBe('75');
+      expect(converted.netBalance.toString()).toBe('65');
+
+      await prisma.exchangeRate.deleteMany({});
+    });
+
     it('should exclude paid splits from balance calculation', async () => {
       await createExpenseSplits({
         expenseId: testExpense.id,
@@ -439,14 +494,30 @@ describe('ExpenseSplitRepo', () => {
       });
 
       // Mark User2's split as paid
-      await markSplitAsPaid(testExpense.id, testUser2.id);
+      await markSplitAsPaid(testExpense.id, testUser2.id, testUser1.id);
 
       const user1Summary = await getUserBalanceSummary(testUser1.id);
       const user2Summary = await getUserBalanceSummary(testUser2.id);
 
       // No unpaid splits should remain
-      expect(user1Summary.owed.toString()).toBe('0');
-      expect(user2Summary.owes.toString()).toBe('0');
+      expect(user1Summary).toHaveLength(0);
+      expect(user2Summary).toHaveLength(0);
+    });
+
+    it('should exclude expenses in the trash from balance calculation', async () => {
+      await createExpenseSplits({
+        expenseId: testExpense.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      await prisma.expense.update({
+        where: { id: testExpense.id },
+        data: { deletedAt: new Date() },
+      });
+
+      expect(await getUserBalanceSummary(testUser1.id)).toHaveLength(0);
+      expect(await getUserBalanceSummary(testUser2.id)).toHaveLength(0);
     });
   });
 
@@ -464,7 +535,7 @@ describe('ExpenseSplitRepo', () => {
       expect(splits).toHaveLength(2);
 
       // Delete splits
-      await deleteExpenseSplits(testExpense.id);
+      await deleteExpenseSplits(testExpense.id, testUser1.id);
 
       // Verify splits are gone
       splits = await getExpenseSplits(testExpense.id);
@@ -472,7 +543,7 @@ describe('ExpenseSplitRepo', () => {
     });
 
     it('should not throw error when deleting splits for expense with no splits', async () => {
-      await expect(deleteExpenseSplits(testExpense.id)).resolves.not.toThrow();
+      await expect(deleteExpenseSplits(testExpense.id, testUser1.id)).resolves.not.toThrow();
     });
   });
 });
@@ -95,10 +95,14 @@ describe('Group Settlement Repository', () => {
         ],
       });
 
-      const settlements = await getGroupSettlements(testGroup.id);
+      const result = await getGroupSettlements(testGroup.id);
 
-      expect(settlements.groupId).toBe(testGroup.id);
-      expect(settlements.groupName).toBe('Test Group Settlement');
+      expect(result.groupId).toBe(testGroup.id);
+      expect(result.groupName).toBe('Test Group Settlement');
+      expect(result.balances).toHaveLength(1);
+
+      const [settlements] = result.balances;
+      expect(settlements.currency).toBe('USD');
       expect(settlements.members).toHaveLength(3);
 
       // Alice should receive $60 (paid $90, owes $30)
@@ -177,7 +181,7 @@ describe('Group Settlement Repository', () => {
         ],
       });
 
-      const settlements = await getGroupSettlements(testGroup.id);
+      const [settlements] = (await getGroupSettlements(testGroup.id)).balances;
 
       const alice = settlements.members.find(m => m.userId === testUser1.id);
       const bob = settlements.members.find(m => m.userId === testUser2.id);
@@ -200,7 +204,7 @@ describe('Group Settlement Repository', () => {
     });
 
     it('should handle group with no debts', async () => {
-      const settlements = await getGroupSettlements(testGroup.id);
+      const [settlements] = (await getGroupSettlements(testGroup.id)).balances;
 
       expect(settlements.members).toHaveLength(3);
       settlements.members.forEach(member => {
@@ -210,6 +214,108 @@ describe('Group Settlement Repository', () => {
       expect(settlements.totalDebt.toString()).toBe('0');
     });
 
+    it('should settle each currency separately', async () => {
+      // Alice pays $90 split three ways, Bob pays €40 split with Alice
+      const dinner = await prisma.expense.create({
+        data: {
+          title: 'Dinner',
+          amount: new Decimal('90'),
+          groupId: testGroup.id,
+          userId: testUser1.id,
+        },
+      });
+      const museum = await prisma.expense.create({
+        data: {
+          title: 'Museum',
+          amount: new Decimal('40'),
+          currency: 'EUR',
+          groupId: testGroup.id,
+          userId: testUser2.id,
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: dinner.id,
+        splitType: SplitType.EQUAL,
+        participants: [
+          { userId: testUser1.id },
+          { userId: testUser2.id },
+          { userId: testUser3.id },
+        ],
+      });
+      await createExpenseSplits({
+        expenseId: museum.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      const { balances } = await getGroupSettlements(testGroup.id);
+
+      expect(balances.map(balance => balance.currency)).toEqual(['USD', 'EUR']);
+      expect(balances[0].totalDebt.toString()).toBe('60');
+      expect(balances[1].totalDebt.toString()).toBe('20');
+      expect(balances[1].optimizedTransactions).toEqual([
+        expect.objectContaining({ fromUserId: testUser1.id, toUserId: testUser2.id }),
+      ]);
+    });
+
+    it('should convert all debts into the requested currency', async () => {
+      await prisma.exchangeRate.create({
+        data: {
+          baseCurrency: 'EUR',
+          quoteCurrency: 'USD',
+          rate: new Decimal('1.5'),
+          effectiveDate: new Date('2026-01-01'),
+        },
+      });
+
+      const museum = await prisma.expense.create({
+        data: {
+          title: 'Museum',
+          amount: new Decimal('40'),
+          currency: 'EUR',
+          groupId: testGroup.id,
+          userId: testUser2.id,
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: museum.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      const { balances } = await getGroupSettlements(testGroup.id, { currency: 'USD' });
+
+      expect(balances).toHaveLength(1);
+      expect(balances[0].currency).toBe('USD');
+      expect(balances[0].totalDebt.toString()).toBe('30');
+
+      await prisma.exchangeRate.deleteMany({});
+    });
+
+    it('should fail when no exchange rate is available', async () => {
+      const museum = await prisma.expense.create({
+        data: {
+          title: 'Museum',
+          amount: new Decimal('40'),
+          currency: 'CHF',
+          groupId: testGroup.id,
+          userId: testUser2.id,
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: museum.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      await expect(getGroupSettlements(testGroup.id, { currency: 'USD' })).rejects.toThrow(
+        'No exchange rate from CHF to USD'
+      );
+    });
+
     it('should throw error for non-existent group', async () => {
       await expect(getGroupSettlements(99999)).rejects.toThrow('Group not found');
     });
@@ -311,6 +417,88 @@ describe('Group Settlement Repository', () => {
     });
   });
 
+  describe('getGroupMemberDebts in several currencies', () => {
+    it('should keep debts in different currencies apart', async () => {
+      // Alice pays $90 split three ways, Bob pays €40 split with Alice
+      const dinner = await prisma.expense.create({
+        data: {
+          title: 'Dinner',
+          amount: new Decimal('90'),
+          groupId: testGroup.id,
+          userId: testUser1.id,
+        },
+      });
+      const museum = await prisma.expense.create({
+        data: {
+          title: 'Museum',
+          amount: new Decimal('40'),
+          currency: 'EUR',
+          groupId: testGroup.id,
+          userId: testUser2.id,
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: dinner.id,
+        splitType: SplitType.EQUAL,
+        participants: [
+          { userId: testUser1.id },
+          { userId: testUser2.id },
+          { userId: testUser3.id },
+        ],
+      });
+      await createExpenseSplits({
+        expenseId: museum.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      const { memberDebts } = await getGroupMemberDebts(testGroup.id);
+      const aliceDebts = memberDebts.filter(debt => debt.member.id === testUser1.id);
+
+      expect(memberDebts).toHaveLength(6); // Three members in EUR and USD
+      expect(aliceDebts.map(debt => debt.currency)).toEqual(['EUR', 'USD']);
+      expect(aliceDebts[0].netBalance.toString()).toBe('-20');
+      expect(aliceDebts[1].netBalance.toString()).toBe('60');
+    });
+
+    it('should convert all debts into the requested currency', async () => {
+      await prisma.exchangeRate.create({
+        data: {
+          baseCurrency: 'EUR',
+          quoteCurrency: 'USD',
+          rate: new Decimal('1.5'),
+          effectiveDate: new Date('2026-01-01'),
+        },
+      });
+
+      const museum = await prisma.expense.create({
+        data: {
+          title: 'Museum',
+          amount: new Decimal('40'),
+          currency: 'EUR',
+          groupId: testGroup.id,
+          userId: testUser2.id,
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: museum.id,
+        splitType: SplitType.EQUAL,
+        participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+      });
+
+      const { memberDebts } = await getGroupMemberDebts(testGroup.id, { currency: 'USD' });
+      const bob = memberDebts.find(debt => debt.member.id === testUser2.id);
+
+      expect(memberDebts).toHaveLength(3);
+      expect(bob?.currency).toBe('USD');
+      expect(bob?.totalOwed.toString()).toBe('30');
+
+      await prisma.exchangeRate.deleteMany({});
+    });
+  });
+
   describe('executeGroupSettlement', () => {
     beforeEach(async () => {
       // Create a debt scenario for testing settlements
@@ -348,7 +536,7 @@ describe('Group Settlement Repository', () => {
         },
       ];
 
-      const result = await executeGroupSettlement(testGroup.id, transactions);
+      const result = await executeGroupSettlement(testGroup.id, transactions, testUser1.id, 'USD');
 
       expect(result.settledAmount.toString()).toBe('60');
       expect(result.settledSplits).toBe(2);
@@ -364,7 +552,7 @@ describe('Group Settlement Repository', () => {
         },
       ];
 
-      const result = await executeGroupSettlement(testGroup.id, transactions);
+      const result = await executeGroupSettlement(testGroup.id, transactions, testUser1.id, 'USD');
 
       // Since partial settlements aren't supported and the split is $30 but payment is $15,
       // no splits should be marked as paid
@@ -373,8 +561,23 @@ describe('Group Settlement Repository', () => {
       expect(result.transactions).toBe(1); // Transaction count is always the input length
     });
 
+    it('should only settle splits in the given currency', async () => {
+      const transactions = [
+        {
+          fromUserId: testUser2.id,
+          toUserId: testUser1.id,
+          amount: new Decimal('30'),
+        },
+      ];
+
+      const result = await executeGroupSettlement(testGroup.id, transactions, testUser1.id, 'EUR');
+
+      // The $30 split is in USD, so a EUR payment doesn't cover it
+      expect(result.settledSplits).toBe(0);
+    });
+
     it('should handle zero transactions', async () => {
-      const result = await executeGroupSettlement(testGroup.id, []);
+      const result = await executeGroupSettlement(testGroup.id, [], testUser1.id, 'USD');
 
       expect(result.settledAmount.toString()).toBe('0');
       expect(result.settledSplits).toBe(0);
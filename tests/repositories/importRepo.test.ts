@@ -0,0 +1,154 @@
+// Mock Prisma client
+const mockPrisma = {
+  importProfile: { create: jest.fn(), findMany: jest.fn() },
+  importBatch: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  expense: { findMany: jest.fn(), deleteMany: jest.fn() },
+  expenseSplit: { count: jest.fn() },
+  expenseAttachment: { findMany: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  ImportAmountSign: { NEGATIVE: 'NEGATIVE', POSITIVE: 'POSITIVE' },
+  ImportBatchStatus: { PENDING: 'PENDING', COMMITTED: 'COMMITTED', UNDONE: 'UNDONE' },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockAttachments = {
+  removeAttachmentFiles: jest.fn(),
+};
+
+jest.mock('../../src/utils/attachments', () => mockAttachments);
+
+import {
+  commitImportBatch,
+  createImportProfile,
+  getCategorizedExpenses,
+  undoImportBatch,
+} from '../../src/repositories/importRepo';
+
+describe('ImportRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
+    mockAttachments.removeAttachmentFiles.mockResolvedValue(undefined);
+  });
+
+  describe('createImportProfile', () => {
+    it('should save the profile for the user', async () => {
+      await createImportProfile(1, {
+        name: 'Checking',
+        dateColumn: 'Date',
+        descriptionColumn: 'Description',
+        amountColumn: 'Amount',
+      });
+
+      expect(mockPrisma.importProfile.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Checking',
+          dateColumn: 'Date',
+          descriptionColumn: 'Description',
+          amountColumn: 'Amount',
+          userId: 1,
+        },
+      });
+    });
+  });
+
+  describe('commitImportBatch', () => {
+    it('should claim a pending import and record how many expenses were created', async () => {
+      mockPrisma.importBatch.updateMany.mockResolvedValue({ count: 1 });
+      const createExpenses = jest.fn().mockResolvedValue(12);
+
+      await commitImportBatch(9, createExpenses);
+
+      expect(mockPrisma.importBatch.updateMany).toHaveBeenCalledWith({
+        where: { id: 9, status: 'PENDING' },
+        data: { status: 'COMMITTED', committedAt: expect.any(Date) },
+      });
+      expect(createExpenses).toHaveBeenCalledWith(mockPrisma);
+      expect(mockPrisma.importBatch.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { expenseCount: 12 },
+      });
+      // Sized for the largest statement rather than Prisma's 5 second default
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        maxWait: 10_000,
+        timeout: 100_000,
+      });
+    });
+
+    it('should refuse an import that is no longer pending', async () => {
+      mockPrisma.importBatch.updateMany.mockResolvedValue({ count: 0 });
+      const createExpenses = jest.fn();
+
+      await expect(commitImportBatch(9, createExpenses)).rejects.toThrow(
+        'Import has already been committed or undone'
+      );
+      expect(createExpenses).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('undoImportBatch', () => {
+    it('should delete the imported expenses and their attachment files', async () => {
+      const files = [{ storageKey: 'a/b.pdf', thumbnailKey: null }];
+      mockPrisma.importBatch.findUnique.mockResolvedValue({ id: 9, status: 'COMMITTED' });
+      mockPrisma.expenseSplit.count.mockResolvedValue(0);
+      mockPrisma.expenseAttachment.findMany.mockResolvedValue(files);
+
+      await undoImportBatch(9);
+
+      expect(mockPrisma.expense.deleteMany).toHaveBeenCalledWith({ where: { importBatchId: 9 } });
+      expect(mockPrisma.importBatch.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { status: 'UNDONE', undoneAt: expect.any(Date) },
+      });
+      expect(mockAttachments.removeAttachmentFiles).toHaveBeenCalledWith(files);
+    });
+
+    it('should refuse imports that are not committed', async () => {
+      mockPrisma.importBatch.findUnique.mockResolvedValue({ id: 9, status: 'PENDING' });
+
+      await expect(undoImportBatch(9)).rejects.toThrow('Only committed imports can be undone');
+      expect(mockPrisma.expense.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse once an imported expense has paid splits', async () => {
+      mockPrisma.importBatch.findUnique.mockResolvedValue({ id: 9, status: 'COMMITTED' });
+      mockPrisma.expenseSplit.count.mockResolvedValue(2);
+
+      await expect(undoImportBatch(9)).rejects.toThrow('paid splits');
+      expect(mockPrisma.expense.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCategorizedExpenses', () => {
+    it('should return recent expenses in active categories', async () => {
+      mockPrisma.expense.findMany.mockResolvedValue([{ title: 'Tesco', categoryId: 5 }]);
+
+      const result = await getCategorizedExpenses(1, 100);
+
+      expect(result).toEqual([{ title: 'Tesco', categoryId: 5 }]);
+      expect(mockPrisma.expense.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 1,
+          deletedAt: null,
+          categoryId: { not: null },
+          category: { isActive: true },
+        },
+        select: { title: true, categoryId: true },
+        orderBy: { paidAt: 'desc' },
+        take: 100,
+      });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+// Mock Prisma client
+const mockPrisma = {
+  loginThrottle: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  accountThrottleKey,
+  clearFailedLogins,
+  getBackoffSeconds,
+  getLoginThrottle,
+  ipThrottleKey,
+  recordFailedLogin,
+} from '../../src/repositories/loginThrottleRepo';
+
+describe('LoginThrottleRepository', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getBackoffSeconds', () => {
+    it('should double the delay after the free attempts, up to a cap', () => {
+      expect(getBackoffSeconds(2)).toBe(0);
+      expect(getBackoffSeconds(3)).toBe(1);
+      expect(getBackoffSeconds(4)).toBe(2);
+      expect(getBackoffSeconds(6)).toBe(8);
+      expect(getBackoffSeconds(40)).toBe(300);
+    });
+  });
+
+  describe('getLoginThrottle', () => {
+    it('should allow attempts without recent failures', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([]);
+
+      const result = await getLoginThrottle([accountThrottleKey('test@example.com')]);
+
+      expect(mockPrisma.loginThrottle.findMany).toHaveBeenCalledWith({
+        where: { key: { in: ['account:test@example.com'] } },
+      });
+      expect(result).toEqual({ blocked: false, locked: false, retryAfterSeconds: 0 });
+    });
+
+    it('should require waiting out the backoff delay', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([
+        {
+          key: 'account:test@example.com',
+          failedCount: 5, // 4 seconds
+          lastFailedAt: new Date(now.getTime() - 1000),
+          lockedUntil: null,
+        },
+      ]);
+
+      const result = await getLoginThrottle(['account:test@example.com']);
+
+      expect(result).toEqual({ blocked: true, locked: false, retryAfterSeconds: 3 });
+    });
+
+    it('should give IP addresses more attempts than accounts', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([
+        {
+          key: ipThrottleKey('10.0.0.1'),
+          failedCount: 5,
+          lastFailedAt: new Date(now.getTime() - 1000),
+          lockedUntil: null,
+        },
+      ]);
+
+      const result = await getLoginThrottle(['ip:10.0.0.1']);
+
+      expect(result.blocked).toBe(false);
+    });
+
+    it('should report an active lockout', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([
+        {
+          key: 'account:test@example.com',
+          failedCount: 0,
+          lastFailedAt: now,
+          lockedUntil: new Date(now.getTime() + 10 * 60 * 1000),
+        },
+      ]);
+
+      const result = await getLoginThrottle(['account:test@example.com']);
+
+      expect(result).toEqual({ blocked: true, locked: true, retryAfterSeconds: 600 });
+    });
+  });
+
+  describe('recordFailedLogin', () => {
+    it('should count the failure and reset counters outside the window', async () => {
+      mockPrisma.loginThrottle.upsert.mockResolvedValue({ failedCount: 1 });
+
+      const result = await recordFailedLogin(['account:test@example.com']);
+
+      expect(mockPrisma.loginThrottle.updateMany).toHaveBeenCalledWith({
+        where: { key: 'account:test@example.com', lastFailedAt: { lt: expect.any(Date) } },
+        data: { failedCount: 0 },
+      });
+      expect(mockPrisma.loginThrottle.upsert).toHaveBeenCalledWith({
+        where: { key: 'account:test@example.com' },
+        create: { key: 'account:test@example.com', failedCount: 1, lastFailedAt: now },
+        update: { failedCount: { increment: 1 }, lastFailedAt: now },
+      });
+      expect(mockPrisma.loginThrottle.update).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
+
+    it('should lock the key once the limit is reached', async () => {
+      mockPrisma.loginThrottle.upsert.mockResolvedValueOnce({ failedCount: 10 });
+      mockPrisma.loginThrottle.upsert.mockResolvedValueOnce({ failedCount: 10 });
+
+      const result = await recordFailedLogin(['account:test@example.com', 'ip:10.0.0.1']);
+
+      expect(mockPrisma.loginThrottle.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.loginThrottle.update).toHaveBeenCalledWith({
+        where: { key: 'account:test@example.com' },
+        data: { failedCount: 0, lockedUntil: new Date(now.getTime() + 15 * 60 * 1000) },
+      });
+      expect(result).toEqual(['account:test@example.com']);
+    });
+  });
+
+  describe('clearFailedLogins', () => {
+    it('should delete the counter', async () => {
+      await clearFailedLogins('account:test@example.com');
+
+      expect(mockPrisma.loginThrottle.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'account:test@example.com' },
+      });
+    });
+  });
+});
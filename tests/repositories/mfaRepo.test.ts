@@ -0,0 +1,212 @@
+// Mock Prisma client
+const mockPrisma = {
+  userMfa: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  mfaRecoveryCode: {
+    count: jest.fn(),
+    createMany: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  confirmMfaEnrollment,
+  disableMfa,
+  getMfaStatus,
+  isMfaEnabled,
+  regenerateRecoveryCodes,
+  startMfaEnrollment,
+  verifyMfaCode,
+} from '../../src/repositories/mfaRepo';
+import { hashToken } from '../../src/utils/auth';
+import { generateTotp, getTimeStep } from '../../src/utils/totp';
+
+describe('MfaRepository', () => {
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  const enabledMfa = {
+    id: 1,
+    userId: 1,
+    secret,
+    enabledAt: new Date('2026-01-01'),
+    lastUsedStep: null,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  describe('isMfaEnabled', () => {
+    it('should only be true once enrollment is confirmed', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValueOnce(enabledMfa);
+      mockPrisma.userMfa.findUnique.mockResolvedValueOnce({ ...enabledMfa, enabledAt: null });
+      mockPrisma.userMfa.findUnique.mockResolvedValueOnce(null);
+
+      expect(await isMfaEnabled(1)).toBe(true);
+      expect(await isMfaEnabled(1)).toBe(false);
+      expect(await isMfaEnabled(1)).toBe(false);
+    });
+  });
+
+  describe('getMfaStatus', () => {
+    it('should report remaining recovery codes', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(enabledMfa);
+      mockPrisma.mfaRecoveryCode.count.mockResolvedValue(7);
+
+      const result = await getMfaStatus(1);
+
+      expect(mockPrisma.mfaRecoveryCode.count).toHaveBeenCalledWith({
+        where: { userId: 1, usedAt: null },
+      });
+      expect(result).toEqual({
+        enabled: true,
+        enabledAt: enabledMfa.enabledAt,
+        recoveryCodesRemaining: 7,
+      });
+    });
+  });
+
+  describe('startMfaEnrollment', () => {
+    it('should store a new pending secret', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(null);
+
+      const result = await startMfaEnrollment(1);
+
+      expect(result).toMatch(/^[A-Z2-7]{32}$/);
+      expect(mockPrisma.userMfa.upsert).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        create: { userId: 1, secret: result },
+        update: { secret: result, lastUsedStep: null },
+      });
+    });
+
+    it('should refuse when MFA is already enabled', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(enabledMfa);
+
+      await expect(startMfaEnrollment(1)).rejects.toThrow(
+        'Two-factor authentication is already enabled'
+      );
+      expect(mockPrisma.userMfa.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmMfaEnrollment', () => {
+    const pendingMfa = { ...enabledMfa, enabledAt: null };
+
+    it('should enable MFA and store hashed recovery codes', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(pendingMfa);
+
+      const recoveryCodes = await confirmMfaEnrollment(1, generateTotp(secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(mockPrisma.userMfa.update).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        data: { enabledAt: expect.any(Date), lastUsedStep: expect.any(Number) },
+      });
+
+      const { data } = mockPrisma.mfaRecoveryCode.createMany.mock.calls[0][0];
+      expect(data[0]).toEqual({
+        userId: 1,
+        codeHash: hashToken(recoveryCodes[0].replace('-', '')),
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
+    });
+
+    it('should reject a wrong code', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(pendingMfa);
+
+      await expect(confirmMfaEnrollment(1, '000000')).rejects.toThrow('Invalid verification code');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should require enrollment to be started', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(null);
+
+      await expect(confirmMfaEnrollment(1, '123456')).rejects.toThrow(
+        'Two-factor authentication enrollment not started'
+      );
+    });
+  });
+
+  describe('verifyMfaCode', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should accept a current TOTP code only once', async () => {
+      jest.useFakeTimers({ now: new Date('2026-10-18T12:00:10Z') });
+      mockPrisma.userMfa.findUnique.mockResolvedValue(enabledMfa);
+      mockPrisma.userMfa.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockPrisma.userMfa.updateMany.mockResolvedValueOnce({ count: 0 });
+      const code = generateTotp(secret);
+
+      expect(await verifyMfaCode(1, code)).toBe('totp');
+      expect(await verifyMfaCode(1, code)).toBeNull();
+
+      expect(mockPrisma.userMfa.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 1,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: getTimeStep() } }],
+        },
+        data: { lastUsedStep: getTimeStep() },
+      });
+      expect(mockPrisma.mfaRecoveryCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should consume an unused recovery code', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(enabledMfa);
+      mockPrisma.mfaRecoveryCode.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await verifyMfaCode(1, 'ABCDE-12345');
+
+      expect(mockPrisma.mfaRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, codeHash: hashToken('abcde12345'), usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(result).toBe('recovery_code');
+    });
+
+    it('should reject codes when MFA is not enabled', async () => {
+      mockPrisma.userMfa.findUnique.mockResolvedValue(null);
+
+      expect(await verifyMfaCode(1, '123456')).toBeNull();
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace all existing codes', async () => {
+      const recoveryCodes = await regenerateRecoveryCodes(1);
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(mockPrisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+      expect(mockPrisma.mfaRecoveryCode.createMany).toHaveBeenCalled();
+    });
+  });
+
+  describe('disableMfa', () => {
+    it('should delete the secret and recovery codes', async () => {
+      await disableMfa(1);
+
+      expect(mockPrisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+      expect(mockPrisma.userMfa.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } });
+    });
+  });
+});
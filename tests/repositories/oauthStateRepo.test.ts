@@ -0,0 +1,109 @@
+// Mock Prisma client
+const mockPrisma = {
+  oAuthState: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { createOAuthState, consumeOAuthState } from '../../src/repositories/oauthStateRepo';
+import { hashToken } from '../../src/utils/auth';
+
+describe('OAuthStateRepository', () => {
+  const pendingState = {
+    id: 1,
+    stateHash: hashToken('raw-state'),
+    provider: 'mock',
+    codeVerifier: 'verifier',
+    nonce: 'nonce',
+    userId: null,
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  describe('createOAuthState', () => {
+    it('should store only the hash of the state', async () => {
+      const result = await createOAuthState({
+        provider: 'mock',
+        codeVerifier: 'verifier',
+        nonce: 'nonce',
+        userId: 5,
+      });
+
+      expect(result.state).toEqual(expect.any(String));
+      expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockPrisma.oAuthState.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) } },
+      });
+      expect(mockPrisma.oAuthState.create).toHaveBeenCalledWith({
+        data: {
+          stateHash: hashToken(result.state),
+          provider: 'mock',
+          codeVerifier: 'verifier',
+          nonce: 'nonce',
+          userId: 5,
+          expiresAt: result.expiresAt,
+        },
+      });
+    });
+  });
+
+  describe('consumeOAuthState', () => {
+    it('should return and delete the pending request', async () => {
+      mockPrisma.oAuthState.findUnique.mockResolvedValue(pendingState);
+      mockPrisma.oAuthState.deleteMany.mockResolvedValue({ count: 1 });
+
+      const result = await consumeOAuthState('raw-state', 'mock');
+
+      expect(mockPrisma.oAuthState.findUnique).toHaveBeenCalledWith({
+        where: { stateHash: hashToken('raw-state') },
+      });
+      expect(mockPrisma.oAuthState.deleteMany).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(result).toEqual(pendingState);
+    });
+
+    it('should reject unknown, expired or mismatched states', async () => {
+      mockPrisma.oAuthState.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.oAuthState.findUnique.mockResolvedValueOnce({
+        ...pendingState,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      mockPrisma.oAuthState.findUnique.mockResolvedValueOnce(pendingState);
+
+      await expect(consumeOAuthState('raw-state', 'mock')).rejects.toThrow(
+        'Invalid or expired OAuth state'
+      );
+      await expect(consumeOAuthState('raw-state', 'mock')).rejects.toThrow(
+        'Invalid or expired OAuth state'
+      );
+      await expect(consumeOAuthState('raw-state', 'google')).rejects.toThrow(
+        'Invalid or expired OAuth state'
+      );
+      expect(mockPrisma.oAuthState.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a state consumed concurrently', async () => {
+      mockPrisma.oAuthState.findUnique.mockResolvedValue(pendingState);
+      mockPrisma.oAuthState.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(consumeOAuthState('raw-state', 'mock')).rejects.toThrow(
+        'Invalid or expired OAuth state'
+      );
+    });
+  });
+});
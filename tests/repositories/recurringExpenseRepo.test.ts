@@ -0,0 +1,265 @@
+// Mock Prisma client
+const mockPrisma = {
+  recurringExpense: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  expense: {
+    findUnique: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  Prisma: { DbNull: 'DbNull' },
+  SplitType: { EQUAL: 'EQUAL', AMOUNT: 'AMOUNT', PERCENTAGE: 'PERCENTAGE' },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  completeOccurrence,
+  createRecurringExpense,
+  getDueRecurringExpenses,
+  getOccurrenceExpense,
+  resumeRecurringExpense,
+  skipNextOccurrence,
+  updateRecurringExpense,
+} from '../../src/repositories/recurringExpenseRepo';
+
+describe('RecurringExpenseRepository', () => {
+  const startDate = new Date('2026-01-01T00:00:00Z');
+  const monthly = 'FREQ=MONTHLY;BYMONTHDAY=1';
+
+  const rent = {
+    id: 7,
+    title: 'Rent',
+    amount: new Decimal(900),
+    schedule: monthly,
+    startDate,
+    endDate: null,
+    maxOccurrences: null,
+    occurrenceCount: 2,
+    nextRunAt: new Date('2026-03-01T00:00:00Z'),
+    isPaused: false,
+    splitType: 'AMOUNT',
+    splitParticipants: [
+      { userId: 1, amount: 450 },
+      { userId: 2, amount: 450 },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createRecurringExpense', () => {
+    it('should store the split template and schedule the first occurrence', async () => {
+      mockPrisma.recurringExpense.create.mockResolvedValue({ id: 7 });
+
+      await createRecurringExpense({
+        title: 'Rent',
+        amount: 900,
+        userId: 1,
+        schedule: monthly,
+        startDate,
+        split: { splitType: 'EQUAL' as never, participants: [{ userId: 1 }, { userId: 2 }] },
+      });
+
+      expect(mockPrisma.recurringExpense.create).toHaveBeenCalledWith({
+        data: {
+          title: 'Rent',
+          amount: new Decimal(900),
+          userId: 1,
+          schedule: monthly,
+          startDate,
+          nextRunAt: startDate,
+          splitType: 'EQUAL',
+          splitParticipants: [{ userId: 1 }, { userId: 2 }],
+        },
+      });
+    });
+
+    it('should reject invalid schedules and split templates', async () => {
+      const data = { title: 'Rent', amount: 900, userId: 1, schedule: monthly, startDate };
+
+      await expect(createRecurringExpense({ ...data, schedule: 'every month' })).rejects.toThrow(
+        'Invalid schedule'
+      );
+      await expect(
+        createRecurringExpense({
+          ...data,
+          split: { splitType: 'AMOUNT' as never, participants: [{ userId: 1, amount: 500 }] },
+        })
+      ).rejects.toThrow('Split amounts total (500) must equal expense amount (900)');
+      expect(mockPrisma.recurringExpense.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject schedules that end before their first occurrence', async () => {
+      await expect(
+        createRecurringExpense({
+          title: 'Rent',
+          amount: 900,
+          userId: 1,
+          schedule: monthly,
+          startDate: new Date('2026-01-02T00:00:00Z'),
+          endDate: new Date('2026-01-31T00:00:00Z'),
+        })
+      ).rejects.toThrow('Schedule has no occurrences before the end date');
+    });
+  });
+
+  describe('updateRecurringExpense', () => {
+    it('should check the existing split template against a new amount', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue(rent);
+
+      await expect(updateRecurringExpense(7, { amount: 950 })).rejects.toThrow(
+        'must equal expense amount'
+      );
+      expect(mockPrisma.recurringExpense.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the pending occurrence when only the limits change', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue(rent);
+      mockPrisma.recurringExpense.update.mockResolvedValue(rent);
+
+      await updateRecurringExpense(7, { maxOccurrences: 3 });
+
+      expect(mockPrisma.recurringExpense.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          maxOccurrences: 3,
+          nextRunAt: new Date('2026-03-01T00:00:00Z'),
+          lastError: null,
+        }),
+      });
+    });
+
+    it('should end the schedule when the occurrence limit is already reached', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue(rent);
+      mockPrisma.recurringExpense.update.mockResolvedValue(rent);
+
+      await updateRecurringExpense(7, { maxOccurrences: 2 });
+
+      expect(mockPrisma.recurringExpense.update.mock.calls[0][0].data.nextRunAt).toBeNull();
+    });
+
+    it('should clear the split template', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue(rent);
+      mockPrisma.recurringExpense.update.mockResolvedValue(rent);
+
+      await updateRecurringExpense(7, { split: null });
+
+      expect(mockPrisma.recurringExpense.update.mock.calls[0][0].data).toMatchObject({
+        splitType: null,
+        splitParticipants: 'DbNull',
+      });
+    });
+  });
+
+  describe('skipNextOccurrence', () => {
+    it('should advance past the next occurrence and count it', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue(rent);
+      mockPrisma.recurringExpense.update.mockResolvedValue(rent);
+
+      await skipNextOccurrence(7);
+
+      expect(mockPrisma.recurringExpense.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          occurrenceCount: 3,
+          nextRunAt: new Date('2026-04-01T00:00:00Z'),
+          updatedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should refuse when the schedule has ended', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue({ ...rent, nextRunAt: null });
+
+      await expect(skipNextOccurrence(7)).rejects.toThrow(
+        'Recurring expense has no upcoming occurrence'
+      );
+    });
+  });
+
+  describe('resumeRecurringExpense', () => {
+    it('should not create occurrences that fell due while paused', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-05-10T00:00:00Z'));
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue({ ...rent, isPaused: true });
+      mockPrisma.recurringExpense.update.mockResolvedValue(rent);
+
+      await resumeRecurringExpense(7);
+
+      expect(mockPrisma.recurringExpense.update.mock.calls[0][0].data).toMatchObject({
+        isPaused: false,
+        nextRunAt: new Date('2026-06-01T00:00:00Z'),
+      });
+      jest.useRealTimers();
+    });
+  });
+
+  describe('scheduler support', () => {
+    it('should only pick up due occurrences of active, unpaused recurring expenses', async () => {
+      mockPrisma.recurringExpense.findMany.mockResolvedValue([]);
+      const now = new Date('2026-03-15T00:00:00Z');
+
+      await getDueRecurringExpenses(now);
+
+      expect(mockPrisma.recurringExpense.findMany).toHaveBeenCalledWith({
+        where: { isPaused: false, nextRunAt: { lte: now }, user: { isActive: true } },
+        orderBy: { nextRunAt: 'asc' },
+        take: 100,
+      });
+    });
+
+    it('should look up the expense created for an occurrence', async () => {
+      mockPrisma.expense.findUnique.mockResolvedValue({ id: 55, _count: { splits: 2 } });
+
+      const expense = await getOccurrenceExpense(7, rent.nextRunAt);
+
+      expect(expense).toEqual({ id: 55, splitCount: 2 });
+      expect(mockPrisma.expense.findUnique).toHaveBeenCalledWith({
+        where: {
+          recurringExpenseId_occurrenceDate: {
+            recurringExpenseId: 7,
+            occurrenceDate: rent.nextRunAt,
+          },
+        },
+        select: { id: true, _count: { select: { splits: true } } },
+      });
+    });
+
+    it('should only advance from the occurrence that was handled', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue(rent);
+      mockPrisma.recurringExpense.updateMany.mockResolvedValue({ count: 1 });
+
+      await completeOccurrence(7, rent.nextRunAt);
+
+      expect(mockPrisma.recurringExpense.updateMany).toHaveBeenCalledWith({
+        where: { id: 7, nextRunAt: rent.nextRunAt },
+        data: {
+          occurrenceCount: 3,
+          nextRunAt: new Date('2026-04-01T00:00:00Z'),
+          lastError: null,
+        },
+      });
+    });
+
+    it('should not advance an occurrence that was already skipped', async () => {
+      mockPrisma.recurringExpense.findUnique.mockResolvedValue({
+        ...rent,
+        nextRunAt: new Date('2026-04-01T00:00:00Z'),
+      });
+
+      await expect(completeOccurrence(7, rent.nextRunAt)).resolves.toBeNull();
+      expect(mockPrisma.recurringExpense.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+// Mock Prisma client
+const mockPrisma = {
+  securityEvent: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+  },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  SecurityEventType: {
+    LOGIN_SUCCEEDED: 'LOGIN_SUCCEEDED',
+    LOGIN_FAILED: 'LOGIN_FAILED',
+  },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { SecurityEventType } from '@prisma/client';
+import { listSecurityEvents, recordSecurityEvent } from '../../src/repositories/securityEventRepo';
+
+describe('SecurityEventRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordSecurityEvent', () => {
+    it('should store the event with request metadata', async () => {
+      await recordSecurityEvent(1, SecurityEventType.LOGIN_FAILED, {
+        detail: 'invalid_password',
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+      });
+
+      expect(mockPrisma.securityEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: 1,
+          type: 'LOGIN_FAILED',
+          detail: 'invalid_password',
+          ipAddress: '10.0.0.1',
+          userAgent: 'jest',
+        },
+      });
+    });
+  });
+
+  describe('listSecurityEvents', () => {
+    it('should page through events newest first', async () => {
+      const events = [{ id: 2, type: 'LOGIN_SUCCEEDED' }];
+      mockPrisma.securityEvent.findMany.mockResolvedValue(events);
+      mockPrisma.securityEvent.count.mockResolvedValue(12);
+
+      const result = await listSecurityEvents(1, 10, 10);
+
+      expect(mockPrisma.securityEvent.findMany).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        skip: 10,
+      });
+      expect(result).toEqual({ events, total: 12 });
+    });
+  });
+});
@@ -0,0 +1,237 @@
+// Mock Prisma client
+const mockPrisma = {
+  userSession: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  refreshToken: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+    create: jest.fn(),
+  },
+  user: {
+    update: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  createSession,
+  rotateRefreshToken,
+  isSessionActive,
+  revokeSession,
+  revokeAllUserSessions,
+} from '../../src/repositories/sessionRepo';
+import { hashToken } from '../../src/utils/auth';
+
+describe('SessionRepository', () => {
+  const future = new Date(Date.now() + 60 * 60 * 1000);
+  const past = new Date(Date.now() - 60 * 60 * 1000);
+
+  const activeSession = {
+    id: 'session-1',
+    userId: 1,
+    userAgent: 'jest',
+    ipAddress: '127.0.0.1',
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+    expiresAt: future,
+    revokedAt: null,
+    revokedReason: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(arg =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+  });
+
+  describe('createSession', () => {
+    it('should create a session with a hashed initial refresh token', async () => {
+      mockPrisma.userSession.create.mockResolvedValue(activeSession);
+
+      const result = await createSession(1, { userAgent: 'jest', ipAddress: '127.0.0.1' });
+
+      expect(result.id).toBe('session-1');
+      expect(result.refreshToken).toEqual(expect.any(String));
+
+      const { data } = mockPrisma.userSession.create.mock.calls[0][0];
+      expect(data.userId).toBe(1);
+      expect(data.userAgent).toBe('jest');
+      expect(data.refreshTokens.create.tokenHash).toBe(hashToken(result.refreshToken));
+      expect(data.refreshTokens.create.tokenHash).not.toBe(result.refreshToken);
+    });
+
+    it('should record the login time', async () => {
+      mockPrisma.userSession.create.mockResolvedValue(activeSession);
+
+      await createSession(1);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { lastLoginAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    const storedToken = {
+      id: 10,
+      tokenHash: hashToken('refresh-token'),
+      expiresAt: future,
+      usedAt: null,
+      createdAt: new Date(),
+      sessionId: 'session-1',
+      session: activeSession,
+    };
+
+    it('should reject unknown refresh tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(rotateRefreshToken('unknown')).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should issue a new refresh token and mark the old one as used', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken);
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await rotateRefreshToken('refresh-token');
+
+      expect(mockPrisma.refreshToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('refresh-token') },
+        include: { session: true },
+      });
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 10, usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: {
+          sessionId: 'session-1',
+          tokenHash: hashToken(result.refreshToken),
+          expiresAt: expect.any(Date),
+        },
+      });
+      expect(result).toEqual({
+        id: 'session-1',
+        refreshToken: expect.any(String),
+        userId: 1,
+      });
+      expect(result.refreshToken).not.toBe('refresh-token');
+    });
+
+    it('should revoke the whole family when a used token is presented again', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({
+        ...storedToken,
+        usedAt: new Date(),
+      });
+
+      await expect(rotateRefreshToken('refresh-token')).rejects.toThrow(
+        'Refresh token reuse detected'
+      );
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'token_reuse' },
+      });
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat losing a concurrent rotation race as reuse', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken);
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(rotateRefreshToken('refresh-token')).rejects.toThrow(
+        'Refresh token reuse detected'
+      );
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalled();
+    });
+
+    it('should reject tokens from revoked sessions', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({
+        ...storedToken,
+        session: { ...activeSession, revokedAt: new Date() },
+      });
+
+      await expect(rotateRefreshToken('refresh-token')).rejects.toThrow('Session has been revoked');
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue({ ...storedToken, expiresAt: past });
+
+      await expect(rotateRefreshToken('refresh-token')).rejects.toThrow(
+        'Refresh token has expired'
+      );
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should return true for an active session', async () => {
+      mockPrisma.userSession.findUnique.mockResolvedValue({ revokedAt: null, expiresAt: future });
+
+      expect(await isSessionActive('session-1')).toBe(true);
+    });
+
+    it('should return false for revoked, expired or missing sessions', async () => {
+      mockPrisma.userSession.findUnique.mockResolvedValueOnce({
+        revokedAt: new Date(),
+        expiresAt: future,
+      });
+      mockPrisma.userSession.findUnique.mockResolvedValueOnce({ revokedAt: null, expiresAt: past });
+      mockPrisma.userSession.findUnique.mockResolvedValueOnce(null);
+
+      expect(await isSessionActive('session-1')).toBe(false);
+      expect(await isSessionActive('session-1')).toBe(false);
+      expect(await isSessionActive('session-1')).toBe(false);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should mark the session as revoked with a reason', async () => {
+      mockPrisma.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      await revokeSession('session-1', 'logout');
+
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'logout' },
+      });
+    });
+  });
+
+  describe('revokeAllUserSessions', () => {
+    it('should revoke every active session of the user', async () => {
+      mockPrisma.userSession.updateMany.mockResolvedValue({ count: 3 });
+
+      const result = await revokeAllUserSessions(1);
+
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'logout_all' },
+      });
+      expect(result).toBe(3);
+    });
+
+    it('should keep the excluded session active', async () => {
+      mockPrisma.userSession.updateMany.mockResolvedValue({ count: 2 });
+
+      await revokeAllUserSessions(1, 'password_change', 'session-1');
+
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, revokedAt: null, id: { not: 'session-1' } },
+        data: { revokedAt: expect.any(Date), revokedReason: 'password_change' },
+      });
+    });
+  });
+});
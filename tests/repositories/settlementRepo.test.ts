@@ -242,6 +242,103 @@ describe('Settlement Tracking', () => {
       const user2Settlements = await getUserSettlements(testUser2.id);
       expect(user2Settlements).toHaveLength(0);
     });
+
+    it('should not net debts in different currencies unless converting', async () => {
+      await prisma.exchangeRate.create({
+        data: {
+          baseCurrency: 'GBP',
+          quoteCurrency: 'USD',
+          rate: new Decimal('1.25'),
+          effectiveDate: new Date('2026-01-01'),
+        },
+      });
+
+      // User1 pays $100 split with User2; User2 pays £40 split with User1
+      const expense1 = await prisma.expense.create({
+        data: {
+          title: 'Dinner',
+          amount: new Decimal('100.00'),
+          userId: testUser1.id,
+          groupId: testGroup.id,
+        },
+      });
+      const expense2 = await prisma.expense.create({
+        data: {
+          title: 'Theatre',
+          amount: new Decimal('40.00'),
+          currency: 'GBP',
+          userId: testUser2.id,
+          groupId: testGroup.id,
+        },
+      });
+
+      for (const expense of [expense1, expense2]) {
+        await createExpenseSplits({
+          expenseId: expense.id,
+          splitType: SplitType.EQUAL,
+          participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+        });
+      }
+
+      const perCurrency = await getUserSettlements(testUser1.id);
+      expect(perCurrency).toHaveLength(2);
+      expect(perCurrency[0].currency).toBe('GBP');
+      expect(perCurrency[0].netAmount.toString()).toBe('-20');
+      expect(perCurrency[1].currency).toBe('USD');
+      expect(perCurrency[1].netAmount.toString()).toBe('50');
+
+      // £20 converts to $25
+      const converted = await getUserSettlements(testUser1.id, { currency: 'USD' });
+      expect(converted).toHaveLength(1);
+      expect(converted[0].name).toBe('Bob Settlement');
+      expect(converted[0].netAmount.toString()).toBe('25');
+
+      await prisma.exchangeRate.deleteMany({});
+    });
+
+    it('should divide shares between several payers in proportion to what they paid', async () => {
+      // User1 pays $180 and User2 pays $120 of a $300 hotel split three ways
+      const expense = await prisma.expense.create({
+        data: {
+          title: 'Hotel',
+          amount: new Decimal('300.00'),
+          userId: testUser1.id,
+          groupId: testGroup.id,
+          payers: {
+            create: [
+              { userId: testUser1.id, amount: new Decimal('180.00') },
+              { userId: testUser2.id, amount: new Decimal('120.00') },
+            ],
+          },
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: expense.id,
+        splitType: SplitType.EQUAL,
+        participants: [
+          { userId: testUser1.id },
+          { userId: testUser2.id },
+          { userId: testUser3.id },
+        ],
+      });
+
+      const settlements = await getUserSettlements(testUser1.id);
+      const withUser2 = settlements.find(s => s.userId === testUser2.id);
+      const withUser3 = settlements.find(s => s.userId === testUser3.id);
+
+      // User2 owes User1 $60 while User1 owes User2 $40
+      expect(withUser2?.owedToYou.toString()).toBe('60');
+      expect(withUser2?.owedByYou.toString()).toBe('40');
+      expect(withUser2?.netAmount.toString()).toBe('20');
+      // User3's $100 share is split 60/40 between the payers
+      expect(withUser3?.netAmount.toString()).toBe('60');
+
+      const user3Settlements = await getUserSettlements(testUser3.id);
+      expect(user3Settlements.find(s => s.userId === testUser2.id)?.netAmount.toString()).toBe(
+        '-40'
+      );
+    });
   });
 
   describe('getSettlementBetweenUsers', () => {
@@ -285,9 +382,11 @@ describe('Settlement Tracking', () => {
 
       expect(settlement.user1.name).toBe('Alice Settlement');
       expect(settlement.user2.name).toBe('Bob Settlement');
-      expect(settlement.user1OwesUser2.toString()).toBe('25'); // $25 from lunch
-      expect(settlement.user2OwesUser1.toString()).toBe('60'); // $60 from dinner
-      expect(settlement.netAmount.toString()).toBe('35'); // User2 owes User1 $35 net
+      expect(settlement.balances).toHaveLength(1);
+      expect(settlement.balances[0].currency).toBe('USD');
+      expect(settlement.balances[0].user1OwesUser2.toString()).toBe('25'); // $25 from lunch
+      expect(settlement.balances[0].user2OwesUser1.toString()).toBe('60'); // $60 from dinner
+      expect(settlement.balances[0].netAmount.toString()).toBe('35'); // User2 owes User1 $35 net
 
       expect(settlement.splits).toHaveLength(2);
       expect(settlement.splits[0].expenseTitle).toBe('Lunch');
@@ -363,6 +462,38 @@ describe('Settlement Tracking', () => {
       expect(result.settledSplits).toBe(0);
     });
 
+    it('should require a currency for an amount when debts are in several currencies', async () => {
+      for (const currency of ['USD', 'EUR']) {
+        const expense = await prisma.expense.create({
+          data: {
+            title: `Dinner in ${currency}`,
+            amount: new Decimal('40.00'),
+            currency,
+            userId: testUser1.id,
+            groupId: testGroup.id,
+          },
+        });
+
+        await createExpenseSplits({
+          expenseId: expense.id,
+          splitType: SplitType.EQUAL,
+          participants: [{ userId: testUser1.id }, { userId: testUser2.id }],
+        });
+      }
+
+      await expect(
+        settleDebtBetweenUsers(testUser2.id, testUser1.id, new Decimal('20'))
+      ).rejects.toThrow('Currency is required');
+
+      const result = await settleDebtBetweenUsers(
+        testUser2.id,
+        testUser1.id,
+        new Decimal('20'),
+        'EUR'
+      );
+      expect(result.settledSplits).toBe(1);
+    });
+
     it('should return zero when no debts exist', async () => {
       const result = await settleDebtBetweenUsers(testUser2.id, testUser1.id);
 
@@ -370,6 +501,44 @@ describe('Settlement Tracking', () => {
       expect(result.settledSplits).toBe(0);
     });
 
+    it('should skip and count splits owed to several payers', async () => {
+      // User1 and User2 share the bill, so User3's split is owed to both of them
+      const expense = await prisma.expense.create({
+        data: {
+          title: 'Hotel',
+          amount: new Decimal('300.00'),
+          userId: testUser1.id,
+          groupId: testGroup.id,
+          payers: {
+            create: [
+              { userId: testUser1.id, amount: new Decimal('180.00') },
+              { userId: testUser2.id, amount: new Decimal('120.00') },
+            ],
+          },
+        },
+      });
+
+      await createExpenseSplits({
+        expenseId: expense.id,
+        splitType: SplitType.EQUAL,
+        participants: [
+          { userId: testUser1.id },
+          { userId: testUser2.id },
+          { userId: testUser3.id },
+        ],
+      });
+
+      const result = await settleDebtBetweenUsers(testUser3.id, testUser1.id);
+
+      expect(result.settledSplits).toBe(0);
+      expect(result.skippedSplits).toBe(1);
+
+      const split = await prisma.expenseSplit.findFirst({
+        where: { userId: testUser3.id, expenseId: expense.id },
+      });
+      expect(split?.isPaid).toBe(false);
+    });
+
     it('should settle oldest debts first', async () => {
       // Create multiple small expenses
       const expense1 = await prisma.expense.create({
@@ -406,7 +575,12 @@ describe('Settlement Tracking', () => {
       });
 
       // Settle $30 (should pay off first expense completely)
-      const result = await settleDebtBetweenUsers(testUser2.id, testUser1.id, new Decimal('30'));
+      const result = await settleDebtBetweenUsers(
+        testUser2.id,
+        testUser1.id,
+        new Decimal('30'),
+        'USD'
+      );
 
       expect(result.settledAmount.toString()).toBe('15'); // Only first split ($15)
       expect(result.settledSplits).toBe(1);
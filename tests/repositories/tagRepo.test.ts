@@ -0,0 +1,146 @@
+import { Decimal } from '@prisma/client/runtime/library';
+
+// Mock Prisma
+const mockPrisma = {
+  tag: {
+    create: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  },
+  expense: {
+    groupBy: jest.fn(),
+    findMany: jest.fn(),
+  },
+} as any;
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  canUseTags,
+  createTag,
+  getTagSpendingSummary,
+  updateTag,
+} from '../../src/repositories/tagRepo';
+
+describe('TagRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTag', () => {
+    it('should store the name trimmed and lowercase', async () => {
+      mockPrisma.tag.create.mockResolvedValue({ id: 1 });
+
+      await createTag({ groupId: 3 }, { name: '  Reimbursable ', color: '#FF5733' });
+
+      expect(mockPrisma.tag.create).toHaveBeenCalledWith({
+        data: { name: 'reimbursable', color: '#FF5733', groupId: 3 },
+      });
+    });
+  });
+
+  describe('updateTag', () => {
+    it('should leave the name alone when only the color changes', async () => {
+      mockPrisma.tag.update.mockResolvedValue({ id: 1 });
+
+      await updateTag(1, { color: null });
+
+      expect(mockPrisma.tag.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { color: null, name: undefined },
+      });
+    });
+  });
+
+  describe('canUseTags', () => {
+    it("should require every tag to be the owner's", async () => {
+      mockPrisma.tag.count.mockResolvedValue(1);
+
+      const result = await canUseTags([4, 5, 4], { userId: 1 });
+
+      expect(mockPrisma.tag.count).toHaveBeenCalledWith({
+        where: { id: { in: [4, 5] }, userId: 1 },
+      });
+      expect(result).toBe(false);
+    });
+
+    it('should allow no tags without a query', async () => {
+      expect(await canUseTags([], { userId: 1 })).toBe(true);
+      expect(mockPrisma.tag.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTagSpendingSummary', () => {
+    it('should count an expense towards each of its tags', async () => {
+      mockPrisma.expense.groupBy.mockResolvedValue([
+        { currency: 'USD', _sum: { amount: new Decimal(200) } },
+      ]);
+      mockPrisma.expense.findMany.mockResolvedValue([
+        {
+          amount: new Decimal(100),
+          currency: 'USD',
+          paidAt: new Date('2026-03-01'),
+          tags: [
+            { tag: { id: 1, name: 'travel', color: null } },
+            { tag: { id: 2, name: 'reimbursable', color: '#00AA00' } },
+          ],
+        },
+        {
+          amount: new Decimal(50),
+          currency: 'USD',
+          paidAt: new Date('2026-03-05'),
+          tags: [{ tag: { id: 1, name: 'travel', color: null } }],
+        },
+      ]);
+
+      const result = await getTagSpendingSummary({ groupId: 3 });
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        tagId: 1,
+        tagName: 'travel',
+        expenseCount: 2,
+        percentage: 75,
+        lastExpenseDate: new Date('2026-03-05'),
+      });
+      expect(result[0].totalAmount.toNumber()).toBe(150);
+      expect(result[0].averageAmount.toNumber()).toBe(75);
+      expect(result[1]).toMatchObject({ tagId: 2, tagColor: '#00AA00', percentage: 50 });
+    });
+
+    it('should keep amounts in different currencies apart', async () => {
+      mockPrisma.expense.groupBy.mockResolvedValue([
+        { currency: 'EUR', _sum: { amount: new Decimal(40) } },
+        { currency: 'USD', _sum: { amount: new Decimal(100) } },
+      ]);
+      mockPrisma.expense.findMany.mockResolvedValue([
+        {
+          amount: new Decimal(100),
+          currency: 'USD',
+          paidAt: new Date('2026-03-01'),
+          tags: [{ tag: { id: 1, name: 'travel', color: null } }],
+        },
+        {
+          amount: new Decimal(20),
+          currency: 'EUR',
+          paidAt: new Date('2026-03-05'),
+          tags: [{ tag: { id: 1, name: 'travel', color: null } }],
+        },
+      ]);
+
+      const result = await getTagSpendingSummary({ userId: 7 });
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({ tagId: 1, currency: 'EUR', percentage: 50 });
+      expect(result[0].totalAmount.toNumber()).toBe(20);
+      expect(result[1]).toMatchObject({ tagId: 1, currency: 'USD', percentage: 100 });
+      expect(result[1].totalAmount.toNumber()).toBe(100);
+    });
+  });
+});
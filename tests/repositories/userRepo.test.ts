@@ -5,6 +5,7 @@ const mockPrisma = {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     findMany: jest.fn(),
+    count: jest.fn(),
     update: jest.fn(),
   },
 };
@@ -30,12 +31,19 @@ import {
   getUserByEmail,
   getUserByUsername,
   getUserByProvider,
+  findOrCreateOAuthUser,
+  linkProvider,
+  unlinkProvider,
   updateUser,
   verifyPassword,
+  verifyCurrentPassword,
+  setPassword,
   isEmailTaken,
   isUsernameTaken,
   getUserProfile,
   listUsers,
+  countUsers,
+  setUserRole,
   deactivateUser,
   reactivateUser,
 } from '../../src/repositories/userRepo';
@@ -55,6 +63,8 @@ describe('UserRepository', () => {
     providerId: null,
     isEmailVerified: false,
     isActive: true,
+    role: 'USER',
+    defaultCurrency: 'USD',
     createdAt: new Date('2023-01-01'),
     updatedAt: new Date('2023-01-01'),
     lastLoginAt: null,
@@ -154,6 +164,7 @@ describe('UserRepository', () => {
         where: { id: 1 },
         include: {
           expenses: {
+            where: { deletedAt: null },
             orderBy: { paidAt: 'desc' },
             take: 10,
           },
@@ -222,6 +233,133 @@ describe('UserRepository', () => {
     });
   });
 
+  describe('findOrCreateOAuthUser', () => {
+    const profile = {
+      provider: 'google',
+      providerId: 'google123',
+      email: 'test@example.com',
+      emailVerified: true,
+      name: 'Google User',
+    };
+
+    it('should return the user already linked to the identity', async () => {
+      const oauthUser = { ...mockUser, provider: 'google', providerId: 'google123' };
+      mockPrisma.user.findFirst.mockResolvedValue(oauthUser);
+
+      const result = await findOrCreateOAuthUser(profile);
+
+      expect(result).toEqual(oauthUser);
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should link an unlinked account with the same verified email', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, isEmailVerified: true });
+      mockPrisma.user.update.mockResolvedValue({ ...mockUser, provider: 'google' });
+
+      await findOrCreateOAuthUser(profile);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          provider: 'google',
+          providerId: 'google123',
+          isEmailVerified: true,
+          updatedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should not link an account on an unverified email', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      await expect(findOrCreateOAuthUser({ ...profile, emailVerified: false })).rejects.toThrow(
+        'OAuth email address is not verified'
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should not link an account whose own email is not verified', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      await expect(findOrCreateOAuthUser(profile)).rejects.toThrow(
+        'An account with this email already exists, sign in to it and link the provider instead'
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should not relink an account linked to another identity', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        provider: 'github',
+        providerId: 'gh1',
+      });
+
+      await expect(findOrCreateOAuthUser(profile)).rejects.toThrow(
+        'Account is already linked to another provider'
+      );
+    });
+
+    it('should create a new account without a password', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue(mockUser);
+
+      await findOrCreateOAuthUser(profile);
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: {
+          email: 'test@example.com',
+          name: 'Google User',
+          username: undefined,
+          phoneNumber: undefined,
+          avatar: undefined,
+          provider: 'google',
+          providerId: 'google123',
+          isEmailVerified: true,
+        },
+      });
+    });
+
+    it('should require an email for new accounts', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(findOrCreateOAuthUser({ ...profile, email: undefined })).rejects.toThrow(
+        'OAuth provider did not return an email address'
+      );
+    });
+  });
+
+  describe('linkProvider', () => {
+    it('should store the provider identity', async () => {
+      mockPrisma.user.update.mockResolvedValue(mockUser);
+
+      await linkProvider(1, 'google', 'google123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { provider: 'google', providerId: 'google123', updatedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('unlinkProvider', () => {
+    it('should reset the account to local sign-in', async () => {
+      mockPrisma.user.update.mockResolvedValue(mockUser);
+
+      await unlinkProvider(1);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { provider: 'local', providerId: null, updatedAt: expect.any(Date) },
+      });
+    });
+  });
+
   describe('updateUser', () => {
     it('should update user data', async () => {
       const updateData = {
@@ -249,7 +387,6 @@ describe('UserRepository', () => {
     it('should return user when password is correct', async () => {
       mockPrisma.user.findUnique.mockResolvedValue(mockUser);
       (mockedBcrypt.compare as jest.Mock).mockResolvedValue(true);
-      mockPrisma.user.update.mockResolvedValue(mockUser); // Return value doesn't matter since function doesn't use it
 
       const result = await verifyPassword('test@example.com', 'password123');
 
@@ -257,11 +394,9 @@ describe('UserRepository', () => {
         where: { email: 'test@example.com' },
       });
       expect(mockedBcrypt.compare).toHaveBeenCalledWith('password123', 'hashedpassword');
-      expect(mockPrisma.user.update).toHaveBeenCalledWith({
-        where: { id: 1 },
-        data: { lastLoginAt: expect.any(Date) },
-      });
-      expect(result).toEqual(mockUser); // Function returns the original user, not the updated one
+      // lastLoginAt is only set once a session is created (see createSession)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+      expect(result).toEqual(mockUser);
     });
 
     it('should return null when user not found', async () => {
@@ -292,6 +427,46 @@ describe('UserRepository', () => {
     });
   });
 
+  describe('verifyCurrentPassword', () => {
+    it('should return true when the password matches', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ password: 'hashedpassword' });
+      (mockedBcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+      const result = await verifyCurrentPassword(1, 'password123');
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({
+        where: { id: 1 },
+        select: { password: true },
+      });
+      expect(mockedBcrypt.compare).toHaveBeenCalledWith('password123', 'hashedpassword');
+      expect(result).toBe(true);
+    });
+
+    it('should return false when user has no password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ password: null });
+
+      const result = await verifyCurrentPassword(1, 'password123');
+
+      expect(mockedBcrypt.compare).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('setPassword', () => {
+    it('should store the hashed password', async () => {
+      (mockedBcrypt.hash as jest.Mock).mockResolvedValue('newhash');
+      mockPrisma.user.update.mockResolvedValue({ ...mockUser, password: 'newhash' });
+
+      await setPassword(1, 'NewPassword1');
+
+      expect(mockedBcrypt.hash).toHaveBeenCalledWith('NewPassword1', 10);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { password: 'newhash', updatedAt: expect.any(Date) },
+      });
+    });
+  });
+
   describe('isEmailTaken', () => {
     it('should return true when email exists', async () => {
       mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
@@ -347,6 +522,8 @@ describe('UserRepository', () => {
         phoneNumber: null,
         provider: 'local',
         isEmailVerified: false,
+        role: 'USER',
+        defaultCurrency: 'USD',
         createdAt: new Date(),
         updatedAt: new Date(),
         lastLoginAt: null,
@@ -368,10 +545,13 @@ describe('UserRepository', () => {
           phoneNumber: true,
           provider: true,
           isEmailVerified: true,
+          role: true,
+          defaultCurrency: true,
           createdAt: true,
           updatedAt: true,
           lastLoginAt: true,
           expenses: {
+            where: { deletedAt: null },
             select: {
               id: true,
               title: true,
@@ -395,6 +575,7 @@ describe('UserRepository', () => {
       const result = await listUsers(0, 20);
 
       expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: {},
         skip: 0,
         take: 20,
         select: {
@@ -405,6 +586,7 @@ describe('UserRepository', () => {
           provider: true,
           isEmailVerified: true,
           isActive: true,
+          role: true,
           createdAt: true,
           lastLoginAt: true,
         },
@@ -419,12 +601,64 @@ describe('UserRepository', () => {
       await listUsers();
 
       expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: {},
         skip: 0,
         take: 20,
         select: expect.any(Object),
         orderBy: { createdAt: 'desc' },
       });
     });
+
+    it('should search by email, name or username and apply filters', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await listUsers(10, 5, { search: 'ali', role: 'ADMIN', isActive: false });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [
+              { email: { contains: 'ali', mode: 'insensitive' } },
+              { name: { contains: 'ali', mode: 'insensitive' } },
+              { username: { contains: 'ali', mode: 'insensitive' } },
+            ],
+            role: 'ADMIN',
+            isActive: false,
+          },
+          skip: 10,
+          take: 5,
+        })
+      );
+    });
+  });
+
+  describe('countUsers', () => {
+    it('should count users matching the filters', async () => {
+      mockPrisma.user.count.mockResolvedValue(3);
+
+      const result = await countUsers({ isActive: true });
+
+      expect(mockPrisma.user.count).toHaveBeenCalledWith({ where: { isActive: true } });
+      expect(result).toBe(3);
+    });
+  });
+
+  describe('setUserRole', () => {
+    it('should update the system role', async () => {
+      const adminUser = { ...mockUser, role: 'ADMIN' };
+      mockPrisma.user.update.mockResolvedValue(adminUser);
+
+      const result = await setUserRole(1, 'ADMIN');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          role: 'ADMIN',
+          updatedAt: expect.any(Date),
+        },
+      });
+      expect(result).toEqual(adminUser);
+    });
   });
 
   describe('deactivateUser', () => {
@@ -443,6 +677,21 @@ describe('UserRepository', () => {
       });
       expect(result).toEqual(deactivatedUser);
     });
+
+    it('should record when an admin deactivated the user', async () => {
+      mockPrisma.user.update.mockResolvedValue({ ...mockUser, isActive: false });
+
+      await deactivateUser(1, true);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          isActive: false,
+          suspendedAt: expect.any(Date),
+          updatedAt: expect.any(Date),
+        },
+      });
+    });
   });
 
   describe('reactivateUser', () => {
@@ -456,6 +705,7 @@ describe('UserRepository', () => {
         where: { id: 1 },
         data: {
           isActive: true,
+          suspendedAt: null,
           updatedAt: expect.any(Date),
         },
       });
@@ -0,0 +1,119 @@
+// Mock Prisma client
+const mockPrisma = {
+  userToken: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  UserTokenType: {
+    EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+    PASSWORD_RESET: 'PASSWORD_RESET',
+  },
+}));
+
+jest.mock('../../src/app', () => ({
+  prisma: mockPrisma,
+}));
+
+import { UserTokenType } from '@prisma/client';
+import { issueUserToken, consumeUserToken } from '../../src/repositories/userTokenRepo';
+import { hashToken } from '../../src/utils/auth';
+
+describe('UserTokenRepository', () => {
+  const future = new Date(Date.now() + 60 * 60 * 1000);
+
+  const storedToken = {
+    id: 5,
+    type: UserTokenType.EMAIL_VERIFICATION,
+    tokenHash: hashToken('raw-token'),
+    expiresAt: future,
+    usedAt: null,
+    createdAt: new Date(),
+    userId: 1,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  describe('issueUserToken', () => {
+    it('should invalidate older tokens and store only the hash of the new one', async () => {
+      mockPrisma.userToken.updateMany.mockReturnValue('invalidate-query');
+      mockPrisma.userToken.create.mockReturnValue('create-query');
+
+      const result = await issueUserToken(1, UserTokenType.EMAIL_VERIFICATION);
+
+      expect(mockPrisma.userToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, type: UserTokenType.EMAIL_VERIFICATION, usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.userToken.create).toHaveBeenCalledWith({
+        data: {
+          userId: 1,
+          type: UserTokenType.EMAIL_VERIFICATION,
+          tokenHash: hashToken(result.token),
+          expiresAt: result.expiresAt,
+        },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(['invalidate-query', 'create-query']);
+      expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('consumeUserToken', () => {
+    it('should mark the token as used and return the user ID', async () => {
+      mockPrisma.userToken.findUnique.mockResolvedValue(storedToken);
+      mockPrisma.userToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await consumeUserToken('raw-token', UserTokenType.EMAIL_VERIFICATION);
+
+      expect(mockPrisma.userToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('raw-token') },
+      });
+      expect(mockPrisma.userToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(result).toBe(1);
+    });
+
+    it('should reject unknown, used or expired tokens', async () => {
+      mockPrisma.userToken.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.userToken.findUnique.mockResolvedValueOnce({ ...storedToken, usedAt: new Date() });
+      mockPrisma.userToken.findUnique.mockResolvedValueOnce({
+        ...storedToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          consumeUserToken('raw-token', UserTokenType.EMAIL_VERIFICATION)
+        ).rejects.toThrow('Invalid or expired token');
+      }
+      expect(mockPrisma.userToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of a different type', async () => {
+      mockPrisma.userToken.findUnique.mockResolvedValue({ ...storedToken, type: 'OTHER' });
+
+      await expect(consumeUserToken('raw-token', UserTokenType.EMAIL_VERIFICATION)).rejects.toThrow(
+        'Invalid or expired token'
+      );
+    });
+
+    it('should reject a token consumed concurrently', async () => {
+      mockPrisma.userToken.findUnique.mockResolvedValue(storedToken);
+      mockPrisma.userToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(consumeUserToken('raw-token', UserTokenType.EMAIL_VERIFICATION)).rejects.toThrow(
+        'Invalid or expired token'
+      );
+    });
+  });
+});
@@ -0,0 +1,214 @@
+// Mock Prisma client for the repositories the route loads but these tests don't use
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+// Mock user repository
+const mockUserRepo = {
+  deactivateUser: jest.fn(),
+  getUserByEmail: jest.fn(),
+  getUserById: jest.fn(),
+  reactivateUser: jest.fn(),
+  verifyCurrentPassword: jest.fn(),
+  verifyPassword: jest.fn(),
+};
+
+jest.mock('../../src/repositories/userRepo', () => mockUserRepo);
+
+// Mock account deletion repository
+const mockAccountDeletionRepo = {
+  cancelAccountDeletion: jest.fn(),
+  hasOutstandingDebts: jest.fn(),
+  scheduleAccountDeletion: jest.fn(),
+};
+
+jest.mock('../../src/repositories/accountDeletionRepo', () => mockAccountDeletionRepo);
+
+// Mock session repository
+const mockSessionRepo = {
+  revokeAllUserSessions: jest.fn(),
+};
+
+jest.mock('../../src/repositories/sessionRepo', () => mockSessionRepo);
+
+// Mock login throttle and security log
+const mockLoginThrottleRepo = {
+  accountThrottleKey: jest.fn(),
+  clearFailedLogins: jest.fn(),
+};
+
+jest.mock('../../src/repositories/loginThrottleRepo', () => mockLoginThrottleRepo);
+
+const mockSecurityEventRepo = {
+  recordSecurityEvent: jest.fn(),
+};
+
+jest.mock('../../src/repositories/securityEventRepo', () => mockSecurityEventRepo);
+
+// Mock login protection
+const mockLoginProtection = {
+  checkLoginThrottle: jest.fn(),
+  createThrottledResponse: jest.fn(),
+  registerFailedLogin: jest.fn(),
+};
+
+jest.mock('../../src/utils/loginProtection', () => mockLoginProtection);
+
+import Fastify from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import accountRoute from '../../src/routes/account';
+
+describe('Account Routes', () => {
+  const mockUser = {
+    id: 1,
+    email: 'test@example.com',
+    name: 'Test User',
+    password: 'hashed',
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Deactivation Logic', () => {
+    it('should deactivate the account and revoke every session', async () => {
+      mockUserRepo.verifyCurrentPassword.mockResolvedValue(true);
+      mockUserRepo.deactivateUser.mockResolvedValue({ ...mockUser, isActive: false });
+
+      if (await mockUserRepo.verifyCurrentPassword(mockUser.id, 'Password123')) {
+        await mockUserRepo.deactivateUser(mockUser.id);
+        await mockSessionRepo.revokeAllUserSessions(mockUser.id, 'account_deactivated');
+      }
+
+      expect(mockUserRepo.deactivateUser).toHaveBeenCalledWith(1);
+      expect(mockSessionRepo.revokeAllUserSessions).toHaveBeenCalledWith(1, 'account_deactivated');
+    });
+  });
+
+  describe('POST /auth/reactivate', () => {
+    const reactivate = async (password: string) => {
+      const app = Fastify();
+      await app.register(accountRoute);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/reactivate',
+        payload: { email: mockUser.email, password },
+      });
+      await app.close();
+      return response;
+    };
+
+    beforeEach(() => {
+      mockLoginProtection.checkLoginThrottle.mockResolvedValue({ blocked: false });
+      mockLoginThrottleRepo.accountThrottleKey.mockReturnValue('account:test@example.com');
+    });
+
+    it('should cancel a pending deletion when reactivating', async () => {
+      mockUserRepo.verifyPassword.mockResolvedValue({ ...mockUser, isActive: false });
+      mockAccountDeletionRepo.cancelAccountDeletion.mockResolvedValue(true);
+
+      const response = await reactivate('Password123');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ message: 'Account reactivated', deletionCancelled: true });
+      expect(mockUserRepo.reactivateUser).toHaveBeenCalledWith(1);
+      expect(mockLoginThrottleRepo.clearFailedLogins).toHaveBeenCalledWith(
+        'account:test@example.com'
+      );
+    });
+
+    it('should throttle password guesses like logins do', async () => {
+      mockUserRepo.verifyPassword.mockResolvedValue(null);
+      mockUserRepo.getUserByEmail.mockResolvedValue({ ...mockUser, isActive: false });
+
+      const response = await reactivate('wrong');
+
+      expect(response.statusCode).toBe(401);
+      expect(mockLoginProtection.registerFailedLogin).toHaveBeenCalledWith(
+        'test@example.com',
+        expect.any(Object),
+        1,
+        'invalid_password'
+      );
+      expect(mockUserRepo.reactivateUser).not.toHaveBeenCalled();
+    });
+
+    it('should not check the password while throttled', async () => {
+      mockLoginProtection.checkLoginThrottle.mockResolvedValue({
+        blocked: true,
+        locked: true,
+        retryAfterSeconds: 60,
+      });
+      mockLoginProtection.createThrottledResponse.mockReturnValue({
+        message: 'Too many failed login attempts, the account is temporarily locked',
+        error: 'Too Many Requests',
+        statusCode: 429,
+        retryAfter: 60,
+      });
+
+      const response = await reactivate('Password123');
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('60');
+      expect(mockUserRepo.verifyPassword).not.toHaveBeenCalled();
+    });
+
+    it('should leave accounts deactivated by an admin to admins', async () => {
+      mockUserRepo.verifyPassword.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+        suspendedAt: new Date(),
+      });
+
+      const response = await reactivate('Password123');
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toBe('This account was deactivated by an administrator');
+      expect(mockUserRepo.reactivateUser).not.toHaveBeenCalled();
+      expect(mockAccountDeletionRepo.cancelAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should reject accounts that are already active', async () => {
+      mockUserRepo.verifyPassword.mockResolvedValue(mockUser);
+
+      const response = await reactivate('Password123');
+
+      expect(response.statusCode).toBe(400);
+      expect(mockUserRepo.reactivateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Deletion Logic', () => {
+    it('should block deletion while debts are outstanding', async () => {
+      mockAccountDeletionRepo.hasOutstandingDebts.mockResolvedValue(true);
+      const balances = [{ currency: 'USD', owes: new Decimal('25.5'), owed: new Decimal(0) }];
+
+      const writeOffDebts = false;
+      const blocked = !writeOffDebts && (await mockAccountDeletionRepo.hasOutstandingDebts(1));
+
+      expect(blocked).toBe(true);
+      expect(balances[0].owes.toString()).toBe('25.5');
+      expect(mockAccountDeletionRepo.scheduleAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should schedule deletion when debts are written off', async () => {
+      const scheduledFor = new Date('2026-11-17T00:00:00Z');
+      mockAccountDeletionRepo.scheduleAccountDeletion.mockResolvedValue({ scheduledFor });
+
+      const writeOffDebts = true;
+      if (writeOffDebts || !(await mockAccountDeletionRepo.hasOutstandingDebts(1))) {
+        const deletion = await mockAccountDeletionRepo.scheduleAccountDeletion(1, {
+          writeOffDebts,
+        });
+        await mockSessionRepo.revokeAllUserSessions(1, 'account_deleted');
+        expect(deletion.scheduledFor).toEqual(scheduledFor);
+      }
+
+      expect(mockAccountDeletionRepo.hasOutstandingDebts).not.toHaveBeenCalled();
+      expect(mockSessionRepo.revokeAllUserSessions).toHaveBeenCalledWith(1, 'account_deleted');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+// Mock user repository
+const mockUserRepo = {
+  countUsers: jest.fn(),
+  deactivateUser: jest.fn(),
+  getUserById: jest.fn(),
+  listUsers: jest.fn(),
+  reactivateUser: jest.fn(),
+  setUserRole: jest.fn(),
+};
+
+jest.mock('../../src/repositories/userRepo', () => mockUserRepo);
+
+// Mock category repository
+const mockCategoryRepo = {
+  createDefaultCategory: jest.fn(),
+  deleteCategory: jest.fn(),
+  getCategoryById: jest.fn(),
+  getDefaultCategories: jest.fn(),
+  updateCategory: jest.fn(),
+};
+
+jest.mock('../../src/repositories/categoryRepo', () => mockCategoryRepo);
+
+// Mock session and account deletion repositories
+const mockSessionRepo = {
+  revokeAllUserSessions: jest.fn(),
+};
+
+jest.mock('../../src/repositories/sessionRepo', () => mockSessionRepo);
+
+const mockAccountDeletionRepo = {
+  cancelAccountDeletion: jest.fn(),
+};
+
+jest.mock('../../src/repositories/accountDeletionRepo', () => mockAccountDeletionRepo);
+
+// Mock exchange rate repository
+const mockExchangeRateRepo = {
+  importExchangeRates: jest.fn(),
+  listExchangeRates: jest.fn(),
+};
+
+jest.mock('../../src/repositories/exchangeRateRepo', () => mockExchangeRateRepo);
+
+describe('Admin Routes', () => {
+  const adminId = 1;
+  const mockUser = {
+    id: 2,
+    email: 'user@example.com',
+    name: 'Regular User',
+    provider: 'local',
+    isActive: true,
+    role: 'USER',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /admin/users - List users', () => {
+    it('should pass search and filters to both the list and the count', async () => {
+      mockUserRepo.listUsers.mockResolvedValue([mockUser]);
+      mockUserRepo.countUsers.mockResolvedValue(1);
+
+      const query: { search?: string; isActive?: boolean; limit?: number; offset?: number } = {
+        search: 'user@',
+        isActive: true,
+      };
+      const { search, isActive, limit = 50, offset = 0 } = query;
+      const filters = { search, role: undefined, isActive };
+      const [users, total] = await Promise.all([
+        mockUserRepo.listUsers(offset, limit, filters),
+        mockUserRepo.countUsers(filters),
+      ]);
+
+      expect(mockUserRepo.listUsers).toHaveBeenCalledWith(0, 50, filters);
+      expect(mockUserRepo.countUsers).toHaveBeenCalledWith(filters);
+      expect({ users, total }).toEqual({ users: [mockUser], total: 1 });
+    });
+  });
+
+  describe('Deactivation Logic', () => {
+    it('should deactivate the user and revoke their sessions', async () => {
+      mockUserRepo.getUserById.mockResolvedValue(mockUser);
+
+      const user = await mockUserRepo.getUserById(mockUser.id);
+      if (user.id !== adminId && user.isActive) {
+        await mockUserRepo.deactivateUser(user.id, true);
+        await mockSessionRepo.revokeAllUserSessions(user.id, 'account_deactivated');
+      }
+
+      expect(mockUserRepo.deactivateUser).toHaveBeenCalledWith(2, true);
+      expect(mockSessionRepo.revokeAllUserSessions).toHaveBeenCalledWith(2, 'account_deactivated');
+    });
+
+    it('should not let admins deactivate themselves', () => {
+      const id = adminId;
+      const statusCode = id === adminId ? 400 : 200;
+
+      expect(statusCode).toBe(400);
+      expect(mockUserRepo.deactivateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reactivation Logic', () => {
+    it('should cancel a pending deletion when reactivating', async () => {
+      mockUserRepo.getUserById.mockResolvedValue({ ...mockUser, isActive: false });
+      mockAccountDeletionRepo.cancelAccountDeletion.mockResolvedValue(true);
+
+      const user = await mockUserRepo.getUserById(mockUser.id);
+      const deletionCancelled = await mockAccountDeletionRepo.cancelAccountDeletion(user.id);
+      await mockUserRepo.reactivateUser(user.id);
+
+      expect(deletionCancelled).toBe(true);
+      expect(mockUserRepo.reactivateUser).toHaveBeenCalledWith(2);
+    });
+
+    it('should refuse to restore deleted accounts', async () => {
+      mockUserRepo.getUserById.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+        provider: 'deleted',
+      });
+
+      const user = await mockUserRepo.getUserById(mockUser.id);
+      const statusCode = user.provider === 'deleted' ? 409 : 200;
+
+      expect(statusCode).toBe(409);
+      expect(mockUserRepo.reactivateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /admin/users/:id/role - Set role', () => {
+    it('should grant the ADMIN role', async () => {
+      mockUserRepo.getUserById.mockResolvedValue(mockUser);
+      mockUserRepo.setUserRole.mockResolvedValue({ ...mockUser, role: 'ADMIN' });
+
+      const updated = await mockUserRepo.setUserRole(mockUser.id, 'ADMIN');
+
+      expect(mockUserRepo.setUserRole).toHaveBeenCalledWith(2, 'ADMIN');
+      expect({ id: updated.id, role: updated.role }).toEqual({ id: 2, role: 'ADMIN' });
+    });
+  });
+
+  describe('Default Category Management', () => {
+    it('should list default categories including deactivated ones', async () => {
+      mockCategoryRepo.getDefaultCategories.mockResolvedValue([]);
+
+      await mockCategoryRepo.getDefaultCategories(true);
+
+      expect(mockCategoryRepo.getDefaultCategories).toHaveBeenCalledWith(true);
+    });
+
+    it('should only update default categories', async () => {
+      mockCategoryRepo.getCategoryById.mockResolvedValue({ id: 5, isDefault: false, userId: 3 });
+
+      const category = await mockCategoryRepo.getCategoryById(5);
+      const statusCode = !category || !category.isDefault ? 404 : 200;
+
+      expect(statusCode).toBe(404);
+      expect(mockCategoryRepo.updateCategory).not.toHaveBeenCalled();
+    });
+
+    it('should soft delete default categories', async () => {
+      mockCategoryRepo.getCategoryById.mockResolvedValue({ id: 4, isDefault: true });
+
+      const category = await mockCategoryRepo.getCategoryById(4);
+      if (category.isDefault) {
+        await mockCategoryRepo.deleteCategory(category.id);
+      }
+
+      expect(mockCategoryRepo.deleteCategory).toHaveBeenCalledWith(4);
+    });
+  });
+
+  describe('Exchange Rate Import', () => {
+    it('should import rates with parsed effective dates', async () => {
+      mockExchangeRateRepo.importExchangeRates.mockResolvedValue(1);
+
+      const rates = [
+        { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.08, effectiveDate: '2026-10-01' },
+      ];
+      const imported = await mockExchangeRateRepo.importExchangeRates(
+        rates.map(rate => ({ ...rate, effectiveDate: new Date(rate.effectiveDate) }))
+      );
+
+      expect(imported).toBe(1);
+      expect(mockExchangeRateRepo.importExchangeRates).toHaveBeenCalledWith([
+        {
+          baseCurrency: 'EUR',
+          quoteCurrency: 'USD',
+          rate: 1.08,
+          effectiveDate: new Date('2026-10-01T00:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should reject rates converting a currency into itself', () => {
+      const rates = [{ baseCurrency: 'USD', quoteCurrency: 'USD', rate: 1 }];
+      const statusCode = rates.some(rate => rate.baseCurrency === rate.quoteCurrency) ? 400 : 201;
+
+      expect(statusCode).toBe(400);
+      expect(mockExchangeRateRepo.importExchangeRates).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+// Mock API token repository
+const mockApiTokenRepo = {
+  createApiToken: jest.fn(),
+  listApiTokens: jest.fn(),
+  revokeApiToken: jest.fn(),
+};
+
+jest.mock('../../src/repositories/apiTokenRepo', () => mockApiTokenRepo);
+
+describe('API Token Routes', () => {
+  const mockUser = { id: 1, email: 'test@example.com', provider: 'local' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /users/me/api-tokens - Create token', () => {
+    it('should return the raw token once together with its summary', async () => {
+      const created = {
+        token: 'pat_rawtoken',
+        apiToken: {
+          id: 7,
+          name: 'Import script',
+          prefix: 'pat_rawtok',
+          scopes: ['expenses:write'],
+          expiresAt: null,
+          createdAt: new Date(),
+        },
+      };
+      mockApiTokenRepo.createApiToken.mockResolvedValue(created);
+
+      const expiresInDays = 30;
+      const result = await mockApiTokenRepo.createApiToken(mockUser.id, {
+        name: 'Import script',
+        scopes: ['expenses:write'],
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      expect(result.token).toBe('pat_rawtoken');
+      expect(mockApiTokenRepo.createApiToken).toHaveBeenCalledWith(1, {
+        name: 'Import script',
+        scopes: ['expenses:write'],
+        expiresAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('GET /users/me/api-tokens - List tokens', () => {
+    it('should never include token hashes', async () => {
+      mockApiTokenRepo.listApiTokens.mockResolvedValue([
+        { id: 7, name: 'Import script', prefix: 'pat_rawtok', scopes: ['expenses:write'] },
+      ]);
+
+      const result = await mockApiTokenRepo.listApiTokens(mockUser.id);
+
+      expect(result[0]).not.toHaveProperty('tokenHash');
+    });
+  });
+
+  describe('DELETE /users/me/api-tokens/:id - Revoke token', () => {
+    it("should map another user's token to not found", async () => {
+      mockApiTokenRepo.revokeApiToken.mockRejectedValue(new Error('API token not found'));
+
+      try {
+        await mockApiTokenRepo.revokeApiToken(mockUser.id, 99);
+      } catch (error) {
+        const statusCode =
+          error instanceof Error && error.message.includes('API token not found') ? 404 : 500;
+        expect(statusCode).toBe(404);
+      }
+    });
+
+    it('should reject non-numeric IDs', () => {
+      expect(isNaN(parseInt('abc', 10))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+// Mock attachment repository
+const mockAttachmentRepo = {
+  getAttachmentById: jest.fn(),
+  deleteAttachment: jest.fn(),
+};
+
+jest.mock('../../src/repositories/attachmentRepo', () => mockAttachmentRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Attachment Routes', () => {
+  const userId = 1;
+  const attachment = {
+    id: 5,
+    fileName: 'receipt.png',
+    mimeType: 'image/png',
+    storageKey: 'expenses/3/abc.png',
+    thumbnailKey: null,
+    expenseId: 3,
+    uploadedById: 2,
+    expense: { id: 3, userId: 2, createdById: 2, groupId: 4 },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Access', () => {
+    it('should let group members see attachments of group expenses', async () => {
+      mockGroupRepo.isGroupMember.mockResolvedValue(true);
+
+      const expense = attachment.expense;
+      const hasAccess = expense.groupId
+        ? await mockGroupRepo.isGroupMember(expense.groupId, userId)
+        : expense.userId === userId || expense.createdById === userId;
+
+      expect(hasAccess).toBe(true);
+      expect(mockGroupRepo.isGroupMember).toHaveBeenCalledWith(4, userId);
+    });
+
+    it('should only let the payer or creator see attachments of personal expenses', async () => {
+      const expense = { ...attachment.expense, groupId: null };
+      const hasAccess = expense.groupId
+        ? await mockGroupRepo.isGroupMember(expense.groupId, userId)
+        : expense.userId === userId || expense.createdById === userId;
+
+      expect(hasAccess).toBe(false);
+      expect(mockGroupRepo.isGroupMember).not.toHaveBeenCalled();
+    });
+
+    it('should let whoever recorded an expense for someone else manage its attachments', () => {
+      const expense = { ...attachment.expense, createdById: userId };
+      const canManage = expense.userId === userId || expense.createdById === userId;
+
+      expect(canManage).toBe(true);
+    });
+  });
+
+  describe('DELETE /expenses/:id/attachments/:attachmentId - Delete', () => {
+    it('should only allow the uploader or the expense owner', async () => {
+      mockAttachmentRepo.getAttachmentById.mockResolvedValue(attachment);
+
+      const existing = await mockAttachmentRepo.getAttachmentById(5);
+      const statusCode =
+        existing.uploadedById !== userId &&
+        existing.expense.userId !== userId &&
+        existing.expense.createdById !== userId
+          ? 403
+          : 200;
+
+      expect(statusCode).toBe(403);
+      expect(mockAttachmentRepo.deleteAttachment).not.toHaveBeenCalled();
+    });
+
+    it('should not find attachments of another expense', async () => {
+      mockAttachmentRepo.getAttachmentById.mockResolvedValue(attachment);
+
+      const existing = await mockAttachmentRepo.getAttachmentById(5);
+      const statusCode = !existing || existing.expenseId !== 8 ? 404 : 200;
+
+      expect(statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /attachments/:attachmentId/content - Download', () => {
+    it('should 404 when a thumbnail is requested for a file without one', async () => {
+      mockAttachmentRepo.getAttachmentById.mockResolvedValue(attachment);
+
+      const payload = { attachmentId: 5, variant: 'thumbnail' };
+      const existing = await mockAttachmentRepo.getAttachmentById(payload.attachmentId);
+      const key = payload.variant === 'thumbnail' ? existing.thumbnailKey : existing.storageKey;
+
+      expect(key ? 200 : 404).toBe(404);
+    });
+  });
+});
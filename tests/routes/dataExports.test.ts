@@ -0,0 +1,75 @@
+// Mock data export repository
+const mockDataExportRepo = {
+  getDataExport: jest.fn(),
+  getDataExportArchive: jest.fn(),
+  processDataExport: jest.fn(),
+  requestDataExport: jest.fn(),
+};
+
+jest.mock('../../src/repositories/dataExportRepo', () => mockDataExportRepo);
+
+describe('Data Export Routes', () => {
+  const mockUser = { id: 1, email: 'test@example.com', provider: 'local' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /users/me/export - Start export', () => {
+    it('should only schedule processing for a newly queued export', async () => {
+      mockDataExportRepo.requestDataExport.mockResolvedValueOnce({
+        dataExport: { id: 9, status: 'PENDING' },
+        created: true,
+      });
+      mockDataExportRepo.requestDataExport.mockResolvedValueOnce({
+        dataExport: { id: 9, status: 'PROCESSING' },
+        created: false,
+      });
+
+      for (let i = 0; i < 2; i++) {
+        const { dataExport, created } = await mockDataExportRepo.requestDataExport(mockUser.id);
+        if (created) {
+          await mockDataExportRepo.processDataExport(dataExport.id);
+        }
+      }
+
+      expect(mockDataExportRepo.processDataExport).toHaveBeenCalledTimes(1);
+      expect(mockDataExportRepo.processDataExport).toHaveBeenCalledWith(9);
+    });
+  });
+
+  describe('GET /users/me/export/:id - Export status', () => {
+    it("should not find another user's export", async () => {
+      mockDataExportRepo.getDataExport.mockResolvedValue(null);
+
+      const result = await mockDataExportRepo.getDataExport(mockUser.id, 99);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('GET /users/me/export/:id/download - Download archive', () => {
+    it('should map repository errors to status codes', async () => {
+      const statusFor = (message: string) =>
+        message.includes('not found')
+          ? 404
+          : message.includes('not ready')
+            ? 409
+            : message.includes('expired')
+              ? 410
+              : 500;
+
+      for (const [message, statusCode] of [
+        ['Data export not found', 404],
+        ['Data export is not ready', 409],
+        ['Data export has expired', 410],
+      ] as const) {
+        mockDataExportRepo.getDataExportArchive.mockRejectedValueOnce(new Error(message));
+        await expect(mockDataExportRepo.getDataExportArchive(mockUser.id, 9)).rejects.toThrow(
+          message
+        );
+        expect(statusFor(message)).toBe(statusCode);
+      }
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// Mock expense repository
+const mockExpenseRepo = {
+  applyBulkExpenseOperations: jest.fn(),
+  canManageExpense: jest.fn(),
+  getExpenseById: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRepo', () => mockExpenseRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  areGroupMembers: jest.fn(),
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Expense Bulk Routes', () => {
+  const userId = 1;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /expenses/bulk - Bulk operations', () => {
+    it('should not touch the database when an atomic request has a rejected operation', async () => {
+      mockExpenseRepo.getExpenseById.mockResolvedValue(null);
+
+      const expense = await mockExpenseRepo.getExpenseById(99);
+      const statuses = [expense ? 'planned' : 'failed', 'planned'];
+      if (statuses.every(status => status !== 'failed')) {
+        await mockExpenseRepo.applyBulkExpenseOperations([], userId, true);
+      }
+      const statusCode = statuses.includes('failed') ? 400 : 200;
+
+      expect(statusCode).toBe(400);
+      expect(mockExpenseRepo.applyBulkExpenseOperations).not.toHaveBeenCalled();
+    });
+
+    it('should report each result of a best-effort request', async () => {
+      mockExpenseRepo.applyBulkExpenseOperations.mockResolvedValue([
+        { status: 'succeeded', id: 4 },
+        { status: 'failed', error: new Error('Database error') },
+      ]);
+
+      const outcomes = await mockExpenseRepo.applyBulkExpenseOperations(
+        [
+          { action: 'delete', id: 4 },
+          { action: 'delete', id: 5 },
+        ],
+        userId,
+        false
+      );
+      const results = outcomes.map((outcome: { status: string; id?: number }, index: number) => ({
+        index,
+        status: outcome.status,
+        id: outcome.id,
+        ...(outcome.status === 'failed' && { error: 'Failed to delete expense' }),
+      }));
+
+      expect(results).toEqual([
+        { index: 0, status: 'succeeded', id: 4 },
+        { index: 1, status: 'failed', id: undefined, error: 'Failed to delete expense' },
+      ]);
+    });
+
+    it('should refuse to move expenses into groups that not everyone on them belongs to', async () => {
+      mockExpenseRepo.getExpenseById.mockResolvedValue({
+        id: 4,
+        userId,
+        groupId: null,
+        payers: [],
+        splits: [{ userId: 2 }],
+      });
+      mockGroupRepo.isGroupMember.mockResolvedValue(true);
+      mockGroupRepo.areGroupMembers.mockResolvedValue(false);
+
+      const expense = await mockExpenseRepo.getExpenseById(4);
+      const people = [
+        expense.userId,
+        ...expense.splits.map((split: { userId: number }) => split.userId),
+      ];
+      const canMove =
+        (await mockGroupRepo.isGroupMember(3, userId)) &&
+        (await mockGroupRepo.areGroupMembers(3, people));
+
+      expect(canMove).toBe(false);
+      expect(mockGroupRepo.areGroupMembers).toHaveBeenCalledWith(3, [1, 2]);
+    });
+  });
+});
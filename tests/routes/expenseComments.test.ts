@@ -0,0 +1,83 @@
+// Mock expense comment repository
+const mockExpenseCommentRepo = {
+  canAccessExpenseComments: jest.fn(),
+  createExpenseComment: jest.fn(),
+  getExpenseCommentById: jest.fn(),
+  deleteExpenseComment: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseCommentRepo', () => mockExpenseCommentRepo);
+
+// Mock expense repository
+const mockExpenseRepo = {
+  getExpense: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRepo', () => mockExpenseRepo);
+
+describe('Expense Comment Routes', () => {
+  const userId = 1;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /expenses/:id/comments - Comment', () => {
+    it('should refuse users who are not part of the expense', async () => {
+      mockExpenseRepo.getExpense.mockResolvedValue({ id: 5, userId: 2, groupId: null });
+      mockExpenseCommentRepo.canAccessExpenseComments.mockResolvedValue(false);
+
+      const expense = await mockExpenseRepo.getExpense(5);
+      const canComment = await mockExpenseCommentRepo.canAccessExpenseComments(expense, userId);
+      const statusCode = canComment ? 201 : 403;
+
+      expect(statusCode).toBe(403);
+      expect(mockExpenseCommentRepo.createExpenseComment).not.toHaveBeenCalled();
+    });
+
+    it('should reject comments that are only whitespace', () => {
+      const body = '   \n '.trim();
+      const statusCode = body ? 201 : 400;
+
+      expect(statusCode).toBe(400);
+    });
+  });
+
+  describe('DELETE /expenses/:id/comments/:commentId - Delete', () => {
+    it("should let the expense's owner delete other people's comments", async () => {
+      mockExpenseRepo.getExpense.mockResolvedValue({ id: 5, userId });
+      mockExpenseCommentRepo.getExpenseCommentById.mockResolvedValue({
+        id: 7,
+        expenseId: 5,
+        userId: 2,
+      });
+
+      const expense = await mockExpenseRepo.getExpense(5);
+      const comment = await mockExpenseCommentRepo.getExpenseCommentById(7);
+      const statusCode =
+        comment.expenseId !== expense.id
+          ? 404
+          : comment.userId !== userId && expense.userId !== userId
+            ? 403
+            : 200;
+
+      expect(statusCode).toBe(200);
+    });
+
+    it('should not find comments of another expense', async () => {
+      mockExpenseRepo.getExpense.mockResolvedValue({ id: 5, userId });
+      mockExpenseCommentRepo.getExpenseCommentById.mockResolvedValue({
+        id: 7,
+        expenseId: 6,
+        userId,
+      });
+
+      const expense = await mockExpenseRepo.getExpense(5);
+      const comment = await mockExpenseCommentRepo.getExpenseCommentById(7);
+      const statusCode = comment.expenseId !== expense.id ? 404 : 200;
+
+      expect(statusCode).toBe(404);
+      expect(mockExpenseCommentRepo.deleteExpenseComment).not.toHaveBeenCalled();
+    });
+  });
+});
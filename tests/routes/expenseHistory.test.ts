@@ -0,0 +1,91 @@
+// Mock expense revision repository
+const mockExpenseRevisionRepo = {
+  getExpenseRevision: jest.fn(),
+  getExpenseRevisions: jest.fn(),
+  revertExpenseToRevision: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRevisionRepo', () => mockExpenseRevisionRepo);
+
+// Mock expense repository
+const mockExpenseRepo = {
+  getExpense: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRepo', () => mockExpenseRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Expense History Routes', () => {
+  const userId = 1;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /expenses/:id/history - History', () => {
+    it('should let group members see the history of group expenses', async () => {
+      mockExpenseRepo.getExpense.mockResolvedValue({ id: 5, userId: 2, groupId: 3 });
+      mockGroupRepo.isGroupMember.mockResolvedValue(true);
+      mockExpenseRevisionRepo.getExpenseRevisions.mockResolvedValue([
+        { id: 8, action: 'UPDATED', changes: [{ field: 'title', from: 'Lunch', to: 'Dinner' }] },
+        { id: 7, action: 'CREATED', changes: [] },
+      ]);
+
+      const expense = await mockExpenseRepo.getExpense(5);
+      const hasAccess = expense.groupId
+        ? await mockGroupRepo.isGroupMember(expense.groupId, userId)
+        : expense.userId === userId;
+      const revisions = hasAccess ? await mockExpenseRevisionRepo.getExpenseRevisions(5) : [];
+
+      expect(hasAccess).toBe(true);
+      expect(revisions.map((revision: { id: number }) => revision.id)).toEqual([8, 7]);
+    });
+
+    it("should deny access to other users' personal expenses", async () => {
+      mockExpenseRepo.getExpense.mockResolvedValue({ id: 5, userId: 2, groupId: null });
+
+      const expense = await mockExpenseRepo.getExpense(5);
+      const hasAccess = expense.groupId
+        ? await mockGroupRepo.isGroupMember(expense.groupId, userId)
+        : expense.userId === userId;
+      const statusCode = hasAccess ? 200 : 403;
+
+      expect(statusCode).toBe(403);
+      expect(mockExpenseRevisionRepo.getExpenseRevisions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /expenses/:id/history/:revisionId/revert - Revert', () => {
+    it('should not find revisions of other expenses', async () => {
+      mockExpenseRepo.getExpense.mockResolvedValue({ id: 5, userId });
+      mockExpenseRevisionRepo.getExpenseRevision.mockResolvedValue(null);
+
+      const revision = await mockExpenseRevisionRepo.getExpenseRevision(5, 99);
+      const statusCode = revision ? 200 : 404;
+
+      expect(statusCode).toBe(404);
+      expect(mockExpenseRevisionRepo.revertExpenseToRevision).not.toHaveBeenCalled();
+    });
+
+    it('should report paid splits as a conflict', async () => {
+      mockExpenseRevisionRepo.revertExpenseToRevision.mockRejectedValue(
+        new Error('Expense has paid splits, it can no longer be reverted to different splits')
+      );
+
+      let statusCode = 200;
+      try {
+        await mockExpenseRevisionRepo.revertExpenseToRevision(5, 7, userId);
+      } catch (error) {
+        statusCode = error instanceof Error && error.message.includes('paid splits') ? 409 : 500;
+      }
+
+      expect(statusCode).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+// Mock expense item repository
+const mockExpenseItemRepo = {
+  setExpenseItems: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseItemRepo', () => mockExpenseItemRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  areGroupMembers: jest.fn(),
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Expense Item Routes', () => {
+  const userId = 1;
+  const body = {
+    items: [
+      { name: 'Burger', amount: 20, assigneeIds: [1] },
+      { name: 'Fries', amount: 10, assigneeIds: [1, 9] },
+    ],
+    adjustments: [{ type: 'TIP', amount: 3 }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('PUT /expenses/:id/items - Itemize', () => {
+    it('should reject assignees outside the group', async () => {
+      mockGroupRepo.isGroupMember.mockResolvedValue(true);
+      mockGroupRepo.areGroupMembers.mockResolvedValue(false);
+
+      const isMember = await mockGroupRepo.isGroupMember(3, userId);
+      const allMembers = await mockGroupRepo.areGroupMembers(
+        3,
+        body.items.flatMap(item => item.assigneeIds)
+      );
+      const statusCode = !isMember ? 403 : !allMembers ? 400 : 200;
+
+      expect(statusCode).toBe(400);
+      expect(mockGroupRepo.areGroupMembers).toHaveBeenCalledWith(3, [1, 1, 9]);
+      expect(mockExpenseItemRepo.setExpenseItems).not.toHaveBeenCalled();
+    });
+
+    it('should report totals that do not match as a bad request', async () => {
+      mockExpenseItemRepo.setExpenseItems.mockRejectedValue(
+        new Error('Itemized total (33) must equal expense amount (40)')
+      );
+
+      let statusCode = 200;
+      try {
+        await mockExpenseItemRepo.setExpenseItems(5, body);
+      } catch (error) {
+        statusCode =
+          error instanceof Error && error.message.includes('must equal expense amount') ? 400 : 500;
+      }
+
+      expect(statusCode).toBe(400);
+    });
+
+    it('should report paid splits as a conflict', async () => {
+      mockExpenseItemRepo.setExpenseItems.mockRejectedValue(
+        new Error('Expense has paid splits, its items can no longer be changed')
+      );
+
+      let statusCode = 200;
+      try {
+        await mockExpenseItemRepo.setExpenseItems(5, body);
+      } catch (error) {
+        statusCode = error instanceof Error && error.message.includes('paid splits') ? 409 : 500;
+      }
+
+      expect(statusCode).toBe(409);
+    });
+  });
+});
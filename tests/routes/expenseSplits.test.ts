@@ -521,10 +521,12 @@ describe('/api/v1/expense-splits', () => {
       });
 
       expect(response.statusCode).toBe(200);
-      const summary = JSON.parse(response.payload);
-      expect(summary.owes).toBe('60'); // User2 owes 60 to User1
-      expect(summary.owed).toBe('0');
-      expect(summary.netBalance).toBe('-60');
+      const { balances } = JSON.parse(response.payload);
+      expect(balances).toHaveLength(1);
+      expect(balances[0].currency).toBe('USD');
+      expect(balances[0].owes).toBe('60'); // User2 owes 60 to User1
+      expect(balances[0].owed).toBe('0');
+      expect(balances[0].netBalance).toBe('-60');
     });
 
     it('should require authentication', async () => {
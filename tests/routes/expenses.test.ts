@@ -160,6 +160,31 @@ describe('Expense Routes', () => {
 
       expect(mockPrisma.expense.create).toHaveBeenCalled();
     });
+
+    it('should record the creator separately when another member paid', async () => {
+      const body = { title: 'Taxi', amount: 40, groupId: 3, paidBy: 2 };
+      mockPrisma.expense.create.mockResolvedValue({ id: 5, userId: 2, createdById: 1 });
+
+      const result = await mockPrisma.expense.create({
+        data: {
+          title: body.title,
+          amount: body.amount,
+          groupId: body.groupId,
+          userId: body.paidBy ?? mockUser.id,
+          createdById: mockUser.id,
+        },
+      });
+
+      expect(result.userId).toBe(2);
+      expect(result.createdById).toBe(1);
+    });
+
+    it('should only accept paidBy on group expenses', () => {
+      const body: { paidBy?: number; groupId?: number } = { paidBy: 2 };
+      const statusCode = body.paidBy !== undefined && !body.groupId ? 400 : 201;
+
+      expect(statusCode).toBe(400);
+    });
   });
 
   describe('PATCH /expenses/:id - Update expense', () => {
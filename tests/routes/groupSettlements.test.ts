@@ -127,21 +127,25 @@ describe('Group Settlements API', () => {
 
       expect(data.groupId).toBe(testGroup.id);
       expect(data.groupName).toBe('Test Group Settlement');
-      expect(data.members).toHaveLength(3);
+      expect(data.balances).toHaveLength(1);
+
+      const balance = data.balances[0];
+      expect(balance.currency).toBe('USD');
+      expect(balance.members).toHaveLength(3);
 
       // Alice should have positive balance (she paid)
-      const alice = data.members.find((m: any) => m.userId === testUser1.id);
+      const alice = balance.members.find((m: any) => m.userId === testUser1.id);
       expect(parseFloat(alice.netBalance)).toBe(60); // paid 90, owes 30
 
       // Bob and Charlie should have negative balance (they owe)
-      const bob = data.members.find((m: any) => m.userId === testUser2.id);
-      const charlie = data.members.find((m: any) => m.userId === testUser3.id);
+      const bob = balance.members.find((m: any) => m.userId === testUser2.id);
+      const charlie = balance.members.find((m: any) => m.userId === testUser3.id);
       expect(parseFloat(bob.netBalance)).toBe(-30);
       expect(parseFloat(charlie.netBalance)).toBe(-30);
 
       // Should have optimized transactions
-      expect(data.optimizedTransactions).toHaveLength(2);
-      expect(parseFloat(data.totalDebt)).toBe(60);
+      expect(balance.optimizedTransactions).toHaveLength(2);
+      expect(parseFloat(balance.totalDebt)).toBe(60);
     });
 
     it('should return 403 for non-group member', async () => {
@@ -233,7 +237,7 @@ describe('Group Settlements API', () => {
         headers: {
           authorization: `Bearer ${authToken1}`,
         },
-        payload: { transactions },
+        payload: { transactions, currency: 'USD' },
       });
 
       expect(response.statusCode).toBe(200);
@@ -245,6 +249,21 @@ describe('Group Settlements API', () => {
       expect(data.message).toContain('Successfully executed group settlement');
     });
 
+    it('should require the currency of the amounts', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/settlements/groups/${testGroup.id}/settle`,
+        headers: {
+          authorization: `Bearer ${authToken1}`,
+        },
+        payload: {
+          transactions: [{ fromUserId: testUser2.id, toUserId: testUser1.id, amount: 30 }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should return 403 for non-admin user', async () => {
       const memberToken = generateToken(testUser2);
 
@@ -262,6 +281,7 @@ describe('Group Settlements API', () => {
               amount: 30,
             },
           ],
+          currency: 'USD',
         },
       });
 
@@ -0,0 +1,63 @@
+// Mock import repository
+const mockImportRepo = {
+  getImportBatchById: jest.fn(),
+  getImportProfileById: jest.fn(),
+  undoImportBatch: jest.fn(),
+};
+
+jest.mock('../../src/repositories/importRepo', () => mockImportRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Import Routes', () => {
+  const userId = 1;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /imports - Preview', () => {
+    it("should not read the file with another user's profile", async () => {
+      mockImportRepo.getImportProfileById.mockResolvedValue({ id: 4, userId: 2 });
+
+      const profile = await mockImportRepo.getImportProfileById(4);
+      const statusCode = !profile || profile.userId !== userId ? 404 : 201;
+
+      expect(statusCode).toBe(404);
+    });
+
+    it('should require group membership to import into a group', async () => {
+      mockGroupRepo.isGroupMember.mockResolvedValue(false);
+
+      const groupId = 3;
+      const statusCode =
+        groupId && !(await mockGroupRepo.isGroupMember(groupId, userId)) ? 403 : 201;
+
+      expect(statusCode).toBe(403);
+      expect(mockGroupRepo.isGroupMember).toHaveBeenCalledWith(3, userId);
+    });
+  });
+
+  describe('POST /imports/:id/undo - Undo', () => {
+    it('should report imports with paid splits as a conflict', async () => {
+      mockImportRepo.getImportBatchById.mockResolvedValue({ id: 9, userId });
+      mockImportRepo.undoImportBatch.mockRejectedValue(
+        new Error('Import has expenses with paid splits and can no longer be undone')
+      );
+
+      let statusCode = 200;
+      try {
+        await mockImportRepo.undoImportBatch(9);
+      } catch (error) {
+        statusCode = error instanceof Error && error.message.includes('paid splits') ? 409 : 500;
+      }
+
+      expect(statusCode).toBe(409);
+    });
+  });
+});
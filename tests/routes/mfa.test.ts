@@ -0,0 +1,109 @@
+// Mock MFA repository
+const mockMfaRepo = {
+  confirmMfaEnrollment: jest.fn(),
+  disableMfa: jest.fn(),
+  getMfaStatus: jest.fn(),
+  isMfaEnabled: jest.fn(),
+  regenerateRecoveryCodes: jest.fn(),
+  startMfaEnrollment: jest.fn(),
+  verifyMfaCode: jest.fn(),
+};
+
+jest.mock('../../src/repositories/mfaRepo', () => mockMfaRepo);
+
+// Mock auth utils
+const mockAuth = {
+  createAuthResponse: jest.fn(),
+  createMfaChallenge: jest.fn(),
+  verifyMfaPendingToken: jest.fn(),
+};
+
+jest.mock('../../src/utils/auth', () => mockAuth);
+
+describe('MFA Routes', () => {
+  const mockUser = {
+    id: 1,
+    email: 'test@example.com',
+    name: 'Test User',
+    provider: 'local',
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Two-step Login Logic', () => {
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      const challenge = { mfaRequired: true, mfaToken: 'mfa.pending.token', expiresIn: 300 };
+      mockMfaRepo.isMfaEnabled.mockResolvedValue(true);
+      mockAuth.createMfaChallenge.mockReturnValue(challenge);
+
+      const mfaEnabled = await mockMfaRepo.isMfaEnabled(mockUser.id);
+      const response = mfaEnabled
+        ? mockAuth.createMfaChallenge(mockUser)
+        : mockAuth.createAuthResponse(mockUser);
+
+      expect(response).toEqual(challenge);
+      expect(mockAuth.createAuthResponse).not.toHaveBeenCalled();
+    });
+
+    it('should issue tokens once the pending token and code are valid', async () => {
+      mockAuth.verifyMfaPendingToken.mockReturnValue(1);
+      mockMfaRepo.verifyMfaCode.mockResolvedValue('totp');
+      mockAuth.createAuthResponse.mockReturnValue({ user: mockUser, token: 'jwt.token.here' });
+
+      const userId = mockAuth.verifyMfaPendingToken('mfa.pending.token');
+      const method = await mockMfaRepo.verifyMfaCode(userId, '123456');
+
+      expect(userId).toBe(1);
+      expect(method).toBe('totp');
+      expect(mockAuth.createAuthResponse(mockUser).token).toBe('jwt.token.here');
+    });
+
+    it('should reject an expired pending token', () => {
+      mockAuth.verifyMfaPendingToken.mockReturnValue(null);
+
+      const userId = mockAuth.verifyMfaPendingToken('expired.token');
+
+      expect(userId).toBeNull();
+      expect(mockMfaRepo.verifyMfaCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Enrollment Logic', () => {
+    it('should return recovery codes when enrollment is confirmed', async () => {
+      const recoveryCodes = ['aaaaa-11111', 'bbbbb-22222'];
+      mockMfaRepo.confirmMfaEnrollment.mockResolvedValue(recoveryCodes);
+
+      const result = await mockMfaRepo.confirmMfaEnrollment(mockUser.id, '123456');
+
+      expect(result).toEqual(recoveryCodes);
+    });
+
+    it('should map an already enabled error to a conflict', async () => {
+      mockMfaRepo.startMfaEnrollment.mockRejectedValue(
+        new Error('Two-factor authentication is already enabled')
+      );
+
+      try {
+        await mockMfaRepo.startMfaEnrollment(mockUser.id);
+      } catch (error) {
+        const statusCode =
+          error instanceof Error && error.message.includes('already enabled') ? 409 : 500;
+        expect(statusCode).toBe(409);
+      }
+    });
+  });
+
+  describe('Recovery Code Logic', () => {
+    it('should not regenerate recovery codes with a recovery code', async () => {
+      mockMfaRepo.verifyMfaCode.mockResolvedValue('recovery_code');
+
+      const method = await mockMfaRepo.verifyMfaCode(mockUser.id, 'aaaaa-11111');
+
+      expect(method === 'totp').toBe(false);
+      expect(mockMfaRepo.regenerateRecoveryCodes).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+// Mock user repository
+const mockUserRepo = {
+  findOrCreateOAuthUser: jest.fn(),
+  getUserById: jest.fn(),
+  getUserByProvider: jest.fn(),
+  linkProvider: jest.fn(),
+  unlinkProvider: jest.fn(),
+  updateUser: jest.fn(),
+};
+
+jest.mock('../../src/repositories/userRepo', () => mockUserRepo);
+
+// Mock OAuth state repository
+const mockOAuthStateRepo = {
+  createOAuthState: jest.fn(),
+  consumeOAuthState: jest.fn(),
+};
+
+jest.mock('../../src/repositories/oauthStateRepo', () => mockOAuthStateRepo);
+
+// Mock OIDC utils
+const mockOidc = {
+  getProviderConfig: jest.fn(),
+  discoverProvider: jest.fn(),
+  exchangeAuthorizationCode: jest.fn(),
+  verifyIdToken: jest.fn(),
+};
+
+jest.mock('../../src/utils/oidc', () => mockOidc);
+
+describe('OAuth Routes', () => {
+  const config = {
+    name: 'mock',
+    issuer: 'http://mock-oidc.local',
+    clientId: 'expense-svc',
+    scopes: 'openid email profile',
+    redirectUri: 'http://localhost:3000/api/v1/auth/oauth/mock/callback',
+  };
+
+  const identity = {
+    subject: 'provider-user-1',
+    email: 'test@example.com',
+    emailVerified: true,
+    name: 'Test User',
+  };
+
+  const mockUser = {
+    id: 1,
+    email: 'test@example.com',
+    name: 'Test User',
+    password: 'hashedpassword',
+    provider: 'local',
+    providerId: null,
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Callback Logic', () => {
+    it('should sign in with the identity from a verified ID token', async () => {
+      mockOidc.getProviderConfig.mockReturnValue(config);
+      mockOAuthStateRepo.consumeOAuthState.mockResolvedValue({
+        codeVerifier: 'verifier',
+        nonce: 'nonce',
+        userId: null,
+      });
+      mockOidc.exchangeAuthorizationCode.mockResolvedValue('id-token');
+      mockOidc.verifyIdToken.mockResolvedValue(identity);
+      mockUserRepo.findOrCreateOAuthUser.mockResolvedValue({
+        ...mockUser,
+        provider: 'mock',
+        providerId: 'provider-user-1',
+      });
+
+      const pending = await mockOAuthStateRepo.consumeOAuthState('state', config.name);
+      const idToken = await mockOidc.exchangeAuthorizationCode(
+        config,
+        {},
+        'code',
+        pending.codeVerifier
+      );
+      const verified = await mockOidc.verifyIdToken(config, {}, idToken, pending.nonce);
+      const user = await mockUserRepo.findOrCreateOAuthUser({
+        provider: config.name,
+        providerId: verified.subject,
+        email: verified.email,
+        emailVerified: verified.emailVerified,
+      });
+
+      expect(pending.userId).toBeNull();
+      expect(mockOidc.exchangeAuthorizationCode).toHaveBeenCalledWith(
+        config,
+        {},
+        'code',
+        'verifier'
+      );
+      expect(mockOidc.verifyIdToken).toHaveBeenCalledWith(config, {}, 'id-token', 'nonce');
+      expect(user.providerId).toBe('provider-user-1');
+    });
+
+    it('should reject an invalid or replayed state', async () => {
+      mockOAuthStateRepo.consumeOAuthState.mockRejectedValue(
+        new Error('Invalid or expired OAuth state')
+      );
+
+      await expect(mockOAuthStateRepo.consumeOAuthState('state', 'mock')).rejects.toThrow(
+        'Invalid or expired OAuth state'
+      );
+      expect(mockOidc.exchangeAuthorizationCode).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to link an identity owned by another user', async () => {
+      mockOAuthStateRepo.consumeOAuthState.mockResolvedValue({
+        codeVerifier: 'verifier',
+        nonce: 'nonce',
+        userId: 1,
+      });
+      mockUserRepo.getUserByProvider.mockResolvedValue({ ...mockUser, id: 2 });
+
+      const pending = await mockOAuthStateRepo.consumeOAuthState('state', 'mock');
+      const owner = await mockUserRepo.getUserByProvider('mock', identity.subject);
+
+      const conflict = owner && owner.id !== pending.userId;
+      expect(conflict).toBe(true);
+      expect(mockUserRepo.linkProvider).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Unlink Logic', () => {
+    it('should unlink when the account has a password', async () => {
+      const linkedUser = { ...mockUser, provider: 'mock', providerId: 'provider-user-1' };
+      mockUserRepo.getUserById.mockResolvedValue(linkedUser);
+      mockUserRepo.unlinkProvider.mockResolvedValue(mockUser);
+
+      const user = await mockUserRepo.getUserById(1);
+      const canUnlink = user.provider === 'mock' && !!user.providerId && !!user.password;
+
+      expect(canUnlink).toBe(true);
+      const result = await mockUserRepo.unlinkProvider(user.id);
+      expect(result.provider).toBe('local');
+    });
+
+    it('should not unlink the only sign-in method', async () => {
+      const oauthOnlyUser = {
+        ...mockUser,
+        password: null,
+        provider: 'mock',
+        providerId: 'provider-user-1',
+      };
+      mockUserRepo.getUserById.mockResolvedValue(oauthOnlyUser);
+
+      const user = await mockUserRepo.getUserById(1);
+
+      expect(!!user.password).toBe(false);
+      expect(mockUserRepo.unlinkProvider).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// Mock recurring expense repository
+const mockRecurringExpenseRepo = {
+  createRecurringExpense: jest.fn(),
+  getRecurringExpenseById: jest.fn(),
+  skipNextOccurrence: jest.fn(),
+  updateRecurringExpense: jest.fn(),
+};
+
+jest.mock('../../src/repositories/recurringExpenseRepo', () => mockRecurringExpenseRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  areGroupMembers: jest.fn(),
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Recurring Expense Routes', () => {
+  const userId = 1;
+  const recurringExpense = {
+    id: 7,
+    title: 'Rent',
+    amount: { toNumber: () => 900 },
+    userId,
+    groupId: 3,
+    nextRunAt: new Date('2026-11-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /recurring-expenses - Create', () => {
+    it('should reject split participants outside the group', async () => {
+      mockGroupRepo.isGroupMember.mockResolvedValue(true);
+      mockGroupRepo.areGroupMembers.mockResolvedValue(false);
+
+      const body = {
+        groupId: 3,
+        split: { splitType: 'EQUAL', participants: [{ userId: 1 }, { userId: 9 }] },
+      };
+      const isMember = await mockGroupRepo.isGroupMember(body.groupId, userId);
+      const allMembers = await mockGroupRepo.areGroupMembers(
+        body.groupId,
+        body.split.participants.map(participant => participant.userId)
+      );
+      const statusCode = !isMember ? 403 : !allMembers ? 400 : 201;
+
+      expect(statusCode).toBe(400);
+      expect(mockGroupRepo.areGroupMembers).toHaveBeenCalledWith(3, [1, 9]);
+      expect(mockRecurringExpenseRepo.createRecurringExpense).not.toHaveBeenCalled();
+    });
+
+    it('should pass parsed dates to the repository', async () => {
+      mockRecurringExpenseRepo.createRecurringExpense.mockResolvedValue(recurringExpense);
+
+      const body = {
+        title: 'Rent',
+        amount: 900,
+        schedule: 'FREQ=MONTHLY;BYMONTHDAY=1',
+        startDate: '2026-11-01T00:00:00Z',
+      };
+      const { startDate, ...rest } = body;
+      const created = await mockRecurringExpenseRepo.createRecurringExpense({
+        ...rest,
+        userId,
+        startDate: new Date(startDate),
+        endDate: undefined,
+        split: undefined,
+      });
+
+      expect(mockRecurringExpenseRepo.createRecurringExpense).toHaveBeenCalledWith(
+        expect.objectContaining({ startDate: new Date('2026-11-01T00:00:00Z'), userId })
+      );
+      expect(created.amount.toNumber()).toBe(900);
+    });
+  });
+
+  describe('Ownership', () => {
+    it("should hide other users' recurring expenses", async () => {
+      mockRecurringExpenseRepo.getRecurringExpenseById.mockResolvedValue({
+        ...recurringExpense,
+        userId: 2,
+      });
+
+      const existing = await mockRecurringExpenseRepo.getRecurringExpenseById(7);
+      const statusCode = !existing || existing.userId !== userId ? 404 : 200;
+
+      expect(statusCode).toBe(404);
+      expect(mockRecurringExpenseRepo.updateRecurringExpense).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /recurring-expenses/:id/skip - Skip next occurrence', () => {
+    it('should report schedules without an upcoming occurrence as a conflict', async () => {
+      mockRecurringExpenseRepo.skipNextOccurrence.mockRejectedValue(
+        new Error('Recurring expense has no upcoming occurrence')
+      );
+
+      let statusCode = 200;
+      try {
+        await mockRecurringExpenseRepo.skipNextOccurrence(7);
+      } catch (error) {
+        statusCode =
+          error instanceof Error && error.message.includes('no upcoming occurrence') ? 409 : 500;
+      }
+
+      expect(statusCode).toBe(409);
+    });
+  });
+});
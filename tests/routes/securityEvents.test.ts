@@ -0,0 +1,25 @@
+// Mock security event repository
+const mockSecurityEventRepo = {
+  listSecurityEvents: jest.fn(),
+};
+
+jest.mock('../../src/repositories/securityEventRepo', () => mockSecurityEventRepo);
+
+describe('Security Event Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /users/me/security-events - List events', () => {
+    it('should default to the first 50 events', async () => {
+      mockSecurityEventRepo.listSecurityEvents.mockResolvedValue({ events: [], total: 0 });
+
+      const query: { limit?: number; offset?: number } = {};
+      const { limit = 50, offset = 0 } = query;
+      const result = await mockSecurityEventRepo.listSecurityEvents(1, limit, offset);
+
+      expect(mockSecurityEventRepo.listSecurityEvents).toHaveBeenCalledWith(1, 50, 0);
+      expect(result).toEqual({ events: [], total: 0 });
+    });
+  });
+});
@@ -172,9 +172,11 @@ describe('Settlements API', () => {
       const data = JSON.parse(response.body);
       expect(data.user1.name).toBe('Alice API');
       expect(data.user2.name).toBe('Bob API');
-      expect(data.user1OwesUser2).toBe('25'); // $25 from lunch
-      expect(data.user2OwesUser1).toBe('60'); // $60 from dinner
-      expect(data.netAmount).toBe('35'); // User2 owes User1 $35 net
+      expect(data.balances).toHaveLength(1);
+      expect(data.balances[0].currency).toBe('USD');
+      expect(data.balances[0].user1OwesUser2).toBe('25'); // $25 from lunch
+      expect(data.balances[0].user2OwesUser1).toBe('60'); // $60 from dinner
+      expect(data.balances[0].netAmount).toBe('35'); // User2 owes User1 $35 net
       expect(data.splits).toHaveLength(2);
     });
 
@@ -252,6 +254,39 @@ describe('Settlements API', () => {
       expect(data.message).toBe('Cannot settle debt with yourself');
     });
 
+    it('should return 400 when an amount is given for debts in several currencies', async () => {
+      for (const currency of ['USD', 'EUR']) {
+        const expense = await prisma.expense.create({
+          data: {
+            title: `Dinner in ${currency}`,
+            amount: new Decimal('40.00'),
+            currency,
+            userId: testUsers[0].id,
+            groupId: testGroup.id,
+          },
+        });
+
+        await createExpenseSplits({
+          expenseId: expense.id,
+          splitType: SplitType.EQUAL,
+          participants: [{ userId: testUsers[0].id }, { userId: testUsers[1].id }],
+        });
+      }
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/settlements/${testUsers[0].id}/settle`,
+        headers: { authorization: `Bearer ${authHeaders.user2}` },
+        payload: { amount: 20 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const data = JSON.parse(response.body);
+      expect(data.message).toBe(
+        'Currency is required when settling an amount of debts in several currencies'
+      );
+    });
+
     it('should return 400 when no debts exist to settle', async () => {
       const response = await app.inject({
         method: 'POST',
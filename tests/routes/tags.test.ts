@@ -0,0 +1,65 @@
+// Mock tag repository
+const mockTagRepo = {
+  getTagById: jest.fn(),
+  createTag: jest.fn(),
+};
+
+jest.mock('../../src/repositories/tagRepo', () => mockTagRepo);
+
+// Mock group repository
+const mockGroupRepo = {
+  isGroupMember: jest.fn(),
+};
+
+jest.mock('../../src/repositories/groupRepo', () => mockGroupRepo);
+
+describe('Tag Routes', () => {
+  const userId = 1;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /tags - Create', () => {
+    it('should report a duplicate name as a bad request', async () => {
+      mockTagRepo.createTag.mockRejectedValue(
+        Object.assign(new Error('Unique'), { code: 'P2002' })
+      );
+
+      let statusCode = 201;
+      try {
+        await mockTagRepo.createTag({ userId }, { name: 'travel' });
+      } catch (error: any) {
+        statusCode = error.code === 'P2002' ? 400 : 500;
+      }
+
+      expect(statusCode).toBe(400);
+    });
+  });
+
+  describe('PUT /tags/:id - Update', () => {
+    it("should hide another user's personal tag", async () => {
+      mockTagRepo.getTagById.mockResolvedValue({ id: 4, userId: 2, groupId: null });
+
+      const tag = await mockTagRepo.getTagById(4);
+      const canManage = tag.groupId
+        ? await mockGroupRepo.isGroupMember(tag.groupId, userId)
+        : tag.userId === userId;
+
+      expect(canManage ? 200 : 404).toBe(404);
+    });
+
+    it('should let any group member edit a group tag', async () => {
+      mockTagRepo.getTagById.mockResolvedValue({ id: 5, userId: null, groupId: 3 });
+      mockGroupRepo.isGroupMember.mockResolvedValue(true);
+
+      const tag = await mockTagRepo.getTagById(5);
+      const canManage = tag.groupId
+        ? await mockGroupRepo.isGroupMember(tag.groupId, userId)
+        : tag.userId === userId;
+
+      expect(canManage ? 200 : 404).toBe(200);
+      expect(mockGroupRepo.isGroupMember).toHaveBeenCalledWith(3, userId);
+    });
+  });
+});
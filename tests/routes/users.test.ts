@@ -1,3 +1,9 @@
+// Mock Prisma client for the repositories the route loads but these tests don't use
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
 // Mock user repository
 const mockUserRepo = {
   createUser: jest.fn(),
@@ -7,21 +13,57 @@ const mockUserRepo = {
   getUserProfile: jest.fn(),
   getUserById: jest.fn(),
   updateUser: jest.fn(),
+  verifyCurrentPassword: jest.fn(),
+  setPassword: jest.fn(),
 };
 
 jest.mock('../../src/repositories/userRepo', () => mockUserRepo);
 
+// Mock session repository
+const mockSessionRepo = {
+  isSessionActive: jest.fn(),
+  revokeAllUserSessions: jest.fn(),
+};
+
+jest.mock('../../src/repositories/sessionRepo', () => mockSessionRepo);
+
+// Mock login throttle and security log
+const mockLoginThrottleRepo = {
+  accountThrottleKey: jest.fn(),
+  clearFailedLogins: jest.fn(),
+};
+
+jest.mock('../../src/repositories/loginThrottleRepo', () => mockLoginThrottleRepo);
+
+const mockSecurityEventRepo = {
+  recordSecurityEvent: jest.fn(),
+};
+
+jest.mock('../../src/repositories/securityEventRepo', () => mockSecurityEventRepo);
+
+const mockLoginProtection = {
+  checkLoginThrottle: jest.fn(),
+  createThrottledResponse: jest.fn(),
+  registerFailedLogin: jest.fn(),
+};
+
+jest.mock('../../src/utils/loginProtection', () => mockLoginProtection);
+
 // Mock auth utils
 const mockAuth = {
   createAuthResponse: jest.fn(),
   isValidEmail: jest.fn(),
   isValidPassword: jest.fn(),
   isValidUsername: jest.fn(),
+  isApiToken: jest.fn(),
   verifyToken: jest.fn(),
 };
 
 jest.mock('../../src/utils/auth', () => mockAuth);
 
+import Fastify from 'fastify';
+import usersRoute from '../../src/routes/users';
+
 describe('User Routes', () => {
   const mockUser = {
     id: 1,
@@ -217,4 +259,88 @@ describe('User Routes', () => {
       expect(result.valid).toBe(true);
     });
   });
+
+  describe('PUT /users/password', () => {
+    const changePassword = async (currentPassword: string) => {
+      const app = Fastify();
+      await app.register(usersRoute);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/users/password',
+        headers: { authorization: 'Bearer jwt.token.here' },
+        payload: { currentPassword, newPassword: 'NewPassword123' },
+      });
+      await app.close();
+      return response;
+    };
+
+    beforeEach(() => {
+      mockAuth.isApiToken.mockReturnValue(false);
+      mockAuth.verifyToken.mockReturnValue({
+        userId: mockUser.id,
+        email: mockUser.email,
+        provider: 'local',
+        sessionId: 'session-1',
+      });
+      mockAuth.isValidPassword.mockReturnValue({ valid: true });
+      mockUserRepo.getUserById.mockResolvedValue({ ...mockUser, isActive: true });
+      mockSessionRepo.isSessionActive.mockResolvedValue(true);
+      mockSessionRepo.revokeAllUserSessions.mockResolvedValue(2);
+      mockLoginThrottleRepo.accountThrottleKey.mockReturnValue('account:test@example.com');
+      mockLoginProtection.checkLoginThrottle.mockResolvedValue({ blocked: false });
+    });
+
+    it('should not check the current password while throttled', async () => {
+      mockLoginProtection.checkLoginThrottle.mockResolvedValue({
+        blocked: true,
+        locked: false,
+        retryAfterSeconds: 60,
+      });
+      mockLoginProtection.createThrottledResponse.mockReturnValue({
+        message: 'Too many failed login attempts, please wait before trying again',
+        error: 'Too Many Requests',
+        statusCode: 429,
+        retryAfter: 60,
+      });
+
+      const response = await changePassword('Password123');
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('60');
+      expect(mockUserRepo.verifyCurrentPassword).not.toHaveBeenCalled();
+      expect(mockUserRepo.setPassword).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong current password as a failed login', async () => {
+      mockUserRepo.verifyCurrentPassword.mockResolvedValue(false);
+
+      const response = await changePassword('wrong');
+
+      expect(response.statusCode).toBe(401);
+      expect(mockLoginProtection.registerFailedLogin).toHaveBeenCalledWith(
+        'test@example.com',
+        expect.any(Object),
+        1,
+        'invalid_password'
+      );
+      expect(mockUserRepo.setPassword).not.toHaveBeenCalled();
+    });
+
+    it('should clear failed attempts once the password is changed', async () => {
+      mockUserRepo.verifyCurrentPassword.mockResolvedValue(true);
+
+      const response = await changePassword('Password123');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        message: 'Password changed successfully',
+        revokedSessions: 2,
+      });
+      expect(mockUserRepo.setPassword).toHaveBeenCalledWith(1, 'NewPassword123');
+      expect(mockLoginThrottleRepo.clearFailedLogins).toHaveBeenCalledWith(
+        'account:test@example.com'
+      );
+    });
+  });
 });
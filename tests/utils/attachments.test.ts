@@ -0,0 +1,148 @@
+import sharp from 'sharp';
+import { verifyAttachmentDownloadToken } from '../../src/utils/auth';
+import {
+  detectMimeType,
+  getAttachmentLinks,
+  getContentDisposition,
+  removeAttachmentFiles,
+  sanitizeFileName,
+  storeAttachment,
+} from '../../src/utils/attachments';
+import { setStorageDriver, StorageDriver } from '../../src/utils/storage';
+
+describe('Attachments', () => {
+  const files = new Map<string, Buffer>();
+  const driver: StorageDriver = {
+    name: 'memory',
+    async put(key, data) {
+      files.set(key, data);
+    },
+    async get(key) {
+      return files.get(key) ?? null;
+    },
+    async delete(key) {
+      files.delete(key);
+    },
+  };
+
+  beforeAll(() => {
+    setStorageDriver(driver);
+  });
+
+  afterEach(() => {
+    files.clear();
+  });
+
+  describe('detectMimeType', () => {
+    it('should detect accepted types from their leading bytes', () => {
+      expect(detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+      expect(detectMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+      expect(detectMimeType(Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 '))).toBe('image/webp');
+      expect(detectMimeType(Buffer.from('GIF89a'))).toBe('image/gif');
+    });
+
+    it('should not trust anything else', () => {
+      expect(detectMimeType(Buffer.from('<html><script>'))).toBeNull();
+      expect(detectMimeType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should strip directories, quotes and control characters', () => {
+      expect(sanitizeFileName('C:\\Users\\me\\receipt.pdf')).toBe('receipt.pdf');
+      expect(sanitizeFileName('../../"evil"\r\n.png')).toBe('evil.png');
+      expect(sanitizeFileName('\u0000')).toBe('attachment');
+    });
+  });
+
+  describe('getContentDisposition', () => {
+    it('should include an ASCII fallback and the encoded name', () => {
+      expect(getContentDisposition('reçu.pdf')).toBe(
+        `inline; filename="re_u.pdf"; filename*=UTF-8''re%C3%A7u.pdf`
+      );
+    });
+  });
+
+  describe('storeAttachment', () => {
+    it('should store an image with a thumbnail', async () => {
+      const image = await sharp({
+        create: { width: 800, height: 400, channels: 3, background: '#ffffff' },
+      })
+        .png()
+        .toBuffer();
+
+      const stored = await storeAttachment(3, 'photo.png', image);
+
+      expect(stored).toMatchObject({
+        fileName: 'photo.png',
+        mimeType: 'image/png',
+        sizeBytes: image.length,
+      });
+      expect(stored.storageKey).toMatch(/^expenses\/3\/[0-9a-f]{32}\.png$/);
+      expect(stored.thumbnailKey).toBe(stored.storageKey.replace('.png', '-thumbnail.jpg'));
+
+      const thumbnail = await sharp(files.get(stored.thumbnailKey!)).metadata();
+      expect(thumbnail).toMatchObject({ format: 'jpeg', width: 320, height: 160 });
+    });
+
+    it('should store PDFs without a thumbnail', async () => {
+      const stored = await storeAttachment(3, 'invoice.pdf', Buffer.from('%PDF-1.4 ...'));
+
+      expect(stored.mimeType).toBe('application/pdf');
+      expect(stored.thumbnailKey).toBeNull();
+      expect([...files.keys()]).toEqual([stored.storageKey]);
+    });
+
+    it('should reject unsupported files', async () => {
+      await expect(storeAttachment(3, 'notes.txt', Buffer.from('hello'))).rejects.toThrow(
+        'Unsupported file type'
+      );
+      expect(files.size).toBe(0);
+    });
+
+    it('should reject images that cannot be decoded', async () => {
+      const truncated = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+      await expect(storeAttachment(3, 'broken.png', truncated)).rejects.toThrow('Invalid image');
+      expect(files.size).toBe(0);
+    });
+  });
+
+  describe('removeAttachmentFiles', () => {
+    it('should delete originals and thumbnails', async () => {
+      for (const key of ['a.png', 'a-thumbnail.jpg', 'b.pdf', 'c.pdf']) {
+        files.set(key, Buffer.from(key));
+      }
+
+      await removeAttachmentFiles([
+        { storageKey: 'a.png', thumbnailKey: 'a-thumbnail.jpg' },
+        { storageKey: 'b.pdf', thumbnailKey: null },
+      ]);
+
+      expect([...files.keys()]).toEqual(['c.pdf']);
+    });
+  });
+
+  describe('getAttachmentLinks', () => {
+    it('should sign a link per variant', () => {
+      const links = getAttachmentLinks({ id: 9, thumbnailKey: 'a-thumbnail.jpg' });
+
+      const token = new URL(links.downloadUrl).searchParams.get('token')!;
+      expect(links.downloadUrl).toContain('/api/v1/attachments/9/content?token=');
+      expect(verifyAttachmentDownloadToken(token)).toEqual({
+        attachmentId: 9,
+        variant: 'original',
+      });
+
+      const thumbnailToken = new URL(links.thumbnailUrl!).searchParams.get('token')!;
+      expect(verifyAttachmentDownloadToken(thumbnailToken)).toEqual({
+        attachmentId: 9,
+        variant: 'thumbnail',
+      });
+    });
+
+    it('should not link a thumbnail that does not exist', () => {
+      expect(getAttachmentLinks({ id: 9, thumbnailKey: null }).thumbnailUrl).toBeNull();
+    });
+  });
+});
@@ -5,6 +5,14 @@ import {
   verifyToken,
   toSafeUser,
   createAuthResponse,
+  createMfaChallenge,
+  verifyMfaPendingToken,
+  createAttachmentDownloadToken,
+  verifyAttachmentDownloadToken,
+  generateRefreshToken,
+  generateApiToken,
+  isApiToken,
+  hashToken,
   isValidEmail,
   isValidPassword,
   isValidUsername,
@@ -28,6 +36,8 @@ describe('Auth Utils', () => {
     providerId: null,
     isEmailVerified: false,
     isActive: true,
+    role: 'USER',
+    defaultCurrency: 'USD',
     createdAt: new Date('2023-01-01'),
     updatedAt: new Date('2023-01-01'),
     lastLoginAt: null,
@@ -51,10 +61,51 @@ describe('Auth Utils', () => {
           provider: mockUser.provider,
         },
         expect.any(String),
-        { expiresIn: '7d' }
+        { expiresIn: '15m' }
       );
       expect(token).toBe(mockToken);
     });
+
+    it('should bind the token to a session when a session ID is given', () => {
+      mockedJwt.sign.mockReturnValue('mock.jwt.token' as any);
+
+      generateToken(mockUser, 'session-1');
+
+      expect(mockedJwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, sessionId: 'session-1' }),
+        expect.any(String),
+        { expiresIn: '15m' }
+      );
+    });
+  });
+
+  describe('generateRefreshToken', () => {
+    it('should generate distinct opaque tokens', () => {
+      const first = generateRefreshToken();
+      const second = generateRefreshToken();
+
+      expect(first).toMatch(/^[A-Za-z0-9_-]{64}$/);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('generateApiToken', () => {
+    it('should generate prefixed tokens that are recognized as API tokens', () => {
+      const token = generateApiToken();
+
+      expect(token).toMatch(/^pat_[A-Za-z0-9_-]{43}$/);
+      expect(isApiToken(token)).toBe(true);
+      expect(isApiToken('eyJhbGciOiJIUzI1NiJ9.payload.signature')).toBe(false);
+    });
+  });
+
+  describe('hashToken', () => {
+    it('should produce a stable SHA-256 hex digest', () => {
+      expect(hashToken('abc')).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+      expect(hashToken('abc')).toBe(hashToken('abc'));
+    });
   });
 
   describe('verifyToken', () => {
@@ -81,6 +132,85 @@ describe('Auth Utils', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should not accept MFA pending tokens as access tokens', () => {
+      mockedJwt.verify.mockReturnValue({ userId: 1, purpose: 'mfa_pending' } as any);
+
+      const result = verifyToken('mfa.pending.token');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('createMfaChallenge', () => {
+    it('should sign a short-lived purpose-bound token', () => {
+      mockedJwt.sign.mockReturnValue('mfa.pending.token' as any);
+
+      const result = createMfaChallenge(mockUser);
+
+      expect(mockedJwt.sign).toHaveBeenCalledWith(
+        { userId: 1, purpose: 'mfa_pending' },
+        expect.any(String),
+        { expiresIn: 300 }
+      );
+      expect(result).toEqual({ mfaRequired: true, mfaToken: 'mfa.pending.token', expiresIn: 300 });
+    });
+  });
+
+  describe('verifyMfaPendingToken', () => {
+    it('should return the user ID of a pending token', () => {
+      mockedJwt.verify.mockReturnValue({ userId: 1, purpose: 'mfa_pending' } as any);
+
+      expect(verifyMfaPendingToken('mfa.pending.token')).toBe(1);
+    });
+
+    it('should reject access tokens and invalid tokens', () => {
+      mockedJwt.verify.mockReturnValueOnce({ userId: 1, email: 'test@example.com' } as any);
+      mockedJwt.verify.mockImplementationOnce(() => {
+        throw new Error('Invalid token');
+      });
+
+      expect(verifyMfaPendingToken('access.token')).toBeNull();
+      expect(verifyMfaPendingToken('invalid.token')).toBeNull();
+    });
+  });
+
+  describe('createAttachmentDownloadToken', () => {
+    it('should sign a short-lived purpose-bound token for one attachment variant', () => {
+      mockedJwt.sign.mockReturnValue('attachment.token' as any);
+
+      expect(createAttachmentDownloadToken(5, 'thumbnail')).toBe('attachment.token');
+      expect(mockedJwt.sign).toHaveBeenCalledWith(
+        { attachmentId: 5, variant: 'thumbnail', purpose: 'attachment_download' },
+        expect.any(String),
+        { expiresIn: 900 }
+      );
+    });
+  });
+
+  describe('verifyAttachmentDownloadToken', () => {
+    it('should return the attachment and variant of a download token', () => {
+      mockedJwt.verify.mockReturnValue({
+        attachmentId: 5,
+        variant: 'original',
+        purpose: 'attachment_download',
+      } as any);
+
+      expect(verifyAttachmentDownloadToken('attachment.token')).toEqual({
+        attachmentId: 5,
+        variant: 'original',
+      });
+    });
+
+    it('should reject access tokens and invalid tokens', () => {
+      mockedJwt.verify.mockReturnValueOnce({ userId: 1, email: 'test@example.com' } as any);
+      mockedJwt.verify.mockImplementationOnce(() => {
+        throw new Error('Invalid token');
+      });
+
+      expect(verifyAttachmentDownloadToken('access.token')).toBeNull();
+      expect(verifyAttachmentDownloadToken('invalid.token')).toBeNull();
+    });
   });
 
   describe('toSafeUser', () => {
@@ -113,6 +243,23 @@ describe('Auth Utils', () => {
       expect(authResponse).toHaveProperty('token');
       expect(authResponse.user).not.toHaveProperty('password');
       expect(authResponse.token).toBe(mockToken);
+      expect(authResponse).not.toHaveProperty('refreshToken');
+    });
+
+    it('should include the refresh token when a session is given', () => {
+      mockedJwt.sign.mockReturnValue('mock.jwt.token' as any);
+
+      const authResponse = createAuthResponse(mockUser, {
+        id: 'session-1',
+        refreshToken: 'refresh-token',
+      });
+
+      expect(authResponse.refreshToken).toBe('refresh-token');
+      expect(mockedJwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-1' }),
+        expect.any(String),
+        expect.any(Object)
+      );
     });
   });
 
@@ -0,0 +1,50 @@
+import { formatCsvRow, parseCsv } from '../../src/utils/csv';
+
+describe('CSV Utilities', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('date,amount\n2026-01-02,12.50\n')).toEqual([
+        ['date', 'amount'],
+        ['2026-01-02', '12.50'],
+      ]);
+    });
+
+    it('should handle quoted delimiters, escaped quotes and line breaks', () => {
+      expect(parseCsv('"Smith, J","Say ""hi""","two\r\nlines"\r\nnext,,')).toEqual([
+        ['Smith, J', 'Say "hi"', 'two\r\nlines'],
+        ['next', '', ''],
+      ]);
+    });
+
+    it('should use a custom delimiter, skip blank lines and drop a byte order mark', () => {
+      expect(parseCsv('\uFEFFa;b\n\n1,5;2\n', ';')).toEqual([
+        ['a', 'b'],
+        ['1,5', '2'],
+      ]);
+    });
+
+    it('should reject an unterminated quoted field', () => {
+      expect(() => parseCsv('a,"b\n')).toThrow('Invalid CSV: unterminated quoted field');
+    });
+  });
+
+  describe('formatCsvRow', () => {
+    it('should quote fields that need it and end with CRLF', () => {
+      expect(formatCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines', null])).toBe(
+        'plain,"a,b","say ""hi""","two\nlines",\r\n'
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const fields = ['Café, Paris', '"quoted"', 'multi\r\nline'];
+
+      expect(parseCsv(formatCsvRow(fields))).toEqual([fields]);
+    });
+
+    it('should neutralize text a spreadsheet would treat as a formula', () => {
+      expect(formatCsvRow(['=SUM(A1)', '@cmd', '-12.50', '+44 20'])).toBe(
+        "'=SUM(A1),'@cmd,-12.50,'+44 20\r\n"
+      );
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// Mock expense repository
+const mockExpenseRepo = {
+  getExpenseExportPage: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRepo', () => mockExpenseRepo);
+
+import { Decimal } from '@prisma/client/runtime/library';
+import { exportExpenses, getExpenseShare } from '../../src/utils/expenseExport';
+
+describe('Expense Export', () => {
+  const dinner = {
+    id: 11,
+    title: 'Dinner, Rome',
+    description: 'Team "offsite"',
+    amount: new Decimal('90.00'),
+    currency: 'EUR',
+    paidAt: new Date('2026-03-02T19:30:00Z'),
+    userId: 1,
+    user: { id: 1, name: 'Ana' },
+    category: { id: 5, name: 'Food' },
+    group: { id: 3, name: 'Trip' },
+    tags: [{ tag: { name: 'offsite' } }, { tag: { name: 'reimbursable' } }],
+    payers: [],
+    splits: [
+      { userId: 1, amount: new Decimal('30.00'), isPaid: true, user: { name: 'Ana' } },
+      { userId: 2, amount: new Decimal('60.00'), isPaid: false, user: { name: 'Ben' } },
+    ],
+  };
+
+  const taxi = {
+    id: 12,
+    title: 'Taxi <airport>',
+    description: null,
+    amount: new Decimal('25.00'),
+    currency: 'USD',
+    paidAt: new Date('2026-03-05T08:00:00Z'),
+    userId: 1,
+    user: { id: 1, name: 'Ana' },
+    category: null,
+    group: null,
+    tags: [],
+    payers: [],
+    splits: [],
+  };
+
+  const collect = async (generator: AsyncGenerator<string>) => {
+    let output = '';
+    for await (const chunk of generator) {
+      output += chunk;
+    }
+    return output;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExpenseRepo.getExpenseExportPage.mockResolvedValue([dinner, taxi]);
+  });
+
+  describe('getExpenseShare', () => {
+    it("should use the user's splits, or the whole amount of unsplit expenses they paid", () => {
+      expect(getExpenseShare(dinner as any, 2)).toEqual(new Decimal(60));
+      expect(getExpenseShare(dinner as any, 7)).toEqual(new Decimal(0));
+      expect(getExpenseShare(taxi as any, 1)).toEqual(new Decimal(25));
+      expect(getExpenseShare(taxi as any, 2)).toEqual(new Decimal(0));
+    });
+  });
+
+  describe('exportExpenses', () => {
+    it('should write CSV with category, group, tag and split columns', async () => {
+      const csv = await collect(
+        exportExpenses({ userId: 1 }, { format: 'csv', amount: 'full', userId: 1 })
+      );
+
+      expect(csv.split('\r\n')).toEqual([
+        '\uFEFFDate,Title,Description,Amount,Currency,Category,Group,Tags,Paid by,Split shares',
+        '2026-03-02,"Dinner, Rome","Team ""offsite""",90.00,EUR,Food,Trip,offsite; reimbursable,Ana,Ana 30.00; Ben 60.00',
+        '2026-03-05,Taxi <airport>,,25.00,USD,,,,Ana,',
+        '',
+      ]);
+    });
+
+    it("should export the user's share when asked", async () => {
+      const json = await collect(
+        exportExpenses({ groupId: 3 }, { format: 'json', amount: 'share', userId: 2 })
+      );
+      const records = JSON.parse(json);
+
+      expect(records.map((record: { amount: string }) => record.amount)).toEqual(['60.00', '0.00']);
+      expect(records[0]).toMatchObject({
+        totalAmount: '90.00',
+        category: { id: 5, name: 'Food' },
+        tags: ['offsite', 'reimbursable'],
+        paidBy: [{ userId: 1, name: 'Ana', amount: '90.00' }],
+      });
+    });
+
+    it('should write QIF transactions as money out', async () => {
+      const qif = await collect(
+        exportExpenses({ userId: 1 }, { format: 'qif', amount: 'full', userId: 1 })
+      );
+
+      expect(qif).toBe(
+        '!Type:Bank\r\n' +
+          'D03/02/2026\r\nT-90.00\r\nPDinner, Rome\r\nMTeam "offsite" (EUR)\r\nLFood\r\n^\r\n' +
+          'D03/05/2026\r\nT-25.00\r\nPTaxi <airport>\r\nMUSD\r\n^\r\n'
+      );
+    });
+
+    it('should write an OFX statement in the currency of the oldest expense', async () => {
+      const ofx = await collect(
+        exportExpenses(
+          { userId: 1, fromDate: new Date('2026-03-01') },
+          { format: 'ofx', amount: 'full', userId: 1 }
+        )
+      );
+
+      expect(ofx).toMatch(/^OFXHEADER:100\r\n/);
+      expect(ofx).toContain('<CURDEF>EUR');
+      expect(ofx).toContain('<DTSTART>20260301000000');
+      expect(ofx).toContain('<TRNAMT>-25.00\r\n<FITID>12\r\n<NAME>Taxi &lt;airport&gt;');
+      expect(ofx).toContain('<MEMO>Amount in USD');
+      expect(ofx).toMatch(/<\/OFX>\r\n$/);
+    });
+
+    it('should read further pages after a full one', async () => {
+      mockExpenseRepo.getExpenseExportPage
+        .mockResolvedValueOnce(
+          Array.from({ length: 500 }, (_, index) => ({ ...taxi, id: index + 1 }))
+        )
+        .mockResolvedValueOnce([{ ...taxi, id: 501 }]);
+
+      const json = await collect(
+        exportExpenses({ userId: 1 }, { format: 'json', amount: 'full', userId: 1 })
+      );
+
+      expect(JSON.parse(json)).toHaveLength(501);
+      expect(mockExpenseRepo.getExpenseExportPage).toHaveBeenNthCalledWith(
+        2,
+        { userId: 1 },
+        500,
+        500
+      );
+    });
+
+    it('should write an empty export when nothing matches', async () => {
+      mockExpenseRepo.getExpenseExportPage.mockResolvedValue([]);
+
+      const json = await collect(
+        exportExpenses({ userId: 1 }, { format: 'json', amount: 'full', userId: 1 })
+      );
+
+      expect(json).toBe('[]');
+    });
+  });
+});
@@ -0,0 +1,303 @@
+// Mock repositories used by the import pipeline
+const mockExpenseRepo = {
+  createExpense: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRepo', () => mockExpenseRepo);
+
+const mockCategoryRepo = {
+  canUserAccessCategory: jest.fn(),
+  getUserCategories: jest.fn(),
+};
+
+jest.mock('../../src/repositories/categoryRepo', () => mockCategoryRepo);
+
+const mockImportRepo = {
+  commitImportBatch: jest.fn(),
+  createImportBatch: jest.fn(),
+  getCategorizedExpenses: jest.fn(),
+  getExpensesInRange: jest.fn(),
+  IMPORT_MAX_ROWS: 5000,
+};
+
+jest.mock('../../src/repositories/importRepo', () => mockImportRepo);
+
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  commitImport,
+  descriptionSimilarity,
+  ImportRow,
+  parseStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  previewImport,
+  summarizeImportRows,
+  validateImportProfile,
+} from '../../src/utils/expenseImport';
+
+describe('Expense Import', () => {
+  const profile = {
+    id: 4,
+    userId: 1,
+    name: 'Checking',
+    delimiter: ',',
+    hasHeader: true,
+    dateColumn: 'Date',
+    descriptionColumn: 'Description',
+    amountColumn: 'Amount',
+    debitColumn: null,
+    creditColumn: null,
+    amountSign: 'NEGATIVE' as const,
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: '.',
+    currency: 'EUR',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const row = (overrides: Partial<ImportRow>): ImportRow => ({
+    row: 2,
+    date: '2026-03-01',
+    description: 'Coffee',
+    amount: '3.50',
+    suggestedCategoryId: null,
+    duplicateOfExpenseId: null,
+    error: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockImportRepo.getExpensesInRange.mockResolvedValue([]);
+    mockImportRepo.getCategorizedExpenses.mockResolvedValue([]);
+    mockCategoryRepo.getUserCategories.mockResolvedValue([]);
+    mockImportRepo.createImportBatch.mockImplementation(async data => ({ id: 9, ...data }));
+  });
+
+  describe('validateImportProfile', () => {
+    it('should require exactly one way of reading amounts', () => {
+      expect(() => validateImportProfile({ amountColumn: 'Amount', debitColumn: 'Out' })).toThrow(
+        'not both'
+      );
+      expect(() => validateImportProfile({ creditColumn: 'In' })).toThrow(
+        'amountColumn or debitColumn is required'
+      );
+      expect(() => validateImportProfile({ debitColumn: 'Out', creditColumn: 'In' })).not.toThrow();
+    });
+
+    it('should check the date format', () => {
+      expect(() => validateImportProfile({ amountColumn: '3', dateFormat: 'MM/DD' })).toThrow(
+        'Invalid import profile: dateFormat must contain YYYY, MM and DD once each'
+      );
+    });
+  });
+
+  describe('parseStatementDate', () => {
+    it('should read dates in the given format', () => {
+      expect(parseStatementDate('05/03/2026', 'DD/MM/YYYY')).toEqual(new Date('2026-03-05'));
+      expect(parseStatementDate('2026.3.5', 'YYYY.MM.DD')).toEqual(new Date('2026-03-05'));
+    });
+
+    it('should reject dates that do not exist or do not match', () => {
+      expect(parseStatementDate('31/02/2026', 'DD/MM/YYYY')).toBeNull();
+      expect(parseStatementDate('2026-03-05', 'DD/MM/YYYY')).toBeNull();
+    });
+  });
+
+  describe('parseStatementAmount', () => {
+    it('should handle signs, symbols and separators', () => {
+      expect(parseStatementAmount('-1,234.56', '.')).toEqual(new Decimal('-1234.56'));
+      expect(parseStatementAmount('€ 1.234,56', ',')).toEqual(new Decimal('1234.56'));
+      expect(parseStatementAmount('(12.00)', '.')).toEqual(new Decimal(-12));
+      expect(parseStatementAmount('12.00-', '.')).toEqual(new Decimal(-12));
+    });
+
+    it('should return null when there is no number', () => {
+      expect(parseStatementAmount('n/a', '.')).toBeNull();
+      expect(parseStatementAmount('', '.')).toBeNull();
+    });
+  });
+
+  describe('parseStatement', () => {
+    it('should turn money out into expense rows and flag the rest', () => {
+      const rows = parseStatement(
+        'Date,Description,Amount\n' +
+          '01/03/2026,"Corner  Cafe",-3.50\n' +
+          '02/03/2026,Salary,2000.00\n' +
+          '2026-03-03,Books,-20\n',
+        profile
+      );
+
+      expect(rows).toEqual([
+        row({ row: 2, date: '2026-03-01', description: 'Corner Cafe', amount: '3.50' }),
+        row({
+          row: 3,
+          date: '2026-03-02',
+          description: 'Salary',
+          amount: null,
+          error: 'Not an expense (money in)',
+        }),
+        row({
+          row: 4,
+          date: null,
+          description: 'Books',
+          amount: '20.00',
+          error: 'Date does not match DD/MM/YYYY',
+        }),
+      ]);
+    });
+
+    it('should read debit and credit columns by number without a header', () => {
+      const rows = parseStatement('2026-03-01;Rent;900,00;\n2026-03-02;Refund;;15,00\n', {
+        ...profile,
+        delimiter: ';',
+        hasHeader: false,
+        dateColumn: '1',
+        descriptionColumn: '2',
+        amountColumn: null,
+        debitColumn: '3',
+        creditColumn: '4',
+        dateFormat: 'YYYY-MM-DD',
+        decimalSeparator: ',',
+      });
+
+      expect(rows.map(parsed => [parsed.row, parsed.amount, parsed.error])).toEqual([
+        [1, '900.00', null],
+        [2, null, 'Not an expense (money in)'],
+      ]);
+    });
+
+    it('should report mapped columns missing from the header', () => {
+      expect(() => parseStatement('When,What,Amount\n', profile)).toThrow(
+        'Column "Date" not found in the statement'
+      );
+    });
+  });
+
+  describe('descriptionSimilarity', () => {
+    it('should compare the words of two descriptions', () => {
+      expect(descriptionSimilarity('CARD PAYMENT Tesco Stores 3021', 'Tesco stores')).toBe(1);
+      expect(descriptionSimilarity('Tesco', 'Shell fuel')).toBe(0);
+    });
+  });
+
+  describe('previewImport', () => {
+    const statement = Buffer.from(
+      'Date,Description,Amount\n01/03/2026,TESCO STORES 3021,-42.10\n02/03/2026,Uber trip,-12.00\n'
+    );
+
+    it('should flag likely duplicates and suggest categories', async () => {
+      mockImportRepo.getExpensesInRange.mockResolvedValue([
+        { id: 31, title: 'Tesco', amount: new Decimal('42.10'), paidAt: new Date('2026-03-02') },
+        { id: 32, title: 'Uber', amount: new Decimal('15.00'), paidAt: new Date('2026-03-02') },
+      ]);
+      mockImportRepo.getCategorizedExpenses.mockResolvedValue([
+        { title: 'Tesco weekly shop', categoryId: 5 },
+      ]);
+      mockCategoryRepo.getUserCategories.mockResolvedValue([{ id: 8, name: 'Uber & Taxis' }]);
+
+      const batch = await previewImport(1, profile, 'march.csv', statement, 3);
+      const rows = batch.rows as unknown as ImportRow[];
+
+      expect(rows[0]).toMatchObject({ duplicateOfExpenseId: 31, suggestedCategoryId: 5 });
+      expect(rows[1]).toMatchObject({ duplicateOfExpenseId: null, suggestedCategoryId: 8 });
+      expect(mockImportRepo.createImportBatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          groupId: 3,
+          profileId: 4,
+          fileName: 'march.csv',
+          currency: 'EUR',
+        })
+      );
+      expect(summarizeImportRows(rows)).toEqual({
+        total: 2,
+        importable: 1,
+        duplicates: 1,
+        errors: 0,
+      });
+    });
+
+    it('should match each existing expense to one row at most', async () => {
+      mockImportRepo.getExpensesInRange.mockResolvedValue([
+        { id: 31, title: 'Tesco', amount: new Decimal('42.10'), paidAt: new Date('2026-03-01') },
+      ]);
+
+      const batch = await previewImport(
+        1,
+        profile,
+        'march.csv',
+        Buffer.from('Date,Description,Amount\n01/03/2026,Tesco,-42.10\n01/03/2026,Tesco,-42.10\n')
+      );
+      const rows = batch.rows as unknown as ImportRow[];
+
+      expect(rows.map(parsed => parsed.duplicateOfExpenseId)).toEqual([31, null]);
+    });
+  });
+
+  describe('commitImport', () => {
+    const batch = {
+      id: 9,
+      userId: 1,
+      groupId: null,
+      currency: 'EUR',
+      rows: [
+        row({ row: 2, suggestedCategoryId: 5 }),
+        row({ row: 3, duplicateOfExpenseId: 31 }),
+        row({ row: 4, error: 'Description is empty' }),
+      ],
+    };
+
+    beforeEach(() => {
+      mockCategoryRepo.canUserAccessCategory.mockResolvedValue(true);
+      mockImportRepo.commitImportBatch.mockImplementation(async (_id, createExpenses) => ({
+        expenseCount: await createExpenses('tx'),
+      }));
+    });
+
+    it('should import rows without errors or duplicates by default', async () => {
+      const result = await commitImport(batch as any);
+
+      expect(result).toEqual({ expenseCount: 1 });
+      expect(mockExpenseRepo.createExpense).toHaveBeenCalledWith(
+        {
+          title: 'Coffee',
+          amount: new Decimal('3.50'),
+          currency: 'EUR',
+          userId: 1,
+          groupId: undefined,
+          categoryId: 5,
+          paidAt: new Date('2026-03-01'),
+          importBatchId: 9,
+        },
+        'tx'
+      );
+    });
+
+    it('should import chosen rows with category overrides', async () => {
+      await commitImport(batch as any, { rows: [2, 3], categories: { 2: null, 3: 7 } });
+
+      expect(mockExpenseRepo.createExpense).toHaveBeenCalledTimes(2);
+      expect(mockExpenseRepo.createExpense.mock.calls[0][0].categoryId).toBeUndefined();
+      expect(mockExpenseRepo.createExpense.mock.calls[1][0].categoryId).toBe(7);
+      expect(mockCategoryRepo.canUserAccessCategory).toHaveBeenCalledWith(1, 7);
+    });
+
+    it('should refuse rows that cannot be imported', async () => {
+      await expect(commitImport(batch as any, { rows: [4] })).rejects.toThrow(
+        'Row 4 cannot be imported: Description is empty'
+      );
+      await expect(commitImport(batch as any, { rows: [99] })).rejects.toThrow(
+        'Row 99 is not part of this import'
+      );
+      expect(mockImportRepo.commitImportBatch).not.toHaveBeenCalled();
+    });
+
+    it('should refuse categories the user cannot use', async () => {
+      mockCategoryRepo.canUserAccessCategory.mockResolvedValue(false);
+
+      await expect(commitImport(batch as any)).rejects.toThrow('Category 5 not found');
+      expect(mockImportRepo.commitImportBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { calculateItemizedShares, getItemizedTotal } from '../../src/utils/itemization';
+
+describe('Itemization', () => {
+  const amounts = (shares: { userId: number; amount: Decimal }[]) =>
+    Object.fromEntries(shares.map(share => [share.userId, share.amount.toFixed(2)]));
+
+  describe('getItemizedTotal', () => {
+    it('should add charges and subtract discounts', () => {
+      const total = getItemizedTotal(
+        [{ name: 'Pizza', amount: 20, assigneeIds: [1] }],
+        [
+          { type: 'TAX', amount: 2 },
+          { type: 'TIP', amount: 3 },
+          { type: 'DISCOUNT', amount: 5 },
+        ]
+      );
+
+      expect(total.toFixed(2)).toBe('20.00');
+    });
+  });
+
+  describe('calculateItemizedShares', () => {
+    it('should charge each participant for their own items', () => {
+      const shares = calculateItemizedShares(new Decimal(30), [
+        { name: 'Burger', amount: 12, assigneeIds: [1] },
+        { name: 'Salad', amount: 18, assigneeIds: [2] },
+      ]);
+
+      expect(amounts(shares)).toEqual({ 1: '12.00', 2: '18.00' });
+    });
+
+    it('should share items equally between their assignees', () => {
+      const shares = calculateItemizedShares(new Decimal(40), [
+        { name: 'Burger', amount: 10, assigneeIds: [1] },
+        { name: 'Nachos', amount: 30, assigneeIds: [1, 2, 3] },
+      ]);
+
+      expect(amounts(shares)).toEqual({ 1: '20.00', 2: '10.00', 3: '10.00' });
+    });
+
+    it('should distribute tax, tip and discounts in proportion to item subtotals', () => {
+      // Subtotal 100, +10 tax, +15 tip, -5 discount: everyone pays 20% on top
+      const shares = calculateItemizedShares(
+        new Decimal(120),
+        [
+          { name: 'Steak', amount: 60, assigneeIds: [1] },
+          { name: 'Pasta', amount: 40, assigneeIds: [2] },
+        ],
+        [
+          { type: 'TAX', amount: 10 },
+          { type: 'TIP', amount: 15 },
+          { type: 'DISCOUNT', amount: 5 },
+        ]
+      );
+
+      expect(amounts(shares)).toEqual({ 1: '72.00', 2: '48.00' });
+    });
+
+    it('should round to cents and still add up to the total', () => {
+      const shares = calculateItemizedShares(
+        new Decimal('11.00'),
+        [{ name: 'Pizza', amount: 10, assigneeIds: [1, 2, 3] }],
+        [{ type: 'SERVICE_CHARGE', amount: 1 }]
+      );
+
+      // 3.666... each: the leftover cent goes to the first participant
+      expect(amounts(shares)).toEqual({ 1: '3.67', 2: '3.67', 3: '3.66' });
+      expect(shares.reduce((sum, share) => sum.plus(share.amount), new Decimal(0)).toFixed(2)).toBe(
+        '11.00'
+      );
+    });
+
+    it('should hand out every leftover cent', () => {
+      // Exact shares are 6.666..., 2.666... and 2.666..., leaving two cents after rounding down
+      const shares = calculateItemizedShares(
+        new Decimal(12),
+        [
+          { name: 'A', amount: 6, assigneeIds: [1] },
+          { name: 'B', amount: 3, assigneeIds: [1, 2] },
+          { name: 'C', amount: 3, assigneeIds: [2, 3] },
+          { name: 'D', amount: 1.5, assigneeIds: [3] },
+        ],
+        [{ type: 'DISCOUNT', amount: 1.5 }]
+      );
+
+      expect(amounts(shares)).toEqual({ 1: '6.67', 2: '2.67', 3: '2.66' });
+    });
+
+    it('should reject items that do not add up to the expense amount', () => {
+      expect(() =>
+        calculateItemizedShares(new Decimal(50), [{ name: 'Pizza', amount: 40, assigneeIds: [1] }])
+      ).toThrow('Itemized total (40) must equal expense amount (50)');
+    });
+
+    it('should reject invalid items and adjustments', () => {
+      expect(() => calculateItemizedShares(new Decimal(10), [])).toThrow(
+        'At least one item is required'
+      );
+      expect(() =>
+        calculateItemizedShares(new Decimal(10), [{ name: 'Pizza', amount: 10, assigneeIds: [] }])
+      ).toThrow('Item "Pizza" must be assigned to at least one participant');
+      expect(() =>
+        calculateItemizedShares(new Decimal(10), [
+          { name: 'Pizza', amount: 10, assigneeIds: [1, 1] },
+        ])
+      ).toThrow('Item "Pizza" lists a participant more than once');
+      expect(() =>
+        calculateItemizedShares(
+          new Decimal(10),
+          [{ name: 'Pizza', amount: 10, assigneeIds: [1] }],
+          [{ type: 'TIP', amount: -1 }]
+        )
+      ).toThrow('Adjustment amounts must be positive');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// Mock login throttle repository
+const mockLoginThrottleRepo = {
+  accountThrottleKey: (email: string) => `account:${email}`,
+  ipThrottleKey: (ipAddress: string) => `ip:${ipAddress}`,
+  clearFailedLogins: jest.fn(),
+  getLoginThrottle: jest.fn(),
+  recordFailedLogin: jest.fn(),
+};
+
+jest.mock('../../src/repositories/loginThrottleRepo', () => mockLoginThrottleRepo);
+
+// Mock security event repository
+const mockSecurityEventRepo = {
+  recordSecurityEvent: jest.fn(),
+};
+
+jest.mock('../../src/repositories/securityEventRepo', () => mockSecurityEventRepo);
+
+jest.mock('@prisma/client', () => ({
+  SecurityEventType: {
+    LOGIN_SUCCEEDED: 'LOGIN_SUCCEEDED',
+    LOGIN_FAILED: 'LOGIN_FAILED',
+    ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  },
+}));
+
+import {
+  checkLoginThrottle,
+  createThrottledResponse,
+  getLoginThrottleKeys,
+  registerFailedLogin,
+  registerSuccessfulLogin,
+} from '../../src/utils/loginProtection';
+
+describe('Login Protection Utils', () => {
+  const metadata = { ipAddress: '10.0.0.1', userAgent: 'jest' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getLoginThrottleKeys', () => {
+    it('should throttle by account and by address', () => {
+      expect(getLoginThrottleKeys('test@example.com', '10.0.0.1')).toEqual([
+        'account:test@example.com',
+        'ip:10.0.0.1',
+      ]);
+      expect(getLoginThrottleKeys('test@example.com')).toEqual(['account:test@example.com']);
+    });
+  });
+
+  describe('checkLoginThrottle', () => {
+    it('should check both keys', async () => {
+      const status = { blocked: true, locked: false, retryAfterSeconds: 4 };
+      mockLoginThrottleRepo.getLoginThrottle.mockResolvedValue(status);
+
+      expect(await checkLoginThrottle('test@example.com', metadata)).toEqual(status);
+      expect(mockLoginThrottleRepo.getLoginThrottle).toHaveBeenCalledWith([
+        'account:test@example.com',
+        'ip:10.0.0.1',
+      ]);
+    });
+  });
+
+  describe('createThrottledResponse', () => {
+    it('should explain lockouts and backoff differently', () => {
+      const locked = createThrottledResponse({
+        blocked: true,
+        locked: true,
+        retryAfterSeconds: 900,
+      });
+      const delayed = createThrottledResponse({
+        blocked: true,
+        locked: false,
+        retryAfterSeconds: 2,
+      });
+
+      expect(locked).toMatchObject({ statusCode: 429, retryAfter: 900 });
+      expect(locked.message).toContain('temporarily locked');
+      expect(delayed.message).toContain('please wait');
+    });
+  });
+
+  describe('registerFailedLogin', () => {
+    it('should log a failure and a lockout for known accounts', async () => {
+      mockLoginThrottleRepo.recordFailedLogin.mockResolvedValue(['account:test@example.com']);
+
+      await registerFailedLogin('test@example.com', metadata, 1, 'invalid_password');
+
+      expect(mockSecurityEventRepo.recordSecurityEvent).toHaveBeenCalledWith(1, 'LOGIN_FAILED', {
+        ...metadata,
+        detail: 'invalid_password',
+      });
+      expect(mockSecurityEventRepo.recordSecurityEvent).toHaveBeenCalledWith(
+        1,
+        'ACCOUNT_LOCKED',
+        metadata
+      );
+    });
+
+    it('should only count failures for unknown emails', async () => {
+      mockLoginThrottleRepo.recordFailedLogin.mockResolvedValue([]);
+
+      await registerFailedLogin('nobody@example.com', metadata, null, 'invalid_password');
+
+      expect(mockLoginThrottleRepo.recordFailedLogin).toHaveBeenCalled();
+      expect(mockSecurityEventRepo.recordSecurityEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('registerSuccessfulLogin', () => {
+    it('should clear the account counter and log the login', async () => {
+      await registerSuccessfulLogin(1, 'test@example.com', metadata, 'password');
+
+      expect(mockLoginThrottleRepo.clearFailedLogins).toHaveBeenCalledWith(
+        'account:test@example.com'
+      );
+      expect(mockSecurityEventRepo.recordSecurityEvent).toHaveBeenCalledWith(1, 'LOGIN_SUCCEEDED', {
+        ...metadata,
+        detail: 'password',
+      });
+    });
+  });
+});
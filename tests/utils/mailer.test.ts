@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createOutboxEmail } from '../../src/repositories/emailOutboxRepo';
+import {
+  createFileTransport,
+  createTransport,
+  sendMail,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  setMailTransport,
+  MailTransport,
+} from '../../src/utils/mailer';
+
+jest.mock('../../src/repositories/emailOutboxRepo', () => ({
+  createOutboxEmail: jest.fn(),
+}));
+
+const mockedCreateOutboxEmail = createOutboxEmail as jest.MockedFunction<typeof createOutboxEmail>;
+
+describe('Mailer', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTransport', () => {
+    it('should create the outbox transport by default', () => {
+      expect(createTransport().name).toBe('outbox');
+    });
+
+    it('should create the file transport', () => {
+      expect(createTransport('file').name).toBe('file');
+    });
+
+    it('should reject unknown transports', () => {
+      expect(() => createTransport('carrier-pigeon')).toThrow(
+        'Unsupported mail transport: carrier-pigeon'
+      );
+    });
+  });
+
+  describe('outbox transport', () => {
+    it('should record messages in the outbox table', async () => {
+      const message = { from: 'a@example.com', to: 'b@example.com', subject: 'Hi', text: 'Yo' };
+
+      await createTransport('outbox').send(message);
+
+      expect(mockedCreateOutboxEmail).toHaveBeenCalledWith(message);
+    });
+  });
+
+  describe('file transport', () => {
+    it('should write each message as a JSON file', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mailer-test-'));
+
+      await createFileTransport(directory).send({
+        from: 'a@example.com',
+        to: 'b@example.com',
+        subject: 'Hi',
+        text: 'Yo',
+      });
+
+      const files = await fs.readdir(directory);
+      expect(files).toHaveLength(1);
+
+      const stored = JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'));
+      expect(stored).toMatchObject({ to: 'b@example.com', subject: 'Hi', text: 'Yo' });
+
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+  });
+
+  describe('sendMail', () => {
+    it('should send through the active transport with the default sender', async () => {
+      const transport: MailTransport = { name: 'memory', send: jest.fn() };
+      setMailTransport(transport);
+
+      await sendMail({ to: 'b@example.com', subject: 'Hi', text: 'Yo' });
+
+      expect(transport.send).toHaveBeenCalledWith({
+        from: expect.any(String),
+        to: 'b@example.com',
+        subject: 'Hi',
+        text: 'Yo',
+      });
+    });
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should include the verification link and token', async () => {
+      const transport: MailTransport = { name: 'memory', send: jest.fn() };
+      setMailTransport(transport);
+
+      await sendVerificationEmail({ email: 'b@example.com', name: 'Bob' }, 'abc123');
+
+      const message = (transport.send as jest.Mock).mock.calls[0][0];
+      expect(message.to).toBe('b@example.com');
+      expect(message.subject).toBe('Verify your email address');
+      expect(message.text).toContain('/verify-email?token=abc123');
+      expect(message.text).toContain('Hi Bob');
+    });
+  });
+
+  describe('sendPasswordResetEmail', () => {
+    it('should include the reset link and expiry', async () => {
+      const transport: MailTransport = { name: 'memory', send: jest.fn() };
+      setMailTransport(transport);
+      const expiresAt = new Date('2026-01-01T12:00:00.000Z');
+
+      await sendPasswordResetEmail({ email: 'b@example.com', name: 'Bob' }, 'abc123', expiresAt);
+
+      const message = (transport.send as jest.Mock).mock.calls[0][0];
+      expect(message.to).toBe('b@example.com');
+      expect(message.subject).toBe('Reset your password');
+      expect(message.text).toContain('/reset-password?token=abc123');
+      expect(message.text).toContain('2026-01-01T12:00:00.000Z');
+    });
+  });
+});
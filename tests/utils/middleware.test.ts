@@ -1,14 +1,34 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { authenticate } from '../../src/utils/middleware';
-import { verifyToken } from '../../src/utils/auth';
+import { SystemRole } from '@prisma/client';
+import {
+  authenticate,
+  requireScope,
+  requireSystemAdmin,
+  requireUserSession,
+  requireVerifiedEmail,
+} from '../../src/utils/middleware';
+import { isApiToken, verifyToken } from '../../src/utils/auth';
 import { getUserById } from '../../src/repositories/userRepo';
+import { isSessionActive } from '../../src/repositories/sessionRepo';
+import { authenticateApiToken } from '../../src/repositories/apiTokenRepo';
 
 // Mock dependencies
 jest.mock('../../src/utils/auth');
 jest.mock('../../src/repositories/userRepo');
+jest.mock('../../src/repositories/sessionRepo', () => ({
+  isSessionActive: jest.fn(),
+}));
+jest.mock('../../src/repositories/apiTokenRepo', () => ({
+  authenticateApiToken: jest.fn(),
+}));
 
 const mockedVerifyToken = verifyToken as jest.MockedFunction<typeof verifyToken>;
 const mockedGetUserById = getUserById as jest.MockedFunction<typeof getUserById>;
+const mockedIsSessionActive = isSessionActive as jest.MockedFunction<typeof isSessionActive>;
+const mockedIsApiToken = isApiToken as jest.MockedFunction<typeof isApiToken>;
+const mockedAuthenticateApiToken = authenticateApiToken as jest.MockedFunction<
+  typeof authenticateApiToken
+>;
 
 describe('Middleware', () => {
   let mockRequest: Partial<FastifyRequest>;
@@ -154,6 +174,8 @@ describe('Middleware', () => {
         providerId: null,
         isEmailVerified: false,
         isActive: true,
+        role: SystemRole.USER,
+        defaultCurrency: 'USD',
         createdAt: new Date(),
         updatedAt: new Date(),
         lastLoginAt: null,
@@ -170,6 +192,103 @@ describe('Middleware', () => {
       expect(mockReply.send).not.toHaveBeenCalled();
     });
 
+    it('should return 401 when the token session has been revoked', async () => {
+      mockRequest.headers = {
+        authorization: 'Bearer valid.token',
+      };
+      mockedVerifyToken.mockReturnValue({
+        userId: 1,
+        email: 'test@example.com',
+        provider: 'local',
+        sessionId: 'session-1',
+      });
+      mockedGetUserById.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        name: 'Test User',
+        username: null,
+        password: null,
+        avatar: null,
+        phoneNumber: null,
+        provider: 'local',
+        providerId: null,
+        isEmailVerified: false,
+        isActive: true,
+        role: SystemRole.USER,
+        defaultCurrency: 'USD',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastLoginAt: null,
+      });
+      mockedIsSessionActive.mockResolvedValue(false);
+
+      await authenticate(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockedIsSessionActive).toHaveBeenCalledWith('session-1');
+      expect(mockReply.code).toHaveBeenCalledWith(401);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        message: 'Session has been revoked',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
+    });
+
+    it('should authenticate personal API tokens with their scopes', async () => {
+      mockRequest = { headers: { authorization: 'Bearer pat_abc' }, ip: '10.0.0.1' };
+      mockedIsApiToken.mockReturnValue(true);
+      mockedAuthenticateApiToken.mockResolvedValue({
+        id: 7,
+        userId: 1,
+        scopes: ['expenses:read'],
+      });
+      mockedGetUserById.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        name: 'Test User',
+        username: null,
+        password: null,
+        avatar: null,
+        phoneNumber: null,
+        provider: 'local',
+        providerId: null,
+        isEmailVerified: false,
+        isActive: true,
+        role: SystemRole.USER,
+        defaultCurrency: 'USD',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastLoginAt: null,
+      });
+
+      await authenticate(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockedAuthenticateApiToken).toHaveBeenCalledWith('pat_abc', '10.0.0.1');
+      expect(mockedVerifyToken).not.toHaveBeenCalled();
+      expect(mockRequest.user).toEqual({
+        id: 1,
+        email: 'test@example.com',
+        provider: 'local',
+        apiTokenId: 7,
+        scopes: ['expenses:read'],
+      });
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for revoked or expired API tokens', async () => {
+      mockRequest.headers = { authorization: 'Bearer pat_revoked' };
+      mockedIsApiToken.mockReturnValue(true);
+      mockedAuthenticateApiToken.mockResolvedValue(null);
+
+      await authenticate(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockReply.code).toHaveBeenCalledWith(401);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        message: 'Invalid, expired or revoked API token',
+        error: 'Unauthorized',
+        statusCode: 401,
+      });
+    });
+
     it('should return 401 when an error occurs during authentication', async () => {
       mockRequest.headers = {
         authorization: 'Bearer valid.token',
@@ -188,4 +307,191 @@ describe('Middleware', () => {
       });
     });
   });
+
+  describe('requireScope', () => {
+    it('should allow login sessions without scopes', async () => {
+      mockRequest.user = { id: 1, email: 'test@example.com', provider: 'local' };
+
+      await requireScope('expenses:write')(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should allow API tokens carrying the scope', async () => {
+      mockRequest.user = {
+        id: 1,
+        email: 'test@example.com',
+        provider: 'local',
+        apiTokenId: 7,
+        scopes: ['expenses:read', 'expenses:write'],
+      };
+
+      await requireScope('expenses:write')(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for API tokens missing the scope', async () => {
+      mockRequest.user = {
+        id: 1,
+        email: 'test@example.com',
+        provider: 'local',
+        apiTokenId: 7,
+        scopes: ['expenses:read'],
+      };
+
+      await requireScope('expenses:write')(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(mockReply.code).toHaveBeenCalledWith(403);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        message: 'API token is missing the required scope: expenses:write',
+        error: 'Forbidden',
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('requireUserSession', () => {
+    it('should allow login sessions', async () => {
+      mockRequest.user = { id: 1, email: 'test@example.com', provider: 'local' };
+
+      await requireUserSession(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for API tokens', async () => {
+      mockRequest.user = {
+        id: 1,
+        email: 'test@example.com',
+        provider: 'local',
+        apiTokenId: 7,
+        scopes: ['profile:write'],
+      };
+
+      await requireUserSession(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockReply.code).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('requireSystemAdmin', () => {
+    const adminUser = {
+      id: 1,
+      email: 'admin@example.com',
+      name: 'Admin User',
+      username: null,
+      password: null,
+      avatar: null,
+      phoneNumber: null,
+      provider: 'local',
+      providerId: null,
+      isEmailVerified: true,
+      isActive: true,
+      role: SystemRole.ADMIN,
+      defaultCurrency: 'USD',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastLoginAt: null,
+    };
+
+    it('should allow users with the ADMIN role', async () => {
+      mockRequest.user = { id: 1, email: 'admin@example.com', provider: 'local' };
+      mockedGetUserById.mockResolvedValue(adminUser);
+
+      await requireSystemAdmin(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockedGetUserById).toHaveBeenCalledWith(1);
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for regular users', async () => {
+      mockRequest.user = { id: 1, email: 'admin@example.com', provider: 'local' };
+      mockedGetUserById.mockResolvedValue({ ...adminUser, role: SystemRole.USER });
+
+      await requireSystemAdmin(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockReply.code).toHaveBeenCalledWith(403);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        message: 'Administrator access required',
+        error: 'Forbidden',
+        statusCode: 403,
+      });
+    });
+
+    it('should return 403 when the request is not authenticated', async () => {
+      await requireSystemAdmin(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockedGetUserById).not.toHaveBeenCalled();
+      expect(mockReply.code).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('requireVerifiedEmail', () => {
+    const verifiedUser = {
+      id: 1,
+      email: 'test@example.com',
+      name: 'Test User',
+      username: null,
+      password: null,
+      avatar: null,
+      phoneNumber: null,
+      provider: 'local',
+      providerId: null,
+      isEmailVerified: true,
+      isActive: true,
+      role: SystemRole.USER,
+      defaultCurrency: 'USD',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastLoginAt: null,
+    };
+
+    afterEach(() => {
+      delete process.env.REQUIRE_EMAIL_VERIFICATION;
+    });
+
+    it('should allow unverified users when verification is not required', async () => {
+      mockRequest.user = { id: 1, email: 'test@example.com', provider: 'local' };
+
+      await requireVerifiedEmail(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockedGetUserById).not.toHaveBeenCalled();
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for unverified users when verification is required', async () => {
+      process.env.REQUIRE_EMAIL_VERIFICATION = 'true';
+      mockRequest.user = { id: 1, email: 'test@example.com', provider: 'local' };
+      mockedGetUserById.mockResolvedValue({ ...verifiedUser, isEmailVerified: false });
+
+      await requireVerifiedEmail(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockReply.code).toHaveBeenCalledWith(403);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        message: 'Email address must be verified to perform this action',
+        error: 'Forbidden',
+        statusCode: 403,
+      });
+    });
+
+    it('should allow verified users when verification is required', async () => {
+      process.env.REQUIRE_EMAIL_VERIFICATION = 'true';
+      mockRequest.user = { id: 1, email: 'test@example.com', provider: 'local' };
+      mockedGetUserById.mockResolvedValue(verifiedUser);
+
+      await requireVerifiedEmail(mockRequest as FastifyRequest, mockReply as FastifyReply);
+
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+  });
 });
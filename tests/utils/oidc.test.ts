@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  buildAuthorizationUrl,
+  clearOidcCache,
+  createPkcePair,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  getEnabledProviders,
+  getProviderConfig,
+  verifyIdToken,
+  OidcDiscoveryDocument,
+  OidcProviderConfig,
+} from '../../src/utils/oidc';
+
+describe('OIDC Utils', () => {
+  const issuer = 'http://mock-oidc.local';
+
+  const config: OidcProviderConfig = {
+    name: 'mock',
+    issuer,
+    clientId: 'expense-svc',
+    clientSecret: 'secret',
+    scopes: 'openid email profile',
+    redirectUri: 'http://localhost:3000/api/v1/auth/oauth/mock/callback',
+  };
+
+  const discovery: OidcDiscoveryDocument = {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+  };
+
+  // Signing key of the mock provider
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' };
+
+  const signIdToken = (claims: object, options: jwt.SignOptions = {}) =>
+    jwt.sign({ sub: 'provider-user-1', nonce: 'nonce-1', ...claims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'key-1',
+      issuer,
+      audience: 'expense-svc',
+      expiresIn: '5m',
+      ...options,
+    });
+
+  const jsonResponse = (body: unknown, status: number = 200) =>
+    ({ ok: status < 400, status, json: async () => body }) as Response;
+
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    clearOidcCache();
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe('getProviderConfig', () => {
+    const env = {
+      OAUTH_PROVIDERS: 'mock, Other',
+      OAUTH_MOCK_ISSUER: issuer,
+      OAUTH_MOCK_CLIENT_ID: 'expense-svc',
+    };
+
+    it('should list enabled providers in lower case', () => {
+      expect(getEnabledProviders(env)).toEqual(['mock', 'other']);
+    });
+
+    it('should read provider settings with defaults', () => {
+      expect(getProviderConfig('mock', env)).toEqual({
+        name: 'mock',
+        issuer,
+        clientId: 'expense-svc',
+        clientSecret: undefined,
+        scopes: 'openid email profile',
+        redirectUri: 'http://localhost:3000/api/v1/auth/oauth/mock/callback',
+      });
+    });
+
+    it('should return null for disabled or incomplete providers', () => {
+      expect(getProviderConfig('google', env)).toBeNull();
+      expect(getProviderConfig('other', env)).toBeNull();
+    });
+  });
+
+  describe('createPkcePair', () => {
+    it('should derive the S256 challenge from the verifier', () => {
+      const { codeVerifier, codeChallenge } = createPkcePair();
+
+      expect(codeVerifier.length).toBeGreaterThanOrEqual(43);
+      expect(codeChallenge).toBe(
+        crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+      );
+    });
+  });
+
+  describe('buildAuthorizationUrl', () => {
+    it('should include the PKCE challenge, state and nonce', () => {
+      const url = new URL(
+        buildAuthorizationUrl(config, discovery, {
+          state: 'state-1',
+          nonce: 'nonce-1',
+          codeChallenge: 'challenge-1',
+        })
+      );
+
+      expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('client_id')).toBe('expense-svc');
+      expect(url.searchParams.get('redirect_uri')).toBe(config.redirectUri);
+      expect(url.searchParams.get('state')).toBe('state-1');
+      expect(url.searchParams.get('nonce')).toBe('nonce-1');
+      expect(url.searchParams.get('code_challenge')).toBe('challenge-1');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    });
+  });
+
+  describe('discoverProvider', () => {
+    it('should fetch and cache the discovery document', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(discovery));
+
+      expect(await discoverProvider(config)).toEqual(discovery);
+      expect(await discoverProvider(config)).toEqual(discovery);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${issuer}/.well-known/openid-configuration`,
+        undefined
+      );
+    });
+
+    it('should reject a document for a different issuer', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ ...discovery, issuer: 'http://evil.local' }));
+
+      await expect(discoverProvider(config)).rejects.toThrow('OIDC issuer mismatch');
+    });
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    it('should send the code verifier and return the ID token', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ id_token: 'id-token', access_token: 'at' }));
+
+      const result = await exchangeAuthorizationCode(config, discovery, 'code-1', 'verifier-1');
+
+      expect(result).toBe('id-token');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${issuer}/token`);
+      const body = init.body as URLSearchParams;
+      expect(body.get('grant_type')).toBe('authorization_code');
+      expect(body.get('code')).toBe('code-1');
+      expect(body.get('code_verifier')).toBe('verifier-1');
+      expect(body.get('client_secret')).toBe('secret');
+    });
+
+    it('should fail when the provider rejects the code', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: 'invalid_grant' }, 400));
+
+      await expect(
+        exchangeAuthorizationCode(config, discovery, 'code-1', 'verifier-1')
+      ).rejects.toThrow('failed with status 400');
+    });
+  });
+
+  describe('verifyIdToken', () => {
+    beforeEach(() => {
+      fetchMock.mockResolvedValue(jsonResponse({ keys: [jwk] }));
+    });
+
+    it('should return the identity from a valid token', async () => {
+      const idToken = signIdToken({
+        email: 'alice@example.com',
+        email_verified: true,
+        name: 'Alice',
+      });
+
+      const identity = await verifyIdToken(config, discovery, idToken, 'nonce-1');
+
+      expect(identity).toEqual({
+        subject: 'provider-user-1',
+        email: 'alice@example.com',
+        emailVerified: true,
+        name: 'Alice',
+        picture: undefined,
+      });
+      expect(fetchMock).toHaveBeenCalledWith(`${issuer}/jwks`, undefined);
+    });
+
+    it('should reject a nonce mismatch', async () => {
+      const idToken = signIdToken({});
+
+      await expect(verifyIdToken(config, discovery, idToken, 'other-nonce')).rejects.toThrow(
+        'Invalid ID token: nonce mismatch'
+      );
+    });
+
+    it('should reject tokens for another audience', async () => {
+      const idToken = signIdToken({}, { audience: 'someone-else' });
+
+      await expect(verifyIdToken(config, discovery, idToken, 'nonce-1')).rejects.toThrow(
+        'Invalid ID token'
+      );
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const idToken = jwt.sign({ sub: 'x', nonce: 'nonce-1' }, other.privateKey, {
+        algorithm: 'RS256',
+        keyid: 'key-1',
+        issuer,
+        audience: 'expense-svc',
+      });
+
+      await expect(verifyIdToken(config, discovery, idToken, 'nonce-1')).rejects.toThrow(
+        'Invalid ID token'
+      );
+    });
+
+    it('should reject tokens signed with a shared secret', async () => {
+      const idToken = jwt.sign({ sub: 'x', nonce: 'nonce-1' }, 'secret', {
+        algorithm: 'HS256',
+        keyid: 'key-1',
+        issuer,
+        audience: 'expense-svc',
+      });
+
+      await expect(verifyIdToken(config, discovery, idToken, 'nonce-1')).rejects.toThrow(
+        'Invalid ID token'
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { getNextOccurrence, validateSchedule } from '../../src/utils/recurrence';
+
+describe('Recurrence Utils', () => {
+  const date = (iso: string) => new Date(iso);
+
+  describe('validateSchedule', () => {
+    it('should accept RRULEs and cron expressions', () => {
+      expect(() => validateSchedule('FREQ=MONTHLY;BYMONTHDAY=1')).not.toThrow();
+      expect(() => validateSchedule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).not.toThrow();
+      expect(() => validateSchedule('0 9 1 * *')).not.toThrow();
+      expect(() => validateSchedule('*/15 8-18 * * 1-5')).not.toThrow();
+    });
+
+    it('should reject unsupported or malformed schedules', () => {
+      expect(() => validateSchedule('FREQ=HOURLY')).toThrow('Invalid schedule: FREQ must be');
+      expect(() => validateSchedule('FREQ=DAILY;COUNT=3')).toThrow('use maxOccurrences');
+      expect(() => validateSchedule('FREQ=WEEKLY;BYDAY=XX')).toThrow('unknown BYDAY value');
+      expect(() => validateSchedule('0 9 * *')).toThrow('cron expressions need 5 fields');
+      expect(() => validateSchedule('0 25 * * *')).toThrow('hour must be between 0 and 23');
+      expect(() => validateSchedule('  ')).toThrow('schedule is empty');
+    });
+  });
+
+  describe('getNextOccurrence with RRULEs', () => {
+    it('should start on the start date and keep its time of day', () => {
+      const start = date('2026-01-15T09:30:00Z');
+      const rule = 'FREQ=MONTHLY';
+
+      expect(getNextOccurrence(rule, start, date('2026-01-01T00:00:00Z'))).toEqual(start);
+      expect(getNextOccurrence(rule, start, start)).toEqual(date('2026-02-15T09:30:00Z'));
+    });
+
+    it('should move month days past the end of a month to its last day', () => {
+      const start = date('2026-01-31T00:00:00Z');
+
+      expect(getNextOccurrence('FREQ=MONTHLY', start, start)).toEqual(date('2026-02-28T00:00:00Z'));
+      expect(
+        getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=-1', start, date('2026-03-01T00:00:00Z'))
+      ).toEqual(date('2026-03-31T00:00:00Z'));
+    });
+
+    it('should honour INTERVAL and BYDAY for weekly rules', () => {
+      // 2026-01-05 is a Monday
+      const start = date('2026-01-05T08:00:00Z');
+      const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH';
+
+      expect(getNextOccurrence(rule, start, start)).toEqual(date('2026-01-08T08:00:00Z'));
+      expect(getNextOccurrence(rule, start, date('2026-01-08T08:00:00Z'))).toEqual(
+        date('2026-01-19T08:00:00Z')
+      );
+    });
+
+    it('should repeat yearly on the start date', () => {
+      const start = date('2026-03-10T00:00:00Z');
+
+      expect(getNextOccurrence('FREQ=YEARLY', start, start)).toEqual(date('2027-03-10T00:00:00Z'));
+    });
+  });
+
+  describe('getNextOccurrence with cron expressions', () => {
+    it('should find the next matching minute', () => {
+      const start = date('2026-01-01T00:00:00Z');
+
+      expect(getNextOccurrence('0 9 1 * *', start, date('2026-01-01T09:00:00Z'))).toEqual(
+        date('2026-02-01T09:00:00Z')
+      );
+      expect(getNextOccurrence('*/15 * * * *', start, date('2026-01-01T10:07:00Z'))).toEqual(
+        date('2026-01-01T10:15:00Z')
+      );
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th, or any Sunday; 2026-01-04 is a Sunday
+      const start = date('2026-01-01T00:00:00Z');
+
+      expect(getNextOccurrence('0 0 15 * 0', start, start)).toEqual(date('2026-01-04T00:00:00Z'));
+    });
+
+    it('should return null when nothing matches', () => {
+      const start = date('2026-01-01T00:00:00Z');
+
+      expect(getNextOccurrence('0 0 31 2 *', start, start)).toBeNull();
+    });
+  });
+});
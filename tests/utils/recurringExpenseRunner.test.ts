@@ -0,0 +1,143 @@
+// Mock expense and split repositories
+const mockExpenseRepo = {
+  createExpense: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseRepo', () => mockExpenseRepo);
+
+const mockExpenseSplitRepo = {
+  createExpenseSplits: jest.fn(),
+};
+
+jest.mock('../../src/repositories/expenseSplitRepo', () => mockExpenseSplitRepo);
+
+// Mock recurring expense repository, keeping the real template parsing
+const mockRecurringExpenseRepo = {
+  completeOccurrence: jest.fn(),
+  getDueRecurringExpenses: jest.fn(),
+  getOccurrenceExpense: jest.fn(),
+  getRecurringSplitTemplate: (recurringExpense: {
+    splitType: string | null;
+    splitParticipants: unknown;
+  }) =>
+    recurringExpense.splitType
+      ? {
+          splitType: recurringExpense.splitType,
+          participants: recurringExpense.splitParticipants,
+        }
+      : null,
+  recordRecurringExpenseFailure: jest.fn(),
+};
+
+jest.mock('../../src/repositories/recurringExpenseRepo', () => mockRecurringExpenseRepo);
+
+import { processDueRecurringExpenses } from '../../src/utils/recurringExpenseRunner';
+
+describe('Recurring Expense Runner', () => {
+  const now = new Date('2026-03-15T12:00:00Z');
+  const january = new Date('2026-01-01T00:00:00Z');
+  const february = new Date('2026-02-01T00:00:00Z');
+  const march = new Date('2026-03-01T00:00:00Z');
+  const april = new Date('2026-04-01T00:00:00Z');
+
+  const rent = {
+    id: 7,
+    title: 'Rent',
+    description: null,
+    amount: 900,
+    currency: null,
+    userId: 1,
+    groupId: 3,
+    categoryId: null,
+    nextRunAt: january,
+    splitType: 'EQUAL',
+    splitParticipants: [{ userId: 1 }, { userId: 2 }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExpenseRepo.createExpense.mockImplementation(async data => ({
+      id: data.occurrenceDate.getUTCMonth() + 100,
+    }));
+  });
+
+  it('should catch up on every missed occurrence in order', async () => {
+    mockRecurringExpenseRepo.getDueRecurringExpenses.mockResolvedValue([rent]);
+    mockRecurringExpenseRepo.getOccurrenceExpense.mockResolvedValue(null);
+    mockRecurringExpenseRepo.completeOccurrence
+      .mockResolvedValueOnce({ ...rent, nextRunAt: february })
+      .mockResolvedValueOnce({ ...rent, nextRunAt: march })
+      .mockResolvedValueOnce({ ...rent, nextRunAt: april });
+
+    const created = await processDueRecurringExpenses(now);
+
+    expect(created).toBe(3);
+    expect(mockExpenseRepo.createExpense).toHaveBeenCalledTimes(3);
+    expect(mockExpenseRepo.createExpense).toHaveBeenCalledWith({
+      title: 'Rent',
+      description: undefined,
+      amount: 900,
+      currency: undefined,
+      userId: 1,
+      groupId: 3,
+      categoryId: undefined,
+      paidAt: january,
+      recurringExpenseId: 7,
+      occurrenceDate: january,
+    });
+    expect(mockExpenseSplitRepo.createExpenseSplits).toHaveBeenCalledWith(
+      {
+        expenseId: 100,
+        splitType: 'EQUAL',
+        participants: [{ userId: 1 }, { userId: 2 }],
+      },
+      1
+    );
+    expect(mockRecurringExpenseRepo.completeOccurrence).toHaveBeenLastCalledWith(7, march);
+  });
+
+  it('should not create an occurrence twice after an interrupted run', async () => {
+    mockRecurringExpenseRepo.getDueRecurringExpenses.mockResolvedValue([
+      { ...rent, nextRunAt: march },
+    ]);
+    // The expense was created but the run stopped before its splits
+    mockRecurringExpenseRepo.getOccurrenceExpense.mockResolvedValue({ id: 55, splitCount: 0 });
+    mockRecurringExpenseRepo.completeOccurrence.mockResolvedValue({ ...rent, nextRunAt: april });
+
+    await processDueRecurringExpenses(now);
+
+    expect(mockExpenseRepo.createExpense).not.toHaveBeenCalled();
+    expect(mockExpenseSplitRepo.createExpenseSplits).toHaveBeenCalledWith(
+      expect.objectContaining({ expenseId: 55 }),
+      1
+    );
+  });
+
+  it('should record failures and keep the occurrence pending', async () => {
+    mockRecurringExpenseRepo.getDueRecurringExpenses.mockResolvedValue([rent]);
+    mockRecurringExpenseRepo.getOccurrenceExpense.mockResolvedValue(null);
+    mockExpenseSplitRepo.createExpenseSplits.mockRejectedValueOnce(
+      new Error('Split amounts total (500) must equal expense amount (900)')
+    );
+
+    const created = await processDueRecurringExpenses(now);
+
+    expect(created).toBe(0);
+    expect(mockRecurringExpenseRepo.recordRecurringExpenseFailure).toHaveBeenCalledWith(
+      7,
+      'Split amounts total (500) must equal expense amount (900)'
+    );
+    expect(mockRecurringExpenseRepo.completeOccurrence).not.toHaveBeenCalled();
+  });
+
+  it('should stop when another run already handled the occurrence', async () => {
+    mockRecurringExpenseRepo.getDueRecurringExpenses.mockResolvedValue([rent]);
+    mockRecurringExpenseRepo.getOccurrenceExpense.mockResolvedValue(null);
+    mockRecurringExpenseRepo.completeOccurrence.mockResolvedValue(null);
+
+    const created = await processDueRecurringExpenses(now);
+
+    expect(created).toBe(1);
+    expect(mockExpenseRepo.createExpense).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { SplitType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { calculateSplitAmounts, recalculateSplits } from '../../src/utils/splitCalculation';
+
+describe('Split calculation', () => {
+  const amounts = (splits: { userId: number; amount: Decimal }[]) =>
+    Object.fromEntries(splits.map(split => [split.userId, split.amount.toFixed(2)]));
+
+  describe('calculateSplitAmounts', () => {
+    it('should divide EQUAL splits between participants', () => {
+      const splits = calculateSplitAmounts(new Decimal(90), SplitType.EQUAL, [
+        { userId: 1 },
+        { userId: 2 },
+        { userId: 3 },
+      ]);
+
+      expect(amounts(splits)).toEqual({ 1: '30.00', 2: '30.00', 3: '30.00' });
+    });
+
+    it('should round EQUAL splits to cents so they add up to the amount', () => {
+      const splits = calculateSplitAmounts(new Decimal(100), SplitType.EQUAL, [
+        { userId: 1 },
+        { userId: 2 },
+        { userId: 3 },
+      ]);
+
+      expect(splits.map(split => split.amount.toString())).toEqual(['33.33', '33.33', '33.34']);
+      expect(splits.reduce((sum, split) => sum.plus(split.amount), new Decimal(0)).toString()).toBe(
+        '100'
+      );
+    });
+
+    it('should round PERCENTAGE splits to cents so they add up to the amount', () => {
+      const splits = calculateSplitAmounts(new Decimal('10.01'), SplitType.PERCENTAGE, [
+        { userId: 1, percentage: 50 },
+        { userId: 2, percentage: 50 },
+      ]);
+
+      expect(splits.map(split => split.amount.toString())).toEqual(['5.01', '5']);
+      expect(splits.reduce((sum, split) => sum.plus(split.amount), new Decimal(0)).toString()).toBe(
+        '10.01'
+      );
+    });
+
+    it('should reject AMOUNT splits that do not add up', () => {
+      expect(() =>
+        calculateSplitAmounts(new Decimal(90), SplitType.AMOUNT, [
+          { userId: 1, amount: 50 },
+          { userId: 2, amount: 30 },
+        ])
+      ).toThrow('Split amounts total (80) must equal expense amount (90)');
+    });
+  });
+
+  describe('recalculateSplits', () => {
+    const split = (userId: number, splitType: SplitType, percentage: number | null = null) => ({
+      userId,
+      splitType,
+      percentage,
+    });
+
+    it('should follow the new amount for EQUAL splits', () => {
+      const splits = recalculateSplits(new Decimal(120), [
+        split(1, SplitType.EQUAL),
+        split(2, SplitType.EQUAL),
+      ]);
+
+      expect(amounts(splits)).toEqual({ 1: '60.00', 2: '60.00' });
+    });
+
+    it('should keep the percentages of PERCENTAGE splits', () => {
+      const splits = recalculateSplits(new Decimal(200), [
+        split(1, SplitType.PERCENTAGE, 75),
+        split(2, SplitType.PERCENTAGE, 25),
+      ]);
+
+      expect(amounts(splits)).toEqual({ 1: '150.00', 2: '50.00' });
+    });
+
+    it('should require AMOUNT splits to be given again', () => {
+      const existing = [split(1, SplitType.AMOUNT), split(2, SplitType.AMOUNT)];
+
+      expect(() => recalculateSplits(new Decimal(100), existing)).toThrow(
+        'Split amounts must be given again when the expense amount changes'
+      );
+      expect(
+        amounts(
+          recalculateSplits(new Decimal(100), existing, [
+            { userId: 2, amount: 40 },
+            { userId: 1, amount: 60 },
+          ])
+        )
+      ).toEqual({ 1: '60.00', 2: '40.00' });
+    });
+
+    it('should not let new AMOUNT splits change the participants', () => {
+      expect(() =>
+        recalculateSplits(
+          new Decimal(100),
+          [split(1, SplitType.AMOUNT), split(2, SplitType.AMOUNT)],
+          [
+            { userId: 1, amount: 60 },
+            { userId: 3, amount: 40 },
+          ]
+        )
+      ).toThrow('Split amounts must be given for exactly the current participants');
+    });
+
+    it('should leave itemized splits to their items', () => {
+      expect(() => recalculateSplits(new Decimal(100), [split(1, SplitType.ITEMIZED)])).toThrow(
+        'Itemized splits follow their items, change the items instead'
+      );
+    });
+  });
+});
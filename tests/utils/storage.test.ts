@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalStorageDriver, createStorageDriver } from '../../src/utils/storage';
+
+describe('Storage', () => {
+  describe('createStorageDriver', () => {
+    it('should create the local driver by default', () => {
+      expect(createStorageDriver().name).toBe('local');
+    });
+
+    it('should reject unknown drivers', () => {
+      expect(() => createStorageDriver('floppy')).toThrow('Unsupported storage driver: floppy');
+    });
+  });
+
+  describe('createLocalStorageDriver', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should store, read and delete files by key', async () => {
+      const driver = createLocalStorageDriver(directory);
+
+      await driver.put('expenses/1/receipt.pdf', Buffer.from('%PDF-1.4'), 'application/pdf');
+      expect((await driver.get('expenses/1/receipt.pdf'))?.toString()).toBe('%PDF-1.4');
+
+      await driver.delete('expenses/1/receipt.pdf');
+      expect(await driver.get('expenses/1/receipt.pdf')).toBeNull();
+
+      // Deleting twice is fine
+      await driver.delete('expenses/1/receipt.pdf');
+    });
+
+    it('should refuse keys outside the storage directory', async () => {
+      const driver = createLocalStorageDriver(directory);
+
+      await expect(driver.get('../outside.txt')).rejects.toThrow('Invalid storage key');
+      await expect(driver.put('../../etc/passwd', Buffer.from('x'), 'text/plain')).rejects.toThrow(
+        'Invalid storage key'
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../../src/utils/totp';
+
+describe('TOTP Utils', () => {
+  // RFC 6238 test secret ("12345678901234567890" as ASCII)
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(base32Encode(bytes)).toBe(rfcSecret);
+      expect(base32Decode(rfcSecret).toString()).toBe('12345678901234567890');
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('gezd gnbv====').toString()).toBe(base32Decode('GEZDGNBV').toString());
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotp(rfcSecret, getTimeStep(59 * 1000))).toBe('287082');
+      expect(generateTotp(rfcSecret, getTimeStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(rfcSecret, getTimeStep(1234567890 * 1000))).toBe('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should accept the current code and return its time step', () => {
+      expect(verifyTotp(rfcSecret, '081804', now)).toBe(getTimeStep(now));
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      const previous = generateTotp(rfcSecret, getTimeStep(now) - 1);
+
+      expect(verifyTotp(rfcSecret, previous, now)).toBe(getTimeStep(now) - 1);
+    });
+
+    it('should reject old, malformed or wrong codes', () => {
+      const old = generateTotp(rfcSecret, getTimeStep(now) - 3);
+
+      expect(verifyTotp(rfcSecret, old, now)).toBeNull();
+      expect(verifyTotp(rfcSecret, 'abc123', now)).toBeNull();
+      expect(verifyTotp(rfcSecret, '0818045', now)).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should create a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should include the issuer, account and secret', () => {
+      const uri = new URL(buildOtpauthUri(rfcSecret, 'test@example.com'));
+
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe('/Expense Service:test@example.com');
+      expect(uri.searchParams.get('secret')).toBe(rfcSecret);
+      expect(uri.searchParams.get('issuer')).toBe('Expense Service');
+      expect(uri.searchParams.get('digits')).toBe('6');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate unique formatted codes', () => {
+      const codes = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    });
+
+    it('should normalize codes as typed by the user', () => {
+      expect(normalizeRecoveryCode(' ABCDE-12345 ')).toBe('abcde12345');
+    });
+  });
+});